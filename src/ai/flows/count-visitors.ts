@@ -1,16 +1,18 @@
 
 'use server';
 /**
- * @fileOverview Counts the number of visitors in a video based on their direction of movement (entering or exiting).
+ * @fileOverview Counts the number of visitors in a video based on their direction of movement (entering, exiting, or both in one pass).
  *
- * - countVisitors - A function that handles the visitor counting process.
+ * - countVisitors - A function that handles the visitor counting process, on the provider chosen by `modelSettings`.
  * - CountVisitorsInput - The input type for the countVisitors function.
  * - CountVisitorsOutput - The return type for the countVisitors function.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
-import { DirectionEnum, type Direction } from '@/ai/types';
+import { CrossingDirectionEnum, DirectionEnum, ModelSettingsSchema, type VisionProviderId } from '@/ai/types';
+import { COUNT_VISITORS_PROMPTS, PRODUCTION_PROMPT_VERSION } from '@/ai/prompts/count-visitors';
+import { resolveModelSettings, stubVisionProvider, type VisionProvider } from '@/ai/providers';
 
 const CountVisitorsInputSchema = z.object({
   videoDataUri: z
@@ -19,14 +21,38 @@ const CountVisitorsInputSchema = z.object({
       "A video of people, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     ),
   direction: DirectionEnum.describe(
-    "The direction of movement to count: 'entering' or 'exiting'."
+    "The direction of movement to count: 'entering', 'exiting', or 'both' for separate entering and exiting counts."
+  ),
+  detailed: z.boolean().optional().describe(
+    "If true, also list every counted crossing with its time offset, direction and confidence."
+  ),
+  countingRegion: z.string().optional().describe(
+    "The camera's configured counting line or region, described in words. When set, 'entering' and 'exiting' are crossings of it."
+  ),
+  promptVersion: z.string().optional().describe(
+    'Which version of the counting prompt to use (see src/ai/prompts/count-visitors.ts). Defaults to the production version.'
+  ),
+  modelSettings: ModelSettingsSchema.optional().describe(
+    'Provider, model and temperature to count with. Unset fields use the server defaults.'
   ),
 });
 export type CountVisitorsInput = z.infer<typeof CountVisitorsInputSchema>;
 
+const CrossingEventSchema = z.object({
+  offsetSec: z.number().describe('Approximate time of the crossing, in seconds from the start of the video.'),
+  direction: CrossingDirectionEnum.describe("The direction of this crossing ('entering' or 'exiting')."),
+  confidence: z.number().describe('How certain the model is that this crossing happened, from 0 to 1.'),
+});
+export type CrossingEvent = z.infer<typeof CrossingEventSchema>;
+
 const CountVisitorsOutputSchema = z.object({
-  visitorCount: z.number().describe('The number of visitors counted based on the specified direction in the video.'),
-  countedDirection: DirectionEnum.describe("The direction that was used for counting ('entering' or 'exiting')."),
+  visitorCount: z.number().describe("The number of visitors counted based on the specified direction in the video. For 'both', the sum of enteringCount and exitingCount."),
+  countedDirection: DirectionEnum.describe("The direction that was used for counting ('entering', 'exiting' or 'both')."),
+  enteringCount: z.number().optional().describe("Only for 'both': the number of people moving in the 'entering' direction."),
+  exitingCount: z.number().optional().describe("Only for 'both': the number of people moving in the 'exiting' direction."),
+  crossingEvents: z.array(CrossingEventSchema).optional().describe('Only in detailed mode: one entry per counted crossing.'),
+  confidence: z.number().describe('How certain the model is that the count is exactly right, from 0 to 1.'),
+  notes: z.string().describe('Short notes on anything that made counting harder (obstructions, crowding, poor lighting or quality). Empty if none.'),
 });
 export type CountVisitorsOutput = z.infer<typeof CountVisitorsOutputSchema>;
 
@@ -34,62 +60,22 @@ export async function countVisitors(input: CountVisitorsInput): Promise<CountVis
   return countVisitorsFlow(input);
 }
 
-const prompt = ai.definePrompt({
+/** One Genkit prompt per template version, registered as variants of `countVisitorsPrompt`. */
+const prompts = Object.fromEntries(Object.entries(COUNT_VISITORS_PROMPTS).map(([version, template]) => [version, ai.definePrompt({
   name: 'countVisitorsPrompt',
+  variant: version,
   input: {schema: CountVisitorsInputSchema},
   output: {schema: CountVisitorsOutputSchema},
-  prompt: `You are an advanced AI specializing in accurately counting distinct individuals in video footage based on their movement direction relative to a defined scene (e.g., an entrance/exit). Your primary goal is to provide the most precise count possible for 'entering' or 'exiting' movements.
-
-Follow these instructions meticulously:
-
-1.  **Identify Individuals:**
-    *   Count only clearly identifiable human figures. A person is considered identifiable if their head and a significant portion of their torso are visible and their movement path is clear for a sustained period.
-    *   Focus on adults and children who are walking independently. Do not count infants carried by others.
-    *   Distinguish individuals even if they are partially obscured temporarily (e.g., by other people or static objects), provided they re-emerge clearly and can be reasonably identified as the same person.
-    *   **Crucially, differentiate people from other moving objects.** If non-human moving objects are visible, make your best effort to exclude them from the count.
-    *   **Distance and Clarity:** Do NOT count individuals who are very far in the distance, appear very small, or are too blurry/pixelated to be confidently identified as a distinct person making a clear directional movement.
-
-2.  **Directional Movement & Counting Logic (Focus: '{{direction}}'):**
-    *   If 'Direction to count' is 'entering': Count ONLY unique individuals who are unambiguously and continuously moving in the 'entering' direction across a defined threshold or significant portion of the view relevant to an entry point.
-    *   If 'Direction to count' is 'exiting': Count ONLY unique individuals who are unambiguously and continuously moving in the 'exiting' direction across a defined threshold or significant portion of the view relevant to an exit point.
-    *   Each person should be counted only ONCE within their specified directional pass for this specific counting task.
-
-3.  **What to Exclude (Non-counts for the specified '{{direction}}'):**
-    *   Do NOT count individuals who are stationary or loitering.
-    *   Do NOT count individuals whose movement path is too short or erratic.
-    *   Do NOT count individuals whose movement direction is highly ambiguous.
-    *   Avoid double-counting for the *specified direction*.
-    *   **Reiterate: Ignore non-human moving objects if distinguishable.**
-    *   **Reiterate: Ignore very distant, small, or blurry figures.**
-
-4.  **Handling Video Quality & Ambiguity:**
-    *   If video quality is too low for a confident count for the '{{{direction}}}' task, or if no people are clearly visible and moving as specified, set 'visitorCount' to 0.
-    *   Strive for accuracy. If there is significant doubt, it is better to be conservative and NOT count.
-
-Video Input:
-Video: {{media url=videoDataUri}}
-Direction to count: {{{direction}}}
-
-Output Format:
-Please provide your response as a JSON object with two keys:
-1.  'visitorCount': The total number of distinct people counted for the '{{{direction}}}' direction, strictly adhering to ALL the above instructions.
-2.  'countedDirection': The exact value of the 'Direction to count' parameter you were given (echo this back, i.e., '{{{direction}}}').
-
-Example for entering: {"visitorCount": 12, "countedDirection": "entering"}
-Example for exiting: {"visitorCount": 5, "countedDirection": "exiting"}
-If no individuals meet the criteria, or if the video quality is insufficient for the '{{{direction}}}' task, output: {"visitorCount": 0, "countedDirection": "{{{direction}}}"}
-`,
-});
-
-const countVisitorsFlow = ai.defineFlow(
-  {
-    name: 'countVisitorsFlow',
-    inputSchema: CountVisitorsInputSchema,
-    outputSchema: CountVisitorsOutputSchema,
-  },
-  async input => {
-    // Using default model (gemini-2.0-flash via src/ai/genkit.ts)
-    const response = await prompt(input);
+  prompt: template,
+})]));
+
+const googleAIVisionProvider: VisionProvider = {
+  id: 'googleai',
+  async count(input, settings) {
+    const response = await prompts[input.promptVersion ?? PRODUCTION_PROMPT_VERSION](input, {
+      model: `googleai/${settings.model}`,
+      config: settings.temperature !== null ? { temperature: settings.temperature } : undefined,
+    });
     const structuredOutput = response.output;
 
     if (!structuredOutput) {
@@ -111,6 +97,28 @@ const countVisitorsFlow = ai.defineFlow(
       }
       throw new Error(errorMessage);
     }
+    return structuredOutput;
+  },
+};
+
+const visionProviders: Record<VisionProviderId, VisionProvider> = {
+  googleai: googleAIVisionProvider,
+  stub: stubVisionProvider,
+};
+
+const countVisitorsFlow = ai.defineFlow(
+  {
+    name: 'countVisitorsFlow',
+    inputSchema: CountVisitorsInputSchema,
+    outputSchema: CountVisitorsOutputSchema,
+  },
+  async input => {
+    const promptVersion = input.promptVersion ?? PRODUCTION_PROMPT_VERSION;
+    if (!prompts[promptVersion]) {
+      throw new Error(`Unknown prompt version "${promptVersion}". Known versions: ${Object.keys(prompts).join(', ')}.`);
+    }
+    const settings = resolveModelSettings(input.modelSettings);
+    const structuredOutput = await visionProviders[settings.provider].count(input, settings);
 
     const parsedOutput = CountVisitorsOutputSchema.safeParse(structuredOutput);
     if (!parsedOutput.success) {
@@ -125,6 +133,29 @@ const countVisitorsFlow = ai.defineFlow(
       console.warn(`Warning: LLM's countedDirection (${parsedOutput.data.countedDirection}) does not match input direction (${input.direction}). The LLM might have overridden the direction or there's a mismatch in interpretation.`);
     }
 
+    parsedOutput.data.confidence = Math.min(1, Math.max(0, parsedOutput.data.confidence > 1 ? parsedOutput.data.confidence / 100 : parsedOutput.data.confidence));
+
+    if (parsedOutput.data.crossingEvents) {
+      // Clamp to the documented ranges; the model occasionally returns e.g. percentages.
+      parsedOutput.data.crossingEvents = parsedOutput.data.crossingEvents.map(event => ({
+        ...event,
+        offsetSec: Math.max(0, event.offsetSec),
+        confidence: Math.min(1, Math.max(0, event.confidence > 1 ? event.confidence / 100 : event.confidence)),
+      }));
+      if (parsedOutput.data.crossingEvents.length !== parsedOutput.data.visitorCount) {
+        console.warn(`Warning: LLM returned ${parsedOutput.data.crossingEvents.length} crossing events for a visitorCount of ${parsedOutput.data.visitorCount}.`);
+      }
+    }
+
+    if (input.direction === 'both') {
+      const { enteringCount, exitingCount } = parsedOutput.data;
+      if (typeof enteringCount !== 'number' || typeof exitingCount !== 'number') {
+        throw new Error(`LLM output is missing enteringCount/exitingCount for 'both' mode. Received: ${JSON.stringify(structuredOutput)}`);
+      }
+      // Keep the total consistent with the per-direction counts, whatever the model summed.
+      return { ...parsedOutput.data, countedDirection: 'both' as const, visitorCount: enteringCount + exitingCount };
+    }
+
     return parsedOutput.data;
   }
 );
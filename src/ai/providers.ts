@@ -0,0 +1,94 @@
+/**
+ * @fileOverview Vision-model providers that the counting flow can run on, and how the model for a count is chosen.
+ *
+ * - VisionProvider - The interface each backend implements.
+ * - stubVisionProvider - Deterministic counts without a model, for tests and offline development.
+ * - resolveModelSettings - Merges request, camera and server settings into the settings for one count.
+ */
+import { createHash } from 'crypto';
+import { VisionProviderEnum, type ModelSettings, type VisionProviderId } from '@/ai/types';
+import type { CountVisitorsInput, CountVisitorsOutput } from '@/ai/flows/count-visitors';
+
+/** Settings with every field decided; stored on each record as `modelSettings`. */
+export interface ResolvedModelSettings {
+  provider: VisionProviderId;
+  model: string;
+  /** Null leaves the provider's default temperature. */
+  temperature: number | null;
+}
+
+export interface VisionProvider {
+  id: VisionProviderId;
+  /**
+   * Runs the counting prompt on one video and returns the model's structured output.
+   * The result is validated and normalised by the flow, so it may be malformed.
+   */
+  count(input: CountVisitorsInput, settings: ResolvedModelSettings): Promise<unknown>;
+}
+
+export const DEFAULT_MODELS: Record<VisionProviderId, string> = {
+  googleai: 'gemini-2.0-flash',
+  stub: 'stub-counter',
+};
+
+/**
+ * Merges settings layers, most specific first (e.g. request, then camera), over the server defaults
+ * from `VISION_PROVIDER`, `VISION_MODEL` and `VISION_TEMPERATURE`.
+ * A layer that switches provider drops the model chosen by less specific layers, since model names
+ * only make sense for their own provider.
+ */
+export function resolveModelSettings(...layers: (ModelSettings | null | undefined)[]): ResolvedModelSettings {
+  const envTemperature = process.env.VISION_TEMPERATURE ? Number(process.env.VISION_TEMPERATURE) : undefined;
+  const serverDefaults: ModelSettings = {
+    provider: VisionProviderEnum.parse(process.env.VISION_PROVIDER || 'googleai'),
+    model: process.env.VISION_MODEL || undefined,
+    temperature: Number.isFinite(envTemperature) ? envTemperature : undefined,
+  };
+
+  let provider = serverDefaults.provider!;
+  let model = serverDefaults.model;
+  let temperature = serverDefaults.temperature;
+  for (const layer of [...layers].reverse()) {
+    if (!layer) continue;
+    if (layer.provider && layer.provider !== provider) {
+      provider = layer.provider;
+      model = undefined;
+    }
+    model = layer.model ?? model;
+    temperature = layer.temperature ?? temperature;
+  }
+  return { provider, model: model ?? DEFAULT_MODELS[provider], temperature: temperature ?? null };
+}
+
+/**
+ * Returns counts derived from a hash of the video, so the same video always gets the same result
+ * and no API key or network is needed. The numbers mean nothing; use it to exercise the upload,
+ * job and storage path end to end.
+ */
+export const stubVisionProvider: VisionProvider = {
+  id: 'stub',
+  async count(input) {
+    const digest = createHash('sha256').update(input.videoDataUri).digest();
+    const enteringCount = digest[0] % 8;
+    const exitingCount = digest[1] % 8;
+    const visitorCount = input.direction === 'both' ? enteringCount + exitingCount : input.direction === 'entering' ? enteringCount : exitingCount;
+
+    const output: CountVisitorsOutput = {
+      visitorCount,
+      countedDirection: input.direction,
+      confidence: 0.5 + (digest[2] % 50) / 100,
+      notes: 'Counted by the stub provider; not a real count.',
+    };
+    if (input.direction === 'both') {
+      output.enteringCount = enteringCount;
+      output.exitingCount = exitingCount;
+    }
+    if (input.detailed) {
+      const directions = input.direction === 'both'
+        ? [...Array(enteringCount).fill('entering'), ...Array(exitingCount).fill('exiting')]
+        : Array(visitorCount).fill(input.direction);
+      output.crossingEvents = directions.map((direction, index) => ({ offsetSec: index + 0.5, direction, confidence: output.confidence }));
+    }
+    return output;
+  },
+};
@@ -4,6 +4,42 @@
  */
 import { z } from 'zod';
 
-export const DirectionEnum = z.enum(['entering', 'exiting']);
+/** The direction of a single crossing. */
+export const CrossingDirectionEnum = z.enum(['entering', 'exiting']);
+export type CrossingDirection = z.infer<typeof CrossingDirectionEnum>;
+
+/** What to count: one direction, or 'both' for separate entering and exiting counts in one pass. */
+export const DirectionEnum = z.enum(['entering', 'exiting', 'both']);
 export type Direction = z.infer<typeof DirectionEnum>;
 
+
+/** A point in a video frame, as fractions of the frame width (x) and height (y) from the top-left corner. */
+export const FramePointSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+});
+export type FramePoint = z.infer<typeof FramePointSchema>;
+
+/**
+ * Where a camera counts, drawn over a still frame from that camera.
+ * - `line`: 'entering' means crossing the line from the left of `start`→`end` to its right, as drawn
+ *   on screen; 'exiting' is the opposite crossing.
+ * - `polygon`: 'entering' means moving from outside the region to inside it; 'exiting' the reverse.
+ */
+export const CountingGeometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('line'), start: FramePointSchema, end: FramePointSchema }),
+  z.object({ type: z.literal('polygon'), points: z.array(FramePointSchema).min(3) }),
+]);
+export type CountingGeometry = z.infer<typeof CountingGeometrySchema>;
+
+/** Backends that can run the counting prompt; `stub` returns deterministic counts without calling a model. */
+export const VisionProviderEnum = z.enum(['googleai', 'stub']);
+export type VisionProviderId = z.infer<typeof VisionProviderEnum>;
+
+/** Which model counts a video. Unset fields fall back to the camera's settings, then the server defaults. */
+export const ModelSettingsSchema = z.object({
+  provider: VisionProviderEnum.optional(),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+});
+export type ModelSettings = z.infer<typeof ModelSettingsSchema>;
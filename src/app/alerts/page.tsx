@@ -0,0 +1,179 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, Bell, Check, Loader2 } from "lucide-react";
+import Header from "@/components/layout/Header";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { RequireRole } from "@/components/auth/RequireRole";
+import { ALERT_RULE_TYPE_LABELS, AlertRuleSettings } from "@/components/alerts/AlertRuleSettings";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+type AlertStatus = "open" | "acknowledged" | "resolved";
+
+interface AlertEntry {
+  id: string;
+  ruleName: string;
+  type: keyof typeof ALERT_RULE_TYPE_LABELS;
+  locationName: string;
+  cameraId: string | null;
+  status: AlertStatus;
+  message: string;
+  triggeredAt: string;
+  lastSeenAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  resolvedAt: string | null;
+}
+
+const STATUS_FILTER_LABELS: Record<string, string> = {
+  active: "発生中",
+  open: "未確認",
+  acknowledged: "確認済み",
+  resolved: "解決済み",
+  all: "すべて",
+};
+
+const STATUS_LABELS: Record<AlertStatus, string> = {
+  open: "未確認",
+  acknowledged: "確認済み",
+  resolved: "解決済み",
+};
+
+export default function AlertsPage() {
+  const { toast } = useToast();
+  const [alerts, setAlerts] = useState<AlertEntry[]>([]);
+  const [statusFilter, setStatusFilter] = useState("active");
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+  const { can } = useAuth();
+
+  const loadAlerts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/alerts?status=${statusFilter}`, { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+      }
+      setAlerts(data.alerts);
+    } catch (err) {
+      console.error("アラートの読み込みエラー:", err);
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  const handleAcknowledge = async (alert: AlertEntry) => {
+    setAcknowledgingId(alert.id);
+    try {
+      const response = await fetch(`/api/alerts/${alert.id}/acknowledge`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+      }
+      toast({ title: "アラートを確認しました", description: alert.ruleName });
+      loadAlerts();
+    } catch (err) {
+      toast({ variant: "destructive", title: "確認に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    } finally {
+      setAcknowledgingId(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <RequireRole role="viewer">
+          <div className="max-w-5xl mx-auto space-y-8">
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2"> <Bell className="text-primary" /> アラートセンター </CardTitle>
+                <CardDescription>
+                  アラートルールの条件を満たした地点・カメラです。確認済みにしても、条件が解消するまでは発生中として表示されます。
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="alert-status">表示</Label>
+                    <Select value={statusFilter} onValueChange={setStatusFilter}>
+                      <SelectTrigger id="alert-status"> <SelectValue /> </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(STATUS_FILTER_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {error && ( <Alert variant="destructive" className="shadow-md"> <AlertCircle className="h-4 w-4" /> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert> )}
+
+                {loading ? (
+                  <div className="flex justify-center py-8"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>発生</TableHead>
+                        <TableHead>ルール</TableHead>
+                        <TableHead>内容</TableHead>
+                        <TableHead>状態</TableHead>
+                        <TableHead className="w-24" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {alerts.length === 0 ? (
+                        <TableRow> <TableCell colSpan={5} className="text-center text-muted-foreground">該当するアラートはありません。</TableCell> </TableRow>
+                      ) : alerts.map(alert => (
+                        <TableRow key={alert.id}>
+                          <TableCell className="whitespace-nowrap">{format(parseISO(alert.triggeredAt), "yyyy-MM-dd HH:mm")}</TableCell>
+                          <TableCell>
+                            <div>{alert.ruleName}</div>
+                            <div className="text-xs text-muted-foreground">{ALERT_RULE_TYPE_LABELS[alert.type] ?? alert.type}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div>{alert.message}</div>
+                            <div className="text-xs text-muted-foreground">最終確認 {format(parseISO(alert.lastSeenAt), "MM/dd HH:mm")}</div>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            <Badge variant={alert.status === "open" ? "destructive" : alert.status === "acknowledged" ? "default" : "secondary"}>{STATUS_LABELS[alert.status]}</Badge>
+                            {alert.acknowledgedBy && <div className="text-xs text-muted-foreground">{alert.acknowledgedBy}</div>}
+                            {alert.resolvedAt && <div className="text-xs text-muted-foreground">{format(parseISO(alert.resolvedAt), "MM/dd HH:mm")}</div>}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {alert.status === "open" && can("operator") && (
+                              <Button variant="outline" size="sm" onClick={() => handleAcknowledge(alert)} disabled={acknowledgingId !== null}>
+                                {acknowledgingId === alert.id ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Check className="mr-1 h-4 w-4" />} 確認
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {can("admin") && <AlertRuleSettings onChecked={loadAlerts} />}
+          </div>
+        </RequireRole>
+      </main>
+    </div>
+  );
+}
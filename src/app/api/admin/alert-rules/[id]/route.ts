@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { AlertError, deleteAlertRule, parseAlertRuleInput, updateAlertRule } from '@/lib/alerts';
+import { errorMessage } from '@/lib/errors';
+
+/**
+ * Replaces a rule's settings. Takes the same body as creating one.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    await updateAlertRule(id, parseAlertRuleInput(body ?? {}));
+    console.log(`[API] Updated alert rule ${id}.`);
+    return NextResponse.json({ id }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AlertError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error updating alert rule ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to update alert rule due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Deletes a rule and resolves its active alert. Past alerts are kept.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    await deleteAlertRule(id);
+    console.log(`[API] Deleted alert rule ${id}.`);
+    return NextResponse.json({ id, deleted: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AlertError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error deleting alert rule ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to delete alert rule due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
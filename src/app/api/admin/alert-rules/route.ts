@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { AlertError, createAlertRule, listAlertRules, parseAlertRuleInput } from '@/lib/alerts';
+import { errorMessage } from '@/lib/errors';
+import { serializeDocument } from '@/lib/serializeDocument';
+
+/**
+ * Lists alert rules with their active alert.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const rules = await listAlertRules();
+    return NextResponse.json({
+      rules: rules.map(({ id, ...data }) => serializeDocument(id, data)),
+    }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error listing alert rules:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to list alert rules due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a rule. Body: `{ "name", "type": "countAbove" | "countBelow" | "noUpload" | "repeatedFailures",
+ * "locationName", "cameraId"?, "threshold"?, "windowHours", "emailRecipients"?, "enabled"? }`.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parseAlertRuleInput(body ?? {});
+    const id = await createAlertRule(input);
+    console.log(`[API] Created alert rule ${id} ("${input.name}", ${input.type} for ${input.locationName}).`);
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AlertError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("[API] Error creating alert rule:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to create alert rule due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
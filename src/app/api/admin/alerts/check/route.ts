@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { evaluateAlertRules } from '@/lib/alerts';
+import { errorMessage } from '@/lib/errors';
+
+/**
+ * Evaluates every enabled alert rule. Meant to be called periodically (e.g. every 15 minutes by
+ * Cloud Scheduler) so time-based rules such as `noUpload` fire without new uploads.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const results = await evaluateAlertRules();
+    console.log(`[API] Evaluated ${results.length} alert rule(s); ${results.filter(result => result.openedAlertId).length} alert(s) opened.`);
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error evaluating alert rules:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to evaluate alert rules due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { revokeApiKey } from '@/lib/apiKeys';
+import { errorMessage } from '@/lib/errors';
+
+/**
+ * Revokes a key. Revoked keys stay listed so past uploads remain attributable.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const revoked = await revokeApiKey(id);
+    if (!revoked) {
+      return NextResponse.json({ error: `API key "${id}" not found.` }, { status: 404 });
+    }
+    console.log(`[API] Revoked API key ${id}.`);
+    return NextResponse.json({ id, revoked: true }, { status: 200 });
+  } catch (error) {
+    console.error(`[API] Error revoking API key ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to revoke API key due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
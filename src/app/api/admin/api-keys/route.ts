@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { API_KEY_SCOPES, createApiKey, isApiKeyScope, listApiKeys, toApiKeySummary } from '@/lib/apiKeys';
+import { errorMessage } from '@/lib/errors';
+
+/**
+ * Lists all API keys, including revoked ones. Key hashes are never returned.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const apiKeys = await listApiKeys();
+    return NextResponse.json({ apiKeys: apiKeys.map(toApiKeySummary) }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error listing API keys:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to list API keys due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a key. Body: `{ "name": string, "allowedLocations": string[], "scopes"?: ("upload" | "read")[] }`.
+ * `scopes` defaults to `["upload"]`; `allowedLocations` is only required for upload keys.
+ * The plaintext key is only included in this response.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    const allowedLocations = Array.isArray(body?.allowedLocations)
+      ? body.allowedLocations.filter((location: unknown): location is string => typeof location === 'string' && location.trim() !== '').map((location: string) => location.trim())
+      : [];
+
+    const scopes = body?.scopes ?? ['upload'];
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      return NextResponse.json({ error: `"scopes" must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}.` }, { status: 400 });
+    }
+    if (!name || (scopes.includes('upload') && allowedLocations.length === 0)) {
+      return NextResponse.json({ error: 'Request body must include "name", and upload keys a non-empty "allowedLocations" array.' }, { status: 400 });
+    }
+
+    const uniqueScopes = Array.from(new Set(scopes));
+    const { id, key, record } = await createApiKey(name, allowedLocations, uniqueScopes);
+    console.log(`[API] Created API key ${id} ("${name}") with scopes ${uniqueScopes.join(', ')} for locations: ${allowedLocations.join(', ') || '(all, read only)'}`);
+
+    return NextResponse.json({ ...toApiKeySummary({ id, ...record }), key }, { status: 201 });
+  } catch (error) {
+    console.error("[API] Error creating API key:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to create API key due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { continueCountJobs } from '@/lib/countPipeline';
+import { errorMessage } from '@/lib/errors';
+
+/**
+ * Continues paused processing jobs for one time-bounded batch, and takes over or fails jobs whose
+ * worker stopped. Meant to be called periodically (e.g. every 5 minutes by Cloud Scheduler) where
+ * `npm run jobs:run` cannot be run from cron.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const results = await continueCountJobs();
+    console.log(`[API] Continued ${results.length} processing job(s).`);
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error continuing processing jobs:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to continue processing jobs due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
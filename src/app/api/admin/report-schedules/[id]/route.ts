@@ -0,0 +1,50 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { deleteReportSchedule, parseReportScheduleInput, ReportScheduleError, updateReportSchedule } from '@/lib/reportSchedules';
+
+/**
+ * Replaces a schedule's settings. Takes the same body as `POST /api/admin/report-schedules`.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    await updateReportSchedule(id, parseReportScheduleInput(body ?? {}));
+    console.log(`[API] Updated report schedule ${id}.`);
+    return NextResponse.json({ id }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ReportScheduleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error updating report schedule ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to update report schedule due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    await deleteReportSchedule(id);
+    console.log(`[API] Deleted report schedule ${id}.`);
+    return NextResponse.json({ id, deleted: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ReportScheduleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error deleting report schedule ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to delete report schedule due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
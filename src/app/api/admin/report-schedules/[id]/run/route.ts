@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { ReportScheduleError, runReportSchedule } from '@/lib/reportSchedules';
+
+/**
+ * Sends a schedule's report for its most recent completed period now, whether or not it is due.
+ * Body: `{ "dryRun"?: boolean }`; a dry run returns the rendered report without delivering it.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await runReportSchedule(id, { dryRun: body?.dryRun === true });
+    console.log(`[API] Ran report schedule ${id} for ${result.period.from}..${result.period.to}: ${result.status}.`);
+    return NextResponse.json(result, { status: result.status === 'failed' ? 502 : 200 });
+  } catch (error) {
+    if (error instanceof ReportScheduleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error running report schedule ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to run report schedule due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { createReportSchedule, listReportSchedules, parseReportScheduleInput, ReportScheduleError } from '@/lib/reportSchedules';
+import { serializeDocument } from '@/lib/serializeDocument';
+
+/**
+ * Lists report schedules with the outcome of their last run.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const schedules = await listReportSchedules();
+    return NextResponse.json({ schedules: schedules.map(({ id, ...data }) => serializeDocument(id, data)) }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error listing report schedules:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to list report schedules due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a schedule. Body: `{ "name", "frequency": "daily" | "weekly" | "monthly", "locations"?: string[],
+ * "delivery": "email" | "folder", "recipients"?: string[], "timeZone"?, "enabled"? }`.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parseReportScheduleInput(body ?? {});
+    const id = await createReportSchedule(input);
+    console.log(`[API] Created ${input.frequency} report schedule ${id} ("${input.name}", ${input.delivery}).`);
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReportScheduleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("[API] Error creating report schedule:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to create report schedule due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
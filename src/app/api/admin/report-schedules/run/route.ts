@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { runDueReportSchedules } from '@/lib/reportSchedules';
+
+/**
+ * Delivers every schedule that is due. Meant to be called periodically (e.g. hourly by Cloud
+ * Scheduler) where `npm run reports:run` cannot be run from cron.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const results = await runDueReportSchedules();
+    console.log(`[API] Ran ${results.length} due report schedule(s).`);
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error running due report schedules:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to run report schedules due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { ReprocessError, requestReprocessCancel } from '@/lib/reprocessing';
+
+/**
+ * Cancels a queued or running re-processing run. A paused run stops at once; a batch in progress
+ * finishes the record being counted first. Results saved so far are kept.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    await requestReprocessCancel(id);
+    console.log(`[API] Cancellation requested for re-processing run ${id}.`);
+    return NextResponse.json({ id, cancelRequested: true }, { status: 202 });
+  } catch (error) {
+    if (error instanceof ReprocessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error cancelling re-processing run ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to cancel re-processing run due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { getReprocessRun } from '@/lib/reprocessing';
+import { serializeDocument } from '@/lib/serializeDocument';
+
+/**
+ * Reports the progress of a re-processing run: counts of processed, failed, skipped and promoted
+ * records, the record being counted now, and the first failures.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const run = await getReprocessRun(id);
+    if (!run) {
+      return NextResponse.json({ error: `Re-processing run "${id}" not found.` }, { status: 404 });
+    }
+    const { id: runId, ...runData } = run;
+    return NextResponse.json(serializeDocument(runId, runData), { status: 200 });
+  } catch (error) {
+    console.error(`[API] Error reading re-processing run ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to read re-processing run due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
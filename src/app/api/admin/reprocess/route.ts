@@ -0,0 +1,59 @@
+import { NextResponse, after, type NextRequest } from 'next/server';
+import { authorizeAdmin, checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { createReprocessRun, listReprocessRuns, parseReprocessRequest, ReprocessError, runReprocessBatch } from '@/lib/reprocessing';
+import { serializeDocument } from '@/lib/serializeDocument';
+
+/**
+ * Lists the most recent re-processing runs.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const runs = await listReprocessRuns();
+    return NextResponse.json({ runs: runs.map(doc => serializeDocument(doc.id, doc.data())) }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error listing re-processing runs:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to list re-processing runs due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Re-counts stored videos with the current (or given) model and prompt. Body:
+ * `{ "recordIds"? | "location"?, "from"?, "to"?, "provider"?, "model"?, "temperature"?, "promptVersion"?, "promote"? }`.
+ * Each result is saved under the record's `count_revisions`; with `promote: true` it also becomes
+ * the record's count. Responds with 202 and a run ID; poll `GET /api/admin/reprocess/{runId}`.
+ * Records are processed in time-bounded batches, so a large run needs periodic continuation.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorizeAdmin(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const run = parseReprocessRequest(body ?? {}, auth.actor);
+    const runId = await createReprocessRun(run);
+    console.log(`[API] Queued re-processing run ${runId} (prompt ${run.promptVersion}, promote: ${run.promote}) requested by ${run.requestedBy}.`);
+
+    // The first batch starts right away; longer runs are continued by `POST /api/admin/reprocess/run` or `npm run reprocess:run`.
+    after(() => runReprocessBatch(runId));
+
+    return NextResponse.json({ runId, status: 'queued', statusUrl: `/api/admin/reprocess/${runId}` }, { status: 202 });
+  } catch (error) {
+    if (error instanceof ReprocessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("[API] Error queuing re-processing run:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to queue re-processing run due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
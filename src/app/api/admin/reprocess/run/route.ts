@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { continueReprocessRuns } from '@/lib/reprocessing';
+
+/**
+ * Continues queued and paused re-processing runs for one time-bounded batch. Meant to be called
+ * periodically (e.g. every 5 minutes by Cloud Scheduler) where `npm run reprocess:run` cannot be
+ * run from cron.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const results = await continueReprocessRuns();
+    console.log(`[API] Continued ${results.length} re-processing run(s).`);
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error continuing re-processing runs:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to continue re-processing runs due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { authenticateSession } from '@/lib/userAuth';
+import { parseUserUpdate, updateUser, UserError } from '@/lib/users';
+
+/**
+ * Changes a user's role and/or disables the account. Body: `{ "role"?, "disabled"? }`.
+ * The user's sessions are revoked. Admins cannot demote or disable themselves, so the app always
+ * keeps an admin who can undo a mistake.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ uid: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { uid } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    const update = parseUserUpdate(body ?? {});
+    const session = await authenticateSession(request);
+    if (session.ok && session.user.uid === uid && ((update.role !== undefined && update.role !== 'admin') || update.disabled)) {
+      return NextResponse.json({ error: 'You cannot remove your own admin role or disable your own account.' }, { status: 409 });
+    }
+    const user = await updateUser(uid, update);
+    console.log(`[API] Updated user ${uid}: role ${user.role}, ${user.disabled ? 'disabled' : 'enabled'}.`);
+    return NextResponse.json({ user }, { status: 200 });
+  } catch (error) {
+    if (error instanceof UserError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error updating user ${uid}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to update user due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { createUser, listUsers, parseNewUserInput, UserError } from '@/lib/users';
+
+/**
+ * Lists the Firebase Auth users with their web app role.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ users }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error listing users:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to list users due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a user. Body: `{ "email", "password", "role": "viewer" | "operator" | "admin", "displayName"? }`.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const user = await createUser(parseNewUserInput(body ?? {}));
+    console.log(`[API] Created user ${user.uid} (${user.email}) with role ${user.role}.`);
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    if (error instanceof UserError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("[API] Error creating user:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to create user due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
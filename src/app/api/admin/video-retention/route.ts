@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { purgeExpiredVideos } from '@/lib/videoRetention';
+
+/**
+ * Runs the video retention purge; meant to be called daily by a scheduler (e.g. Cloud Scheduler).
+ * Optional body: `{ "days": number, "dryRun": boolean }`. Defaults to `VIDEO_RETENTION_DAYS`.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const days = body?.days;
+    if (days !== undefined && !(Number.isInteger(days) && days >= 0)) {
+      return NextResponse.json({ error: '"days" must be a non-negative integer.' }, { status: 400 });
+    }
+
+    const result = await purgeExpiredVideos({ retentionDays: days, dryRun: body?.dryRun === true });
+    return NextResponse.json({ ...result, cutoff: result.cutoff.toISOString() }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error purging expired videos:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to purge expired videos due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
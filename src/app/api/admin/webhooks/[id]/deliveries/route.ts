@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { listWebhookDeliveries, WebhookError } from '@/lib/webhooks';
+
+/**
+ * Returns the endpoint's 50 most recent deliveries, newest first, with every attempt.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const deliveries = await listWebhookDeliveries(id);
+    return NextResponse.json({ deliveries: deliveries.map(doc => serializeDocument(doc.id, doc.data())) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error listing deliveries of webhook endpoint ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to list webhook deliveries due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
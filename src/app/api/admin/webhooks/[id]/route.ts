@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { deleteWebhookEndpoint, parseWebhookEndpointInput, updateWebhookEndpoint, WebhookError } from '@/lib/webhooks';
+
+/**
+ * Replaces an endpoint's name, URL, events and enabled flag. The signing secret is kept.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    await updateWebhookEndpoint(id, parseWebhookEndpointInput(body ?? {}));
+    console.log(`[API] Updated webhook endpoint ${id}.`);
+    return NextResponse.json({ id }, { status: 200 });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error updating webhook endpoint ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to update webhook endpoint due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Deletes an endpoint and its delivery log.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    await deleteWebhookEndpoint(id);
+    console.log(`[API] Deleted webhook endpoint ${id}.`);
+    return NextResponse.json({ id, deleted: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error deleting webhook endpoint ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to delete webhook endpoint due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { sendTestWebhook, WebhookError } from '@/lib/webhooks';
+
+/**
+ * Sends a signed `webhook.test` event to the endpoint once and returns the logged delivery.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const { id: deliveryId, ...delivery } = await sendTestWebhook(id);
+    console.log(`[API] Test webhook to ${id}: ${delivery.status}.`);
+    return NextResponse.json({ delivery: serializeDocument(deliveryId, delivery) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error sending test webhook to ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to send test webhook due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
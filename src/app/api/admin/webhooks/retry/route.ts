@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { retryPendingWebhookDeliveries } from '@/lib/webhooks';
+
+/**
+ * Sends the webhook deliveries that are due for a retry or whose worker stopped. Meant to be called
+ * periodically (e.g. every 5 minutes by Cloud Scheduler) where `npm run webhooks:retry` cannot be
+ * run from cron.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const results = await retryPendingWebhookDeliveries();
+    console.log(`[API] Retried ${results.length} webhook delivery(ies).`);
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error retrying webhook deliveries:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to retry webhook deliveries due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { errorMessage } from '@/lib/errors';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { createWebhookEndpoint, listWebhookEndpoints, parseWebhookEndpointInput, toWebhookEndpointSummary, WebhookError } from '@/lib/webhooks';
+
+/**
+ * Lists webhook endpoints with the outcome of their last delivery. Secrets are never returned.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const endpoints = await listWebhookEndpoints();
+    return NextResponse.json({
+      endpoints: endpoints.map(endpoint => {
+        const { id, ...data } = toWebhookEndpointSummary(endpoint);
+        return serializeDocument(id, data);
+      }),
+    }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error listing webhook endpoints:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to list webhook endpoints due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Creates an endpoint. Body: `{ "name", "url", "events": ["count.completed" | "count.failed" | "count.corrected"], "enabled"? }`.
+ * The signing secret is only included in this response.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parseWebhookEndpointInput(body ?? {});
+    const { id, secret } = await createWebhookEndpoint(input);
+    console.log(`[API] Created webhook endpoint ${id} ("${input.name}") for ${input.events.join(', ')}.`);
+    return NextResponse.json({ id, secret }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("[API] Error creating webhook endpoint:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to create webhook endpoint due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
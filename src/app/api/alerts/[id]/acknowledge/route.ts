@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { acknowledgeAlert, AlertError } from '@/lib/alerts';
+import { errorMessage } from '@/lib/errors';
+import { authorizeUser, sessionActor } from '@/lib/userAuth';
+
+/**
+ * Acknowledges an open alert in the name of the signed-in user.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorizeUser(request, 'operator');
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const acknowledgedBy = sessionActor(auth.user);
+
+  const { id } = await params;
+
+  try {
+    await acknowledgeAlert(id, acknowledgedBy);
+    console.log(`[API] Alert ${id} acknowledged by ${acknowledgedBy}.`);
+    return NextResponse.json({ id, status: 'acknowledged' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AlertError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error acknowledging alert ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to acknowledge alert due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { listAlerts } from '@/lib/alerts';
+import { errorMessage } from '@/lib/errors';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { checkUserAuthorization } from '@/lib/userAuth';
+
+const STATUS_FILTERS = ['active', 'open', 'acknowledged', 'resolved', 'all'] as const;
+
+/**
+ * Lists alerts for the alert center, newest first.
+ * `?status=active` (default) returns open and acknowledged alerts.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkUserAuthorization(request, 'viewer');
+  if (unauthorized) return unauthorized;
+
+  const status = request.nextUrl.searchParams.get('status') ?? 'active';
+  if (!(STATUS_FILTERS as readonly string[]).includes(status)) {
+    return NextResponse.json({ error: `"status" must be one of: ${STATUS_FILTERS.join(', ')}.` }, { status: 400 });
+  }
+
+  try {
+    const docs = await listAlerts(status as (typeof STATUS_FILTERS)[number]);
+    return NextResponse.json({ alerts: docs.map(doc => serializeDocument(doc.id, doc.data())) }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error listing alerts:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to list alerts due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { errorMessage } from '@/lib/errors';
+import { authenticateSession, createUserSession, endUserSession, SESSION_COOKIE_NAME, SESSION_DURATION_MS } from '@/lib/userAuth';
+
+/**
+ * Returns the signed-in user (`{ user: { uid, email, role } }`), or `{ user: null }`.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateSession(request);
+  return NextResponse.json({ user: auth.ok ? auth.user : null }, { status: 200 });
+}
+
+/**
+ * Signs in. Body: `{ "idToken" }` from a Firebase Auth sign-in made in the last few minutes.
+ * Sets the session cookie the other API routes check.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const idToken = typeof body?.idToken === 'string' ? body.idToken : '';
+  if (!idToken) {
+    return NextResponse.json({ error: '"idToken" is required.' }, { status: 400 });
+  }
+
+  try {
+    const session = await createUserSession(idToken);
+    if (!session.ok) {
+      return NextResponse.json({ error: session.error }, { status: session.status });
+    }
+    console.log(`[API] User ${session.user.uid} (${session.user.email}) signed in as ${session.user.role}.`);
+    const response = NextResponse.json({ user: session.user }, { status: 200 });
+    response.cookies.set(SESSION_COOKIE_NAME, session.sessionCookie, {
+      maxAge: SESSION_DURATION_MS / 1000,
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+    });
+    return response;
+  } catch (error) {
+    console.error("[API] Error creating session:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to sign in due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Signs out: revokes the session (on every device, see `endUserSession`) and clears the cookie.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    await endUserSession(request);
+  } catch (error) {
+    console.error("[API] Error revoking session:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to sign out due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+  const response = NextResponse.json({ user: null }, { status: 200 });
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return response;
+}
@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { deleteCamera, parseCameraInput, registryErrorResponse, saveCamera } from '@/lib/registry';
+
+/**
+ * Replaces a camera's display name, location, time zone and default direction.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    await saveCamera(id, parseCameraInput(body), 'update');
+    console.log(`[API] Updated camera "${id}".`);
+    return NextResponse.json({ id }, { status: 200 });
+  } catch (error) {
+    const { status, body } = registryErrorResponse(error, `update camera ${id}`);
+    return NextResponse.json(body, { status });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    await deleteCamera(id);
+    console.log(`[API] Deleted camera "${id}".`);
+    return NextResponse.json({ id, deleted: true }, { status: 200 });
+  } catch (error) {
+    const { status, body } = registryErrorResponse(error, `delete camera ${id}`);
+    return NextResponse.json(body, { status });
+  }
+}
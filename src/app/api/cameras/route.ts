@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { listCameras, parseCameraInput, registryErrorResponse, saveCamera } from '@/lib/registry';
+import { checkUserAuthorization } from '@/lib/userAuth';
+
+/**
+ * Lists registered cameras.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkUserAuthorization(request, 'viewer');
+  if (unauthorized) return unauthorized;
+
+  try {
+    const cameras = await listCameras();
+    return NextResponse.json({ cameras: cameras.map(({ id, ...data }) => serializeDocument(id, data)) }, { status: 200 });
+  } catch (error) {
+    const { status, body } = registryErrorResponse(error, 'list cameras');
+    return NextResponse.json(body, { status });
+  }
+}
+
+/**
+ * Registers a camera. Body: `{ "id", "displayName", "locationId", "timeZone", "defaultDirection" }`.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const id = typeof body?.id === 'string' ? body.id.trim() : '';
+    await saveCamera(id, parseCameraInput(body), 'create');
+    console.log(`[API] Registered camera "${id}".`);
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    const { status, body } = registryErrorResponse(error, 'register camera');
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { authenticateApiKey, authorizeApiKeyForLocation, type AuthenticatedApiKey } from '@/lib/apiKeys';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { getProcessingJob, type ProcessingJob } from '@/lib/processingJobs';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { authorizeUser } from '@/lib/userAuth';
+import { SEGMENTS_SUBCOLLECTION, VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+/**
+ * Reports the status of a processing job created by `POST /api/upload-video`.
+ * Once the job has succeeded, `result` holds the saved `visitor_logs` record with its per-segment counts.
+ * Signed-in viewers can read any job. An upload key can read the jobs it created and the jobs for
+ * locations it may upload to (a duplicate upload is answered with the earlier job, which another key
+ * may have created); any other job is reported as not found.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authorizationHeader = request.headers.get('authorization');
+  let apiKey: AuthenticatedApiKey | null = null;
+  if (authorizationHeader) {
+    const auth = await authenticateApiKey(authorizationHeader, 'upload');
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    apiKey = auth.apiKey;
+  } else {
+    const auth = await authorizeUser(request, 'viewer');
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+  }
+
+  const { id } = await params;
+
+  try {
+    const job = await getProcessingJob(id);
+    if (!job || (apiKey && !apiKeyMayReadJob(apiKey, job))) {
+      return NextResponse.json({ error: `Processing job "${id}" not found.` }, { status: 404 });
+    }
+
+    const { id: jobId, ...jobData } = job;
+    let result: Record<string, unknown> | null = null;
+    if (job.status === 'succeeded' && job.visitorLogId) {
+      const logRef = requireDbAdmin().collection(VISITOR_LOGS_COLLECTION).doc(job.visitorLogId);
+      const logSnapshot = await logRef.get();
+      if (logSnapshot.exists) {
+        const segmentsSnapshot = await logRef.collection(SEGMENTS_SUBCOLLECTION).orderBy('index').get();
+        result = {
+          ...serializeDocument(logSnapshot.id, logSnapshot.data()!),
+          segments: segmentsSnapshot.docs.map(doc => serializeDocument(doc.id, doc.data())),
+        };
+      }
+    }
+
+    return NextResponse.json({ ...serializeDocument(jobId, jobData), result }, { status: 200 });
+  } catch (error) {
+    console.error(`[API] Error reading processing job ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to read processing job due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
+
+function apiKeyMayReadJob(apiKey: AuthenticatedApiKey, job: ProcessingJob): boolean {
+  if (job.apiKeyId === apiKey.id) {
+    return true;
+  }
+  const identifiers = job.locationId ? [job.locationName, job.locationId] : [job.locationName];
+  return authorizeApiKeyForLocation(apiKey, job.locationName, identifiers).ok;
+}
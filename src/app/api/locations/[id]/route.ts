@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { deleteLocation, parseLocationInput, registryErrorResponse, saveLocation } from '@/lib/registry';
+
+/**
+ * Replaces a location's display name, time zone, default direction and aliases.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    await saveLocation(id, parseLocationInput(body), 'update');
+    console.log(`[API] Updated location "${id}".`);
+    return NextResponse.json({ id }, { status: 200 });
+  } catch (error) {
+    const { status, body } = registryErrorResponse(error, `update location ${id}`);
+    return NextResponse.json(body, { status });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    await deleteLocation(id);
+    console.log(`[API] Deleted location "${id}".`);
+    return NextResponse.json({ id, deleted: true }, { status: 200 });
+  } catch (error) {
+    const { status, body } = registryErrorResponse(error, `delete location ${id}`);
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { checkAdminAuthorization } from '@/lib/adminAuth';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { listLocations, parseLocationInput, registryErrorResponse, saveLocation } from '@/lib/registry';
+import { checkUserAuthorization } from '@/lib/userAuth';
+
+/**
+ * Lists registered locations with their aliases.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkUserAuthorization(request, 'viewer');
+  if (unauthorized) return unauthorized;
+
+  try {
+    const locations = await listLocations();
+    return NextResponse.json({ locations: locations.map(({ id, ...data }) => serializeDocument(id, data)) }, { status: 200 });
+  } catch (error) {
+    const { status, body } = registryErrorResponse(error, 'list locations');
+    return NextResponse.json(body, { status });
+  }
+}
+
+/**
+ * Registers a location. Body: `{ "id", "displayName", "timeZone", "defaultDirection", "aliases"? }`.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = await checkAdminAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const id = typeof body?.id === 'string' ? body.id.trim() : '';
+    await saveLocation(id, parseLocationInput(body), 'create');
+    console.log(`[API] Registered location "${id}".`);
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    const { status, body } = registryErrorResponse(error, 'register location');
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { errorMessage } from '@/lib/errors';
+import { exportReport, parseReportExportRequest, ReportExportError } from '@/lib/reportExport';
+import { checkUserAuthorization } from '@/lib/userAuth';
+
+/**
+ * Streams `visitor_logs` records as a report download.
+ *
+ * Query params: `format` (csv | xlsx | ndjson, default csv), `columns` (comma-separated column IDs,
+ * default the classic report columns), `bom` (CSV only, default true), and the record filters of
+ * `GET /api/visitor-logs`: `location`, `camera`, `direction`, `uploadSource`, `from`/`to`.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkUserAuthorization(request, 'viewer', { apiKeyScope: 'read' });
+  if (unauthorized) return unauthorized;
+
+  try {
+    const exportRequest = parseReportExportRequest(request.nextUrl.searchParams);
+    const { stream, contentType, fileName } = await exportReport(exportRequest);
+    console.log(`[API] Exporting ${exportRequest.format} report (${exportRequest.columns.length} column(s)).`);
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ReportExportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("[API] Error exporting report:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to export report due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
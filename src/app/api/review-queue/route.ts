@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { errorMessage } from '@/lib/errors';
+import { listPendingReviews } from '@/lib/reviews';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { checkUserAuthorization } from '@/lib/userAuth';
+
+/**
+ * Lists `visitor_logs` records flagged `needsReview` that nobody has checked yet, oldest first.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkUserAuthorization(request, 'operator');
+  if (unauthorized) return unauthorized;
+
+  try {
+    const docs = await listPendingReviews();
+    return NextResponse.json({ entries: docs.map(doc => serializeDocument(doc.id, doc.data())) }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error listing review queue:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to load the review queue due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
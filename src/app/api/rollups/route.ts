@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { errorMessage } from '@/lib/errors';
+import { listHourlyRollups, ROLLUP_TIME_ZONE } from '@/lib/rollups';
+import { checkUserAuthorization } from '@/lib/userAuth';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Returns hourly visitor counts per location from the `rollups` collection.
+ * Query params: `from` and `to`, inclusive local dates (`yyyy-MM-dd`) in ROLLUP_TIME_ZONE.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkUserAuthorization(request, 'viewer', { apiKeyScope: 'read' });
+  if (unauthorized) return unauthorized;
+
+  const from = request.nextUrl.searchParams.get('from') ?? '';
+  const to = request.nextUrl.searchParams.get('to') ?? '';
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    return NextResponse.json({ error: '"from" and "to" must be dates in yyyy-MM-dd format.' }, { status: 400 });
+  }
+
+  try {
+    const buckets = await listHourlyRollups(from, to);
+    return NextResponse.json({
+      timeZone: ROLLUP_TIME_ZONE,
+      buckets: buckets.map(bucket => ({ ...bucket, start: bucket.start.toISOString() })),
+    }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error reading rollups:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to read rollups due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -1,14 +1,53 @@
-
-import { NextResponse, type NextRequest } from 'next/server';
-import { countVisitors, type CountVisitorsInput, type CountVisitorsOutput } from '@/ai/flows/count-visitors';
-import type { Direction } from '@/ai/types';
-import { dbAdmin } from '@/lib/firebaseAdmin';
+import { NextResponse, after, type NextRequest } from 'next/server';
+import { DirectionEnum, ModelSettingsSchema, type Direction } from '@/ai/types';
+import { resolveModelSettings } from '@/ai/providers';
 import { Timestamp } from 'firebase-admin/firestore';
 import { parseISO, isValid as isValidDateFn, formatISO } from 'date-fns';
+import { errorMessage } from '@/lib/errors';
+import { createProcessingJob } from '@/lib/processingJobs';
+import { runCountJob } from '@/lib/countPipeline';
+import { RegistryError, resolveUploadLocation, type ResolvedLocation } from '@/lib/registry';
+import { authorizeUploadLocation, resolveUploadCaller } from '@/lib/uploadAuth';
+import { consumeUploadSession, linkUploadSessionToJob, removeStoredUpload, storeDirectUpload, uploadErrorResponse } from '@/lib/uploadSessions';
+import {
+  claimIdempotencyKey,
+  claimUploadContent,
+  duplicateUploadResponseBody,
+  findDuplicateUpload,
+  hashVideoFile,
+  IdempotencyKeyError,
+  linkUploadClaim,
+  parseIdempotencyKey,
+  releaseUploadClaim,
+  type DuplicateUpload,
+  type UploadClaim,
+} from '@/lib/uploadDeduplication';
 
 // Add a new, unmistakable version marker to force redeploy and confirm it's running.
-console.log("--- MODULE LEVEL: /api/upload-video/route.ts re-loaded (v_TIMEZONE_FIX_0712) ---");
+console.log("--- MODULE LEVEL: /api/upload-video/route.ts re-loaded (v_ASYNC_JOBS) ---");
+
+/**
+ * Answers a repeated upload with the earlier job and, once counted, its record.
+ */
+async function duplicateResponse(duplicate: DuplicateUpload) {
+  return NextResponse.json(await duplicateUploadResponseBody(duplicate), { status: 200 });
+}
 
+/**
+ * Accepts a video upload and queues it for counting.
+ * The video is either sent inline as `videoFile` or, for large files, uploaded beforehand through
+ * the resumable `/api/uploads` protocol and referenced here by `uploadId`.
+ * The location is given by a registered `cameraId`, which also supplies the default direction, or by a
+ * free-text `locationName`, which is mapped to a registered location through its aliases when possible.
+ * `provider`, `model` and `temperature` override the camera's model settings for this upload.
+ * API clients authenticate with `Authorization: Bearer <api key>` and may only upload for their key's locations.
+ * Web UI uploads (`uploadSource=ui`, no header) need a signed-in user with the operator role.
+ * Responds with 202 and a job ID immediately; poll `GET /api/jobs/{jobId}` for progress and the final record.
+ * Repeats are not counted again: a request with an `Idempotency-Key` already used by the same caller, or a
+ * video with the same content as an earlier upload for the same camera, gets 200 with `duplicate: true`
+ * and the earlier job and record. While the earlier request is still uploading and has no job yet,
+ * the repeat gets 409.
+ */
 export async function POST(request: NextRequest) {
   const handlerStartTime = new Date().toISOString();
   console.log(`[API] POST /api/upload-video received at ${handlerStartTime}`);
@@ -16,30 +55,106 @@ export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const videoFile = formData.get('videoFile') as File | null;
-    const direction = formData.get('direction') as Direction | null;
-    const uploadSource = (formData.get('uploadSource') as 'ui' | 'api' | null) || 'api';
+    const uploadId = formData.get('uploadId') as string | null;
+    const requestedDirection = formData.get('direction') as Direction | null;
+    const cameraId = formData.get('cameraId') as string | null;
+    const requestedUploadSource = formData.get('uploadSource') as string | null;
+    // Optional: 'true' to also record per-crossing events.
+    const detailed = formData.get('detailed') === 'true';
     const locationNameStr = formData.get('locationName') as string | null;
     // Get the single, standardized timestamp field from both UI and Python script
     const recordingTimestamp = formData.get('recordingTimestamp') as string | null;
+    // Optional model overrides; unset fields come from the camera, then the server defaults.
+    const requestedProvider = formData.get('provider') as string | null;
+    const requestedModel = formData.get('model') as string | null;
+    const requestedTemperature = formData.get('temperature') as string | null;
 
     console.log('[API] --- FORM DATA RECEIVED ---');
+    console.log(`  - uploadId: "${uploadId}"`);
+    console.log(`  - cameraId: "${cameraId}"`);
     console.log(`  - locationName: "${locationNameStr}"`);
-    console.log(`  - direction: "${direction}"`);
-    console.log(`  - uploadSource: "${uploadSource}"`);
+    console.log(`  - direction: "${requestedDirection}"`);
+    console.log(`  - detailed: ${detailed}`);
+    console.log(`  - uploadSource: "${requestedUploadSource}"`);
     console.log(`  - recordingTimestamp: "${recordingTimestamp}"`);
+    console.log(`  - provider/model/temperature: "${requestedProvider}" / "${requestedModel}" / "${requestedTemperature}"`);
     console.log('-----------------------------');
 
-    if (!videoFile || !direction || !locationNameStr || !recordingTimestamp) {
+    if ((!videoFile && !uploadId) || (!cameraId && !locationNameStr) || !recordingTimestamp) {
         const missingFields = [
-            !videoFile && "videoFile",
-            !direction && "direction",
-            !locationNameStr && "locationName",
+            !videoFile && !uploadId && "videoFile (or uploadId)",
+            !cameraId && !locationNameStr && "cameraId (or locationName)",
             !recordingTimestamp && "recordingTimestamp"
         ].filter(Boolean).join(", ");
         
         console.error(`[API] Validation Error: Missing required fields: ${missingFields}.`);
         return NextResponse.json({ error: `Missing required form data fields: ${missingFields}` }, { status: 400 });
     }
+
+    if (requestedDirection && !DirectionEnum.safeParse(requestedDirection).success) {
+        console.error(`[API] Validation Error: Invalid direction "${requestedDirection}".`);
+        return NextResponse.json({ error: `Invalid direction "${requestedDirection}". Expected one of: ${DirectionEnum.options.join(", ")}` }, { status: 400 });
+    }
+
+    const modelOverrides = ModelSettingsSchema.safeParse({
+        provider: requestedProvider || undefined,
+        model: requestedModel || undefined,
+        temperature: requestedTemperature ? Number(requestedTemperature) : undefined,
+    });
+    if (!modelOverrides.success) {
+        const problems = modelOverrides.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        console.error(`[API] Validation Error: Invalid model settings: ${problems}`);
+        return NextResponse.json({ error: `Invalid model settings: ${problems}` }, { status: 400 });
+    }
+
+    // The upload source and location are only trusted once the caller is authenticated.
+    const callerResult = await resolveUploadCaller(request, requestedUploadSource);
+    if (!callerResult.ok) {
+        console.error(`[API] Upload rejected (${callerResult.status}): ${callerResult.error}`);
+        return NextResponse.json({ error: callerResult.error }, { status: callerResult.status });
+    }
+
+    let location: ResolvedLocation;
+    try {
+        location = await resolveUploadLocation({ cameraId, locationName: locationNameStr });
+    } catch (e) {
+        if (e instanceof RegistryError) {
+            console.error(`[API] Validation Error: ${e.message}`);
+            return NextResponse.json({ error: e.message }, { status: e.status });
+        }
+        throw e;
+    }
+    console.log(`[API] Resolved location: ${JSON.stringify(location)}`);
+
+    const direction = requestedDirection ?? location.defaultDirection;
+    if (!direction) {
+        console.error('[API] Validation Error: No direction given and the location has no default.');
+        return NextResponse.json({ error: 'Missing required form data fields: direction' }, { status: 400 });
+    }
+
+    const modelSettings = resolveModelSettings(modelOverrides.data, location.modelSettings);
+    console.log(`[API] Counting with ${modelSettings.provider}/${modelSettings.model} (temperature: ${modelSettings.temperature ?? 'default'}).`);
+
+    const locationAuth = authorizeUploadLocation(callerResult.caller, location, locationNameStr);
+    if (!locationAuth.ok) {
+        console.error(`[API] Upload rejected (${locationAuth.status}): ${locationAuth.error}`);
+        return NextResponse.json({ error: locationAuth.error }, { status: locationAuth.status });
+    }
+    const { uploadSource, apiKey } = locationAuth.caller;
+    const apiKeyId = apiKey ? apiKey.id : null;
+    if (apiKey) {
+        console.log(`[API] Authenticated with API key ${apiKey.id} ("${apiKey.name}").`);
+    }
+
+    let idempotencyKey: string | null;
+    try {
+        idempotencyKey = parseIdempotencyKey(request.headers.get('idempotency-key'));
+    } catch (e) {
+        if (e instanceof IdempotencyKeyError) {
+            return NextResponse.json({ error: e.message }, { status: e.status });
+        }
+        throw e;
+    }
     
     // --- ROBUST DATE/TIME PARSING ---
     let recordingStartDateTimeForFirestore: Timestamp;
@@ -63,57 +178,127 @@ export async function POST(request: NextRequest) {
     }
     // --- END DATE/TIME PARSING ---
 
-    const videoBuffer = await videoFile.arrayBuffer();
-    const videoDataUri = `data:${videoFile.type};base64,${Buffer.from(videoBuffer).toString('base64')}`;
+    // Claims on the idempotency key and the video that are not linked to a job yet; released if the
+    // request fails, so a retry is not locked out.
+    const pendingClaims: UploadClaim[] = [];
+    try {
+      // A retried request is answered before its video is read again. The key is claimed atomically,
+      // so a retry sent while the first request is still uploading cannot pass as a new upload.
+      if (idempotencyKey) {
+          const keyClaim = await claimIdempotencyKey(apiKeyId, idempotencyKey);
+          if (!keyClaim.claimed) {
+              if (!keyClaim.duplicate) {
+                  console.log(`[API] Idempotency-Key "${idempotencyKey}" is in use by a request that is still uploading.`);
+                  return NextResponse.json({ error: 'A request with this Idempotency-Key is still being uploaded. Retry later with the same key.' }, { status: 409 });
+              }
+              console.log(`[API] Idempotency-Key "${idempotencyKey}" was already used for job ${keyClaim.duplicate.jobId}; not processing again.`);
+              return duplicateResponse(keyClaim.duplicate);
+          }
+          pendingClaims.push(keyClaim.claim);
+      }
 
-    const aiInput: CountVisitorsInput = { videoDataUri, direction };
-    console.log(`[API] Calling Genkit flow 'countVisitors' for location: ${locationNameStr}`); 
-    const aiResponse: CountVisitorsOutput = await countVisitors(aiInput);
-    console.log(`[API] Genkit flow 'countVisitors' responded:`, JSON.stringify(aiResponse));
+      // Put the video into temp storage; the request body is gone once the response is sent.
+      let videoPath: string;
+      let videoFileName: string;
+      let mimeType: string;
+      try {
+          if (uploadId) {
+              const { session, videoPath: assembledPath } = await consumeUploadSession(uploadId, locationAuth.caller);
+              videoPath = assembledPath;
+              videoFileName = session.fileName;
+              mimeType = session.mimeType;
+          } else {
+              videoPath = await storeDirectUpload(videoFile!);
+              videoFileName = videoFile!.name;
+              mimeType = videoFile!.type;
+          }
+      } catch (e) {
+          const { status, body } = uploadErrorResponse(e, 'read uploaded video');
+          return NextResponse.json(body, { status });
+      }
+      const discardVideo = () => removeStoredUpload(videoPath).catch((e: unknown) => {
+          console.warn(`[API] Could not remove temp video ${videoPath}:`, errorMessage(e));
+      });
 
-    if (!aiResponse || typeof aiResponse.visitorCount !== 'number') {
-        throw new Error("Invalid or incomplete response from AI processing flow.");
-    }
+      const contentHash = await hashVideoFile(videoPath);
+      const scope = { cameraId: location.cameraId, locationName: location.locationName };
+      let duplicate = await findDuplicateUpload(contentHash, scope);
+      if (!duplicate) {
+          // Claimed atomically per camera and content, so two concurrent uploads of the same clip are not both counted.
+          const contentClaim = await claimUploadContent(contentHash, scope);
+          if (contentClaim.claimed) {
+              pendingClaims.push(contentClaim.claim);
+          } else if (contentClaim.duplicate) {
+              duplicate = contentClaim.duplicate;
+          } else {
+              console.log(`[API] "${videoFileName}" is already being uploaded for this camera by another request.`);
+              await discardVideo();
+              return NextResponse.json({ error: 'The same video is already being uploaded for this camera. Retry later.' }, { status: 409 });
+          }
+      }
+      if (duplicate) {
+          console.log(`[API] "${videoFileName}" has the same content as job ${duplicate.jobId} / record ${duplicate.visitorLogId}; not processing again.`);
+          await discardVideo();
+          if (uploadId && duplicate.jobId) {
+              await linkUploadSessionToJob(uploadId, duplicate.jobId);
+          }
+          if (duplicate.jobId) {
+              for (const claim of pendingClaims.splice(0)) {
+                  await linkUploadClaim(claim, duplicate.jobId);
+              }
+          }
+          return duplicateResponse(duplicate);
+      }
 
-    const processingTimestampForFirestore = Timestamp.now();
-
-    const dataToSave = {
-      visitorCount: aiResponse.visitorCount,
-      countedDirection: aiResponse.countedDirection,
-      processingTimestamp: processingTimestampForFirestore,
-      videoFileName: videoFile.name, 
-      recordingStartDateTime: recordingStartDateTimeForFirestore,
-      uploadSource: uploadSource,
-      locationName: locationNameStr,
-    };
-
-    console.log("[API] Saving to Firestore:", {
-        ...dataToSave,
-        recordingStartDateTime: formatISO(parsedDate), // Log the ISO string for clarity
-    });
-    
-    const docRef = await dbAdmin.collection('visitor_logs').add(dataToSave);
-    console.log(`[API] Saved to Firestore. Doc ID: ${docRef.id}`);
-
-    const responsePayload = {
-      id: docRef.id,
-      ...dataToSave,
-      processingTimestamp: processingTimestampForFirestore.toDate().toISOString(),
-      recordingStartDateTime: recordingStartDateTimeForFirestore.toDate().toISOString(),
-    };
-    
-    return NextResponse.json(responsePayload, { status: 200 });
+      const jobId = await createProcessingJob({
+        videoFileName,
+        mimeType,
+        locationName: location.locationName,
+        locationId: location.locationId,
+        cameraId: location.cameraId,
+        timeZone: location.timeZone,
+        countingGeometry: location.countingGeometry,
+        modelSettings,
+        recordingStartDateTime: recordingStartDateTimeForFirestore,
+        contentHash,
+        direction,
+        detailed,
+        uploadSource,
+        apiKeyId,
+      });
+      console.log(`[API] Queued processing job ${jobId} for "${videoFileName}" (location: ${location.locationName}).`);
+      for (const claim of pendingClaims.splice(0)) {
+        await linkUploadClaim(claim, jobId);
+      }
+      if (uploadId) {
+        await linkUploadSessionToJob(uploadId, jobId);
+      }
+
+      after(() => runCountJob(jobId, videoPath));
+
+      return NextResponse.json({
+        jobId,
+        status: 'queued',
+        statusUrl: `/api/jobs/${jobId}`,
+      }, { status: 202 });
+    } finally {
+      for (const claim of pendingClaims) {
+        await releaseUploadClaim(claim).catch((e: unknown) => {
+          console.warn(`[API] Could not release upload claim ${claim.ref.path}:`, errorMessage(e));
+        });
+      }
+    }
 
-  } catch (error: any) {
+  } catch (error) {
     console.error(`[API] --- UNHANDLED ERROR in /api/upload-video ---`);
-    console.error("[API] Error Message:", error.message);
-    if (error.stack) {
+    console.error("[API] Error Message:", errorMessage(error));
+    if (error instanceof Error && error.stack) {
         console.error("[API] Error Stack:", error.stack);
     }
     
     return NextResponse.json({
         error: 'Failed to process video due to an internal server error.',
-        messageFromServer: error.message || 'An unknown error occurred.',
+        messageFromServer: errorMessage(error) || 'An unknown error occurred.',
     }, { status: 500 });
   }
 }
@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { resolveUploadCaller } from '@/lib/uploadAuth';
+import { storeUploadChunk, toUploadSessionStatus, uploadErrorResponse } from '@/lib/uploadSessions';
+
+/**
+ * Stores chunk `index` (0-based). The request body is the raw chunk bytes; it is streamed to disk,
+ * and rejected with 413 as soon as it is larger than the chunk (by `Content-Length`, or while reading).
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string; index: string }> }) {
+  const { id, index } = await params;
+  try {
+    const callerResult = await resolveUploadCaller(request, 'ui');
+    if (!callerResult.ok) {
+      return NextResponse.json({ error: callerResult.error }, { status: callerResult.status });
+    }
+    const contentLengthHeader = request.headers.get('content-length');
+    const contentLength = contentLengthHeader !== null && /^\d+$/.test(contentLengthHeader) ? Number(contentLengthHeader) : null;
+    const session = await storeUploadChunk(id, callerResult.caller, Number(index), request.body, contentLength);
+    return NextResponse.json(toUploadSessionStatus(id, session), { status: 200 });
+  } catch (error) {
+    const { status, body } = uploadErrorResponse(error, `store chunk ${index}`);
+    return NextResponse.json(body, { status });
+  }
+}
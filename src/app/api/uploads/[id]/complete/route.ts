@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { resolveUploadCaller } from '@/lib/uploadAuth';
+import { completeUploadSession, toUploadSessionStatus, uploadErrorResponse } from '@/lib/uploadSessions';
+
+/**
+ * Assembles the uploaded chunks into one file. Fails with 409 while chunks are missing.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const callerResult = await resolveUploadCaller(request, 'ui');
+    if (!callerResult.ok) {
+      return NextResponse.json({ error: callerResult.error }, { status: callerResult.status });
+    }
+    const session = await completeUploadSession(id, callerResult.caller);
+    console.log(`[API] Upload session ${id} completed (${session.fileSize} bytes).`);
+    return NextResponse.json(toUploadSessionStatus(id, session), { status: 200 });
+  } catch (error) {
+    const { status, body } = uploadErrorResponse(error, 'complete upload');
+    return NextResponse.json(body, { status });
+  }
+}
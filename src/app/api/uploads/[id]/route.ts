@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { resolveUploadCaller } from '@/lib/uploadAuth';
+import { getUploadSession, toUploadSessionStatus, uploadErrorResponse } from '@/lib/uploadSessions';
+
+/**
+ * Reports which chunks the server has acknowledged, so an interrupted upload can resume at `nextChunkIndex`.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    // Without an Authorization header the caller is a signed-in operator and can only see web UI sessions.
+    const callerResult = await resolveUploadCaller(request, 'ui');
+    if (!callerResult.ok) {
+      return NextResponse.json({ error: callerResult.error }, { status: callerResult.status });
+    }
+    const session = await getUploadSession(id, callerResult.caller);
+    return NextResponse.json(toUploadSessionStatus(id, session), { status: 200 });
+  } catch (error) {
+    const { status, body } = uploadErrorResponse(error, 'read upload session');
+    return NextResponse.json(body, { status });
+  }
+}
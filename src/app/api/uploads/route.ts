@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { RegistryError, resolveUploadLocation, type ResolvedLocation } from '@/lib/registry';
+import { authorizeUploadLocation, resolveUploadCaller } from '@/lib/uploadAuth';
+import { duplicateUploadResponseBody, findDuplicateUpload } from '@/lib/uploadDeduplication';
+import { createUploadSession, toUploadSessionStatus, uploadErrorResponse } from '@/lib/uploadSessions';
+
+const CONTENT_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Starts a resumable upload. Body: `{ "fileName", "fileSize", "mimeType", "uploadSource"? }`.
+ * Upload the chunks with `PUT /api/uploads/{uploadId}/chunks/{index}`, then call
+ * `POST /api/uploads/{uploadId}/complete` and pass `uploadId` to `POST /api/upload-video`.
+ * Clients that know the file's hex SHA-256 can send it as `contentHash`, with the `cameraId` or
+ * `locationName` they will upload for: if that video was already uploaded for the camera, the
+ * response is 200 with `duplicate: true` and the earlier job and record (as from `/api/upload-video`),
+ * and no session is started. The hash is only used for this check; `/api/upload-video` hashes the
+ * assembled file itself.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const fileName = typeof body?.fileName === 'string' ? body.fileName : '';
+    const fileSize = Number(body?.fileSize);
+    const mimeType = typeof body?.mimeType === 'string' ? body.mimeType : '';
+    if (!fileName || !mimeType || !body?.fileSize) {
+      return NextResponse.json({ error: 'Request body must include "fileName", "fileSize" and "mimeType".' }, { status: 400 });
+    }
+    const contentHash = typeof body?.contentHash === 'string' ? body.contentHash.toLowerCase() : null;
+    if (body?.contentHash !== undefined && (!contentHash || !CONTENT_HASH_PATTERN.test(contentHash))) {
+      return NextResponse.json({ error: '"contentHash" must be the hex SHA-256 of the file.' }, { status: 400 });
+    }
+    const cameraId = typeof body?.cameraId === 'string' && body.cameraId ? body.cameraId : null;
+    const locationName = typeof body?.locationName === 'string' && body.locationName ? body.locationName : null;
+    if (contentHash && !cameraId && !locationName) {
+      return NextResponse.json({ error: '"contentHash" needs the "cameraId" or "locationName" the video is uploaded for.' }, { status: 400 });
+    }
+
+    const callerResult = await resolveUploadCaller(request, body?.uploadSource ?? null);
+    if (!callerResult.ok) {
+      return NextResponse.json({ error: callerResult.error }, { status: callerResult.status });
+    }
+
+    if (contentHash) {
+      let location: ResolvedLocation;
+      try {
+        location = await resolveUploadLocation({ cameraId, locationName });
+      } catch (e) {
+        if (e instanceof RegistryError) {
+          return NextResponse.json({ error: e.message }, { status: e.status });
+        }
+        throw e;
+      }
+      const locationAuth = authorizeUploadLocation(callerResult.caller, location, locationName);
+      if (!locationAuth.ok) {
+        return NextResponse.json({ error: locationAuth.error }, { status: locationAuth.status });
+      }
+      const duplicate = await findDuplicateUpload(contentHash, { cameraId: location.cameraId, locationName: location.locationName });
+      if (duplicate) {
+        console.log(`[API] "${fileName}" has the same content as job ${duplicate.jobId} / record ${duplicate.visitorLogId}; not starting an upload.`);
+        return NextResponse.json(await duplicateUploadResponseBody(duplicate), { status: 200 });
+      }
+    }
+
+    const { id, session } = await createUploadSession({ fileName, fileSize, mimeType }, callerResult.caller);
+    console.log(`[API] Started upload session ${id} for "${fileName}" (${fileSize} bytes, ${session.totalChunks} chunks).`);
+    return NextResponse.json(toUploadSessionStatus(id, session), { status: 201 });
+  } catch (error) {
+    const { status, body } = uploadErrorResponse(error, 'start upload');
+    return NextResponse.json(body, { status });
+  }
+}
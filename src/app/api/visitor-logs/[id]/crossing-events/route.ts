@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { Timestamp } from 'firebase-admin/firestore';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { checkUserAuthorization } from '@/lib/userAuth';
+import { CROSSING_EVENTS_SUBCOLLECTION, VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+/** One day; with whole minutes this also bounds the number of histogram buckets per recording. */
+const MAX_BUCKET_MINUTES = 24 * 60;
+
+/**
+ * Lists the crossing events of a detailed-mode recording in chronological order.
+ * With `?bucketMinutes=N` (a whole number of minutes, e.g. 5 or 15) the response also includes a histogram of crossings
+ * per N-minute window, split by direction.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkUserAuthorization(request, 'viewer');
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  const bucketMinutesParam = request.nextUrl.searchParams.get('bucketMinutes');
+  const bucketMinutes = bucketMinutesParam ? Number(bucketMinutesParam) : null;
+  if (bucketMinutes !== null && (!Number.isInteger(bucketMinutes) || bucketMinutes < 1 || bucketMinutes > MAX_BUCKET_MINUTES)) {
+    return NextResponse.json({ error: `"bucketMinutes" must be a whole number from 1 to ${MAX_BUCKET_MINUTES}.` }, { status: 400 });
+  }
+
+  try {
+    const logRef = requireDbAdmin().collection(VISITOR_LOGS_COLLECTION).doc(id);
+    const logSnapshot = await logRef.get();
+    if (!logSnapshot.exists) {
+      return NextResponse.json({ error: `Visitor log "${id}" not found.` }, { status: 404 });
+    }
+
+    const eventsSnapshot = await logRef.collection(CROSSING_EVENTS_SUBCOLLECTION).orderBy('offsetSec').get();
+    const events = eventsSnapshot.docs.map(doc => serializeDocument(doc.id, doc.data()));
+
+    let histogram: Array<{ bucketStartOffsetSec: number; bucketStart: string | null; entering: number; exiting: number }> | null = null;
+    if (bucketMinutes !== null) {
+      const bucketSec = bucketMinutes * 60;
+      const durationSec = typeof logSnapshot.get('durationSec') === 'number' ? logSnapshot.get('durationSec') as number : 0;
+      const lastOffset = Math.max(durationSec, ...eventsSnapshot.docs.map(doc => doc.get('offsetSec') as number));
+      const recordingStart = logSnapshot.get('recordingStartDateTime');
+      const recordingStartMs = recordingStart instanceof Timestamp ? recordingStart.toMillis() : null;
+
+      histogram = Array.from({ length: Math.floor(lastOffset / bucketSec) + 1 }, (_, i) => ({
+        bucketStartOffsetSec: i * bucketSec,
+        bucketStart: recordingStartMs !== null ? new Date(recordingStartMs + i * bucketSec * 1000).toISOString() : null,
+        entering: 0,
+        exiting: 0,
+      }));
+      for (const doc of eventsSnapshot.docs) {
+        const bucket = histogram[Math.floor((doc.get('offsetSec') as number) / bucketSec)];
+        if (doc.get('direction') === 'entering') bucket.entering++;
+        else if (doc.get('direction') === 'exiting') bucket.exiting++;
+      }
+    }
+
+    return NextResponse.json({ visitorLogId: id, events, histogram }, { status: 200 });
+  } catch (error) {
+    console.error(`[API] Error reading crossing events for ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to read crossing events due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { errorMessage } from '@/lib/errors';
+import { GroundTruthError, listGroundTruth, parseTallyInput, saveGroundTruth } from '@/lib/groundTruth';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { authorizeUser, checkUserAuthorization, sessionActor } from '@/lib/userAuth';
+
+function errorResponse(error: unknown, action: string, id: string) {
+  if (error instanceof GroundTruthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`[API] Error trying to ${action} ground truth for ${id}:`, errorMessage(error));
+  return NextResponse.json({
+    error: `Failed to ${action} ground truth due to an internal server error.`,
+    messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+  }, { status: 500 });
+}
+
+/**
+ * Lists the manual tally sessions of a record, newest first.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkUserAuthorization(request, 'viewer');
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const docs = await listGroundTruth(id);
+    return NextResponse.json({ entries: docs.map(doc => serializeDocument(doc.id, doc.data())) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error, 'list', id);
+  }
+}
+
+/**
+ * Saves a manual tally. Body: `{ "taps": [{ "offsetSec", "direction" }], "videoDurationSec"?, "note"? }`.
+ * The entering/exiting counts are derived from the taps; the signed-in user is recorded as `countedBy`.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorizeUser(request, 'operator');
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  try {
+    const input = parseTallyInput(await request.json().catch(() => null), sessionActor(auth.user));
+    const { id: groundTruthId, record } = await saveGroundTruth(id, input);
+    console.log(`[API] Ground truth ${groundTruthId} for ${id} saved by "${record.countedBy}": ${record.enteringCount} entering, ${record.exitingCount} exiting.`);
+    return NextResponse.json(serializeDocument(groundTruthId, record), { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'save', id);
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse, after, type NextRequest } from 'next/server';
+import { errorMessage } from '@/lib/errors';
+import { ReviewError, submitReview, type ReviewDecision } from '@/lib/reviews';
+import { authorizeUser, sessionActor } from '@/lib/userAuth';
+import { notifyCountCorrected } from '@/lib/webhooks';
+
+function toCount(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Resolves a flagged record. Body: `{ "action": "accept" }` or
+ * `{ "action": "override", "visitorCount" }` (`enteringCount`/`exitingCount` for
+ * bidirectional records), with an optional `note`. The signed-in user is recorded as the reviewer.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorizeUser(request, 'operator');
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const reviewerName = sessionActor(auth.user);
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const note = typeof body?.note === 'string' && body.note.trim() ? body.note.trim() : undefined;
+
+  let decision: ReviewDecision;
+  if (body?.action === 'accept') {
+    decision = { action: 'accept', reviewerName, note };
+  } else if (body?.action === 'override') {
+    const visitorCount = toCount(body.visitorCount);
+    const enteringCount = toCount(body.enteringCount);
+    const exitingCount = toCount(body.exitingCount);
+    if (visitorCount === null && (enteringCount === null || exitingCount === null)) {
+      return NextResponse.json({ error: 'An override needs a non-negative integer "visitorCount" (or "enteringCount" and "exitingCount").' }, { status: 400 });
+    }
+    decision = {
+      action: 'override',
+      reviewerName,
+      note,
+      counts: { visitorCount: visitorCount ?? (enteringCount ?? 0) + (exitingCount ?? 0), enteringCount, exitingCount },
+    };
+  } else {
+    return NextResponse.json({ error: '"action" must be "accept" or "override".' }, { status: 400 });
+  }
+
+  try {
+    await submitReview(id, decision);
+    console.log(`[API] Review of ${id} submitted by "${reviewerName}": ${decision.action}.`);
+    if (decision.action === 'override') {
+      after(() => notifyCountCorrected(id, { action: 'review', changedBy: reviewerName, reason: note }));
+    }
+    return NextResponse.json({ id, reviewStatus: decision.action === 'accept' ? 'accepted' : 'overridden' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Error submitting review for ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to submit review due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
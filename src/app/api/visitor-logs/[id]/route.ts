@@ -0,0 +1,125 @@
+import { NextResponse, after, type NextRequest } from 'next/server';
+import { parseISO, isValid as isValidDateFn } from 'date-fns';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { authorizeUser, checkUserAuthorization, sessionActor } from '@/lib/userAuth';
+import { deleteVisitorLog, updateVisitorLog, VisitorLogEditError, type VisitorLogChanges } from '@/lib/visitorLogEdits';
+import { COUNT_REVISIONS_SUBCOLLECTION, REVISIONS_SUBCOLLECTION, VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+import { notifyCountCorrected } from '@/lib/webhooks';
+
+function errorResponse(error: unknown, action: string, id: string) {
+  if (error instanceof VisitorLogEditError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`[API] Error trying to ${action} visitor log ${id}:`, errorMessage(error));
+  return NextResponse.json({
+    error: `Failed to ${action} visitor log due to an internal server error.`,
+    messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+  }, { status: 500 });
+}
+
+/**
+ * Returns a record with its revision history and re-processing results (`countRevisions`), newest first.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkUserAuthorization(request, 'viewer');
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const docRef = requireDbAdmin().collection(VISITOR_LOGS_COLLECTION).doc(id);
+    const snapshot = await docRef.get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: `Visitor log "${id}" not found.` }, { status: 404 });
+    }
+    const revisions = await docRef.collection(REVISIONS_SUBCOLLECTION).orderBy('changedAt', 'desc').get();
+    const countRevisions = await docRef.collection(COUNT_REVISIONS_SUBCOLLECTION).orderBy('createdAt', 'desc').get();
+    return NextResponse.json({
+      ...serializeDocument(snapshot.id, snapshot.data()!),
+      revisions: revisions.docs.map(doc => serializeDocument(doc.id, doc.data())),
+      countRevisions: countRevisions.docs.map(doc => serializeDocument(doc.id, doc.data())),
+    }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error, 'read', id);
+  }
+}
+
+/**
+ * Corrects a record. Body: `{ "reason"?, ...fields }` where fields are any of
+ * `locationName`, `recordingStartDateTime` (ISO 8601), `visitorCount`, or `enteringCount`/`exitingCount`
+ * for bidirectional records. Every change is appended to the record's `revisions`, signed by the
+ * signed-in user.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorizeUser(request, 'operator');
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const changedBy = sessionActor(auth.user);
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Request body must be a JSON object.' }, { status: 400 });
+  }
+  const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null;
+
+  const changes: VisitorLogChanges = {};
+  if (body.locationName !== undefined) {
+    if (typeof body.locationName !== 'string' || !body.locationName.trim()) {
+      return NextResponse.json({ error: '"locationName" must be a non-empty string.' }, { status: 400 });
+    }
+    changes.locationName = body.locationName.trim();
+  }
+  if (body.recordingStartDateTime !== undefined) {
+    const parsedDate = typeof body.recordingStartDateTime === 'string' ? parseISO(body.recordingStartDateTime) : null;
+    if (!parsedDate || !isValidDateFn(parsedDate)) {
+      return NextResponse.json({ error: '"recordingStartDateTime" must be an ISO 8601 date/time.' }, { status: 400 });
+    }
+    changes.recordingStartDateTime = parsedDate;
+  }
+  for (const field of ['visitorCount', 'enteringCount', 'exitingCount'] as const) {
+    if (body[field] !== undefined) {
+      if (!Number.isInteger(body[field]) || body[field] < 0) {
+        return NextResponse.json({ error: `"${field}" must be a non-negative integer.` }, { status: 400 });
+      }
+      changes[field] = body[field];
+    }
+  }
+
+  try {
+    const changed = await updateVisitorLog(id, changes, changedBy, reason);
+    console.log(`[API] Visitor log ${id} ${changed ? 'updated' : 'unchanged'} by "${changedBy}".`);
+    if (changed) {
+      after(() => notifyCountCorrected(id, { action: 'update', changedBy, reason }));
+    }
+    return NextResponse.json({ id, changed }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error, 'update', id);
+  }
+}
+
+/**
+ * Soft-deletes a record. Body: `{ "reason"? }`. The record and its revisions are kept for audits.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorizeUser(request, 'operator');
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const changedBy = sessionActor(auth.user);
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const reason = typeof body?.reason === 'string' && body.reason.trim() ? body.reason.trim() : null;
+
+  try {
+    await deleteVisitorLog(id, changedBy, reason);
+    console.log(`[API] Visitor log ${id} deleted by "${changedBy}".`);
+    after(() => notifyCountCorrected(id, { action: 'delete', changedBy, reason }));
+    return NextResponse.json({ id, deleted: true }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error, 'delete', id);
+  }
+}
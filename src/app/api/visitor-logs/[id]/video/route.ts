@@ -0,0 +1,78 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { checkUserAuthorization } from '@/lib/userAuth';
+import { openVideo, videoSize } from '@/lib/videoStorage';
+import { VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+/**
+ * Resolves a single `bytes=` range against the video size: `start-end`, `start-` or the suffix
+ * `-length`. Returns null to serve the whole video (no header, or one this route does not handle,
+ * such as several ranges), and 'unsatisfiable' for inverted ranges or ranges past the end.
+ */
+function parseRange(header: string | null, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  if (!match[1]) {
+    const length = Number(match[2]);
+    return length > 0 && size > 0 ? { start: Math.max(size - length, 0), end: size - 1 } : 'unsatisfiable';
+  }
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : size - 1;
+  if (start >= size || end < start) return 'unsatisfiable';
+  return { start, end: Math.min(end, size - 1) };
+}
+
+/**
+ * Streams the stored video of a record. Supports `Range` requests so the browser player can seek.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const unauthorized = await checkUserAuthorization(request, 'viewer');
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  try {
+    const snapshot = await requireDbAdmin().collection(VISITOR_LOGS_COLLECTION).doc(id).get();
+    const storagePath = snapshot.exists ? snapshot.get('videoStoragePath') as string | null : null;
+    if (!storagePath) {
+      return NextResponse.json({ error: `No stored video for visitor log "${id}".` }, { status: 404 });
+    }
+    const contentType = (snapshot.get('videoMimeType') as string | undefined) || 'video/mp4';
+
+    const size = await videoSize(storagePath);
+    if (size === null) {
+      return NextResponse.json({ error: `Stored video for visitor log "${id}" is missing.` }, { status: 404 });
+    }
+
+    const range = parseRange(request.headers.get('range'), size);
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+    }
+    const video = await openVideo(storagePath, range ?? undefined);
+    if (!video) {
+      return NextResponse.json({ error: `Stored video for visitor log "${id}" is missing.` }, { status: 404 });
+    }
+
+    if (range) {
+      return new NextResponse(video.stream, {
+        status: 206,
+        headers: {
+          'Content-Type': contentType,
+          'Content-Length': String(range.end - range.start + 1),
+          'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+          'Accept-Ranges': 'bytes',
+        },
+      });
+    }
+    return new NextResponse(video.stream, {
+      status: 200,
+      headers: { 'Content-Type': contentType, 'Content-Length': String(video.size), 'Accept-Ranges': 'bytes' },
+    });
+  } catch (error) {
+    console.error(`[API] Error streaming video for ${id}:`, errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to stream video due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { errorMessage } from '@/lib/errors';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { ROLLUP_TIME_ZONE } from '@/lib/rollups';
+import { checkUserAuthorization } from '@/lib/userAuth';
+import { aggregateVisitorLogs, parseVisitorLogPageRequest, queryVisitorLogPage, VisitorLogQueryError } from '@/lib/visitorLogQueries';
+
+/**
+ * Lists `visitor_logs` records one page at a time.
+ *
+ * Query params: `location`, `camera`, `direction`, `uploadSource`, `from`/`to` (ISO 8601, on the recording
+ * start), `sort` (recordingStartDateTime | processingTimestamp | visitorCount | locationName),
+ * `order` (asc | desc), `limit` (default 25, max 100) and `cursor` (the `nextCursor` of the previous page).
+ *
+ * With `groupBy=hour` or `groupBy=day` (requires `from` and `to`), returns `buckets` of summed counts
+ * per location instead of records.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = await checkUserAuthorization(request, 'viewer', { apiKeyScope: 'read' });
+  if (unauthorized) return unauthorized;
+
+  try {
+    const pageRequest = parseVisitorLogPageRequest(request.nextUrl.searchParams);
+    if (pageRequest.groupBy) {
+      const buckets = await aggregateVisitorLogs(pageRequest, pageRequest.groupBy);
+      return NextResponse.json({
+        groupBy: pageRequest.groupBy,
+        defaultTimeZone: ROLLUP_TIME_ZONE,
+        buckets: buckets.map(bucket => ({ ...bucket, start: bucket.start.toISOString() })),
+      }, { status: 200 });
+    }
+    const { docs, nextCursor } = await queryVisitorLogPage(pageRequest);
+    return NextResponse.json({
+      entries: docs.map(doc => serializeDocument(doc.id, doc.data())),
+      nextCursor,
+    }, { status: 200 });
+  } catch (error) {
+    if (error instanceof VisitorLogQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("[API] Error listing visitor logs:", errorMessage(error));
+    return NextResponse.json({
+      error: 'Failed to list visitor logs due to an internal server error.',
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { format, parseISO, startOfDay, startOfToday, subDays } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { AlertCircle, BarChart3, Clock, Loader2, TrendingDown, TrendingUp, Users } from "lucide-react";
+import Header from "@/components/layout/Header";
+import { RequireRole } from "@/components/auth/RequireRole";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DIRECTION_LABELS } from "@/lib/visitorLogs";
+import { buildTimeSeries, busiestHour, compareWithLastWeek, totalsByLocation, type CountSample, type Granularity } from "@/lib/visitorStats";
+
+const RANGE_OPTIONS = [
+  { days: 7, label: "過去7日間" },
+  { days: 30, label: "過去30日間" },
+  { days: 90, label: "過去90日間" },
+  { days: 365, label: "過去1年間" },
+];
+
+const GRANULARITY_LABELS: Record<Granularity, string> = {
+  hour: "時間別",
+  day: "日別",
+  week: "週別",
+  month: "月別",
+};
+
+const BUCKET_FORMATS: Record<Granularity, string> = {
+  hour: "MM/dd HH:00",
+  day: "MM/dd",
+  week: "MM/dd〜",
+  month: "yyyy/MM",
+};
+
+/** Hourly buckets are only offered for short ranges; a year would be 8,760 bars. */
+const MAX_HOURLY_RANGE_DAYS = 7;
+
+/** Locations beyond the busiest few are stacked together so the chart colours stay distinct. */
+const MAX_CHARTED_LOCATIONS = 4;
+
+const totalChartConfig = {
+  total: { label: "訪問者数", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const directionChartConfig = {
+  entering: { label: DIRECTION_LABELS.entering, color: "hsl(var(--chart-2))" },
+  exiting: { label: DIRECTION_LABELS.exiting, color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+function KpiCard({ icon: Icon, title, value, detail }: { icon: React.ComponentType<{ className?: string }>; title: string; value: string; detail: string }) {
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-2">
+        <CardDescription className="flex items-center gap-2"> <Icon className="h-4 w-4 text-primary" /> {title} </CardDescription>
+        <CardTitle className="text-3xl text-accent">{value}</CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm text-muted-foreground">{detail}</CardContent>
+    </Card>
+  );
+}
+
+export default function DashboardPage() {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [granularity, setGranularity] = useState<Granularity>("day");
+  const [samples, setSamples] = useState<CountSample[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Always load at least eight days so the week-over-week comparison has data.
+  const loadFrom = useMemo(() => subDays(startOfToday(), Math.max(rangeDays, 8)), [rangeDays]);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ from: format(loadFrom, "yyyy-MM-dd"), to: format(new Date(), "yyyy-MM-dd") });
+    let cancelled = false;
+    setLoading(true);
+    fetch(`/api/rollups?${params}`, { cache: "no-store" })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+        }
+        if (!cancelled) {
+          setSamples(data.buckets.map((bucket: CountSample & { start: string }) => ({ ...bucket, start: parseISO(bucket.start) })));
+          setError(null);
+        }
+      })
+      .catch(err => {
+        console.error("ダッシュボードデータの読み込みエラー:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [loadFrom]);
+
+  useEffect(() => {
+    if (granularity === "hour" && rangeDays > MAX_HOURLY_RANGE_DAYS) setGranularity("day");
+  }, [granularity, rangeDays]);
+
+  const now = new Date();
+  const rangeFrom = subDays(startOfToday(), rangeDays - 1);
+  const rangeSamples = samples.filter(sample => sample.start >= rangeFrom);
+  const series = buildTimeSeries(rangeSamples, granularity, { from: rangeFrom, to: now });
+  const topLocations = totalsByLocation(rangeSamples).slice(0, MAX_CHARTED_LOCATIONS).map(entry => entry.locationName);
+  const weekComparison = compareWithLastWeek(samples, now);
+  const peak = busiestHour(rangeSamples);
+  const rangeTotal = rangeSamples.reduce((sum, sample) => sum + sample.total, 0);
+  const rangeRecordingCount = rangeSamples.reduce((sum, sample) => sum + sample.recordingCount, 0);
+
+  // Chart config keys become CSS variable names, so locations are keyed by index rather than by name.
+  const locationChartConfig: ChartConfig = {
+    ...Object.fromEntries(topLocations.map((name, index) => [`loc${index}`, { label: name, color: `hsl(var(--chart-${index + 1}))` }])),
+    other: { label: "その他", color: "hsl(var(--chart-5))" },
+  };
+
+  const chartData = series.map(bucket => {
+    const row: Record<string, string | number> = {
+      label: format(bucket.start, BUCKET_FORMATS[granularity]),
+      total: bucket.total,
+      entering: bucket.entering,
+      exiting: bucket.exiting,
+      other: 0,
+    };
+    topLocations.forEach((name, index) => { row[`loc${index}`] = 0; });
+    for (const [name, count] of Object.entries(bucket.byLocation)) {
+      const index = topLocations.indexOf(name);
+      const key = index >= 0 ? `loc${index}` : "other";
+      row[key] = (row[key] as number) + count;
+    }
+    return row;
+  });
+  const hasOtherLocations = chartData.some(row => (row.other as number) > 0);
+
+  const changeLabel = weekComparison.changeRatio === null
+    ? "先週の同じ曜日はデータがありません"
+    : `先週${format(subDays(startOfDay(now), 7), "M/d")}: ${weekComparison.lastWeek}人 (${weekComparison.changeRatio >= 0 ? "+" : ""}${Math.round(weekComparison.changeRatio * 100)}%)`;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <RequireRole role="viewer">
+          <div className="max-w-6xl mx-auto space-y-8">
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2"> <BarChart3 className="text-primary" /> ダッシュボード </CardTitle>
+                <CardDescription>録画開始日時ごとの訪問者数です。サーバーで集計済みの時間別データを表示します。削除された記録は含まれません。</CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>期間</Label>
+                  <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value))}>
+                    <SelectTrigger> <SelectValue /> </SelectTrigger>
+                    <SelectContent>
+                      {RANGE_OPTIONS.map(option => <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>集計単位</Label>
+                  <Select value={granularity} onValueChange={(value) => setGranularity(value as Granularity)}>
+                    <SelectTrigger> <SelectValue /> </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(key => (
+                        <SelectItem key={key} value={key} disabled={key === "hour" && rangeDays > MAX_HOURLY_RANGE_DAYS}>{GRANULARITY_LABELS[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            {error && ( <Alert variant="destructive" className="shadow-md"> <AlertCircle className="h-4 w-4" /> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert> )}
+
+            {loading ? (
+              <div className="flex justify-center py-8"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <KpiCard
+                    icon={weekComparison.changeRatio !== null && weekComparison.changeRatio < 0 ? TrendingDown : TrendingUp}
+                    title="本日の訪問者数"
+                    value={`${weekComparison.today}人`}
+                    detail={changeLabel}
+                  />
+                  <KpiCard
+                    icon={Clock}
+                    title="最も混雑する時間帯"
+                    value={peak ? `${peak.hour}:00〜${peak.hour + 1}:00` : "N/A"}
+                    detail={peak ? `期間中の合計 ${peak.total}人` : "期間中のデータがありません"}
+                  />
+                  <KpiCard
+                    icon={Users}
+                    title="期間中の訪問者数"
+                    value={`${rangeTotal}人`}
+                    detail={`${RANGE_OPTIONS.find(option => option.days === rangeDays)?.label} ・ ${rangeRecordingCount}件の録画`}
+                  />
+                </div>
+
+                <Card className="shadow-lg">
+                  <CardHeader> <CardTitle className="text-xl">訪問者数の推移 ({GRANULARITY_LABELS[granularity]})</CardTitle> </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={totalChartConfig} className="h-72 w-full aspect-auto">
+                      <BarChart data={chartData}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="total" fill="var(--color-total)" radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                  <Card className="shadow-lg">
+                    <CardHeader> <CardTitle className="text-xl">地点別</CardTitle> </CardHeader>
+                    <CardContent>
+                      <ChartContainer config={locationChartConfig} className="h-72 w-full aspect-auto">
+                        <BarChart data={chartData}>
+                          <CartesianGrid vertical={false} />
+                          <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <ChartLegend content={<ChartLegendContent />} />
+                          {topLocations.map((_, index) => <Bar key={index} dataKey={`loc${index}`} stackId="location" fill={`var(--color-loc${index})`} />)}
+                          {hasOtherLocations && <Bar dataKey="other" stackId="location" fill="var(--color-other)" />}
+                        </BarChart>
+                      </ChartContainer>
+                    </CardContent>
+                  </Card>
+                  <Card className="shadow-lg">
+                    <CardHeader> <CardTitle className="text-xl">方向別</CardTitle> </CardHeader>
+                    <CardContent>
+                      <ChartContainer config={directionChartConfig} className="h-72 w-full aspect-auto">
+                        <BarChart data={chartData}>
+                          <CartesianGrid vertical={false} />
+                          <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <ChartLegend content={<ChartLegendContent />} />
+                          <Bar dataKey="entering" stackId="direction" fill="var(--color-entering)" />
+                          <Bar dataKey="exiting" stackId="direction" fill="var(--color-exiting)" />
+                        </BarChart>
+                      </ChartContainer>
+                    </CardContent>
+                  </Card>
+                </div>
+              </>
+            )}
+          </div>
+        </RequireRole>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { addDays, format, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { AlertCircle, ArrowDown, ArrowUp, ArrowUpDown, CalendarDays, ChevronLeft, ChevronRight, ClipboardList, History, Loader2, X } from "lucide-react";
+import Header from "@/components/layout/Header";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { RequireRole } from "@/components/auth/RequireRole";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DeleteVisitorLogDialog, EditVisitorLogDialog, type EditableVisitorLog } from "@/components/visitor-logs/VisitorLogActions";
+import { DIRECTION_LABELS, directionalCounts } from "@/lib/visitorLogs";
+
+type SortField = "recordingStartDateTime" | "processingTimestamp" | "visitorCount" | "locationName";
+
+interface HistoryEntry {
+  id: string;
+  videoFileName: string;
+  locationName?: string;
+  recordingStartDateTime?: string | null;
+  processingTimestamp?: string;
+  countedDirection: string;
+  visitorCount: number;
+  enteringCount?: number | null;
+  exitingCount?: number | null;
+  uploadSource?: string;
+  confidence?: number | null;
+  qualityNotes?: string | null;
+  countStatus?: string;
+  reviewStatus?: string | null;
+  crossingEventCount?: number;
+}
+
+interface RevisionEntry {
+  id: string;
+  action: string;
+  changedBy: string;
+  changedAt: string;
+  reason: string | null;
+  changes: Record<string, { previous: unknown; current: unknown }>;
+}
+
+const PAGE_SIZE = 25;
+const ALL = "all";
+
+const REVISION_ACTION_LABELS: Record<string, string> = {
+  update: "修正",
+  delete: "削除",
+  review: "レビュー",
+  reprocess: "再処理",
+};
+
+function toEditable(entry: HistoryEntry): EditableVisitorLog {
+  return {
+    id: entry.id,
+    videoFileName: entry.videoFileName,
+    locationName: entry.locationName,
+    recordingStartDateTime: entry.recordingStartDateTime ? parseISO(entry.recordingStartDateTime) : null,
+    countedDirection: entry.countedDirection,
+    visitorCount: entry.visitorCount,
+    enteringCount: entry.enteringCount ?? null,
+    exitingCount: entry.exitingCount ?? null,
+  };
+}
+
+function formatTimestamp(value: string | null | undefined) {
+  return value ? format(parseISO(value), "yyyy-MM-dd HH:mm") : "N/A";
+}
+
+function formatRevisionValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return String(value);
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 py-1 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium text-right break-all">{children}</span>
+    </div>
+  );
+}
+
+/**
+ * Drawer with every field of a record and its revision history, loaded from `GET /api/visitor-logs/{id}`.
+ */
+function HistoryDetailSheet({ entryId, onClose, onChanged }: { entryId: string | null; onClose: () => void; onChanged: () => void }) {
+  const [detail, setDetail] = useState<(HistoryEntry & { revisions: RevisionEntry[] }) | null>(null);
+  const { can } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDetail = useCallback(async (id: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/visitor-logs/${id}`, { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+      }
+      setDetail(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setDetail(null);
+    if (entryId) loadDetail(entryId);
+  }, [entryId, loadDetail]);
+
+  const counts = detail ? directionalCounts(detail) : null;
+
+  return (
+    <Sheet open={entryId !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="break-all">{detail?.videoFileName ?? "記録の詳細"}</SheetTitle>
+          <SheetDescription>{entryId}</SheetDescription>
+        </SheetHeader>
+        {loading && <div className="flex justify-center py-8"> <Loader2 className="h-6 w-6 animate-spin text-primary" /> </div>}
+        {error && ( <Alert variant="destructive" className="mt-4"> <AlertCircle className="h-4 w-4" /> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert> )}
+        {detail && counts && (
+          <div className="mt-4 space-y-6">
+            <div className="divide-y">
+              <DetailRow label="地点名">{detail.locationName || "N/A"}</DetailRow>
+              <DetailRow label="録画開始">{formatTimestamp(detail.recordingStartDateTime)}</DetailRow>
+              <DetailRow label="処理日時">{formatTimestamp(detail.processingTimestamp)}</DetailRow>
+              <DetailRow label="方向">{DIRECTION_LABELS[detail.countedDirection] ?? detail.countedDirection}</DetailRow>
+              <DetailRow label="訪問者数">{detail.visitorCount}</DetailRow>
+              {detail.countedDirection === "both" && (
+                <>
+                  <DetailRow label="R→L / L→R">{counts.entering} / {counts.exiting}</DetailRow>
+                  <DetailRow label="純流入">{counts.net}</DetailRow>
+                </>
+              )}
+              <DetailRow label="アップロード元">{detail.uploadSource ?? "N/A"}</DetailRow>
+              <DetailRow label="確信度">{detail.confidence != null ? `${Math.round(detail.confidence * 100)}%` : "N/A"}</DetailRow>
+              {detail.crossingEventCount !== undefined && <DetailRow label="通過イベント数">{detail.crossingEventCount}</DetailRow>}
+              {detail.countStatus === "partial" && <DetailRow label="状態"><Badge variant="destructive">一部セグメント失敗</Badge></DetailRow>}
+              {detail.reviewStatus && <DetailRow label="レビュー">{detail.reviewStatus}</DetailRow>}
+            </div>
+            {detail.qualityNotes && (
+              <div className="text-sm whitespace-pre-line p-3 border rounded-md bg-background"> <span className="font-medium">AIのメモ: </span>{detail.qualityNotes}</div>
+            )}
+            {can("operator") && (
+              <div className="flex gap-2">
+                <EditVisitorLogDialog record={toEditable(detail)} onSaved={() => { loadDetail(detail.id); onChanged(); }} />
+                <DeleteVisitorLogDialog record={toEditable(detail)} onDeleted={() => { onClose(); onChanged(); }} />
+                <Button asChild variant="outline" size="sm"> <Link href={`/tally/${detail.id}`}> <ClipboardList className="mr-1 h-4 w-4" /> 手動カウント </Link> </Button>
+              </div>
+            )}
+            <div className="space-y-3">
+              <h3 className="font-semibold">変更履歴</h3>
+              {detail.revisions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">変更履歴はありません。</p>
+              ) : (
+                detail.revisions.map(revision => (
+                  <div key={revision.id} className="p-3 border rounded-md text-sm space-y-1">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium">{REVISION_ACTION_LABELS[revision.action] ?? revision.action} ・ {revision.changedBy}</span>
+                      <span className="text-muted-foreground">{formatTimestamp(revision.changedAt)}</span>
+                    </div>
+                    {revision.reason && <div className="text-muted-foreground">{revision.reason}</div>}
+                    {Object.entries(revision.changes).map(([field, change]) => (
+                      <div key={field} className="font-mono text-xs">{field}: {formatRevisionValue(change.previous)} → {formatRevisionValue(change.current)}</div>
+                    ))}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function SortableHead({ field, label, sort, order, onSort, className }: {
+  field: SortField; label: string; sort: SortField; order: "asc" | "desc"; onSort: (field: SortField) => void; className?: string;
+}) {
+  const Icon = sort !== field ? ArrowUpDown : order === "asc" ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => onSort(field)}>
+        {label} <Icon className="ml-1 h-3 w-3" />
+      </Button>
+    </TableHead>
+  );
+}
+
+export default function HistoryPage() {
+  const [locationName, setLocationName] = useState("");
+  const [appliedLocationName, setAppliedLocationName] = useState("");
+  const [direction, setDirection] = useState(ALL);
+  const [uploadSource, setUploadSource] = useState(ALL);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [sort, setSort] = useState<SortField>("recordingStartDateTime");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  // Cursors of the pages visited so far; the last one is the cursor of the current page.
+  const [cursorStack, setCursorStack] = useState<(string | null)[]>([null]);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const currentCursor = cursorStack[cursorStack.length - 1];
+
+  useEffect(() => {
+    const params = new URLSearchParams({ sort, order, limit: String(PAGE_SIZE) });
+    if (appliedLocationName) params.set("location", appliedLocationName);
+    if (direction !== ALL) params.set("direction", direction);
+    if (uploadSource !== ALL) params.set("uploadSource", uploadSource);
+    if (dateRange?.from) {
+      params.set("from", dateRange.from.toISOString());
+      // The calendar selects whole days, so the range ends at the start of the day after the last one.
+      params.set("to", addDays(dateRange.to ?? dateRange.from, 1).toISOString());
+    }
+    if (currentCursor) params.set("cursor", currentCursor);
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetch(`/api/visitor-logs?${params}`, { cache: "no-store" })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+        }
+        if (!cancelled) {
+          setEntries(data.entries);
+          setNextCursor(data.nextCursor);
+        }
+      })
+      .catch(err => {
+        console.error("履歴の読み込みエラー:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [appliedLocationName, direction, uploadSource, dateRange, sort, order, currentCursor, reloadKey]);
+
+  // Changing a filter or the sort order starts again from the first page.
+  const resetPaging = () => setCursorStack([null]);
+
+  const handleSort = (field: SortField) => {
+    if (field === sort) {
+      setOrder(prev => (prev === "asc" ? "desc" : "asc"));
+    } else {
+      setSort(field);
+      setOrder(field === "locationName" ? "asc" : "desc");
+    }
+    resetPaging();
+  };
+
+  const dateRangeLabel = dateRange?.from
+    ? `${format(dateRange.from, "yyyy-MM-dd")} 〜 ${format(dateRange.to ?? dateRange.from, "yyyy-MM-dd")}`
+    : "録画日を選択";
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <RequireRole role="viewer">
+          <div className="max-w-6xl mx-auto space-y-8">
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2"> <History className="text-primary" /> 履歴 </CardTitle>
+                <CardDescription>UIとAPIからアップロードされたすべての処理結果です。行をクリックすると詳細と変更履歴を表示します。</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="historyLocation">地点名</Label>
+                    <form onSubmit={(e) => { e.preventDefault(); setAppliedLocationName(locationName.trim()); resetPaging(); }}>
+                      <Input id="historyLocation" value={locationName} onChange={(e) => setLocationName(e.target.value)} onBlur={() => { setAppliedLocationName(locationName.trim()); resetPaging(); }} placeholder="完全一致" />
+                    </form>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>方向</Label>
+                    <Select value={direction} onValueChange={(value) => { setDirection(value); resetPaging(); }}>
+                      <SelectTrigger> <SelectValue /> </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>すべて</SelectItem>
+                        {Object.entries(DIRECTION_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>アップロード元</Label>
+                    <Select value={uploadSource} onValueChange={(value) => { setUploadSource(value); resetPaging(); }}>
+                      <SelectTrigger> <SelectValue /> </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>すべて</SelectItem>
+                        <SelectItem value="ui">UI</SelectItem>
+                        <SelectItem value="api">API</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>録画日</Label>
+                    <div className="flex gap-1">
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <Button variant="outline" className="w-full justify-start font-normal">
+                            <CalendarDays className="mr-2 h-4 w-4" /> {dateRangeLabel}
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="end">
+                          <Calendar mode="range" selected={dateRange} onSelect={(range) => { setDateRange(range); resetPaging(); }} numberOfMonths={2} />
+                        </PopoverContent>
+                      </Popover>
+                      {dateRange && (
+                        <Button variant="ghost" size="icon" aria-label="録画日の条件をクリア" onClick={() => { setDateRange(undefined); resetPaging(); }}> <X className="h-4 w-4" /> </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {error && ( <Alert variant="destructive"> <AlertCircle className="h-4 w-4" /> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert> )}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <SortableHead field="recordingStartDateTime" label="録画開始" sort={sort} order={order} onSort={handleSort} />
+                      <SortableHead field="locationName" label="地点名" sort={sort} order={order} onSort={handleSort} />
+                      <TableHead>方向</TableHead>
+                      <SortableHead field="visitorCount" label="訪問者数" sort={sort} order={order} onSort={handleSort} className="text-right" />
+                      <TableHead>アップロード元</TableHead>
+                      <SortableHead field="processingTimestamp" label="処理日時" sort={sort} order={order} onSort={handleSort} />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow> <TableCell colSpan={6} className="text-center py-8"> <Loader2 className="h-6 w-6 animate-spin text-primary inline" /> </TableCell> </TableRow>
+                    ) : entries.length === 0 ? (
+                      <TableRow> <TableCell colSpan={6} className="text-center text-muted-foreground py-8">条件に一致する記録はありません。</TableCell> </TableRow>
+                    ) : (
+                      entries.map(entry => (
+                        <TableRow key={entry.id} className="cursor-pointer" onClick={() => setSelectedId(entry.id)}>
+                          <TableCell className="whitespace-nowrap">{formatTimestamp(entry.recordingStartDateTime)}</TableCell>
+                          <TableCell>{entry.locationName || "N/A"}</TableCell>
+                          <TableCell>{DIRECTION_LABELS[entry.countedDirection] ?? entry.countedDirection}</TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {entry.visitorCount}
+                            {entry.reviewStatus === "pending" && <Badge variant="outline" className="ml-2">要確認</Badge>}
+                          </TableCell>
+                          <TableCell>{entry.uploadSource ?? "N/A"}</TableCell>
+                          <TableCell className="whitespace-nowrap">{formatTimestamp(entry.processingTimestamp)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">{cursorStack.length} ページ目</span>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" disabled={loading || cursorStack.length === 1} onClick={() => setCursorStack(prev => prev.slice(0, -1))}>
+                      <ChevronLeft className="mr-1 h-4 w-4" /> 前へ
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={loading || !nextCursor} onClick={() => setCursorStack(prev => [...prev, nextCursor])}>
+                      次へ <ChevronRight className="ml-1 h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </RequireRole>
+      </main>
+      <HistoryDetailSheet entryId={selectedId} onClose={() => setSelectedId(null)} onChanged={() => setReloadKey(key => key + 1)} />
+    </div>
+  );
+}
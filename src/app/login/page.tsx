@@ -0,0 +1,89 @@
+"use client";
+
+import { Suspense, useEffect, useState, type FormEvent } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { FirebaseError } from "firebase/app";
+import { AlertCircle, Loader2, LogIn } from "lucide-react";
+import Header from "@/components/layout/Header";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/** Firebase Auth error codes that mean the email or password was wrong. */
+const INVALID_CREDENTIAL_CODES = ["auth/invalid-credential", "auth/invalid-email", "auth/user-not-found", "auth/wrong-password"];
+
+function LoginForm() {
+  const { user, signIn } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Only same-site paths, so the sign-in page cannot be used to redirect elsewhere.
+  const requestedNext = searchParams.get("next") ?? "/";
+  const next = requestedNext.startsWith("/") && !requestedNext.startsWith("//") ? requestedNext : "/";
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) router.replace(next);
+  }, [user, router, next]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSigningIn(true);
+    setError(null);
+    try {
+      await signIn(email.trim(), password);
+    } catch (err) {
+      console.error("ログインエラー:", err);
+      if (err instanceof FirebaseError && INVALID_CREDENTIAL_CODES.includes(err.code)) {
+        setError("メールアドレスまたはパスワードが正しくありません。");
+      } else if (err instanceof FirebaseError && err.code === "auth/user-disabled") {
+        setError("このアカウントは無効になっています。管理者に連絡してください。");
+      } else {
+        setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+      }
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center gap-2"> <LogIn className="text-primary" /> ログイン </CardTitle>
+        <CardDescription>管理者から発行されたアカウントでログインしてください。</CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSubmit}>
+        <CardContent className="space-y-4">
+          {error && ( <Alert variant="destructive"> <AlertCircle className="h-4 w-4" /> <AlertTitle>ログインできませんでした</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert> )}
+          <div className="space-y-2"> <Label htmlFor="email">メールアドレス</Label> <Input id="email" type="email" autoComplete="username" value={email} onChange={(e) => setEmail(e.target.value)} disabled={signingIn} required /> </div>
+          <div className="space-y-2"> <Label htmlFor="password">パスワード</Label> <Input id="password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} disabled={signingIn} required /> </div>
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" className="w-full" disabled={signingIn || !email.trim() || !password}>
+            {signingIn ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />} ログイン
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="max-w-md mx-auto">
+          <Suspense fallback={<div className="flex justify-center py-8"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> </div>}>
+            <LoginForm />
+          </Suspense>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, type ChangeEvent, type FormEvent, useEffect, useMemo, useRef } from "react";
+import { useState, type ChangeEvent, type FormEvent, useCallback, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,13 +10,19 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { Loader2, Users, CalendarDays, UploadCloud, AlertCircle, CheckCircle2, ListChecks, Download, Video, Files, MapPin, ArrowRightLeft } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Users, CalendarDays, UploadCloud, AlertCircle, CheckCircle2, ListChecks, Video, Files, MapPin, ArrowRightLeft } from "lucide-react";
 import { type Direction } from "@/ai/types";
 import { format, parseISO, isValid as isValidDateFn, parse as dateParseFn } from "date-fns";
 import Header from "@/components/layout/Header";
 import { useToast } from "@/hooks/use-toast";
-import { db } from "@/lib/firebase";
-import { collection, query, orderBy, onSnapshot, Timestamp, type DocumentData } from "firebase/firestore";
+import { forgetChunkedUpload, MAX_UPLOAD_SIZE_BYTES, uploadFileInChunks } from "@/lib/chunkedUpload";
+import { DeleteVisitorLogDialog, EditVisitorLogDialog } from "@/components/visitor-logs/VisitorLogActions";
+import { ExportReportDialog } from "@/components/reports/ExportReportDialog";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { RequireRole } from "@/components/auth/RequireRole";
 
 
 interface StatisticsData {
@@ -28,27 +34,133 @@ interface StatisticsData {
   recordingStartDateTime: Date | null;
   uploadSource: 'ui' | 'api';
   locationName?: string;
+  /** Only set for bidirectional ('both') records. */
+  enteringCount: number | null;
+  exitingCount: number | null;
+  netFlow: number | null;
+  /** Number of stored crossing events; null unless the upload used detailed mode. */
+  crossingEventCount: number | null;
+  /** Model's confidence in the count (0-1); null for records from before confidence scoring. */
+  confidence: number | null;
+  needsReview: boolean;
 }
 
+/** A `visitor_logs` record as serialized by the API, with timestamps as ISO strings. */
+interface VisitorLogResponse {
+  id: string;
+  visitorCount: number;
+  countedDirection: Direction;
+  videoFileName?: string;
+  recordingStartDateTime?: string | null;
+  processingTimestamp?: string | null;
+  uploadSource?: string;
+  locationName?: string;
+  enteringCount?: number | null;
+  exitingCount?: number | null;
+  netFlow?: number | null;
+  crossingEventCount?: number | null;
+  confidence?: number | null;
+  needsReview?: boolean;
+}
+
+/** The answer to `POST /api/upload-video`, or the duplicate answer to starting a chunked upload. */
+interface QueuedUploadResponse {
+  duplicate?: boolean;
+  jobId: string;
+  record?: VisitorLogResponse | null;
+  error?: string;
+  details?: string;
+  messageFromServer?: string;
+}
+
+interface CameraOption {
+  id: string;
+  displayName: string;
+  locationId: string;
+  defaultDirection: Direction;
+}
+
+/** Select value for "no camera": the location is typed in as free text instead. */
+const NO_CAMERA = "none";
+
 interface BatchFile {
   file: File;
   parsedDate?: string;
   parsedTime?: string;
 }
 
+/** How one file of a batch ended: newly counted, already processed earlier (not counted again), or failed. */
+type BatchOutcome = "counted" | "duplicate" | "failed";
+
+interface BatchFileResult {
+  fileName: string;
+  outcome: BatchOutcome;
+  visitorCount: number | null;
+}
+
+const BATCH_OUTCOME_LABELS: Record<BatchOutcome, string> = {
+  counted: "カウント完了",
+  duplicate: "処理済み (重複)",
+  failed: "失敗",
+};
+
+const JOB_POLL_INTERVAL_MS = 2000;
+/** Stop waiting for a job whose status has not changed for this long; the server fails it after its lease expires. */
+const JOB_STALL_TIMEOUT_MS = 20 * 60 * 1000;
+const RECENT_HISTORY_LIMIT = 20;
+
+/**
+ * Polls `GET /api/jobs/{jobId}` until the job has succeeded or failed.
+ * Resolves with the saved visitor_logs record; rejects with the job's error message on failure,
+ * or once the job has made no progress for `JOB_STALL_TIMEOUT_MS`.
+ */
+async function waitForProcessingJob(jobId: string, onProgress: (progress: number) => void): Promise<VisitorLogResponse> {
+  let lastState = "";
+  let lastChangeAt = Date.now();
+  while (true) {
+    const response = await fetch(`/api/jobs/${jobId}`, { cache: "no-store" });
+    const job = await response.json();
+    if (!response.ok) {
+      throw new Error(job.error || job.messageFromServer || `ジョブ状態の取得がステータス ${response.status}で失敗しました`);
+    }
+    onProgress(typeof job.progress === "number" ? job.progress : 0);
+    const state = `${job.status}:${job.stage}:${job.progress}`;
+    if (state !== lastState) {
+      lastState = state;
+      lastChangeAt = Date.now();
+    } else if (Date.now() - lastChangeAt > JOB_STALL_TIMEOUT_MS) {
+      throw new Error(`ジョブ ${jobId} が${JOB_STALL_TIMEOUT_MS / 60000}分間進んでいません。しばらくしてから履歴を確認するか、もう一度アップロードしてください。`);
+    }
+    if (job.status === "succeeded") {
+      if (!job.result) {
+        throw new Error("ジョブは完了しましたが、保存された結果が見つかりません。");
+      }
+      return job.result;
+    }
+    if (job.status === "failed") {
+      throw new Error(job.error || "ジョブの処理に失敗しました。");
+    }
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
+
 export default function CountCamPage() {
   const [selectedFiles, setSelectedFiles] = useState<BatchFile[]>([]);
   const [processing, setProcessing] = useState<boolean>(false);
   const [isBatchProcessing, setIsBatchProcessing] = useState<boolean>(false);
   const [batchProgress, setBatchProgress] = useState(0);
   const [currentBatchFileIndex, setCurrentBatchFileIndex] = useState(0);
+  const [currentJobProgress, setCurrentJobProgress] = useState(0);
+  const [currentFileStage, setCurrentFileStage] = useState<"uploading" | "processing">("uploading");
   const [lastProcessedResult, setLastProcessedResult] = useState<StatisticsData | null>(null);
+  const [batchResults, setBatchResults] = useState<BatchFileResult[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   const [allHistory, setAllHistory] = useState<StatisticsData[]>([]);
   const uiHistory = useMemo(() => allHistory.filter(entry => entry.uploadSource === 'ui'), [allHistory]);
 
   const [selectedDirection, setSelectedDirection] = useState<Direction>("entering");
+  const [detailedMode, setDetailedMode] = useState<boolean>(false);
 
   const defaultRecordingDate = useMemo(() => format(new Date(), "yyyy-MM-dd"), []);
   const defaultRecordingTime = useMemo(() => format(new Date(), "HH:mm"), []);
@@ -56,82 +168,71 @@ export default function CountCamPage() {
   const [formRecordingDate, setFormRecordingDate] = useState<string>(defaultRecordingDate);
   const [formRecordingTime, setFormRecordingTime] = useState<string>(defaultRecordingTime);
   const [formLocationName, setFormLocationName] = useState<string>("");
+  const [cameras, setCameras] = useState<CameraOption[]>([]);
+  const [selectedCameraId, setSelectedCameraId] = useState<string>(NO_CAMERA);
 
   const { toast } = useToast();
+  const { user, can } = useAuth();
+  const canUpload = can("operator");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    console.log("Setting up Firestore listener for visitor_logs...");
-    if (!db) {
-      console.error("Firestore (db) instance is not available in page.tsx. History will not be loaded.");
-      setError("Database connection not available. Please check Firebase setup.");
-      toast({
-        variant: "destructive",
-        title: "Database Error",
-        description: "Could not connect to the database to load history.",
-      });
-      return;
+    if (!canUpload) return;
+    fetch("/api/cameras", { cache: "no-store" })
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`ステータス ${response.status}`)))
+      .then(data => setCameras(data.cameras))
+      .catch(err => console.error("カメラ一覧の読み込みエラー:", err));
+  }, [canUpload]);
+
+  const handleCameraChange = (cameraId: string) => {
+    setSelectedCameraId(cameraId);
+    const camera = cameras.find(c => c.id === cameraId);
+    if (camera) {
+      setSelectedDirection(camera.defaultDirection);
     }
+  };
 
-    const q = query(collection(db, "visitor_logs"), orderBy("processingTimestamp", "desc"));
-    
-    const unsubscribe = onSnapshot(q, (querySnapshot) => {
-      const fetchedHistory: StatisticsData[] = [];
-      querySnapshot.forEach((doc: DocumentData) => {
-        const data = doc.data();
-        
-        let recordingStartDateTime = null;
-        if (data.recordingStartDateTime instanceof Timestamp) {
-            recordingStartDateTime = data.recordingStartDateTime.toDate();
-        } else if (data.recordingStartDateTime && typeof data.recordingStartDateTime === 'string') {
-            const parsedDate = parseISO(data.recordingStartDateTime);
-            if (isValidDateFn(parsedDate)) recordingStartDateTime = parsedDate;
-        } else if (data.recordingStartDateTime && typeof data.recordingStartDateTime.seconds === 'number' && typeof data.recordingStartDateTime.nanoseconds === 'number') {
-            recordingStartDateTime = new Timestamp(data.recordingStartDateTime.seconds, data.recordingStartDateTime.nanoseconds).toDate();
-        }
-
-
-        let processingTimestampVal = new Date(); // Default to now if parsing fails
-        if (data.processingTimestamp instanceof Timestamp) {
-            processingTimestampVal = data.processingTimestamp.toDate();
-        } else if (data.processingTimestamp && typeof data.processingTimestamp === 'string') {
-            const parsedTimestamp = parseISO(data.processingTimestamp);
-            if (isValidDateFn(parsedTimestamp)) processingTimestampVal = parsedTimestamp;
-        } else if (data.processingTimestamp && typeof data.processingTimestamp.seconds === 'number' && typeof data.processingTimestamp.nanoseconds === 'number') {
-            processingTimestampVal = new Timestamp(data.processingTimestamp.seconds, data.processingTimestamp.nanoseconds).toDate();
-        }
-
-
-        const uploadSource = data.uploadSource === 'ui' || data.uploadSource === 'api' ? data.uploadSource : 'api';
-
-        fetchedHistory.push({
-          id: doc.id,
-          visitorCount: data.visitorCount,
-          countedDirection: data.countedDirection,
-          videoFileName: data.videoFileName || 'N/A',
+  // Recent results are read through the API, which checks the user's role.
+  const loadHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/visitor-logs?sort=processingTimestamp&order=desc&limit=${RECENT_HISTORY_LIMIT}`, { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+      }
+      setAllHistory(data.entries.map((entry: VisitorLogResponse): StatisticsData => {
+        const recordingStartDateTime = entry.recordingStartDateTime ? parseISO(entry.recordingStartDateTime) : null;
+        const processingTimestamp = entry.processingTimestamp ? parseISO(entry.processingTimestamp) : new Date();
+        return {
+          id: entry.id,
+          visitorCount: entry.visitorCount,
+          countedDirection: entry.countedDirection,
+          videoFileName: entry.videoFileName || 'N/A',
           recordingStartDateTime: recordingStartDateTime && isValidDateFn(recordingStartDateTime) ? recordingStartDateTime : null,
-          timestamp: isValidDateFn(processingTimestampVal) ? processingTimestampVal : new Date(),
-          uploadSource: uploadSource,
-          locationName: data.locationName || 'N/A',
-        });
-      });
-      console.log("Fetched history from Firestore (page.tsx):", fetchedHistory.length);
-      setAllHistory(fetchedHistory);
-    }, (err) => {
-      console.error("Error fetching history from Firestore (page.tsx):", err);
-      setError("Failed to load processing history from the database.");
+          timestamp: isValidDateFn(processingTimestamp) ? processingTimestamp : new Date(),
+          uploadSource: entry.uploadSource === 'ui' ? 'ui' : 'api',
+          locationName: entry.locationName || 'N/A',
+          enteringCount: typeof entry.enteringCount === 'number' ? entry.enteringCount : null,
+          exitingCount: typeof entry.exitingCount === 'number' ? entry.exitingCount : null,
+          netFlow: typeof entry.netFlow === 'number' ? entry.netFlow : null,
+          crossingEventCount: typeof entry.crossingEventCount === 'number' ? entry.crossingEventCount : null,
+          confidence: typeof entry.confidence === 'number' ? entry.confidence : null,
+          needsReview: entry.needsReview === true,
+        };
+      }));
+    } catch (err) {
+      console.error("最近の処理結果の読み込みエラー:", err);
       toast({
         variant: "destructive",
-        title: "Database Error",
-        description: "Could not load processing history from the database. Check console for details.",
+        title: "履歴の読み込みに失敗しました",
+        description: err instanceof Error ? err.message : "不明なエラーが発生しました。",
       });
-    });
-
-    return () => {
-      console.log("Cleaning up Firestore listener (page.tsx).");
-      unsubscribe();
     }
-  }, [toast]); 
+  }, [toast]);
+
+  useEffect(() => {
+    if (user) loadHistory();
+  }, [user, loadHistory]);
 
   const parseDateTimeFromFilename = (filename: string): { date?: string; time?: string } => {
     const patterns = [
@@ -180,14 +281,15 @@ export default function CountCamPage() {
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     setError(null);
     setLastProcessedResult(null);
+    setBatchResults([]);
     const files = event.target.files;
     if (files && files.length > 0) {
       const newBatchFiles: BatchFile[] = [];
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
-        if (file.size > 50 * 1024 * 1024) { // 50MB limit
-          setError(`ファイル "${file.name}" はサイズが大きすぎます (最大50MB)。スキップされます。`);
-          toast({ variant: "destructive", title: "ファイルサイズ超過", description: `ファイル "${file.name}" は50MBを超えています。` });
+        if (file.size > MAX_UPLOAD_SIZE_BYTES) { // 2GB limit, uploaded in resumable chunks
+          setError(`ファイル "${file.name}" はサイズが大きすぎます (最大2GB)。スキップされます。`);
+          toast({ variant: "destructive", title: "ファイルサイズ超過", description: `ファイル "${file.name}" は2GBを超えています。` });
           continue;
         }
         if (!file.type.startsWith("video/")) {
@@ -209,13 +311,15 @@ export default function CountCamPage() {
     }
   };
 
-  const processSingleFileViaAPI = async (batchFile: BatchFile, recordingDateToUse: string, recordingTimeToUse: string, locationNameToUse: string) => {
+  const processSingleFileViaAPI = async (batchFile: BatchFile, recordingDateToUse: string, recordingTimeToUse: string, locationNameToUse: string): Promise<BatchFileResult> => {
     setProcessing(true);
     setError(null);
+    setCurrentJobProgress(0);
+    setCurrentFileStage("uploading");
 
     const formData = new FormData();
-    formData.append("videoFile", batchFile.file);
     formData.append("direction", selectedDirection);
+    formData.append("detailed", String(detailedMode));
     
     // --- NEW TIMESTAMP LOGIC for UI uploads ---
     // Ensure time has seconds for consistent parsing
@@ -232,20 +336,44 @@ export default function CountCamPage() {
     // --- END NEW TIMESTAMP LOGIC ---
 
     formData.append("uploadSource", "ui"); // Explicitly 'ui' for UI uploads
-    formData.append("locationName", locationNameToUse || "N/A");
+    if (selectedCameraId !== NO_CAMERA) {
+      // The server resolves the registered location from the camera.
+      formData.append("cameraId", selectedCameraId);
+    } else {
+      formData.append("locationName", locationNameToUse || "N/A");
+    }
 
 
     try {
-      const response = await fetch('/api/upload-video', {
-        method: 'POST',
-        body: formData,
-      });
+      // Large recordings go up in resumable chunks; an interrupted upload resumes when the file is re-selected.
+      // Videos already uploaded for this camera are answered as duplicates before any chunk is sent.
+      const target = selectedCameraId !== NO_CAMERA ? { cameraId: selectedCameraId } : { locationName: locationNameToUse || "N/A" };
+      const upload = await uploadFileInChunks(batchFile.file, { uploadSource: "ui", onProgress: setCurrentJobProgress, target });
+      setCurrentFileStage("processing");
+      setCurrentJobProgress(0);
+
+      let queuedData: QueuedUploadResponse;
+      if (upload.duplicate) {
+        queuedData = upload.duplicate as QueuedUploadResponse;
+      } else {
+        formData.append("uploadId", upload.uploadId);
+        const response = await fetch('/api/upload-video', {
+          method: 'POST',
+          body: formData,
+        });
 
-      const resultData = await response.json();
+        queuedData = await response.json();
 
-      if (!response.ok) {
-        throw new Error(resultData.error || resultData.details || resultData.messageFromServer || `APIリクエストがステータス ${response.status}で失敗しました`);
+        if (!response.ok) {
+          throw new Error(queuedData.error || queuedData.details || queuedData.messageFromServer || `APIリクエストがステータス ${response.status}で失敗しました`);
+        }
+        forgetChunkedUpload(batchFile.file);
       }
+
+      // A file that was already uploaded for this camera is not counted again; the server returns the earlier result.
+      const isDuplicate = queuedData.duplicate === true;
+      // The upload is processed asynchronously; wait for the job to finish.
+      const resultData = queuedData.record ?? await waitForProcessingJob(queuedData.jobId, setCurrentJobProgress);
       
       const apiRecordingStartDateTime = resultData.recordingStartDateTime ? parseISO(resultData.recordingStartDateTime) : null;
       const apiProcessingTimestamp = resultData.processingTimestamp ? parseISO(resultData.processingTimestamp) : new Date();
@@ -254,20 +382,34 @@ export default function CountCamPage() {
         id: resultData.id,
         visitorCount: resultData.visitorCount,
         countedDirection: resultData.countedDirection,
-        videoFileName: resultData.videoFileName,
+        videoFileName: resultData.videoFileName || 'N/A',
         recordingStartDateTime: apiRecordingStartDateTime && isValidDateFn(apiRecordingStartDateTime) ? apiRecordingStartDateTime : null,
         timestamp: isValidDateFn(apiProcessingTimestamp) ? apiProcessingTimestamp : new Date(),
         uploadSource: 'ui', 
         locationName: resultData.locationName,
+        enteringCount: typeof resultData.enteringCount === 'number' ? resultData.enteringCount : null,
+        exitingCount: typeof resultData.exitingCount === 'number' ? resultData.exitingCount : null,
+        netFlow: typeof resultData.netFlow === 'number' ? resultData.netFlow : null,
+        crossingEventCount: typeof resultData.crossingEventCount === 'number' ? resultData.crossingEventCount : null,
+        confidence: typeof resultData.confidence === 'number' ? resultData.confidence : null,
+        needsReview: resultData.needsReview === true,
       };
       setLastProcessedResult(newEntry); 
 
+      if (isDuplicate) {
+        toast({
+          title: "処理済みの動画",
+          description: `${batchFile.file.name} は既に処理されています (${newEntry.locationName}, 訪問者数 ${newEntry.visitorCount})。再カウントは行いませんでした。`,
+          variant: "default"
+        });
+        return { fileName: batchFile.file.name, outcome: "duplicate", visitorCount: newEntry.visitorCount };
+      }
       toast({
         title: "処理完了",
         description: `${newEntry.videoFileName} (${newEntry.locationName}) の訪問者数 (記録日時: ${newEntry.recordingStartDateTime ? format(newEntry.recordingStartDateTime, "PP p") : 'N/A'}, 方向: ${getDirectionLabel(newEntry.countedDirection)}) は ${newEntry.visitorCount} です。データは保存されました。`,
         variant: "default"
       });
-      return true; 
+      return { fileName: batchFile.file.name, outcome: "counted", visitorCount: newEntry.visitorCount };
     } catch (err) {
       console.error(`動画 ${batchFile.file.name} のAPI経由処理エラー:`, err);
       const errorMessage = err instanceof Error ? err.message : "不明なエラーが発生しました。";
@@ -277,7 +419,7 @@ export default function CountCamPage() {
         title: `エラー: ${batchFile.file.name}`,
         description: `訪問者数のカウントに失敗しました。 ${errorMessage}`,
       });
-      return false; 
+      return { fileName: batchFile.file.name, outcome: "failed", visitorCount: null };
     } finally {
       setProcessing(false);
     }
@@ -293,7 +435,9 @@ export default function CountCamPage() {
     setIsBatchProcessing(true);
     setBatchProgress(0);
     setCurrentBatchFileIndex(0);
+    setBatchResults([]);
     let successCount = 0;
+    let duplicateCount = 0;
     let errorCount = 0;
 
     for (let i = 0; i < selectedFiles.length; i++) {
@@ -302,16 +446,20 @@ export default function CountCamPage() {
       const recordingDateToUse = batchFile.parsedDate || formRecordingDate;
       const recordingTimeToUse = batchFile.parsedTime || formRecordingTime;
       
-      const success = await processSingleFileViaAPI(batchFile, recordingDateToUse, recordingTimeToUse, formLocationName);
-      if (success) {
+      const result = await processSingleFileViaAPI(batchFile, recordingDateToUse, recordingTimeToUse, formLocationName);
+      if (result.outcome === "counted") {
         successCount++;
+      } else if (result.outcome === "duplicate") {
+        duplicateCount++;
       } else {
         errorCount++;
       }
+      setBatchResults(previous => [...previous, result]);
       setBatchProgress(((i + 1) / selectedFiles.length) * 100);
     }
 
     setIsBatchProcessing(false);
+    loadHistory();
     setSelectedFiles([]); 
     if (fileInputRef.current) { 
       fileInputRef.current.value = "";
@@ -319,7 +467,7 @@ export default function CountCamPage() {
     setFormLocationName(""); // Clear location name after batch submit
     toast({
         title: "バッチ処理完了",
-        description: `${successCount} ファイル成功, ${errorCount} ファイル失敗。結果は保存されました。`,
+        description: `${successCount} ファイル成功, ${duplicateCount} ファイル処理済み (重複), ${errorCount} ファイル失敗。結果は保存されました。`,
         variant: successCount > 0 && errorCount === 0 ? "default" : (errorCount > 0 ? "destructive" : "default")
     });
   };
@@ -329,140 +477,174 @@ export default function CountCamPage() {
     switch (direction) {
       case "entering": return "R→L";
       case "exiting": return "L→R";
+      case "both": return "双方向 (R→L / L→R)";
       default: return direction;
     }
   };
   
-  const apiDataForCSV = useMemo(() => {
-    // Sort by processing timestamp DESC to show newest uploads first
-    return allHistory
-      .filter(entry => entry.uploadSource === 'api')
-      .sort((a,b) => b.timestamp.getTime() - a.timestamp.getTime());
-  }, [allHistory]);
-
-
-  const handleDownloadAPIDataCSV = () => {
-    const dataToExport = apiDataForCSV;
-
-    if (dataToExport.length === 0) {
-      toast({ variant: "default", title: "APIデータなし", description: "エクスポート対象のAPIアップロードデータがありません。" });
-      return;
-    }
-    
-    const csvHeader = ["録画日", "録画開始時刻", "カメラ名称", "方向", "訪問者数"];
-    const csvRows = ["\uFEFF" + csvHeader.join(",")]; // Add BOM for Excel compatibility
-
-    for (const entry of dataToExport) {
-      const recDate = entry.recordingStartDateTime ? format(entry.recordingStartDateTime, "yyyy-MM-dd") : 'N/A';
-      const recTime = entry.recordingStartDateTime ? format(entry.recordingStartDateTime, "HH:mm:ss") : 'N/A';
-      const location = entry.locationName || 'N/A';
-      const directionLabel = entry.countedDirection === 'entering' ? '右→左' : entry.countedDirection === 'exiting' ? '左→右' : 'N/A';
-      const escapeCSV = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
-      
-      csvRows.push([
-        escapeCSV(recDate),
-        escapeCSV(recTime),
-        escapeCSV(location),
-        escapeCSV(directionLabel),
-        escapeCSV(entry.visitorCount)
-      ].join(","));
-    }
-
-    const csvString = csvRows.join("\n"); 
-    const blob = new Blob([csvString], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    const reportDateStr = format(new Date(), "yyyyMMdd");
-    link.setAttribute("download", `CountCam_API_レポート_${reportDateStr}.csv`);
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    toast({ title: "APIデータCSVダウンロード完了", description: "APIアップロードのレポートがダウンロードされました。" });
-  };
-
   return (
     <div className="flex flex-col min-h-screen bg-background">
       <Header />
       <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="max-w-2xl mx-auto space-y-8">
-          <Card className="shadow-lg">
-            <CardHeader>
-              <CardTitle className="text-2xl flex items-center gap-2">
-                <UploadCloud className="text-primary" />
-                動画アップロード (Web UI経由)
-              </CardTitle>
-              <CardDescription>
-                動画ファイルと関連情報を入力してください。結果は中央で保存され、UIでの精度検証に使用されます。
-                録画日時はファイル名から解析されるか、フォールバック値が使用されます。地点名は任意です。
-              </CardDescription>
-            </CardHeader>
-            <form onSubmit={handleBatchSubmit}>
-              <CardContent className="space-y-6">
-                <div className="space-y-2">
-                  <Label htmlFor="videoFile">動画ファイル (複数選択可)</Label>
-                  <Input id="videoFile" type="file" accept="video/*" multiple onChange={handleFileChange} disabled={processing || isBatchProcessing} ref={fileInputRef} className="file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20" />
-                  {selectedFiles.length > 0 && !error && ( <div className="text-sm text-muted-foreground flex items-center gap-2 p-2 border rounded-md bg-secondary/50"> <Files className="w-5 h-5 text-primary" /> <span>選択中: {selectedFiles.length} ファイル</span> </div> )}
-                  {selectedFiles.map((batchFile, index) => ( <div key={index} className="text-xs text-muted-foreground ml-2"> - {batchFile.file.name} {batchFile.parsedDate && batchFile.parsedTime && ` (解析日時: ${batchFile.parsedDate} ${batchFile.parsedTime})`} </div> ))}
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="locationName">地点名 (例: メインエントランス)</Label>
-                  <Input id="locationName" type="text" value={formLocationName} onChange={(e) => setFormLocationName(e.target.value)} placeholder="例: 北口ゲート" disabled={processing || isBatchProcessing} />
-                </div>
-
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div className="space-y-2"> <Label htmlFor="recordingDate">フォールバック録画開始日</Label> <Input id="recordingDate" type="date" value={formRecordingDate} onChange={(e) => setFormRecordingDate(e.target.value)} disabled={processing || isBatchProcessing} required /> </div>
-                  <div className="space-y-2"> <Label htmlFor="recordingTime">フォールバック録画開始時刻</Label> <Input id="recordingTime" type="time" value={formRecordingTime} onChange={(e) => setFormRecordingTime(e.target.value)} step="1" disabled={processing || isBatchProcessing} required /> </div>
-                </div>
-                <div className="space-y-3">
-                  <Label className="text-base font-medium">カウント方向 (バッチ内の全ファイルに適用)</Label>
-                  <RadioGroup value={selectedDirection} onValueChange={(value) => setSelectedDirection(value as Direction)} className="grid grid-cols-1 sm:grid-cols-2 gap-4" disabled={processing || isBatchProcessing}>
-                    <div className="flex items-center space-x-2 p-3 border rounded-md hover:bg-accent/5 has-[input:checked]:bg-primary/10 has-[input:checked]:border-primary transition-all"> <RadioGroupItem value="entering" id="dir-entering" /> <Label htmlFor="dir-entering" className="flex items-center gap-2 cursor-pointer text-sm sm:text-base"> <ArrowRightLeft className="w-5 h-5 text-green-500" /> R→L </Label> </div>
-                    <div className="flex items-center space-x-2 p-3 border rounded-md hover:bg-accent/5 has-[input:checked]:bg-primary/10 has-[input:checked]:border-primary transition-all"> <RadioGroupItem value="exiting" id="dir-exiting" /> <Label htmlFor="dir-exiting" className="flex items-center gap-2 cursor-pointer text-sm sm:text-base"> <ArrowRightLeft className="w-5 h-5 text-red-500" /> L→R </Label> </div>
-                  </RadioGroup>
-                </div>
-                {isBatchProcessing && ( <div className="space-y-2"> <Label>バッチ処理進捗 ({currentBatchFileIndex + 1} / {selectedFiles.length} ファイル): {selectedFiles[currentBatchFileIndex]?.file.name}</Label> <Progress value={batchProgress} className="w-full" /> </div> )}
-              </CardContent>
-              <CardFooter>
-                <Button type="submit" disabled={processing || isBatchProcessing || selectedFiles.length === 0} className="w-full">
-                  {isBatchProcessing ? ( <> <Loader2 className="mr-2 h-4 w-4 animate-spin" /> バッチ処理中... </> ) : processing ? ( <> <Loader2 className="mr-2 h-4 w-4 animate-spin" /> ファイル処理中... </> ) : ( <> <Users className="mr-2 h-4 w-4" /> {selectedFiles.length > 1 ? `${selectedFiles.length} ファイルを処理` : (selectedFiles.length === 1 ? "選択したファイルを処理" : "訪問者をカウント (ファイル選択)") } </> )}
-                </Button>
-              </CardFooter>
-            </form>
-          </Card>
-
-          {error && ( <Alert variant="destructive" className="shadow-md"> <AlertCircle className="h-4 w-4" /> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert> )}
-
-          {lastProcessedResult && !processing && !isBatchProcessing && (
-            <Card className="shadow-lg bg-gradient-to-br from-card to-secondary/30">
-              <CardHeader> <CardTitle className="text-2xl flex items-center text-accent-foreground gap-2"> <CheckCircle2 className="text-accent" /> 最新の処理結果 (UIアップロード) </CardTitle> <CardDescription className="text-accent-foreground/80"> 解析完了: <strong>{lastProcessedResult.videoFileName}</strong> </CardDescription> </CardHeader>
-              <CardContent className="space-y-4 text-lg">
-                 <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <Users className="h-6 w-6 text-accent" /> <span className="font-medium text-foreground">合計訪問者数:</span> </div> <span className="font-bold text-3xl text-accent">{lastProcessedResult.visitorCount}</span> </div>
-                <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <ArrowRightLeft className="h-6 w-6 text-primary" /> <span className="font-medium text-foreground">カウント方向:</span> </div> <span className="font-semibold text-primary">{getDirectionLabel(lastProcessedResult.countedDirection)}</span> </div>
-                {lastProcessedResult.locationName && lastProcessedResult.locationName !== 'N/A' && (
-                  <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <MapPin className="h-6 w-6 text-primary" /> <span className="font-medium text-foreground">地点名:</span> </div> <span className="font-semibold text-primary">{lastProcessedResult.locationName}</span> </div>
-                )}
-                 <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <Video className="h-6 w-6 text-primary" /> <span className="font-medium text-foreground">録画開始日時:</span> </div> <span className="font-semibold text-primary">{lastProcessedResult.recordingStartDateTime && isValidDateFn(lastProcessedResult.recordingStartDateTime) ? format(lastProcessedResult.recordingStartDateTime, "PP p") : 'N/A'}</span> </div>
-                <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <CalendarDays className="h-6 w-6 text-primary" /> <span className="font-medium text-foreground">処理日時:</span> </div> <span className="font-semibold text-primary">{format(lastProcessedResult.timestamp, "PP p")}</span> </div>
-              </CardContent>
-            </Card>
-          )}
-
-          <div className="py-4 text-center">
-             <Button 
-                variant="outline" 
-                size="lg" 
-                onClick={handleDownloadAPIDataCSV} 
-                disabled={isBatchProcessing || apiDataForCSV.length === 0} 
-                aria-label="APIアップロード 訪問者レポートCSVをダウンロード">
-               <Download className="mr-2 h-5 w-5" />
-               APIアップロードレポート (CSV)
-             </Button>
-           </div>
-        </div>
+        <RequireRole role="viewer">
+          <div className="max-w-2xl mx-auto space-y-8">
+            {canUpload && (
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-2xl flex items-center gap-2">
+                    <UploadCloud className="text-primary" />
+                    動画アップロード (Web UI経由)
+                  </CardTitle>
+                  <CardDescription>
+                    動画ファイルと関連情報を入力してください。結果は中央で保存され、UIでの精度検証に使用されます。
+                    録画日時はファイル名から解析されるか、フォールバック値が使用されます。地点名は任意です。
+                  </CardDescription>
+                </CardHeader>
+                <form onSubmit={handleBatchSubmit}>
+                  <CardContent className="space-y-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="videoFile">動画ファイル (複数選択可)</Label>
+                      <Input id="videoFile" type="file" accept="video/*" multiple onChange={handleFileChange} disabled={processing || isBatchProcessing} ref={fileInputRef} className="file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20" />
+                      {selectedFiles.length > 0 && !error && ( <div className="text-sm text-muted-foreground flex items-center gap-2 p-2 border rounded-md bg-secondary/50"> <Files className="w-5 h-5 text-primary" /> <span>選択中: {selectedFiles.length} ファイル</span> </div> )}
+                      {selectedFiles.map((batchFile, index) => ( <div key={index} className="text-xs text-muted-foreground ml-2"> - {batchFile.file.name} {batchFile.parsedDate && batchFile.parsedTime && ` (解析日時: ${batchFile.parsedDate} ${batchFile.parsedTime})`} </div> ))}
+                      {batchResults.length > 0 && (
+                        <div className="space-y-1 p-2 border rounded-md">
+                          <div className="text-sm font-medium">バッチ結果</div>
+                          {batchResults.map((result, index) => (
+                            <div key={index} className="flex items-center justify-between gap-2 text-xs">
+                              <span className="truncate">{result.fileName}</span>
+                              <span className="flex items-center gap-2 shrink-0">
+                                {result.visitorCount !== null && <span className="text-muted-foreground">{result.visitorCount} 人</span>}
+                                <Badge variant={result.outcome === "failed" ? "destructive" : result.outcome === "duplicate" ? "secondary" : "default"}>{BATCH_OUTCOME_LABELS[result.outcome]}</Badge>
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="cameraId">カメラ</Label>
+                        <Select value={selectedCameraId} onValueChange={handleCameraChange} disabled={processing || isBatchProcessing}>
+                          <SelectTrigger id="cameraId"> <SelectValue /> </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_CAMERA}>指定しない (地点名を入力)</SelectItem>
+                            {cameras.map(camera => <SelectItem key={camera.id} value={camera.id}>{camera.displayName}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="locationName">地点名 (例: メインエントランス)</Label>
+                        <Input id="locationName" type="text" value={formLocationName} onChange={(e) => setFormLocationName(e.target.value)} placeholder={selectedCameraId !== NO_CAMERA ? "カメラの登録地点を使用" : "例: 北口ゲート"} disabled={processing || isBatchProcessing || selectedCameraId !== NO_CAMERA} />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2"> <Label htmlFor="recordingDate">フォールバック録画開始日</Label> <Input id="recordingDate" type="date" value={formRecordingDate} onChange={(e) => setFormRecordingDate(e.target.value)} disabled={processing || isBatchProcessing} required /> </div>
+                      <div className="space-y-2"> <Label htmlFor="recordingTime">フォールバック録画開始時刻</Label> <Input id="recordingTime" type="time" value={formRecordingTime} onChange={(e) => setFormRecordingTime(e.target.value)} step="1" disabled={processing || isBatchProcessing} required /> </div>
+                    </div>
+                    <div className="space-y-3">
+                      <Label className="text-base font-medium">カウント方向 (バッチ内の全ファイルに適用)</Label>
+                      <RadioGroup value={selectedDirection} onValueChange={(value) => setSelectedDirection(value as Direction)} className="grid grid-cols-1 sm:grid-cols-3 gap-4" disabled={processing || isBatchProcessing}>
+                        <div className="flex items-center space-x-2 p-3 border rounded-md hover:bg-accent/5 has-[input:checked]:bg-primary/10 has-[input:checked]:border-primary transition-all"> <RadioGroupItem value="entering" id="dir-entering" /> <Label htmlFor="dir-entering" className="flex items-center gap-2 cursor-pointer text-sm sm:text-base"> <ArrowRightLeft className="w-5 h-5 text-green-500" /> R→L </Label> </div>
+                        <div className="flex items-center space-x-2 p-3 border rounded-md hover:bg-accent/5 has-[input:checked]:bg-primary/10 has-[input:checked]:border-primary transition-all"> <RadioGroupItem value="exiting" id="dir-exiting" /> <Label htmlFor="dir-exiting" className="flex items-center gap-2 cursor-pointer text-sm sm:text-base"> <ArrowRightLeft className="w-5 h-5 text-red-500" /> L→R </Label> </div>
+                        <div className="flex items-center space-x-2 p-3 border rounded-md hover:bg-accent/5 has-[input:checked]:bg-primary/10 has-[input:checked]:border-primary transition-all"> <RadioGroupItem value="both" id="dir-both" /> <Label htmlFor="dir-both" className="flex items-center gap-2 cursor-pointer text-sm sm:text-base"> <ArrowRightLeft className="w-5 h-5 text-primary" /> 双方向 </Label> </div>
+                      </RadioGroup>
+                    </div>
+                    <div className="flex items-center justify-between p-3 border rounded-md">
+                      <div className="space-y-1">
+                        <Label htmlFor="detailedMode" className="text-base font-medium">詳細モード</Label>
+                        <p className="text-xs text-muted-foreground">各通過の時刻・方向・確信度を記録します (時間帯別の集計や検証用)。</p>
+                      </div>
+                      <Switch id="detailedMode" checked={detailedMode} onCheckedChange={setDetailedMode} disabled={processing || isBatchProcessing} />
+                    </div>
+                    {isBatchProcessing && ( <div className="space-y-2"> <Label>バッチ処理進捗 ({currentBatchFileIndex + 1} / {selectedFiles.length} ファイル): {selectedFiles[currentBatchFileIndex]?.file.name}</Label> <Progress value={batchProgress} className="w-full" /> <div className="text-xs text-muted-foreground">{currentFileStage === "uploading" ? "アップロード中" : "解析中"}: {Math.round(currentJobProgress)}%</div> <Progress value={currentJobProgress} className="w-full h-2" /> </div> )}
+                  </CardContent>
+                  <CardFooter>
+                    <Button type="submit" disabled={processing || isBatchProcessing || selectedFiles.length === 0} className="w-full">
+                      {isBatchProcessing ? ( <> <Loader2 className="mr-2 h-4 w-4 animate-spin" /> バッチ処理中... </> ) : processing ? ( <> <Loader2 className="mr-2 h-4 w-4 animate-spin" /> ファイル処理中... </> ) : ( <> <Users className="mr-2 h-4 w-4" /> {selectedFiles.length > 1 ? `${selectedFiles.length} ファイルを処理` : (selectedFiles.length === 1 ? "選択したファイルを処理" : "訪問者をカウント (ファイル選択)") } </> )}
+                    </Button>
+                  </CardFooter>
+                </form>
+              </Card>
+            )}
+
+            {error && ( <Alert variant="destructive" className="shadow-md"> <AlertCircle className="h-4 w-4" /> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert> )}
+
+            {lastProcessedResult && !processing && !isBatchProcessing && (
+              <Card className="shadow-lg bg-gradient-to-br from-card to-secondary/30">
+                <CardHeader> <CardTitle className="text-2xl flex items-center text-accent-foreground gap-2"> <CheckCircle2 className="text-accent" /> 最新の処理結果 (UIアップロード) </CardTitle> <CardDescription className="text-accent-foreground/80"> 解析完了: <strong>{lastProcessedResult.videoFileName}</strong> </CardDescription> </CardHeader>
+                <CardContent className="space-y-4 text-lg">
+                   <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <Users className="h-6 w-6 text-accent" /> <span className="font-medium text-foreground">合計訪問者数:</span> </div> <span className="font-bold text-3xl text-accent">{lastProcessedResult.visitorCount}</span> </div>
+                  <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <ArrowRightLeft className="h-6 w-6 text-primary" /> <span className="font-medium text-foreground">カウント方向:</span> </div> <span className="font-semibold text-primary">{getDirectionLabel(lastProcessedResult.countedDirection)}</span> </div>
+                  {lastProcessedResult.countedDirection === 'both' && (
+                    <div className="grid grid-cols-3 gap-2 p-3 bg-background/70 rounded-md shadow-sm text-center">
+                      <div> <div className="text-sm text-muted-foreground">R→L</div> <div className="font-bold text-2xl text-green-600">{lastProcessedResult.enteringCount ?? 0}</div> </div>
+                      <div> <div className="text-sm text-muted-foreground">L→R</div> <div className="font-bold text-2xl text-red-600">{lastProcessedResult.exitingCount ?? 0}</div> </div>
+                      <div> <div className="text-sm text-muted-foreground">純流入</div> <div className="font-bold text-2xl text-primary">{lastProcessedResult.netFlow ?? 0}</div> </div>
+                    </div>
+                  )}
+                  {lastProcessedResult.confidence !== null && (
+                    <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <CheckCircle2 className="h-6 w-6 text-primary" /> <span className="font-medium text-foreground">AIの確信度:</span> </div> <span className="font-semibold text-primary">{Math.round(lastProcessedResult.confidence * 100)}%{lastProcessedResult.needsReview && " (レビュー待ち)"}</span> </div>
+                  )}
+                  {lastProcessedResult.crossingEventCount !== null && (
+                    <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <ListChecks className="h-6 w-6 text-primary" /> <span className="font-medium text-foreground">記録された通過イベント:</span> </div> <span className="font-semibold text-primary">{lastProcessedResult.crossingEventCount}</span> </div>
+                  )}
+                  {lastProcessedResult.locationName && lastProcessedResult.locationName !== 'N/A' && (
+                    <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <MapPin className="h-6 w-6 text-primary" /> <span className="font-medium text-foreground">地点名:</span> </div> <span className="font-semibold text-primary">{lastProcessedResult.locationName}</span> </div>
+                  )}
+                   <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <Video className="h-6 w-6 text-primary" /> <span className="font-medium text-foreground">録画開始日時:</span> </div> <span className="font-semibold text-primary">{lastProcessedResult.recordingStartDateTime && isValidDateFn(lastProcessedResult.recordingStartDateTime) ? format(lastProcessedResult.recordingStartDateTime, "PP p") : 'N/A'}</span> </div>
+                  <div className="flex items-center justify-between p-3 bg-background/70 rounded-md shadow-sm"> <div className="flex items-center gap-3"> <CalendarDays className="h-6 w-6 text-primary" /> <span className="font-medium text-foreground">処理日時:</span> </div> <span className="font-semibold text-primary">{format(lastProcessedResult.timestamp, "PP p")}</span> </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {allHistory.length > 0 && (
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-2xl flex items-center gap-2"> <ListChecks className="text-primary" /> 最近の処理結果 </CardTitle>
+                  <CardDescription>地点名・録画日時・カウントの誤りはここで修正できます。変更はすべて履歴に記録されます。</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>録画開始</TableHead>
+                        <TableHead>地点名</TableHead>
+                        <TableHead>方向</TableHead>
+                        <TableHead className="text-right">訪問者数</TableHead>
+                        <TableHead className="w-24" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {allHistory.map(entry => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="whitespace-nowrap">{entry.recordingStartDateTime ? format(entry.recordingStartDateTime, "yyyy-MM-dd HH:mm") : 'N/A'}</TableCell>
+                          <TableCell>{entry.locationName}</TableCell>
+                          <TableCell>{getDirectionLabel(entry.countedDirection)}</TableCell>
+                          <TableCell className="text-right font-semibold">{entry.visitorCount}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {canUpload && (
+                              <>
+                                <EditVisitorLogDialog record={entry} onSaved={loadHistory} />
+                                <DeleteVisitorLogDialog record={entry} onDeleted={loadHistory} />
+                              </>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="py-4 text-center">
+               <ExportReportDialog disabled={isBatchProcessing} />
+             </div>
+          </div>
+        </RequireRole>
       </main>
     </div>
   );
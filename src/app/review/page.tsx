@@ -0,0 +1,178 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, CheckCircle2, ClipboardCheck, Loader2, Pencil } from "lucide-react";
+import Header from "@/components/layout/Header";
+import { RequireRole } from "@/components/auth/RequireRole";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { directionalCounts } from "@/lib/visitorLogs";
+
+interface ReviewEntry {
+  id: string;
+  visitorCount: number;
+  countedDirection: string;
+  enteringCount: number | null;
+  exitingCount: number | null;
+  confidence: number | null;
+  qualityNotes: string | null;
+  countStatus?: string;
+  failedSegmentCount?: number;
+  locationName?: string;
+  videoFileName?: string;
+  recordingStartDateTime?: string;
+  videoStoragePath: string | null;
+}
+
+function ReviewCard({ entry, onResolved }: { entry: ReviewEntry; onResolved: (id: string) => void }) {
+  const { toast } = useToast();
+  const isBidirectional = entry.countedDirection === "both";
+  const counts = directionalCounts(entry);
+  const [visitorCount, setVisitorCount] = useState(String(entry.visitorCount));
+  const [enteringCount, setEnteringCount] = useState(String(counts.entering ?? 0));
+  const [exitingCount, setExitingCount] = useState(String(counts.exiting ?? 0));
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (action: "accept" | "override") => {
+    setSubmitting(true);
+    try {
+      const body = action === "accept"
+        ? { action, note }
+        : isBidirectional
+          ? { action, note, enteringCount: Number(enteringCount), exitingCount: Number(exitingCount) }
+          : { action, note, visitorCount: Number(visitorCount) };
+      const response = await fetch(`/api/visitor-logs/${entry.id}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+      }
+      toast({ title: action === "accept" ? "AIカウントを承認しました" : "カウントを修正しました", description: entry.videoFileName });
+      onResolved(entry.id);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "不明なエラーが発生しました。";
+      toast({ variant: "destructive", title: "レビューの保存に失敗しました", description: errorMessage });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl flex flex-wrap items-center gap-2">
+          {entry.videoFileName || entry.id}
+          {entry.countStatus === "partial" && <Badge variant="destructive">一部セグメント失敗 ({entry.failedSegmentCount})</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {entry.locationName || "N/A"} ・ 録画開始: {entry.recordingStartDateTime ? format(parseISO(entry.recordingStartDateTime), "PP p") : "N/A"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entry.videoStoragePath ? (
+          <video src={`/api/visitor-logs/${entry.id}/video`} controls preload="metadata" className="w-full rounded-md bg-black" />
+        ) : (
+          <div className="text-sm text-muted-foreground p-3 border rounded-md">保存された動画がありません。</div>
+        )}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+          <div className="p-3 bg-secondary/50 rounded-md"> <div className="text-xs text-muted-foreground">AIカウント</div> <div className="text-2xl font-bold text-accent">{entry.visitorCount}</div> </div>
+          {isBidirectional && <div className="p-3 bg-secondary/50 rounded-md"> <div className="text-xs text-muted-foreground">R→L / L→R</div> <div className="text-2xl font-bold text-primary">{counts.entering} / {counts.exiting}</div> </div>}
+          <div className="p-3 bg-secondary/50 rounded-md"> <div className="text-xs text-muted-foreground">確信度</div> <div className="text-2xl font-bold text-primary">{entry.confidence !== null ? `${Math.round(entry.confidence * 100)}%` : "N/A"}</div> </div>
+        </div>
+        {entry.qualityNotes && (
+          <div className="text-sm whitespace-pre-line p-3 border rounded-md bg-background"> <span className="font-medium">AIのメモ: </span>{entry.qualityNotes}</div>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {isBidirectional ? (
+            <>
+              <div className="space-y-2"> <Label htmlFor={`entering-${entry.id}`}>修正後 R→L</Label> <Input id={`entering-${entry.id}`} type="number" min={0} value={enteringCount} onChange={(e) => setEnteringCount(e.target.value)} disabled={submitting} /> </div>
+              <div className="space-y-2"> <Label htmlFor={`exiting-${entry.id}`}>修正後 L→R</Label> <Input id={`exiting-${entry.id}`} type="number" min={0} value={exitingCount} onChange={(e) => setExitingCount(e.target.value)} disabled={submitting} /> </div>
+            </>
+          ) : (
+            <div className="space-y-2"> <Label htmlFor={`count-${entry.id}`}>修正後の訪問者数</Label> <Input id={`count-${entry.id}`} type="number" min={0} value={visitorCount} onChange={(e) => setVisitorCount(e.target.value)} disabled={submitting} /> </div>
+          )}
+        </div>
+        <div className="space-y-2"> <Label htmlFor={`note-${entry.id}`}>メモ (任意)</Label> <Textarea id={`note-${entry.id}`} value={note} onChange={(e) => setNote(e.target.value)} disabled={submitting} /> </div>
+      </CardContent>
+      <CardFooter className="flex flex-col sm:flex-row gap-3">
+        <Button className="w-full sm:w-auto" onClick={() => submit("accept")} disabled={submitting}>
+          {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />} AIカウントを承認
+        </Button>
+        <Button className="w-full sm:w-auto" variant="outline" onClick={() => submit("override")} disabled={submitting}>
+          <Pencil className="mr-2 h-4 w-4" /> 修正値で上書き
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export default function ReviewPage() {
+  const [entries, setEntries] = useState<ReviewEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/review-queue", { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+      }
+      setEntries(data.entries);
+    } catch (err) {
+      console.error("レビューキューの読み込みエラー:", err);
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <RequireRole role="operator">
+          <div className="max-w-3xl mx-auto space-y-8">
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-2xl flex items-center gap-2"> <ClipboardCheck className="text-primary" /> レビュー待ち ({entries.length}) </CardTitle>
+                <CardDescription>
+                  AIの確信度が低い、または一部のセグメントが失敗した結果です。動画を確認し、AIカウントを承認するか修正してください。修正してもAIの値は記録に残ります。レビューはログイン中のユーザーとして記録されます。
+                </CardDescription>
+              </CardHeader>
+            </Card>
+
+            {error && ( <Alert variant="destructive" className="shadow-md"> <AlertCircle className="h-4 w-4" /> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert> )}
+
+            {loading ? (
+              <div className="flex justify-center py-8"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> </div>
+            ) : entries.length === 0 && !error ? (
+              <div className="text-center text-muted-foreground py-8">レビュー待ちの結果はありません。</div>
+            ) : (
+              entries.map(entry => (
+                <ReviewCard key={entry.id} entry={entry} onResolved={(id) => setEntries(prev => prev.filter(e => e.id !== id))} />
+              ))
+            )}
+          </div>
+        </RequireRole>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertCircle, Camera, Loader2, MapPin, Pencil, Plus, Settings, Trash2 } from "lucide-react";
+import Header from "@/components/layout/Header";
+import { RequireRole } from "@/components/auth/RequireRole";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import type { CountingGeometry, ModelSettings, VisionProviderId } from "@/ai/types";
+import { CountingGeometryEditor } from "@/components/cameras/CountingGeometryEditor";
+import { UserSettings } from "@/components/users/UserSettings";
+import { WebhookSettings } from "@/components/webhooks/WebhookSettings";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { DIRECTION_LABELS } from "@/lib/visitorLogs";
+
+interface LocationEntry {
+  id: string;
+  displayName: string;
+  timeZone: string;
+  defaultDirection: string;
+  aliases: string[];
+}
+
+interface CameraEntry {
+  id: string;
+  displayName: string;
+  locationId: string;
+  timeZone: string;
+  defaultDirection: string;
+  countingGeometry: CountingGeometry | null;
+  modelSettings: ModelSettings | null;
+}
+
+const DEFAULT_TIME_ZONE = "Asia/Tokyo";
+/** Select value for "use the server's provider". */
+const SERVER_DEFAULT = "default";
+const PROVIDER_LABELS: Record<VisionProviderId, string> = { googleai: "Google AI (Gemini)", stub: "スタブ (テスト用)" };
+
+async function sendJson(url: string, method: "POST" | "PATCH" | "DELETE", body?: Record<string, unknown>) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+  }
+  return data;
+}
+
+function DirectionSelect({ id, value, onChange, disabled }: { id: string; value: string; onChange: (value: string) => void; disabled: boolean }) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger id={id}> <SelectValue /> </SelectTrigger>
+      <SelectContent>
+        {Object.entries(DIRECTION_LABELS).map(([direction, label]) => <SelectItem key={direction} value={direction}>{label}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Dialog for registering a location, or editing one when `location` is given.
+ */
+function LocationDialog({ location, onSaved }: { location?: LocationEntry; onSaved: () => void }) {
+  const { toast } = useToast();
+  const isNew = !location;
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [id, setId] = useState(location?.id ?? "");
+  const [displayName, setDisplayName] = useState(location?.displayName ?? "");
+  const [timeZone, setTimeZone] = useState(location?.timeZone ?? DEFAULT_TIME_ZONE);
+  const [defaultDirection, setDefaultDirection] = useState(location?.defaultDirection ?? "entering");
+  // The display name is always an alias, so only the extra names are edited here.
+  const [aliases, setAliases] = useState((location?.aliases ?? []).filter(alias => alias !== location?.displayName).join("\n"));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const body = { id, displayName, timeZone, defaultDirection, aliases: aliases.split("\n").map(alias => alias.trim()).filter(Boolean) };
+      await sendJson(isNew ? "/api/locations" : `/api/locations/${location.id}`, isNew ? "POST" : "PATCH", body);
+      toast({ title: isNew ? "地点を登録しました" : "地点を更新しました", description: displayName });
+      setOpen(false);
+      onSaved();
+    } catch (err) {
+      toast({ variant: "destructive", title: "地点の保存に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {isNew
+          ? <Button size="sm"> <Plus className="mr-1 h-4 w-4" /> 地点を追加 </Button>
+          : <Button variant="ghost" size="icon" aria-label={`${location.displayName} を編集`}> <Pencil className="h-4 w-4" /> </Button>}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isNew ? "地点の登録" : "地点の編集"}</DialogTitle>
+          <DialogDescription>別名に登録した地点名でアップロードされた動画は、この地点として集計されます。空白や全角・半角の違いは無視されます。</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2"> <Label htmlFor="location-id">ID</Label> <Input id="location-id" value={id} onChange={(e) => setId(e.target.value)} placeholder="例: north-gate" disabled={saving || !isNew} /> </div>
+          <div className="space-y-2"> <Label htmlFor="location-name">表示名</Label> <Input id="location-name" value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder="例: 北口ゲート" disabled={saving} /> </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2"> <Label htmlFor="location-tz">タイムゾーン</Label> <Input id="location-tz" value={timeZone} onChange={(e) => setTimeZone(e.target.value)} disabled={saving} /> </div>
+            <div className="space-y-2"> <Label htmlFor="location-direction">既定の方向</Label> <DirectionSelect id="location-direction" value={defaultDirection} onChange={setDefaultDirection} disabled={saving} /> </div>
+          </div>
+          <div className="space-y-2"> <Label htmlFor="location-aliases">別名 (1行に1つ)</Label> <Textarea id="location-aliases" value={aliases} onChange={(e) => setAliases(e.target.value)} placeholder={"例: 北口\nNorth Gate"} disabled={saving} /> </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving}> {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} 保存 </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Dialog for registering a camera, or editing one when `camera` is given.
+ */
+function CameraDialog({ camera, locations, onSaved }: { camera?: CameraEntry; locations: LocationEntry[]; onSaved: () => void }) {
+  const { toast } = useToast();
+  const isNew = !camera;
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [id, setId] = useState(camera?.id ?? "");
+  const [displayName, setDisplayName] = useState(camera?.displayName ?? "");
+  const [locationId, setLocationId] = useState(camera?.locationId ?? "");
+  const [timeZone, setTimeZone] = useState(camera?.timeZone ?? DEFAULT_TIME_ZONE);
+  const [defaultDirection, setDefaultDirection] = useState(camera?.defaultDirection ?? "entering");
+  const [countingGeometry, setCountingGeometry] = useState<CountingGeometry | null>(camera?.countingGeometry ?? null);
+  const [provider, setProvider] = useState<string>(camera?.modelSettings?.provider ?? SERVER_DEFAULT);
+  const [model, setModel] = useState(camera?.modelSettings?.model ?? "");
+  const [temperature, setTemperature] = useState(camera?.modelSettings?.temperature?.toString() ?? "");
+
+  const handleLocationChange = (value: string) => {
+    setLocationId(value);
+    // New cameras start with their location's settings.
+    const location = locations.find(l => l.id === value);
+    if (isNew && location) {
+      setTimeZone(location.timeZone);
+      setDefaultDirection(location.defaultDirection);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const modelSettings: ModelSettings = {
+        provider: provider === SERVER_DEFAULT ? undefined : provider as VisionProviderId,
+        model: model.trim() || undefined,
+        temperature: temperature.trim() ? Number(temperature) : undefined,
+      };
+      const hasModelSettings = Object.values(modelSettings).some(value => value !== undefined);
+      const body = { id, displayName, locationId, timeZone, defaultDirection, countingGeometry, modelSettings: hasModelSettings ? modelSettings : null };
+      await sendJson(isNew ? "/api/cameras" : `/api/cameras/${camera.id}`, isNew ? "POST" : "PATCH", body);
+      toast({ title: isNew ? "カメラを登録しました" : "カメラを更新しました", description: displayName });
+      setOpen(false);
+      onSaved();
+    } catch (err) {
+      toast({ variant: "destructive", title: "カメラの保存に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {isNew
+          ? <Button size="sm" disabled={locations.length === 0}> <Plus className="mr-1 h-4 w-4" /> カメラを追加 </Button>
+          : <Button variant="ghost" size="icon" aria-label={`${camera.displayName} を編集`}> <Pencil className="h-4 w-4" /> </Button>}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "カメラの登録" : "カメラの編集"}</DialogTitle>
+          <DialogDescription>アップロード時にカメラを指定すると、地点・タイムゾーン・方向はここでの設定が使われます。</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2"> <Label htmlFor="camera-id">ID</Label> <Input id="camera-id" value={id} onChange={(e) => setId(e.target.value)} placeholder="例: north-gate-1" disabled={saving || !isNew} /> </div>
+          <div className="space-y-2"> <Label htmlFor="camera-name">表示名</Label> <Input id="camera-name" value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder="例: 北口ゲート 天井カメラ" disabled={saving} /> </div>
+          <div className="space-y-2">
+            <Label htmlFor="camera-location">地点</Label>
+            <Select value={locationId} onValueChange={handleLocationChange} disabled={saving}>
+              <SelectTrigger id="camera-location"> <SelectValue placeholder="地点を選択" /> </SelectTrigger>
+              <SelectContent>
+                {locations.map(location => <SelectItem key={location.id} value={location.id}>{location.displayName}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2"> <Label htmlFor="camera-tz">タイムゾーン</Label> <Input id="camera-tz" value={timeZone} onChange={(e) => setTimeZone(e.target.value)} disabled={saving} /> </div>
+            <div className="space-y-2"> <Label htmlFor="camera-direction">既定の方向</Label> <DirectionSelect id="camera-direction" value={defaultDirection} onChange={setDefaultDirection} disabled={saving} /> </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="camera-provider">AIプロバイダ</Label>
+              <Select value={provider} onValueChange={(value) => { setProvider(value); setModel(""); }} disabled={saving}>
+                <SelectTrigger id="camera-provider"> <SelectValue /> </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SERVER_DEFAULT}>サーバーの既定</SelectItem>
+                  {Object.entries(PROVIDER_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2"> <Label htmlFor="camera-model">モデル</Label> <Input id="camera-model" value={model} onChange={(e) => setModel(e.target.value)} placeholder="既定" disabled={saving} /> </div>
+            <div className="space-y-2"> <Label htmlFor="camera-temperature">Temperature</Label> <Input id="camera-temperature" type="number" min={0} max={2} step={0.1} value={temperature} onChange={(e) => setTemperature(e.target.value)} placeholder="既定" disabled={saving} /> </div>
+          </div>
+          <div className="space-y-2">
+            <Label>カウントライン / 領域</Label>
+            <p className="text-xs text-muted-foreground">未設定の場合、AIは画面全体から入退場の向きを判断します。</p>
+            <CountingGeometryEditor value={countingGeometry} onChange={setCountingGeometry} disabled={saving} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving}> {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} 保存 </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function SettingsPage() {
+  const { toast } = useToast();
+  const [locations, setLocations] = useState<LocationEntry[]>([]);
+  const [cameras, setCameras] = useState<CameraEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRegistry = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [locationData, cameraData] = await Promise.all([
+        fetch("/api/locations", { cache: "no-store" }).then(response => response.json().then(data => response.ok ? data : Promise.reject(new Error(data.error || data.messageFromServer)))),
+        fetch("/api/cameras", { cache: "no-store" }).then(response => response.json().then(data => response.ok ? data : Promise.reject(new Error(data.error || data.messageFromServer)))),
+      ]);
+      setLocations(locationData.locations);
+      setCameras(cameraData.cameras);
+    } catch (err) {
+      console.error("設定の読み込みエラー:", err);
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRegistry();
+  }, [loadRegistry]);
+
+  const handleDelete = async (kind: "locations" | "cameras", id: string, name: string) => {
+    if (!window.confirm(`${name} を削除しますか?`)) return;
+    try {
+      await sendJson(`/api/${kind}/${id}`, "DELETE");
+      toast({ title: "削除しました", description: name });
+      loadRegistry();
+    } catch (err) {
+      toast({ variant: "destructive", title: "削除に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    }
+  };
+
+  const locationName = (id: string) => locations.find(location => location.id === id)?.displayName ?? id;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <RequireRole role="admin">
+          <div className="max-w-5xl mx-auto space-y-8">
+            <div className="flex items-center gap-2 text-2xl font-semibold"> <Settings className="text-primary" /> 設定 </div>
+
+            {error && ( <Alert variant="destructive" className="shadow-md"> <AlertCircle className="h-4 w-4" /> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert> )}
+
+            {loading ? (
+              <div className="flex justify-center py-8"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> </div>
+            ) : (
+              <>
+                <Card className="shadow-lg">
+                  <CardHeader className="flex flex-row items-start justify-between gap-4">
+                    <div className="space-y-1.5">
+                      <CardTitle className="text-xl flex items-center gap-2"> <MapPin className="text-primary" /> 地点 </CardTitle>
+                      <CardDescription>レポートで使われる地点名です。以前に手入力された地点名は別名として登録すると統合されます。</CardDescription>
+                    </div>
+                    <LocationDialog onSaved={loadRegistry} />
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>ID</TableHead>
+                          <TableHead>表示名</TableHead>
+                          <TableHead>タイムゾーン</TableHead>
+                          <TableHead>既定の方向</TableHead>
+                          <TableHead>別名</TableHead>
+                          <TableHead className="w-24" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {locations.length === 0 ? (
+                          <TableRow> <TableCell colSpan={6} className="text-center text-muted-foreground">登録された地点はありません。</TableCell> </TableRow>
+                        ) : locations.map(location => (
+                          <TableRow key={location.id}>
+                            <TableCell className="font-mono text-xs">{location.id}</TableCell>
+                            <TableCell>{location.displayName}</TableCell>
+                            <TableCell>{location.timeZone}</TableCell>
+                            <TableCell>{DIRECTION_LABELS[location.defaultDirection] ?? location.defaultDirection}</TableCell>
+                            <TableCell className="space-x-1">{location.aliases.filter(alias => alias !== location.displayName).map(alias => <Badge key={alias} variant="secondary">{alias}</Badge>)}</TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                              <LocationDialog key={JSON.stringify(location)} location={location} onSaved={loadRegistry} />
+                              <Button variant="ghost" size="icon" aria-label={`${location.displayName} を削除`} onClick={() => handleDelete("locations", location.id, location.displayName)}> <Trash2 className="h-4 w-4 text-destructive" /> </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+
+                <Card className="shadow-lg">
+                  <CardHeader className="flex flex-row items-start justify-between gap-4">
+                    <div className="space-y-1.5">
+                      <CardTitle className="text-xl flex items-center gap-2"> <Camera className="text-primary" /> カメラ </CardTitle>
+                      <CardDescription>API でアップロードするスクリプトは <code>cameraId</code> にカメラの ID を指定してください。</CardDescription>
+                    </div>
+                    <CameraDialog locations={locations} onSaved={loadRegistry} />
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>ID</TableHead>
+                          <TableHead>表示名</TableHead>
+                          <TableHead>地点</TableHead>
+                          <TableHead>タイムゾーン</TableHead>
+                          <TableHead>既定の方向</TableHead>
+                          <TableHead>カウント範囲</TableHead>
+                          <TableHead className="w-24" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {cameras.length === 0 ? (
+                          <TableRow> <TableCell colSpan={7} className="text-center text-muted-foreground">登録されたカメラはありません。</TableCell> </TableRow>
+                        ) : cameras.map(camera => (
+                          <TableRow key={camera.id}>
+                            <TableCell className="font-mono text-xs">{camera.id}</TableCell>
+                            <TableCell>{camera.displayName}</TableCell>
+                            <TableCell>{locationName(camera.locationId)}</TableCell>
+                            <TableCell>{camera.timeZone}</TableCell>
+                            <TableCell>{DIRECTION_LABELS[camera.defaultDirection] ?? camera.defaultDirection}</TableCell>
+                            <TableCell>{camera.countingGeometry ? <Badge variant="secondary">{camera.countingGeometry.type === "line" ? "ライン" : "領域"}</Badge> : <span className="text-muted-foreground">未設定</span>}</TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                              <CameraDialog key={JSON.stringify(camera)} camera={camera} locations={locations} onSaved={loadRegistry} />
+                              <Button variant="ghost" size="icon" aria-label={`${camera.displayName} を削除`} onClick={() => handleDelete("cameras", camera.id, camera.displayName)}> <Trash2 className="h-4 w-4 text-destructive" /> </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+
+                <UserSettings />
+
+                <WebhookSettings />
+              </>
+            )}
+          </div>
+        </RequireRole>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, ArrowLeft, ArrowRight, ChevronLeft, Loader2, Save, Trash2, Undo2 } from "lucide-react";
+import type { CrossingDirection } from "@/ai/types";
+import Header from "@/components/layout/Header";
+import { RequireRole } from "@/components/auth/RequireRole";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { CROSSING_MATCH_TOLERANCE_SEC, matchCrossings, type TimedCrossing } from "@/lib/crossingMatch";
+import { DIRECTION_LABELS, directionalCounts } from "@/lib/visitorLogs";
+
+interface LogDetail {
+  id: string;
+  videoFileName: string;
+  locationName?: string;
+  recordingStartDateTime?: string | null;
+  countedDirection: string;
+  visitorCount: number;
+  enteringCount?: number | null;
+  exitingCount?: number | null;
+  detailed?: boolean;
+  videoStoragePath?: string | null;
+}
+
+interface GroundTruthEntry {
+  id: string;
+  taps: TimedCrossing[];
+  enteringCount: number;
+  exitingCount: number;
+  visitorCount: number;
+  countedBy: string;
+  note: string | null;
+  createdAt: string;
+}
+
+/** Seconds skipped by the , and . keys. */
+const SEEK_STEP_SEC = 2;
+
+async function fetchJson(url: string) {
+  const response = await fetch(url, { cache: "no-store" });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+  }
+  return data;
+}
+
+function formatOffset(sec: number): string {
+  return `${Math.floor(sec / 60)}:${(sec % 60).toFixed(1).padStart(4, "0")}`;
+}
+
+/** One row of crossing markers along the video's duration; clicking a marker seeks to it. */
+function TimelineRow({ label, crossings, durationSec, onSeek }: { label: string; crossings: TimedCrossing[]; durationSec: number; onSeek: (sec: number) => void }) {
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-16 shrink-0 text-xs text-muted-foreground">{label}</span>
+      <div className="relative h-6 flex-grow rounded bg-secondary/50">
+        {crossings.map((crossing, index) => (
+          <button
+            key={index}
+            type="button"
+            title={`${formatOffset(crossing.offsetSec)} ${DIRECTION_LABELS[crossing.direction]}`}
+            onClick={() => onSeek(crossing.offsetSec)}
+            className={`absolute top-1 h-4 w-1 rounded-sm ${crossing.direction === "entering" ? "bg-primary" : "bg-accent"}`}
+            style={{ left: `${Math.min(100, (crossing.offsetSec / durationSec) * 100)}%` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function TallyPage() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [detail, setDetail] = useState<LogDetail | null>(null);
+  const [aiEvents, setAiEvents] = useState<TimedCrossing[] | null>(null);
+  const [sessions, setSessions] = useState<GroundTruthEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [localVideoUrl, setLocalVideoUrl] = useState<string | null>(null);
+  const [durationSec, setDurationSec] = useState(0);
+  // Kept in the order they were added, so undo removes the latest tap.
+  const [taps, setTaps] = useState<TimedCrossing[]>([]);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    const data = await fetchJson(`/api/visitor-logs/${id}/ground-truth`);
+    setSessions(data.entries);
+  }, [id]);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const log: LogDetail = await fetchJson(`/api/visitor-logs/${id}`);
+        setDetail(log);
+        if (log.detailed) {
+          const events = await fetchJson(`/api/visitor-logs/${id}/crossing-events`);
+          setAiEvents(events.events.map((event: TimedCrossing) => ({ offsetSec: event.offsetSec, direction: event.direction })));
+        }
+        await loadSessions();
+      } catch (err) {
+        console.error("記録の読み込みエラー:", err);
+        setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [id, loadSessions]);
+
+  useEffect(() => () => { if (localVideoUrl) URL.revokeObjectURL(localVideoUrl); }, [localVideoUrl]);
+
+  const addTap = useCallback((direction: CrossingDirection) => {
+    const video = videoRef.current;
+    if (!video) return;
+    setTaps(prev => [...prev, { offsetSec: Math.round(video.currentTime * 10) / 10, direction }]);
+  }, []);
+
+  const seekTo = useCallback((sec: number) => {
+    if (videoRef.current) videoRef.current.currentTime = Math.max(0, sec);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || event.metaKey || event.ctrlKey || event.altKey) return;
+      const video = videoRef.current;
+      if (!video) return;
+      switch (event.key) {
+        case "ArrowLeft": addTap("entering"); break;
+        case "ArrowRight": addTap("exiting"); break;
+        case "Backspace": setTaps(prev => prev.slice(0, -1)); break;
+        case " ": if (video.paused) video.play(); else video.pause(); break;
+        case ",": seekTo(video.currentTime - SEEK_STEP_SEC); break;
+        case ".": seekTo(video.currentTime + SEEK_STEP_SEC); break;
+        default: return;
+      }
+      // Keep the browser from also scrolling or seeking the focused player.
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [addTap, seekTo]);
+
+  const handleLocalFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) setLocalVideoUrl(URL.createObjectURL(file));
+  };
+
+  const sortedTaps = useMemo(() => [...taps].sort((a, b) => a.offsetSec - b.offsetSec), [taps]);
+  const tally = {
+    entering: taps.filter(tap => tap.direction === "entering").length,
+    exiting: taps.filter(tap => tap.direction === "exiting").length,
+  };
+  const aiCounts = detail ? directionalCounts(detail) : null;
+  const match = aiEvents ? matchCrossings(sortedTaps, aiEvents) : null;
+  const timelineDuration = Math.max(durationSec, ...sortedTaps.map(tap => tap.offsetSec), ...(aiEvents ?? []).map(event => event.offsetSec), 1);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/visitor-logs/${id}/ground-truth`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ taps: sortedTaps, note, videoDurationSec: durationSec || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+      }
+      toast({ title: "手動カウントを保存しました", description: `${DIRECTION_LABELS.entering} ${data.enteringCount} / ${DIRECTION_LABELS.exiting} ${data.exitingCount}` });
+      await loadSessions();
+    } catch (err) {
+      toast({ variant: "destructive", title: "保存に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const videoSrc = localVideoUrl ?? (detail?.videoStoragePath ? `/api/visitor-logs/${id}/video` : null);
+  const diff = (ai: number | null, manual: number) => ai === null ? "—" : `${ai - manual > 0 ? "+" : ""}${ai - manual}`;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <RequireRole role="operator">
+          <div className="max-w-5xl mx-auto space-y-8">
+            <Button asChild variant="ghost" size="sm"> <Link href="/history"> <ChevronLeft className="mr-1 h-4 w-4" /> 履歴に戻る </Link> </Button>
+
+            {error && ( <Alert variant="destructive" className="shadow-md"> <AlertCircle className="h-4 w-4" /> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert> )}
+            {loading && <div className="flex justify-center py-8"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> </div>}
+
+            {detail && aiCounts && (
+              <>
+                <Card className="shadow-lg">
+                  <CardHeader>
+                    <CardTitle className="text-2xl break-all">{detail.videoFileName}</CardTitle>
+                    <CardDescription>
+                      {detail.locationName || "N/A"} ・ 録画開始: {detail.recordingStartDateTime ? format(parseISO(detail.recordingStartDateTime), "PP p") : "N/A"} ・ AIの方向: {DIRECTION_LABELS[detail.countedDirection] ?? detail.countedDirection}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {videoSrc ? (
+                      <video
+                        ref={videoRef}
+                        src={videoSrc}
+                        controls
+                        preload="metadata"
+                        onLoadedMetadata={(e) => setDurationSec(e.currentTarget.duration)}
+                        className="w-full rounded-md bg-black"
+                      />
+                    ) : (
+                      <div className="text-sm text-muted-foreground p-3 border rounded-md">この記録には保存された動画がありません。同じ動画ファイルを選択してください。</div>
+                    )}
+                    <div className="flex flex-wrap items-center gap-3">
+                      <Input type="file" accept="video/*" onChange={handleLocalFile} className="max-w-xs" />
+                      <span className="text-xs text-muted-foreground">手元の動画ファイルを使う場合に選択 (アップロードはされません)</span>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      キー操作: <kbd className="px-1 border rounded">←</kbd> {DIRECTION_LABELS.entering} ・ <kbd className="px-1 border rounded">→</kbd> {DIRECTION_LABELS.exiting} ・ <kbd className="px-1 border rounded">Backspace</kbd> 直前を取り消し ・ <kbd className="px-1 border rounded">Space</kbd> 再生/停止 ・ <kbd className="px-1 border rounded">,</kbd> <kbd className="px-1 border rounded">.</kbd> {SEEK_STEP_SEC}秒戻る/進む
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                      <Button variant="outline" className="h-16 text-lg" onClick={() => addTap("entering")} disabled={!videoSrc}> <ArrowLeft className="mr-2 h-5 w-5" /> {DIRECTION_LABELS.entering}: {tally.entering} </Button>
+                      <Button variant="outline" className="h-16 text-lg" onClick={() => addTap("exiting")} disabled={!videoSrc}> <ArrowRight className="mr-2 h-5 w-5" /> {DIRECTION_LABELS.exiting}: {tally.exiting} </Button>
+                      <Button variant="ghost" className="h-16" onClick={() => setTaps(prev => prev.slice(0, -1))} disabled={taps.length === 0}> <Undo2 className="mr-2 h-4 w-4" /> 取り消し </Button>
+                      <Button variant="ghost" className="h-16" onClick={() => setTaps([])} disabled={taps.length === 0}> <Trash2 className="mr-2 h-4 w-4" /> すべてクリア </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="shadow-lg">
+                  <CardHeader>
+                    <CardTitle className="text-xl">AIとの比較</CardTitle>
+                    <CardDescription>
+                      差はAI − 手動です。{aiEvents ? `通過イベントは同じ方向で±${CROSSING_MATCH_TOLERANCE_SEC}秒以内を一致とみなします。` : "この記録には通過イベントがありません (詳細モードではありません)。"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <Table>
+                      <TableHeader>
+                        <TableRow> <TableHead>方向</TableHead> <TableHead className="text-right">AI</TableHead> <TableHead className="text-right">手動</TableHead> <TableHead className="text-right">差</TableHead> </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        <TableRow> <TableCell>{DIRECTION_LABELS.entering}</TableCell> <TableCell className="text-right">{aiCounts.entering ?? "—"}</TableCell> <TableCell className="text-right">{tally.entering}</TableCell> <TableCell className="text-right">{diff(aiCounts.entering, tally.entering)}</TableCell> </TableRow>
+                        <TableRow> <TableCell>{DIRECTION_LABELS.exiting}</TableCell> <TableCell className="text-right">{aiCounts.exiting ?? "—"}</TableCell> <TableCell className="text-right">{tally.exiting}</TableCell> <TableCell className="text-right">{diff(aiCounts.exiting, tally.exiting)}</TableCell> </TableRow>
+                      </TableBody>
+                    </Table>
+                    <div className="space-y-2">
+                      {aiEvents && <TimelineRow label="AI" crossings={aiEvents} durationSec={timelineDuration} onSeek={seekTo} />}
+                      <TimelineRow label="手動" crossings={sortedTaps} durationSec={timelineDuration} onSeek={seekTo} />
+                      <div className="flex gap-4 text-xs text-muted-foreground pl-20">
+                        <span className="flex items-center gap-1"><span className="inline-block h-3 w-1 bg-primary" /> {DIRECTION_LABELS.entering}</span>
+                        <span className="flex items-center gap-1"><span className="inline-block h-3 w-1 bg-accent" /> {DIRECTION_LABELS.exiting}</span>
+                      </div>
+                    </div>
+                    {match && (
+                      <div className="text-sm">
+                        一致: {match.matched} 件 ・ 手動のうちAIが検出 {match.expected > 0 ? `${Math.round((match.matched / match.expected) * 100)}%` : "—"} ・ AIのうち手動と一致 {match.predicted > 0 ? `${Math.round((match.matched / match.predicted) * 100)}%` : "—"}
+                      </div>
+                    )}
+                    {sortedTaps.length > 0 && (
+                      <div className="max-h-64 overflow-y-auto border rounded-md">
+                        <Table>
+                          <TableBody>
+                            {sortedTaps.map((tap, index) => (
+                              <TableRow key={`${tap.offsetSec}-${index}`} className="cursor-pointer" onClick={() => seekTo(tap.offsetSec)}>
+                                <TableCell className="font-mono">{formatOffset(tap.offsetSec)}</TableCell>
+                                <TableCell>{DIRECTION_LABELS[tap.direction]}</TableCell>
+                                <TableCell>{match && (match.pairs[index] !== null ? <Badge variant="secondary">AIと一致</Badge> : <Badge variant="outline">AI未検出</Badge>)}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    )}
+                  </CardContent>
+                  <CardFooter className="flex flex-col items-stretch gap-4">
+                    <div className="space-y-2"> <Label htmlFor="tallyNote">メモ (任意)</Label> <Textarea id="tallyNote" value={note} onChange={(e) => setNote(e.target.value)} disabled={saving} className="min-h-10" /> </div>
+                    <Button onClick={handleSave} disabled={saving} className="sm:self-end">
+                      {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} 正解データとして保存
+                    </Button>
+                  </CardFooter>
+                </Card>
+
+                <Card className="shadow-lg">
+                  <CardHeader>
+                    <CardTitle className="text-xl">保存済みの手動カウント ({sessions.length})</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {sessions.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">まだ保存されていません。</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow> <TableHead>保存日時</TableHead> <TableHead>担当者</TableHead> <TableHead className="text-right">{DIRECTION_LABELS.entering}</TableHead> <TableHead className="text-right">{DIRECTION_LABELS.exiting}</TableHead> <TableHead>メモ</TableHead> <TableHead /> </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {sessions.map(session => (
+                            <TableRow key={session.id}>
+                              <TableCell>{format(parseISO(session.createdAt), "PP p")}</TableCell>
+                              <TableCell>{session.countedBy}</TableCell>
+                              <TableCell className="text-right">{session.enteringCount}</TableCell>
+                              <TableCell className="text-right">{session.exitingCount}</TableCell>
+                              <TableCell className="max-w-xs truncate">{session.note}</TableCell>
+                              <TableCell className="text-right"> <Button variant="ghost" size="sm" onClick={() => setTaps(session.taps)}>読み込む</Button> </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </RequireRole>
+      </main>
+    </div>
+  );
+}
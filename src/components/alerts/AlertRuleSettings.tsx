@@ -0,0 +1,269 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { BellRing, Loader2, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+
+type AlertRuleType = "countAbove" | "countBelow" | "noUpload" | "repeatedFailures";
+
+interface AlertRuleEntry {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  locationName: string;
+  cameraId: string | null;
+  threshold: number | null;
+  windowHours: number;
+  emailRecipients: string[];
+  enabled: boolean;
+  activeAlertId: string | null;
+  lastEvaluatedAt: string | null;
+}
+
+export const ALERT_RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  countAbove: "訪問者数が上限を超過",
+  countBelow: "訪問者数が下限を下回る",
+  noUpload: "アップロードなし",
+  repeatedFailures: "処理の失敗が続く",
+};
+
+const THRESHOLD_LABELS: Record<AlertRuleType, string | null> = {
+  countAbove: "上限 (人)",
+  countBelow: "下限 (人)",
+  noUpload: null,
+  repeatedFailures: "失敗回数 (件)",
+};
+
+async function sendJson(url: string, method: "GET" | "POST" | "PATCH" | "DELETE", body?: Record<string, unknown>) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+    cache: "no-store",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+  }
+  return data;
+}
+
+function describeCondition(rule: AlertRuleEntry): string {
+  switch (rule.type) {
+    case "countAbove": return `直近${rule.windowHours}時間で ${rule.threshold}人を超える`;
+    case "countBelow": return `直近${rule.windowHours}時間で ${rule.threshold}人未満`;
+    case "noUpload": return `${rule.windowHours}時間アップロードなし`;
+    case "repeatedFailures": return `直近${rule.windowHours}時間で ${rule.threshold}件以上失敗`;
+  }
+}
+
+/**
+ * Dialog for adding a rule, or editing one when `rule` is given.
+ */
+function AlertRuleDialog({ rule, onSaved }: { rule?: AlertRuleEntry; onSaved: () => void }) {
+  const { toast } = useToast();
+  const isNew = !rule;
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState(rule?.name ?? "");
+  const [type, setType] = useState<AlertRuleType>(rule?.type ?? "countAbove");
+  const [locationName, setLocationName] = useState(rule?.locationName ?? "");
+  const [cameraId, setCameraId] = useState(rule?.cameraId ?? "");
+  const [threshold, setThreshold] = useState(rule?.threshold?.toString() ?? "");
+  const [windowHours, setWindowHours] = useState(rule?.windowHours.toString() ?? "1");
+  const [emailRecipients, setEmailRecipients] = useState((rule?.emailRecipients ?? []).join("\n"));
+  const [enabled, setEnabled] = useState(rule?.enabled ?? true);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const body = {
+        name,
+        type,
+        locationName,
+        cameraId: cameraId.trim() || null,
+        threshold: THRESHOLD_LABELS[type] ? Number(threshold) : null,
+        windowHours: Number(windowHours),
+        emailRecipients: emailRecipients.split("\n").map(recipient => recipient.trim()).filter(Boolean),
+        enabled,
+      };
+      await sendJson(isNew ? "/api/admin/alert-rules" : `/api/admin/alert-rules/${rule.id}`, isNew ? "POST" : "PATCH", body);
+      toast({ title: isNew ? "アラートルールを登録しました" : "アラートルールを更新しました", description: name });
+      setOpen(false);
+      onSaved();
+    } catch (err) {
+      toast({ variant: "destructive", title: "アラートルールの保存に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {isNew
+          ? <Button size="sm"> <Plus className="mr-1 h-4 w-4" /> ルールを追加 </Button>
+          : <Button variant="ghost" size="icon" aria-label={`${rule.name} を編集`}> <Pencil className="h-4 w-4" /> </Button>}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "アラートルールの登録" : "アラートルールの編集"}</DialogTitle>
+          <DialogDescription>条件を満たすとアラートセンターに表示し、メールと <code>alert.triggered</code> のWebhookで通知します。条件が解消すると自動で解決済みになります。</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2"> <Label htmlFor="alert-rule-name">名前</Label> <Input id="alert-rule-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="例: 北口 混雑" disabled={saving} /> </div>
+          <div className="space-y-2">
+            <Label htmlFor="alert-rule-type">条件</Label>
+            <Select value={type} onValueChange={(value) => setType(value as AlertRuleType)} disabled={saving}>
+              <SelectTrigger id="alert-rule-type"> <SelectValue /> </SelectTrigger>
+              <SelectContent>
+                {(Object.entries(ALERT_RULE_TYPE_LABELS) as [AlertRuleType, string][]).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2"> <Label htmlFor="alert-rule-location">地点名</Label> <Input id="alert-rule-location" value={locationName} onChange={(e) => setLocationName(e.target.value)} placeholder="例: 北口ゲート" disabled={saving} /> </div>
+            <div className="space-y-2"> <Label htmlFor="alert-rule-camera">カメラID (任意)</Label> <Input id="alert-rule-camera" value={cameraId} onChange={(e) => setCameraId(e.target.value)} placeholder="地点全体" disabled={saving} /> </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2"> <Label htmlFor="alert-rule-window">{type === "noUpload" ? "アップロードなしの時間" : "集計期間"} (時間)</Label> <Input id="alert-rule-window" type="number" min={1} value={windowHours} onChange={(e) => setWindowHours(e.target.value)} disabled={saving} /> </div>
+            {THRESHOLD_LABELS[type] && (
+              <div className="space-y-2"> <Label htmlFor="alert-rule-threshold">{THRESHOLD_LABELS[type]}</Label> <Input id="alert-rule-threshold" type="number" min={0} value={threshold} onChange={(e) => setThreshold(e.target.value)} disabled={saving} /> </div>
+            )}
+          </div>
+          <div className="space-y-2"> <Label htmlFor="alert-rule-recipients">通知先メール (1行に1つ、任意)</Label> <Textarea id="alert-rule-recipients" value={emailRecipients} onChange={(e) => setEmailRecipients(e.target.value)} placeholder="ops@example.com" disabled={saving} /> </div>
+          <div className="flex items-center gap-2">
+            <Switch id="alert-rule-enabled" checked={enabled} onCheckedChange={setEnabled} disabled={saving} />
+            <Label htmlFor="alert-rule-enabled">有効</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving}> {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} 保存 </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Card for managing alert rules. The rules API is admin-only; only show it to admins.
+ * `onChecked` is called after a manual check so the alert list can refresh.
+ */
+export function AlertRuleSettings({ onChecked }: { onChecked?: () => void }) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<AlertRuleEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await sendJson("/api/admin/alert-rules", "GET");
+      setRules(data.rules);
+    } catch (err) {
+      console.error("アラートルールの読み込みエラー:", err);
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    try {
+      const { results } = await sendJson("/api/admin/alerts/check", "POST");
+      const opened = results.filter((result: { openedAlertId: string | null }) => result.openedAlertId).length;
+      toast({ title: "アラートを確認しました", description: `${results.length}件のルールを評価し、${opened}件のアラートが発生しました。` });
+      loadRules();
+      onChecked?.();
+    } catch (err) {
+      toast({ variant: "destructive", title: "アラートの確認に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleDelete = async (rule: AlertRuleEntry) => {
+    if (!window.confirm(`${rule.name} を削除しますか? 発生中のアラートは解決済みになります。`)) return;
+    try {
+      await sendJson(`/api/admin/alert-rules/${rule.id}`, "DELETE");
+      toast({ title: "削除しました", description: rule.name });
+      loadRules();
+      onChecked?.();
+    } catch (err) {
+      toast({ variant: "destructive", title: "削除に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-xl flex items-center gap-2"> <BellRing className="text-primary" /> アラートルール </CardTitle>
+          <CardDescription>ルールは記録の保存時・処理の失敗時と、定期チェック (<code>npm run alerts:check</code>) で評価されます。</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleCheck} disabled={checking}>
+            {checking ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-1 h-4 w-4" />} 今すぐ確認
+          </Button>
+          <AlertRuleDialog onSaved={loadRules} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="destructive"> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert>}
+        {loading ? (
+          <div className="flex justify-center py-8"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>名前</TableHead>
+                <TableHead>対象</TableHead>
+                <TableHead>条件</TableHead>
+                <TableHead>状態</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length === 0 ? (
+                <TableRow> <TableCell colSpan={5} className="text-center text-muted-foreground">登録されたアラートルールはありません。</TableCell> </TableRow>
+              ) : rules.map(rule => (
+                <TableRow key={rule.id} className={rule.enabled ? undefined : "opacity-60"}>
+                  <TableCell>{rule.name}{!rule.enabled && <Badge variant="outline" className="ml-2">無効</Badge>}</TableCell>
+                  <TableCell>{rule.locationName}{rule.cameraId && <span className="font-mono text-xs text-muted-foreground"> / {rule.cameraId}</span>}</TableCell>
+                  <TableCell>{describeCondition(rule)}</TableCell>
+                  <TableCell className="whitespace-nowrap space-x-2">
+                    {rule.activeAlertId ? <Badge variant="destructive">発生中</Badge> : <Badge variant="secondary">正常</Badge>}
+                    {rule.lastEvaluatedAt && <span className="text-xs text-muted-foreground">{format(parseISO(rule.lastEvaluatedAt), "MM/dd HH:mm")}</span>}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <AlertRuleDialog key={JSON.stringify(rule)} rule={rule} onSaved={loadRules} />
+                    <Button variant="ghost" size="icon" aria-label={`${rule.name} を削除`} onClick={() => handleDelete(rule)}> <Trash2 className="h-4 w-4 text-destructive" /> </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
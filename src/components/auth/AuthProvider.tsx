@@ -0,0 +1,84 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import { signInWithEmailAndPassword, signOut as firebaseSignOut } from "firebase/auth";
+import { auth } from "@/lib/firebase";
+import { hasRole, type UserRole } from "@/lib/roles";
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  role: UserRole;
+}
+
+interface AuthContextValue {
+  /** The signed-in user; null while loading or when signed out. */
+  user: AuthUser | null;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<AuthUser>;
+  signOut: () => Promise<void>;
+  /** Whether the signed-in user has at least `role`. Only decides which controls appear; the API enforces roles. */
+  can: (role: UserRole) => boolean;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+async function readJson(response: Response) {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+  }
+  return data;
+}
+
+/**
+ * Holds the signed-in user for the whole app. The session itself is the httpOnly cookie set by
+ * `/api/auth/session`; this provider only mirrors who it belongs to.
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch("/api/auth/session", { cache: "no-store" })
+      .then(readJson)
+      .then(data => setUser(data.user))
+      .catch(err => console.error("セッションの読み込みエラー:", err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const credential = await signInWithEmailAndPassword(auth, email, password);
+    try {
+      const idToken = await credential.user.getIdToken();
+      const data = await readJson(await fetch("/api/auth/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ idToken }),
+      }));
+      setUser(data.user);
+      return data.user as AuthUser;
+    } finally {
+      // The session cookie is all the app needs from here on.
+      await firebaseSignOut(auth);
+    }
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/session", { method: "DELETE" });
+    setUser(null);
+  }, []);
+
+  const can = useCallback((role: UserRole) => hasRole(user?.role, role), [user]);
+
+  const value = useMemo(() => ({ user, loading, signIn, signOut, can }), [user, loading, signIn, signOut, can]);
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider.");
+  }
+  return context;
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, type ReactNode } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ROLE_LABELS, type UserRole } from "@/lib/roles";
+
+/**
+ * Renders `children` only for users with at least `role`. Signed-out visitors are sent to the
+ * sign-in page and come back here afterwards.
+ */
+export function RequireRole({ role, children }: { role: UserRole; children: ReactNode }) {
+  const { user, loading, can } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [loading, user, router, pathname]);
+
+  if (loading || !user) {
+    return <div className="flex justify-center py-8"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> </div>;
+  }
+  if (!can(role)) {
+    return (
+      <Alert variant="destructive" className="max-w-2xl mx-auto shadow-md">
+        <ShieldAlert className="h-4 w-4" />
+        <AlertTitle>権限がありません</AlertTitle>
+        <AlertDescription>この画面を使うには{ROLE_LABELS[role]}以上の権限が必要です (現在: {ROLE_LABELS[user.role]})。</AlertDescription>
+      </Alert>
+    );
+  }
+  return <>{children}</>;
+}
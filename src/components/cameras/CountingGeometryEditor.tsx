@@ -0,0 +1,169 @@
+"use client";
+
+import { useRef, useState, type ChangeEvent, type MouseEvent } from "react";
+import { ImageIcon, Repeat, Undo2, X } from "lucide-react";
+import type { CountingGeometry, FramePoint } from "@/ai/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { enteringNormal } from "@/lib/countingGeometry";
+
+type Mode = "line" | "polygon";
+
+/** Seconds into a sample video to grab the still frame from, past any black lead-in. */
+const FRAME_SEEK_SEC = 1;
+
+/**
+ * Grabs a still frame from a local video (or reads an image) as a data URL, entirely in the browser.
+ */
+async function loadStillFrame(file: File): Promise<string> {
+  if (file.type.startsWith("image/")) {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.preload = "auto";
+    video.src = url;
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => {
+        video.currentTime = Math.min(FRAME_SEEK_SEC, video.duration / 2 || 0);
+      };
+      video.onseeked = () => resolve();
+      video.onerror = () => reject(new Error("動画を読み込めませんでした。"));
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext("2d")!.drawImage(video, 0, 0);
+    return canvas.toDataURL("image/jpeg", 0.8);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function toPoints(geometry: CountingGeometry | null): FramePoint[] {
+  if (!geometry) return [];
+  return geometry.type === "line" ? [geometry.start, geometry.end] : geometry.points;
+}
+
+function toGeometry(mode: Mode, points: FramePoint[]): CountingGeometry | null {
+  if (mode === "line") {
+    return points.length >= 2 ? { type: "line", start: points[0], end: points[1] } : null;
+  }
+  return points.length >= 3 ? { type: "polygon", points } : null;
+}
+
+/**
+ * Draws a camera's counting line or polygon region over a still frame picked from a sample
+ * video or screenshot. Coordinates are stored as fractions of the frame, so they apply to any
+ * resolution the camera records in. The frame itself is not uploaded.
+ */
+export function CountingGeometryEditor({ value, onChange, disabled }: { value: CountingGeometry | null; onChange: (geometry: CountingGeometry | null) => void; disabled?: boolean }) {
+  const [mode, setMode] = useState<Mode>(value?.type ?? "line");
+  const [points, setPoints] = useState<FramePoint[]>(toPoints(value));
+  const [frame, setFrame] = useState<string | null>(null);
+  const [frameError, setFrameError] = useState<string | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  const update = (nextMode: Mode, nextPoints: FramePoint[]) => {
+    setMode(nextMode);
+    setPoints(nextPoints);
+    onChange(toGeometry(nextMode, nextPoints));
+  };
+
+  const handleFrameFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFrameError(null);
+    try {
+      setFrame(await loadStillFrame(file));
+    } catch (err) {
+      setFrameError(err instanceof Error ? err.message : "フレームを取得できませんでした。");
+    }
+  };
+
+  const handleClick = (event: MouseEvent<HTMLDivElement>) => {
+    if (disabled || !surfaceRef.current) return;
+    const rect = surfaceRef.current.getBoundingClientRect();
+    const point = {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+    };
+    // A line has exactly two points; clicking again starts a new line.
+    const nextPoints = mode === "line" && points.length >= 2 ? [point] : [...points, point];
+    update(mode, nextPoints);
+  };
+
+  const line = mode === "line" && points.length >= 2 ? { start: points[0], end: points[1] } : null;
+  const arrow = line ? (() => {
+    const normal = enteringNormal(line);
+    const mid = { x: (line.start.x + line.end.x) / 2, y: (line.start.y + line.end.y) / 2 };
+    return { from: mid, to: { x: mid.x + normal.x * 0.12, y: mid.y + normal.y * 0.12 } };
+  })() : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <RadioGroup value={mode} onValueChange={(next) => update(next as Mode, [])} className="flex gap-4" disabled={disabled}>
+          <div className="flex items-center space-x-2"> <RadioGroupItem value="line" id="geometry-line" /> <Label htmlFor="geometry-line">カウントライン</Label> </div>
+          <div className="flex items-center space-x-2"> <RadioGroupItem value="polygon" id="geometry-polygon" /> <Label htmlFor="geometry-polygon">領域 (多角形)</Label> </div>
+        </RadioGroup>
+        <div className="flex gap-1">
+          {line && <Button type="button" variant="outline" size="sm" onClick={() => update(mode, [points[1], points[0]])} disabled={disabled}> <Repeat className="mr-1 h-4 w-4" /> 方向を反転 </Button>}
+          <Button type="button" variant="ghost" size="icon" aria-label="最後の点を取り消す" onClick={() => update(mode, points.slice(0, -1))} disabled={disabled || points.length === 0}> <Undo2 className="h-4 w-4" /> </Button>
+          <Button type="button" variant="ghost" size="icon" aria-label="クリア" onClick={() => update(mode, [])} disabled={disabled || points.length === 0}> <X className="h-4 w-4" /> </Button>
+        </div>
+      </div>
+      <div
+        ref={surfaceRef}
+        onClick={handleClick}
+        className="relative w-full aspect-video rounded-md border bg-muted overflow-hidden cursor-crosshair select-none"
+      >
+        {frame ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={frame} alt="カメラの静止画" className="absolute inset-0 h-full w-full object-fill" draggable={false} />
+        ) : (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-sm text-muted-foreground">
+            <ImageIcon className="h-8 w-8" /> このカメラの動画か静止画を選ぶと、その上に描画できます。
+          </div>
+        )}
+        <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 h-full w-full pointer-events-none">
+          <defs>
+            <marker id="entering-arrow" viewBox="0 0 10 10" refX="5" refY="5" markerWidth="4" markerHeight="4" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="hsl(var(--chart-2))" />
+            </marker>
+          </defs>
+          {mode === "polygon" && points.length >= 2 && (
+            <polygon points={points.map(p => `${p.x},${p.y}`).join(" ")} fill="hsl(var(--primary) / 0.2)" stroke="hsl(var(--primary))" strokeWidth={0.006} vectorEffect="non-scaling-stroke" />
+          )}
+          {line && (
+            <line x1={line.start.x} y1={line.start.y} x2={line.end.x} y2={line.end.y} stroke="hsl(var(--primary))" strokeWidth={3} vectorEffect="non-scaling-stroke" />
+          )}
+          {arrow && (
+            <line x1={arrow.from.x} y1={arrow.from.y} x2={arrow.to.x} y2={arrow.to.y} stroke="hsl(var(--chart-2))" strokeWidth={3} vectorEffect="non-scaling-stroke" markerEnd="url(#entering-arrow)" />
+          )}
+          {points.map((p, index) => (
+            <circle key={index} cx={p.x} cy={p.y} r={0.008} fill="hsl(var(--accent))" />
+          ))}
+        </svg>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <Input type="file" accept="video/*,image/*" onChange={handleFrameFile} disabled={disabled} className="max-w-xs" />
+        <p className="text-xs text-muted-foreground">
+          {mode === "line"
+            ? "2点をクリックしてラインを引きます。緑の矢印の向きに横切ると「入場」としてカウントされます。"
+            : "3点以上をクリックして領域を囲みます。領域の外から中へ入ると「入場」、中から外へ出ると「退場」です。"}
+        </p>
+      </div>
+      {frameError && <p className="text-sm text-destructive">{frameError}</p>}
+    </div>
+  );
+}
@@ -1,13 +1,55 @@
-import { Camera } from 'lucide-react';
+"use client";
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Camera, LogOut } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ROLE_LABELS, type UserRole } from '@/lib/roles';
+
+/** Each page is listed for users with at least `role`. */
+const navItems: { href: string; label: string; role: UserRole }[] = [
+  { href: '/', label: 'アップロード', role: 'viewer' },
+  { href: '/dashboard', label: 'ダッシュボード', role: 'viewer' },
+  { href: '/history', label: '履歴', role: 'viewer' },
+  { href: '/review', label: 'レビュー', role: 'operator' },
+  { href: '/alerts', label: 'アラート', role: 'viewer' },
+  { href: '/settings', label: '設定', role: 'admin' },
+];
 
 export default function Header() {
+  const { user, can, signOut } = useAuth();
+  const router = useRouter();
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.replace('/login');
+  };
+
   return (
     <header className="py-6 bg-card border-b shadow-sm">
-      <div className="container mx-auto flex items-center space-x-3 px-4 sm:px-6 lg:px-8">
-        <Camera className="h-10 w-10 text-primary" />
-        <h1 className="text-4xl font-bold text-primary tracking-tight">
-          CountCam
-        </h1>
+      <div className="container mx-auto flex flex-wrap items-center justify-between gap-4 px-4 sm:px-6 lg:px-8">
+        <Link href="/" className="flex items-center space-x-3">
+          <Camera className="h-10 w-10 text-primary" />
+          <h1 className="text-4xl font-bold text-primary tracking-tight">
+            CountCam
+          </h1>
+        </Link>
+        {user && (
+          <nav className="flex flex-wrap items-center gap-4 text-sm font-medium">
+            {navItems.filter(item => can(item.role)).map(item => (
+              <Link key={item.href} href={item.href} className="text-muted-foreground hover:text-primary transition-colors">
+                {item.label}
+              </Link>
+            ))}
+            <span className="flex items-center gap-2 text-muted-foreground">
+              {user.email}
+              <Badge variant="secondary">{ROLE_LABELS[user.role]}</Badge>
+            </span>
+            <Button variant="ghost" size="sm" onClick={handleSignOut}> <LogOut className="mr-1 h-4 w-4" /> ログアウト </Button>
+          </nav>
+        )}
       </div>
     </header>
   );
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { addDays, parseISO } from "date-fns";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_REPORT_COLUMNS, REPORT_COLUMNS, type ReportColumnId, type ReportFormat } from "@/lib/reportColumns";
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  ndjson: "NDJSON",
+};
+
+/**
+ * Button and dialog for downloading a report from `GET /api/reports/export`. The server streams the
+ * file, so the browser saves it directly instead of building it from the records loaded on the page.
+ */
+export function ExportReportDialog({ disabled }: { disabled?: boolean }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reportFormat, setReportFormat] = useState<ReportFormat>("csv");
+  const [bom, setBom] = useState(true);
+  const [columns, setColumns] = useState<ReportColumnId[]>(DEFAULT_REPORT_COLUMNS);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [locationName, setLocationName] = useState("");
+  const [uploadSource, setUploadSource] = useState<"all" | "ui" | "api">("api");
+
+  const toggleColumn = (id: ReportColumnId, checked: boolean) => {
+    // Keep the order of REPORT_COLUMNS regardless of the order the boxes are ticked in.
+    setColumns(current => REPORT_COLUMNS.map(column => column.id).filter(columnId => columnId === id ? checked : current.includes(columnId)));
+  };
+
+  const handleDownload = () => {
+    if (columns.length === 0) {
+      toast({ variant: "destructive", title: "列が選択されていません", description: "出力する列を1つ以上選択してください。" });
+      return;
+    }
+    if (from && to && to < from) {
+      toast({ variant: "destructive", title: "期間が不正です", description: "終了日は開始日以降にしてください。" });
+      return;
+    }
+    const params = new URLSearchParams({ format: reportFormat, columns: columns.join(",") });
+    if (reportFormat === "csv") params.set("bom", String(bom));
+    // Dates are whole days in the browser's time zone; "to" is inclusive here and exclusive on the server.
+    if (from) params.set("from", parseISO(from).toISOString());
+    if (to) params.set("to", addDays(parseISO(to), 1).toISOString());
+    if (locationName.trim()) params.set("location", locationName.trim());
+    if (uploadSource !== "all") params.set("uploadSource", uploadSource);
+
+    const link = document.createElement("a");
+    link.setAttribute("href", `/api/reports/export?${params.toString()}`);
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    toast({ title: "ダウンロード開始", description: `${FORMAT_LABELS[reportFormat]} レポートを作成しています。` });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" disabled={disabled} aria-label="訪問者レポートをダウンロード">
+          <Download className="mr-2 h-5 w-5" />
+          レポートをダウンロード
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>レポートのエクスポート</DialogTitle>
+          <DialogDescription>条件に合う記録をサーバーでファイルに書き出します。件数が多くてもそのままダウンロードできます。</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="report-format">形式</Label>
+              <Select value={reportFormat} onValueChange={(value) => setReportFormat(value as ReportFormat)}>
+                <SelectTrigger id="report-format"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map(value => (
+                    <SelectItem key={value} value={value}>{FORMAT_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-upload-source">アップロード元</Label>
+              <Select value={uploadSource} onValueChange={(value) => setUploadSource(value as "all" | "ui" | "api")}>
+                <SelectTrigger id="report-upload-source"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">すべて</SelectItem>
+                  <SelectItem value="api">API</SelectItem>
+                  <SelectItem value="ui">画面</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {reportFormat === "csv" && (
+            <div className="flex items-center gap-2">
+              <Switch id="report-bom" checked={bom} onCheckedChange={setBom} />
+              <Label htmlFor="report-bom">BOMを付ける (Excelで文字化けを防ぐ)</Label>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2"> <Label htmlFor="report-from">開始日</Label> <Input id="report-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} /> </div>
+            <div className="space-y-2"> <Label htmlFor="report-to">終了日</Label> <Input id="report-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} /> </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-location">カメラ名称</Label>
+            <Input id="report-location" value={locationName} onChange={(e) => setLocationName(e.target.value)} placeholder="空欄ですべて" />
+          </div>
+          <div className="space-y-2">
+            <Label>出力する列</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {REPORT_COLUMNS.map(column => (
+                <div key={column.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`report-column-${column.id}`}
+                    checked={columns.includes(column.id)}
+                    onCheckedChange={(checked) => toggleColumn(column.id, checked === true)}
+                  />
+                  <Label htmlFor={`report-column-${column.id}`} className="font-normal">{column.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>キャンセル</Button>
+          <Button onClick={handleDownload}>
+            <Download className="mr-2 h-4 w-4" />
+            ダウンロード
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Loader2, Plus, UserCog } from "lucide-react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ROLE_LABELS, USER_ROLES, type UserRole } from "@/lib/roles";
+
+interface UserEntry {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  role: UserRole | null;
+  disabled: boolean;
+  lastSignInAt: string | null;
+}
+
+/** Select value for accounts without a role. */
+const NO_ROLE = "none";
+
+async function sendJson(url: string, method: "GET" | "POST" | "PATCH", body?: Record<string, unknown>) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+    cache: "no-store",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+  }
+  return data;
+}
+
+function RoleSelect({ id, value, onChange, disabled, allowNone = false }: { id: string; value: string; onChange: (value: string) => void; disabled: boolean; allowNone?: boolean }) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger id={id}> <SelectValue /> </SelectTrigger>
+      <SelectContent>
+        {allowNone && <SelectItem value={NO_ROLE} disabled>未設定</SelectItem>}
+        {USER_ROLES.map(role => <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Dialog for creating a Firebase Auth account with a role.
+ */
+function NewUserDialog({ onSaved }: { onSaved: () => void }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [email, setEmail] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<string>("viewer");
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await sendJson("/api/admin/users", "POST", { email, displayName, password, role });
+      toast({ title: "ユーザーを登録しました", description: email });
+      setOpen(false);
+      setEmail("");
+      setDisplayName("");
+      setPassword("");
+      onSaved();
+    } catch (err) {
+      toast({ variant: "destructive", title: "ユーザーの登録に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm"> <Plus className="mr-1 h-4 w-4" /> ユーザーを追加 </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>ユーザーの登録</DialogTitle>
+          <DialogDescription>初期パスワードは本人に安全な方法で伝えてください。</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2"> <Label htmlFor="user-email">メールアドレス</Label> <Input id="user-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} disabled={saving} /> </div>
+          <div className="space-y-2"> <Label htmlFor="user-name">表示名 (任意)</Label> <Input id="user-name" value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder="例: 山田" disabled={saving} /> </div>
+          <div className="space-y-2"> <Label htmlFor="user-password">初期パスワード (6文字以上)</Label> <Input id="user-password" type="password" autoComplete="new-password" value={password} onChange={(e) => setPassword(e.target.value)} disabled={saving} /> </div>
+          <div className="space-y-2"> <Label htmlFor="user-role">ロール</Label> <RoleSelect id="user-role" value={role} onChange={setRole} disabled={saving} /> </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving}> {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} 保存 </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Settings card for web app users and their roles. Only shown to admins.
+ */
+export function UserSettings() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<UserEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingUid, setSavingUid] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await sendJson("/api/admin/users", "GET");
+      setUsers(data.users);
+    } catch (err) {
+      console.error("ユーザーの読み込みエラー:", err);
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleUpdate = async (user: UserEntry, update: { role?: string; disabled?: boolean }) => {
+    setSavingUid(user.uid);
+    try {
+      await sendJson(`/api/admin/users/${user.uid}`, "PATCH", update);
+      toast({ title: "ユーザーを更新しました", description: `${user.email ?? user.uid} は次回の操作時に再ログインが必要です。` });
+      loadUsers();
+    } catch (err) {
+      toast({ variant: "destructive", title: "ユーザーの更新に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    } finally {
+      setSavingUid(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-xl flex items-center gap-2"> <UserCog className="text-primary" /> ユーザー </CardTitle>
+          <CardDescription>閲覧者はダッシュボード・履歴・エクスポート、オペレーターはさらにアップロードと修正、管理者はすべての設定を利用できます。</CardDescription>
+        </div>
+        <NewUserDialog onSaved={loadUsers} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="destructive"> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert>}
+        {loading ? (
+          <div className="flex justify-center py-8"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>メールアドレス</TableHead>
+                <TableHead>表示名</TableHead>
+                <TableHead className="w-44">ロール</TableHead>
+                <TableHead>最終ログイン</TableHead>
+                <TableHead>有効</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.length === 0 ? (
+                <TableRow> <TableCell colSpan={5} className="text-center text-muted-foreground">登録されたユーザーはいません。</TableCell> </TableRow>
+              ) : users.map(user => {
+                const isSelf = user.uid === currentUser?.uid;
+                return (
+                  <TableRow key={user.uid} className={user.disabled ? "opacity-60" : undefined}>
+                    <TableCell>{user.email ?? user.uid}{isSelf && <Badge variant="outline" className="ml-2">自分</Badge>}</TableCell>
+                    <TableCell>{user.displayName ?? ""}</TableCell>
+                    <TableCell>
+                      <RoleSelect id={`user-role-${user.uid}`} value={user.role ?? NO_ROLE} onChange={(role) => handleUpdate(user, { role })} disabled={isSelf || savingUid !== null} allowNone />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{user.lastSignInAt ? format(parseISO(user.lastSignInAt), "yyyy-MM-dd HH:mm") : <span className="text-muted-foreground">なし</span>}</TableCell>
+                    <TableCell>
+                      <Switch checked={!user.disabled} onCheckedChange={(enabled) => handleUpdate(user, { disabled: !enabled })} disabled={isSelf || savingUid !== null} aria-label={`${user.email ?? user.uid} を有効にする`} />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
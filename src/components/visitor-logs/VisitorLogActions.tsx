@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader2, Pencil, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+
+/** The fields of a visitor_logs record that staff can correct. */
+export interface EditableVisitorLog {
+  id: string;
+  videoFileName: string;
+  locationName?: string;
+  recordingStartDateTime: Date | null;
+  countedDirection: string;
+  visitorCount: number;
+  enteringCount: number | null;
+  exitingCount: number | null;
+}
+
+async function sendRequest(url: string, method: "PATCH" | "DELETE", body: Record<string, unknown>) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+  }
+  return data;
+}
+
+/** The reason field; the change itself is signed by the server with the signed-in user. */
+function ReasonField({ reason, setReason, idPrefix, disabled }: {
+  reason: string; setReason: (reason: string) => void; idPrefix: string; disabled: boolean;
+}) {
+  const { user } = useAuth();
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}-reason`}>変更理由</Label>
+      <Textarea id={`${idPrefix}-reason`} value={reason} onChange={(e) => setReason(e.target.value)} placeholder="例: ファイル名の日時が誤っていたため" disabled={disabled} />
+      {user && <p className="text-xs text-muted-foreground">変更履歴には {user.email ?? user.uid} として記録されます。</p>}
+    </div>
+  );
+}
+
+/**
+ * Button and dialog for correcting the location, recording time or counts of a record.
+ * Changes are saved through `PATCH /api/visitor-logs/{id}` and land in the record's revision history.
+ */
+export function EditVisitorLogDialog({ record, onSaved }: { record: EditableVisitorLog; onSaved?: () => void }) {
+  const { toast } = useToast();
+  const isBidirectional = record.countedDirection === "both";
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [locationName, setLocationName] = useState(record.locationName ?? "");
+  const [recordingStart, setRecordingStart] = useState(record.recordingStartDateTime ? format(record.recordingStartDateTime, "yyyy-MM-dd'T'HH:mm:ss") : "");
+  const [visitorCount, setVisitorCount] = useState(String(record.visitorCount));
+  const [enteringCount, setEnteringCount] = useState(String(record.enteringCount ?? 0));
+  const [exitingCount, setExitingCount] = useState(String(record.exitingCount ?? 0));
+  const [reason, setReason] = useState("");
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const body: Record<string, unknown> = { reason, locationName };
+      if (recordingStart) {
+        // datetime-local values are in the browser's local time; send them as a full ISO string.
+        body.recordingStartDateTime = new Date(recordingStart).toISOString();
+      }
+      if (isBidirectional) {
+        body.enteringCount = Number(enteringCount);
+        body.exitingCount = Number(exitingCount);
+      } else {
+        body.visitorCount = Number(visitorCount);
+      }
+      const result = await sendRequest(`/api/visitor-logs/${record.id}`, "PATCH", body);
+      toast({ title: result.changed ? "記録を更新しました" : "変更はありませんでした", description: record.videoFileName });
+      setOpen(false);
+      onSaved?.();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "不明なエラーが発生しました。";
+      toast({ variant: "destructive", title: "記録の更新に失敗しました", description: errorMessage });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label={`${record.videoFileName} を編集`}> <Pencil className="h-4 w-4" /> </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>記録の修正</DialogTitle>
+          <DialogDescription>{record.videoFileName} ・ 変更内容は監査用の変更履歴に保存されます。</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2"> <Label htmlFor={`edit-${record.id}-location`}>地点名</Label> <Input id={`edit-${record.id}-location`} value={locationName} onChange={(e) => setLocationName(e.target.value)} disabled={saving} /> </div>
+          <div className="space-y-2"> <Label htmlFor={`edit-${record.id}-recording`}>録画開始日時</Label> <Input id={`edit-${record.id}-recording`} type="datetime-local" step="1" value={recordingStart} onChange={(e) => setRecordingStart(e.target.value)} disabled={saving} /> </div>
+          {isBidirectional ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2"> <Label htmlFor={`edit-${record.id}-entering`}>R→L</Label> <Input id={`edit-${record.id}-entering`} type="number" min={0} value={enteringCount} onChange={(e) => setEnteringCount(e.target.value)} disabled={saving} /> </div>
+              <div className="space-y-2"> <Label htmlFor={`edit-${record.id}-exiting`}>L→R</Label> <Input id={`edit-${record.id}-exiting`} type="number" min={0} value={exitingCount} onChange={(e) => setExitingCount(e.target.value)} disabled={saving} /> </div>
+            </div>
+          ) : (
+            <div className="space-y-2"> <Label htmlFor={`edit-${record.id}-count`}>訪問者数</Label> <Input id={`edit-${record.id}-count`} type="number" min={0} value={visitorCount} onChange={(e) => setVisitorCount(e.target.value)} disabled={saving} /> </div>
+          )}
+          <ReasonField reason={reason} setReason={setReason} idPrefix={`edit-${record.id}`} disabled={saving} />
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} 保存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Button and confirmation for deleting a record. The record is hidden from history and reports
+ * but kept, with its revision history, for audits.
+ */
+export function DeleteVisitorLogDialog({ record, onDeleted }: { record: EditableVisitorLog; onDeleted?: () => void }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    try {
+      await sendRequest(`/api/visitor-logs/${record.id}`, "DELETE", { reason });
+      toast({ title: "記録を削除しました", description: record.videoFileName });
+      setOpen(false);
+      onDeleted?.();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "不明なエラーが発生しました。";
+      toast({ variant: "destructive", title: "記録の削除に失敗しました", description: errorMessage });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label={`${record.videoFileName} を削除`}> <Trash2 className="h-4 w-4 text-destructive" /> </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>記録を削除しますか?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {record.videoFileName} は履歴とレポートから除外されます。監査のため、記録と変更履歴はデータベースに残ります。
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-4">
+          <ReasonField reason={reason} setReason={setReason} idPrefix={`delete-${record.id}`} disabled={deleting} />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleting}>キャンセル</AlertDialogCancel>
+          <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+            {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} 削除
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,354 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { History, Loader2, Pencil, Plus, Send, Trash2, Webhook } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+type WebhookEvent = "count.completed" | "count.failed" | "count.corrected" | "alert.triggered";
+type DeliveryStatus = "pending" | "succeeded" | "failed";
+
+interface WebhookEndpointEntry {
+  id: string;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  lastDeliveryAt: string | null;
+  lastDeliveryStatus: DeliveryStatus | null;
+}
+
+interface WebhookDeliveryEntry {
+  id: string;
+  event: string;
+  status: DeliveryStatus;
+  attempts: { attemptedAt: string; statusCode: number | null; error: string | null; durationMs: number }[];
+  responseBody: string | null;
+  payload: string;
+  createdAt: string;
+}
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  "count.completed": "カウント完了",
+  "count.failed": "カウント失敗",
+  "count.corrected": "カウント修正",
+  "alert.triggered": "アラート発生",
+};
+
+const STATUS_LABELS: Record<DeliveryStatus, string> = {
+  pending: "送信中",
+  succeeded: "成功",
+  failed: "失敗",
+};
+
+function StatusBadge({ status }: { status: DeliveryStatus }) {
+  return <Badge variant={status === "failed" ? "destructive" : status === "succeeded" ? "default" : "secondary"}>{STATUS_LABELS[status]}</Badge>;
+}
+
+async function sendJson(url: string, method: "GET" | "POST" | "PATCH" | "DELETE", body?: Record<string, unknown>) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+    cache: "no-store",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`);
+  }
+  return data;
+}
+
+/**
+ * Dialog for adding an endpoint, or editing one when `endpoint` is given. The signing secret of a
+ * new endpoint is shown once after saving.
+ */
+function WebhookEndpointDialog({ endpoint, onSaved }: { endpoint?: WebhookEndpointEntry; onSaved: () => void }) {
+  const { toast } = useToast();
+  const isNew = !endpoint;
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState(endpoint?.name ?? "");
+  const [url, setUrl] = useState(endpoint?.url ?? "");
+  const [events, setEvents] = useState<WebhookEvent[]>(endpoint?.events ?? ["count.completed"]);
+  const [enabled, setEnabled] = useState(endpoint?.enabled ?? true);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(current => (Object.keys(EVENT_LABELS) as WebhookEvent[]).filter(value => value === event ? checked : current.includes(value)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const body = { name, url, events, enabled };
+      const data = await sendJson(isNew ? "/api/admin/webhooks" : `/api/admin/webhooks/${endpoint.id}`, isNew ? "POST" : "PATCH", body);
+      toast({ title: isNew ? "Webhookを登録しました" : "Webhookを更新しました", description: name });
+      onSaved();
+      if (isNew) {
+        setSecret(data.secret);
+      } else {
+        setOpen(false);
+      }
+    } catch (err) {
+      toast({ variant: "destructive", title: "Webhookの保存に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value && isNew) {
+      setSecret(null);
+      setName("");
+      setUrl("");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {isNew
+          ? <Button size="sm"> <Plus className="mr-1 h-4 w-4" /> Webhookを追加 </Button>
+          : <Button variant="ghost" size="icon" aria-label={`${endpoint.name} を編集`}> <Pencil className="h-4 w-4" /> </Button>}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isNew ? "Webhookの登録" : "Webhookの編集"}</DialogTitle>
+          <DialogDescription>選択したイベントが発生すると、署名付きのJSONをこのURLにPOSTします。失敗した送信は間隔を空けて再送されます。</DialogDescription>
+        </DialogHeader>
+        {secret ? (
+          <div className="space-y-2">
+            <Label htmlFor="webhook-secret">署名シークレット</Label>
+            <Input id="webhook-secret" value={secret} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <p className="text-sm text-muted-foreground">このシークレットは今回だけ表示されます。受信側で <code>X-CountCam-Signature</code> の検証に使ってください。</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2"> <Label htmlFor="webhook-name">名前</Label> <Input id="webhook-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="例: 入場者サイネージ" disabled={saving} /> </div>
+            <div className="space-y-2"> <Label htmlFor="webhook-url">URL</Label> <Input id="webhook-url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com/hooks/countcam" disabled={saving} /> </div>
+            <div className="space-y-2">
+              <Label>イベント</Label>
+              {(Object.entries(EVENT_LABELS) as [WebhookEvent, string][]).map(([event, label]) => (
+                <div key={event} className="flex items-center gap-2">
+                  <Checkbox id={`webhook-event-${event}`} checked={events.includes(event)} onCheckedChange={(checked) => toggleEvent(event, checked === true)} disabled={saving} />
+                  <Label htmlFor={`webhook-event-${event}`} className="font-normal">{label} <code className="text-xs text-muted-foreground">{event}</code></Label>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="webhook-enabled" checked={enabled} onCheckedChange={setEnabled} disabled={saving} />
+              <Label htmlFor="webhook-enabled">有効</Label>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          {secret
+            ? <Button onClick={() => handleOpenChange(false)}>閉じる</Button>
+            : <Button onClick={handleSave} disabled={saving}> {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} 保存 </Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Dialog listing an endpoint's recent deliveries with every attempt.
+ */
+function WebhookDeliveriesDialog({ endpoint }: { endpoint: WebhookEndpointEntry }) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryEntry[]>([]);
+
+  const loadDeliveries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await sendJson(`/api/admin/webhooks/${endpoint.id}/deliveries`, "GET");
+      setDeliveries(data.deliveries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint.id]);
+
+  useEffect(() => {
+    if (open) loadDeliveries();
+  }, [open, loadDeliveries]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label={`${endpoint.name} の送信履歴`}> <History className="h-4 w-4" /> </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>送信履歴: {endpoint.name}</DialogTitle>
+          <DialogDescription>直近50件の送信です。各試行のHTTPステータスとエラーを表示します。</DialogDescription>
+        </DialogHeader>
+        {error && <Alert variant="destructive"> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert>}
+        {loading ? (
+          <div className="flex justify-center py-8"> <Loader2 className="h-6 w-6 animate-spin text-primary" /> </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>日時</TableHead>
+                <TableHead>イベント</TableHead>
+                <TableHead>状態</TableHead>
+                <TableHead>試行</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.length === 0 ? (
+                <TableRow> <TableCell colSpan={4} className="text-center text-muted-foreground">送信履歴はありません。</TableCell> </TableRow>
+              ) : deliveries.map(delivery => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="whitespace-nowrap">{format(parseISO(delivery.createdAt), "yyyy-MM-dd HH:mm:ss")}</TableCell>
+                  <TableCell><code className="text-xs">{delivery.event}</code></TableCell>
+                  <TableCell><StatusBadge status={delivery.status} /></TableCell>
+                  <TableCell className="text-xs space-y-1">
+                    {delivery.attempts.map((attempt, index) => (
+                      <div key={index}>
+                        {index + 1}. {format(parseISO(attempt.attemptedAt), "HH:mm:ss")} — {attempt.statusCode ?? "応答なし"} ({attempt.durationMs}ms){attempt.error ? `: ${attempt.error}` : ""}
+                      </div>
+                    ))}
+                    {delivery.responseBody && <div className="text-muted-foreground break-all">応答: {delivery.responseBody}</div>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={loadDeliveries} disabled={loading}>再読み込み</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Settings card for outbound webhooks. The webhook API is admin-only; only show it to admins.
+ */
+export function WebhookSettings() {
+  const { toast } = useToast();
+  const [endpoints, setEndpoints] = useState<WebhookEndpointEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const loadEndpoints = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await sendJson("/api/admin/webhooks", "GET");
+      setEndpoints(data.endpoints);
+    } catch (err) {
+      console.error("Webhookの読み込みエラー:", err);
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました。");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEndpoints();
+  }, [loadEndpoints]);
+
+  const handleTest = async (endpoint: WebhookEndpointEntry) => {
+    setTestingId(endpoint.id);
+    try {
+      const { delivery } = await sendJson(`/api/admin/webhooks/${endpoint.id}/test`, "POST");
+      const attempt = delivery.attempts[0];
+      if (delivery.status === "succeeded") {
+        toast({ title: "テスト送信に成功しました", description: `${endpoint.name}: HTTP ${attempt?.statusCode}` });
+      } else {
+        toast({ variant: "destructive", title: "テスト送信に失敗しました", description: `${endpoint.name}: ${attempt?.error ?? "不明なエラー"}` });
+      }
+      loadEndpoints();
+    } catch (err) {
+      toast({ variant: "destructive", title: "テスト送信に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpointEntry) => {
+    if (!window.confirm(`${endpoint.name} を削除しますか? 送信履歴も削除されます。`)) return;
+    try {
+      await sendJson(`/api/admin/webhooks/${endpoint.id}`, "DELETE");
+      toast({ title: "削除しました", description: endpoint.name });
+      loadEndpoints();
+    } catch (err) {
+      toast({ variant: "destructive", title: "削除に失敗しました", description: err instanceof Error ? err.message : "不明なエラーが発生しました。" });
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-xl flex items-center gap-2"> <Webhook className="text-primary" /> Webhook </CardTitle>
+          <CardDescription>カウントの完了・失敗・修正やアラートを外部システム (サイネージ、チャット連携など) に通知します。</CardDescription>
+        </div>
+        <WebhookEndpointDialog onSaved={loadEndpoints} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="destructive"> <AlertTitle>エラー</AlertTitle> <AlertDescription>{error}</AlertDescription> </Alert>}
+        {loading ? (
+          <div className="flex justify-center py-8"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>名前</TableHead>
+                <TableHead>URL</TableHead>
+                <TableHead>イベント</TableHead>
+                <TableHead>最終送信</TableHead>
+                <TableHead className="w-40" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {endpoints.length === 0 ? (
+                <TableRow> <TableCell colSpan={5} className="text-center text-muted-foreground">登録されたWebhookはありません。</TableCell> </TableRow>
+              ) : endpoints.map(endpoint => (
+                <TableRow key={endpoint.id} className={endpoint.enabled ? undefined : "opacity-60"}>
+                  <TableCell>{endpoint.name}{!endpoint.enabled && <Badge variant="outline" className="ml-2">無効</Badge>}</TableCell>
+                  <TableCell className="font-mono text-xs break-all">{endpoint.url}</TableCell>
+                  <TableCell className="space-x-1">{endpoint.events.map(event => <Badge key={event} variant="secondary">{EVENT_LABELS[event] ?? event}</Badge>)}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {endpoint.lastDeliveryStatus && endpoint.lastDeliveryAt
+                      ? <span className="space-x-2"> <StatusBadge status={endpoint.lastDeliveryStatus} /> <span className="text-xs text-muted-foreground">{format(parseISO(endpoint.lastDeliveryAt), "MM/dd HH:mm")}</span> </span>
+                      : <span className="text-muted-foreground">なし</span>}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="icon" aria-label={`${endpoint.name} にテスト送信`} onClick={() => handleTest(endpoint)} disabled={testingId !== null}>
+                      {testingId === endpoint.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                    </Button>
+                    <WebhookDeliveriesDialog endpoint={endpoint} />
+                    <WebhookEndpointDialog key={JSON.stringify(endpoint)} endpoint={endpoint} onSaved={loadEndpoints} />
+                    <Button variant="ghost" size="icon" aria-label={`${endpoint.name} を削除`} onClick={() => handleDelete(endpoint)}> <Trash2 className="h-4 w-4 text-destructive" /> </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
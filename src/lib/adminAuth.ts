@@ -0,0 +1,46 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+import { getBearerToken } from '@/lib/apiKeys';
+import { authorizeUser, sessionActor } from '@/lib/userAuth';
+
+/** Recorded as the author of changes made with the admin API token. */
+export const ADMIN_TOKEN_ACTOR = 'admin API token';
+
+export type AdminAuthResult =
+  | { ok: true; actor: string }
+  | { ok: false; status: 401 | 403 | 503; error: string };
+
+/**
+ * Identifies an admin caller. Scripts and schedulers present the shared `ADMIN_API_TOKEN` secret
+ * as a bearer token; the web app is signed in as a user with the `admin` role. `actor` is the
+ * name to record on audited changes.
+ */
+export async function authorizeAdmin(request: NextRequest): Promise<AdminAuthResult> {
+  const presented = getBearerToken(request.headers.get('authorization'));
+  if (!presented) {
+    const auth = await authorizeUser(request, 'admin');
+    return auth.ok ? { ok: true, actor: sessionActor(auth.user) } : auth;
+  }
+
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) {
+    console.error("[Admin] ADMIN_API_TOKEN is not configured. Token access to admin routes is disabled.");
+    return { ok: false, status: 503, error: 'Admin API token is not configured on this server.' };
+  }
+
+  const expected = Buffer.from(adminToken);
+  const actual = Buffer.from(presented);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, status: 401, error: 'Invalid admin credentials.' };
+  }
+  return { ok: true, actor: ADMIN_TOKEN_ACTOR };
+}
+
+/**
+ * Guards the admin API routes; see `authorizeAdmin`.
+ * Returns an error response to send back, or null if the caller is authorized.
+ */
+export async function checkAdminAuthorization(request: NextRequest): Promise<NextResponse | null> {
+  const auth = await authorizeAdmin(request);
+  return auth.ok ? null : NextResponse.json({ error: auth.error }, { status: auth.status });
+}
@@ -0,0 +1,353 @@
+import { Timestamp, type DocumentReference } from 'firebase-admin/firestore';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { sendMail } from '@/lib/mailer';
+import { PROCESSING_JOBS_COLLECTION } from '@/lib/processingJobs';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { buildVisitorLogQuery } from '@/lib/visitorLogQueries';
+import { emitWebhookEvent } from '@/lib/webhooks';
+
+export const ALERT_RULES_COLLECTION = 'alert_rules';
+export const ALERTS_COLLECTION = 'alerts';
+
+/**
+ * - `countAbove` / `countBelow`: visitors recorded in the last `windowHours` are above / below `threshold`.
+ * - `noUpload`: nothing was uploaded for `windowHours`.
+ * - `repeatedFailures`: at least `threshold` processing jobs failed in the last `windowHours`.
+ */
+export const ALERT_RULE_TYPES = ['countAbove', 'countBelow', 'noUpload', 'repeatedFailures'] as const;
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+const MAX_WINDOW_HOURS = 24 * 31;
+const MAX_RECIPIENTS = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DEFAULT_ALERT_LIMIT = 200;
+
+export interface AlertRuleInput {
+  name: string;
+  type: AlertRuleType;
+  locationName: string;
+  /** Limits the rule to one camera's uploads; null covers the whole location. */
+  cameraId: string | null;
+  /** Visitors for count rules, failed jobs for `repeatedFailures`; null for `noUpload`. */
+  threshold: number | null;
+  windowHours: number;
+  /** Notified by email when an alert opens. Webhooks subscribed to `alert.triggered` always are. */
+  emailRecipients: string[];
+  enabled: boolean;
+}
+
+export interface AlertRuleRecord extends AlertRuleInput {
+  /** The rule's open or acknowledged alert; a new alert is only opened once it has resolved. */
+  activeAlertId: string | null;
+  lastEvaluatedAt: Timestamp | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface AlertRecord {
+  ruleId: string;
+  ruleName: string;
+  type: AlertRuleType;
+  locationName: string;
+  cameraId: string | null;
+  status: AlertStatus;
+  message: string;
+  /** The measured value that triggered the alert, updated while it stays active. */
+  observedValue: number;
+  threshold: number | null;
+  windowHours: number;
+  triggeredAt: Timestamp;
+  lastSeenAt: Timestamp;
+  acknowledgedAt: Timestamp | null;
+  acknowledgedBy: string | null;
+  resolvedAt: Timestamp | null;
+}
+
+export interface AlertEvaluationResult {
+  ruleId: string;
+  triggered: boolean;
+  observedValue: number | null;
+  /** Set when this evaluation opened a new alert. */
+  openedAlertId: string | null;
+  resolvedAlertId: string | null;
+  error: string | null;
+}
+
+export class AlertError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'AlertError';
+  }
+}
+
+/**
+ * Validates a request body for creating or replacing a rule:
+ * `{ "name", "type", "locationName", "cameraId"?, "threshold"?, "windowHours", "emailRecipients"?, "enabled"? }`.
+ */
+export function parseAlertRuleInput(body: any): AlertRuleInput {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  const locationName = typeof body?.locationName === 'string' ? body.locationName.trim() : '';
+  if (!name || !locationName) {
+    throw new AlertError('"name" and "locationName" are required.', 400);
+  }
+  if (!ALERT_RULE_TYPES.includes(body.type)) {
+    throw new AlertError(`"type" must be one of: ${ALERT_RULE_TYPES.join(', ')}.`, 400);
+  }
+  const type = body.type as AlertRuleType;
+  if (!Number.isFinite(body.windowHours) || body.windowHours <= 0 || body.windowHours > MAX_WINDOW_HOURS) {
+    throw new AlertError(`"windowHours" must be a number of hours from 0 to ${MAX_WINDOW_HOURS}.`, 400);
+  }
+  let threshold: number | null = null;
+  if (type !== 'noUpload') {
+    if (!Number.isInteger(body.threshold) || body.threshold < (type === 'repeatedFailures' ? 1 : 0)) {
+      throw new AlertError(`"threshold" must be a ${type === 'repeatedFailures' ? 'positive' : 'non-negative'} integer for ${type} rules.`, 400);
+    }
+    threshold = body.threshold;
+  }
+  const cameraId = typeof body.cameraId === 'string' && body.cameraId.trim() ? body.cameraId.trim() : null;
+  const emailRecipients = Array.isArray(body.emailRecipients)
+    ? [...new Set(body.emailRecipients.filter((item: unknown): item is string => typeof item === 'string').map((item: string) => item.trim()).filter(Boolean))] as string[]
+    : [];
+  const invalid = emailRecipients.filter(recipient => !EMAIL_PATTERN.test(recipient));
+  if (invalid.length > 0 || emailRecipients.length > MAX_RECIPIENTS) {
+    throw new AlertError(`"emailRecipients" must be at most ${MAX_RECIPIENTS} email addresses; invalid: ${invalid.join(', ') || 'none'}.`, 400);
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    throw new AlertError('"enabled" must be a boolean.', 400);
+  }
+  return { name, type, locationName, cameraId, threshold, windowHours: body.windowHours, emailRecipients, enabled: body.enabled ?? true };
+}
+
+export async function listAlertRules() {
+  const snapshot = await requireDbAdmin().collection(ALERT_RULES_COLLECTION).orderBy('name').get();
+  return snapshot.docs.map(doc => ({ id: doc.id, ...(doc.data() as AlertRuleRecord) }));
+}
+
+export async function createAlertRule(input: AlertRuleInput): Promise<string> {
+  const now = Timestamp.now();
+  const record: AlertRuleRecord = { ...input, activeAlertId: null, lastEvaluatedAt: null, createdAt: now, updatedAt: now };
+  const docRef = await requireDbAdmin().collection(ALERT_RULES_COLLECTION).add(record);
+  return docRef.id;
+}
+
+/** Replaces a rule's settings. Its active alert is re-checked against them on the next evaluation. */
+export async function updateAlertRule(id: string, input: AlertRuleInput): Promise<void> {
+  const docRef = requireDbAdmin().collection(ALERT_RULES_COLLECTION).doc(id);
+  const snapshot = await docRef.get();
+  if (!snapshot.exists) {
+    throw new AlertError(`Alert rule "${id}" not found.`, 404);
+  }
+  await docRef.update({ ...input, updatedAt: Timestamp.now() });
+}
+
+/** Deletes a rule and resolves its active alert, if any. */
+export async function deleteAlertRule(id: string): Promise<void> {
+  const db = requireDbAdmin();
+  const docRef = db.collection(ALERT_RULES_COLLECTION).doc(id);
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists) {
+      throw new AlertError(`Alert rule "${id}" not found.`, 404);
+    }
+    const activeAlertId = snapshot.get('activeAlertId') as string | null;
+    if (activeAlertId) {
+      transaction.update(db.collection(ALERTS_COLLECTION).doc(activeAlertId), { status: 'resolved', resolvedAt: Timestamp.now() });
+    }
+    transaction.delete(docRef);
+  });
+}
+
+/**
+ * Lists alerts, newest first. `active` returns open and acknowledged alerts.
+ */
+export async function listAlerts(status: AlertStatus | 'active' | 'all' = 'active') {
+  const snapshot = await requireDbAdmin()
+    .collection(ALERTS_COLLECTION)
+    .orderBy('triggeredAt', 'desc')
+    .limit(DEFAULT_ALERT_LIMIT)
+    .get();
+  return snapshot.docs.filter(doc => {
+    const alertStatus = doc.get('status') as AlertStatus;
+    if (status === 'all') return true;
+    if (status === 'active') return alertStatus !== 'resolved';
+    return alertStatus === status;
+  });
+}
+
+/** Marks an open alert as seen. It stays active until its condition clears. */
+export async function acknowledgeAlert(id: string, acknowledgedBy: string): Promise<void> {
+  const db = requireDbAdmin();
+  const docRef = db.collection(ALERTS_COLLECTION).doc(id);
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists) {
+      throw new AlertError(`Alert "${id}" not found.`, 404);
+    }
+    if (snapshot.get('status') !== 'open') {
+      throw new AlertError(`Alert "${id}" is not open (status: ${snapshot.get('status')}).`, 409);
+    }
+    transaction.update(docRef, { status: 'acknowledged', acknowledgedAt: Timestamp.now(), acknowledgedBy });
+  });
+}
+
+function scopeLabel(rule: AlertRuleInput): string {
+  return rule.cameraId ? `${rule.locationName} (カメラ ${rule.cameraId})` : rule.locationName;
+}
+
+/** Measures a rule's condition at `now`. */
+async function measureRule(rule: AlertRuleRecord, now: Date): Promise<{ triggered: boolean; observedValue: number; message: string }> {
+  const since = new Date(now.getTime() - rule.windowHours * 3600 * 1000);
+  const scope = scopeLabel(rule);
+  switch (rule.type) {
+    case 'countAbove':
+    case 'countBelow': {
+      const snapshot = await buildVisitorLogQuery({ locationName: rule.locationName, cameraId: rule.cameraId ?? undefined, from: since, to: now }).get();
+      const total = snapshot.docs.filter(doc => doc.get('deleted') !== true).reduce((sum, doc) => sum + (doc.get('visitorCount') ?? 0), 0);
+      const threshold = rule.threshold ?? 0;
+      return rule.type === 'countAbove'
+        ? { triggered: total > threshold, observedValue: total, message: `${scope}: 直近${rule.windowHours}時間の訪問者数 ${total}人がしきい値 ${threshold}人を超えました。` }
+        : { triggered: total < threshold, observedValue: total, message: `${scope}: 直近${rule.windowHours}時間の訪問者数 ${total}人が下限 ${threshold}人を下回っています。` };
+    }
+    case 'noUpload': {
+      const jobs = requireDbAdmin().collection(PROCESSING_JOBS_COLLECTION);
+      const query = rule.cameraId ? jobs.where('cameraId', '==', rule.cameraId) : jobs.where('locationName', '==', rule.locationName);
+      const latest = await query.orderBy('createdAt', 'desc').limit(1).get();
+      // Without any upload yet, the silence counts from when the rule was created.
+      const lastUploadAt = latest.empty ? rule.createdAt.toDate() : (latest.docs[0].get('createdAt') as Timestamp).toDate();
+      const silentHours = Math.round(((now.getTime() - lastUploadAt.getTime()) / 3600_000) * 10) / 10;
+      return {
+        triggered: silentHours >= rule.windowHours,
+        observedValue: silentHours,
+        message: `${scope}: ${silentHours}時間アップロードがありません (しきい値 ${rule.windowHours}時間)。`,
+      };
+    }
+    case 'repeatedFailures': {
+      const jobs = requireDbAdmin().collection(PROCESSING_JOBS_COLLECTION).where('status', '==', 'failed');
+      const snapshot = await (rule.cameraId ? jobs.where('cameraId', '==', rule.cameraId) : jobs.where('locationName', '==', rule.locationName)).get();
+      const failures = snapshot.docs.filter(doc => {
+        const finishedAt = doc.get('finishedAt') as Timestamp | undefined;
+        return finishedAt !== undefined && finishedAt.toMillis() >= since.getTime();
+      }).length;
+      const threshold = rule.threshold ?? 1;
+      return {
+        triggered: failures >= threshold,
+        observedValue: failures,
+        message: `${scope}: 直近${rule.windowHours}時間に処理の失敗が ${failures}件あります (しきい値 ${threshold}件)。`,
+      };
+    }
+  }
+}
+
+/**
+ * Sends a new alert to webhooks and by email. Webhook retries are left to the retry runner, so a
+ * slow receiver does not hold up the evaluation (or the processing job that triggered it).
+ */
+async function notifyAlertOpened(alertId: string, alert: AlertRecord, recipients: string[]): Promise<void> {
+  const notifications: Promise<unknown>[] = [emitWebhookEvent('alert.triggered', { alert: serializeDocument(alertId, alert) }, { retryInline: false })];
+  if (recipients.length > 0) {
+    const subject = `[CountCam] アラート: ${alert.ruleName}`;
+    notifications.push(sendMail({
+      subject,
+      text: `${alert.message}\n\nルール: ${alert.ruleName}\n発生: ${alert.triggeredAt.toDate().toISOString()}\nアラートセンター: /alerts`,
+      html: `<p>${alert.message.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</p><p>ルール: ${alert.ruleName.replace(/&/g, '&amp;').replace(/</g, '&lt;')}<br>発生: ${alert.triggeredAt.toDate().toISOString()}</p>`,
+    }, recipients).catch((error: unknown) => {
+      console.error(`[Alerts] Could not email alert ${alertId}:`, errorMessage(error));
+    }));
+  }
+  await Promise.all(notifications);
+}
+
+/**
+ * Evaluates one rule and opens, refreshes or resolves its alert in a transaction on the rule, so
+ * concurrent evaluations open at most one alert. Notifies the configured channels when an alert opens.
+ */
+async function evaluateRule(ruleRef: DocumentReference, now: Date): Promise<AlertEvaluationResult> {
+  const db = requireDbAdmin();
+  const result: AlertEvaluationResult = { ruleId: ruleRef.id, triggered: false, observedValue: null, openedAlertId: null, resolvedAlertId: null, error: null };
+  try {
+    const rule = (await ruleRef.get()).data() as AlertRuleRecord;
+    const measurement = await measureRule(rule, now);
+    result.triggered = measurement.triggered;
+    result.observedValue = measurement.observedValue;
+
+    const opened = await db.runTransaction(async transaction => {
+      const current = (await transaction.get(ruleRef)).data() as AlertRuleRecord | undefined;
+      if (!current) return null;
+      const evaluatedAt = Timestamp.fromDate(now);
+      transaction.update(ruleRef, { lastEvaluatedAt: evaluatedAt });
+      if (current.activeAlertId) {
+        const alertRef = db.collection(ALERTS_COLLECTION).doc(current.activeAlertId);
+        if (measurement.triggered) {
+          transaction.update(alertRef, { observedValue: measurement.observedValue, message: measurement.message, lastSeenAt: evaluatedAt });
+        } else {
+          transaction.update(alertRef, { status: 'resolved', resolvedAt: evaluatedAt });
+          transaction.update(ruleRef, { activeAlertId: null });
+          result.resolvedAlertId = current.activeAlertId;
+        }
+        return null;
+      }
+      if (!measurement.triggered) return null;
+
+      const alertRef = db.collection(ALERTS_COLLECTION).doc();
+      const alert: AlertRecord = {
+        ruleId: ruleRef.id,
+        ruleName: current.name,
+        type: current.type,
+        locationName: current.locationName,
+        cameraId: current.cameraId,
+        status: 'open',
+        message: measurement.message,
+        observedValue: measurement.observedValue,
+        threshold: current.threshold,
+        windowHours: current.windowHours,
+        triggeredAt: evaluatedAt,
+        lastSeenAt: evaluatedAt,
+        acknowledgedAt: null,
+        acknowledgedBy: null,
+        resolvedAt: null,
+      };
+      transaction.create(alertRef, alert);
+      transaction.update(ruleRef, { activeAlertId: alertRef.id });
+      return { id: alertRef.id, alert, recipients: current.emailRecipients };
+    });
+
+    if (opened) {
+      result.openedAlertId = opened.id;
+      console.log(`[Alerts] Opened alert ${opened.id}: ${opened.alert.message}`);
+      await notifyAlertOpened(opened.id, opened.alert, opened.recipients);
+    }
+    if (result.resolvedAlertId) {
+      console.log(`[Alerts] Resolved alert ${result.resolvedAlertId} (rule ${ruleRef.id}).`);
+    }
+  } catch (error) {
+    console.error(`[Alerts] Could not evaluate rule ${ruleRef.id}:`, errorMessage(error));
+    result.error = errorMessage(error) || String(error);
+  }
+  return result;
+}
+
+/**
+ * Evaluates the enabled rules, optionally only those of one location (after a record for it was
+ * written or its processing failed). Never throws; per-rule errors are in the results.
+ */
+export async function evaluateAlertRules(options: { locationName?: string; now?: Date } = {}): Promise<AlertEvaluationResult[]> {
+  try {
+    let query = requireDbAdmin().collection(ALERT_RULES_COLLECTION).where('enabled', '==', true);
+    if (options.locationName) {
+      query = query.where('locationName', '==', options.locationName);
+    }
+    const snapshot = await query.get();
+    const now = options.now ?? new Date();
+    const results: AlertEvaluationResult[] = [];
+    for (const doc of snapshot.docs) {
+      results.push(await evaluateRule(doc.ref, now));
+    }
+    return results;
+  } catch (error) {
+    console.error('[Alerts] Could not load alert rules:', errorMessage(error));
+    return [];
+  }
+}
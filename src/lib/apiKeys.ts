@@ -0,0 +1,162 @@
+import { createHash, randomBytes } from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+
+export const API_KEYS_COLLECTION = 'api_keys';
+
+const API_KEY_PREFIX = 'cc_';
+
+/**
+ * What a key may be used for:
+ * - `upload`: uploading footage for its `allowedLocations` and polling the resulting jobs.
+ * - `read`: reading records, rollups and report exports for every location, e.g. for BI tools or signage.
+ */
+export const API_KEY_SCOPES = ['upload', 'read'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * An API key as stored in Firestore. Only the SHA-256 hash of the key is persisted;
+ * the plaintext key is shown once, when the key is created.
+ */
+export interface ApiKeyRecord {
+  name: string;
+  keyHash: string;
+  /** First characters of the plaintext key, to help operators tell keys apart. */
+  keyPrefix: string;
+  /** Location names or registry location IDs this key may upload footage for. */
+  allowedLocations: string[];
+  /** Missing on keys created before scopes existed; those are upload keys. */
+  scopes?: ApiKeyScope[];
+  createdAt: Timestamp;
+  lastUsedAt?: Timestamp;
+  revokedAt?: Timestamp;
+}
+
+export type AuthenticatedApiKey = ApiKeyRecord & { id: string };
+
+export type ApiKeyAuthResult =
+  | { ok: true; apiKey: AuthenticatedApiKey }
+  | { ok: false; status: 401 | 403; error: string };
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function apiKeyScopes(apiKey: ApiKeyRecord): ApiKeyScope[] {
+  return apiKey.scopes ?? ['upload'];
+}
+
+export async function createApiKey(name: string, allowedLocations: string[], scopes: ApiKeyScope[]): Promise<{ id: string; key: string; record: ApiKeyRecord }> {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    name,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    allowedLocations,
+    scopes,
+    createdAt: Timestamp.now(),
+  };
+  const docRef = await requireDbAdmin().collection(API_KEYS_COLLECTION).add(record);
+  return { id: docRef.id, key, record };
+}
+
+export async function listApiKeys(): Promise<AuthenticatedApiKey[]> {
+  const snapshot = await requireDbAdmin().collection(API_KEYS_COLLECTION).orderBy('createdAt', 'desc').get();
+  return snapshot.docs.map(doc => ({ id: doc.id, ...(doc.data() as ApiKeyRecord) }));
+}
+
+/**
+ * Marks a key as revoked. Returns false if no key with that ID exists.
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  const docRef = requireDbAdmin().collection(API_KEYS_COLLECTION).doc(id);
+  const snapshot = await docRef.get();
+  if (!snapshot.exists) {
+    return false;
+  }
+  if (!snapshot.get('revokedAt')) {
+    await docRef.update({ revokedAt: Timestamp.now() });
+  }
+  return true;
+}
+
+/**
+ * Extracts the bearer token from an `Authorization: Bearer <token>` header, if present.
+ */
+export function getBearerToken(authorizationHeader: string | null): string | null {
+  if (!authorizationHeader) {
+    return null;
+  }
+  const match = authorizationHeader.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Looks up the key presented in the `Authorization` header.
+ * Fails with 401 if the header is malformed or the key is unknown or revoked,
+ * and with 403 if the key does not have `scope`.
+ */
+export async function authenticateApiKey(authorizationHeader: string | null, scope: ApiKeyScope): Promise<ApiKeyAuthResult> {
+  const token = getBearerToken(authorizationHeader);
+  if (!token) {
+    return { ok: false, status: 401, error: 'Authorization header must use the form "Bearer <api key>".' };
+  }
+
+  const snapshot = await requireDbAdmin()
+    .collection(API_KEYS_COLLECTION)
+    .where('keyHash', '==', hashApiKey(token))
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) {
+    return { ok: false, status: 401, error: 'Invalid API key.' };
+  }
+
+  const doc = snapshot.docs[0];
+  const record = doc.data() as ApiKeyRecord;
+  if (record.revokedAt) {
+    return { ok: false, status: 401, error: 'This API key has been revoked.' };
+  }
+  if (!apiKeyScopes(record).includes(scope)) {
+    return { ok: false, status: 403, error: `API key "${record.name}" does not have the ${scope} scope.` };
+  }
+
+  // Best effort; a failed usage update must not block the request.
+  doc.ref.update({ lastUsedAt: Timestamp.now() }).catch((e: unknown) => {
+    console.warn(`[API Keys] Could not update lastUsedAt for key ${doc.id}:`, errorMessage(e));
+  });
+
+  return { ok: true, apiKey: { id: doc.id, ...record } };
+}
+
+/**
+ * Checks that an authenticated key may upload for the given location. `identifiers` are the
+ * names and registry ID the location is known by; matching any of them is enough.
+ */
+export function authorizeApiKeyForLocation(apiKey: AuthenticatedApiKey, locationName: string, identifiers: string[] = [locationName]): ApiKeyAuthResult {
+  if (!identifiers.some(identifier => apiKey.allowedLocations.includes(identifier))) {
+    return { ok: false, status: 403, error: `API key "${apiKey.name}" is not allowed to upload for location "${locationName}".` };
+  }
+  return { ok: true, apiKey };
+}
+
+/**
+ * Public view of a key for admin listings; never includes the hash.
+ */
+export function toApiKeySummary(apiKey: AuthenticatedApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    allowedLocations: apiKey.allowedLocations,
+    scopes: apiKeyScopes(apiKey),
+    createdAt: apiKey.createdAt.toDate().toISOString(),
+    lastUsedAt: apiKey.lastUsedAt ? apiKey.lastUsedAt.toDate().toISOString() : null,
+    revokedAt: apiKey.revokedAt ? apiKey.revokedAt.toDate().toISOString() : null,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * @fileOverview Browser client for the resumable `/api/uploads` protocol.
+ *
+ * The upload ID is remembered in localStorage per file (name, size, modification time), so
+ * re-selecting the same file after a dropped connection or a page reload resumes from the
+ * last chunk the server acknowledged instead of starting over.
+ *
+ * Before a new upload starts, files small enough to hash in memory are hashed and checked
+ * against earlier uploads for the same camera, so a video that was already counted is not sent again.
+ */
+
+interface UploadSessionStatus {
+  uploadId: string;
+  status: 'uploading' | 'completed' | 'consumed';
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  nextChunkIndex: number;
+}
+
+export interface ChunkedUploadOptions {
+  /** Extra headers for every request, e.g. `Authorization`. */
+  headers?: Record<string, string>;
+  uploadSource?: 'ui' | 'api';
+  /** Called with 0-100 as chunks are acknowledged. */
+  onProgress?: (progress: number) => void;
+  /** Attempts per chunk before giving up. */
+  maxAttempts?: number;
+  /** The camera (or location) the video is for; enables the duplicate check before uploading. */
+  target?: { cameraId: string } | { locationName: string };
+}
+
+/** The server's answer when it already has the video: the earlier job and, once counted, its record. */
+export interface DuplicateUploadResponse {
+  duplicate: true;
+  matchedBy: string;
+  jobId: string | null;
+  status: string;
+  statusUrl: string | null;
+  visitorLogId: string | null;
+  record: Record<string, unknown> | null;
+}
+
+/**
+ * Either the completed upload to pass to `POST /api/upload-video`, or, when the server already has
+ * the video for this camera, its duplicate response (`duplicate`, `jobId`, `record`, ...).
+ */
+export type ChunkedUploadResult =
+  | { uploadId: string; duplicate: null }
+  | { uploadId: null; duplicate: DuplicateUploadResponse };
+
+/** Largest file the web UI accepts; matches the server's default `MAX_UPLOAD_BYTES`. */
+export const MAX_UPLOAD_SIZE_BYTES = 2 * 1024 * 1024 * 1024;
+
+const STORAGE_KEY_PREFIX = 'countcam-upload:';
+const RETRY_BASE_DELAY_MS = 1000;
+/** `crypto.subtle` hashes a whole buffer at once; larger files are only checked by the server after the upload. */
+const MAX_PRE_UPLOAD_HASH_BYTES = 256 * 1024 * 1024;
+
+function storageKey(file: File): string {
+  return `${STORAGE_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** A request to the upload API failed with an HTTP error status. */
+class UploadRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'UploadRequestError';
+  }
+}
+
+async function requestJson<T>(url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new UploadRequestError(data.error || data.messageFromServer || `リクエストがステータス ${response.status}で失敗しました`, response.status);
+  }
+  return data as T;
+}
+
+async function findResumableSession(file: File, headers: Record<string, string>): Promise<UploadSessionStatus | null> {
+  const uploadId = localStorage.getItem(storageKey(file));
+  if (!uploadId) return null;
+  try {
+    const session = await requestJson<UploadSessionStatus>(`/api/uploads/${uploadId}`, { headers, cache: 'no-store' });
+    if (session.status === 'consumed') {
+      localStorage.removeItem(storageKey(file));
+      return null;
+    }
+    return session;
+  } catch {
+    localStorage.removeItem(storageKey(file));
+    return null;
+  }
+}
+
+async function hashFile(file: File): Promise<string | null> {
+  if (file.size > MAX_PRE_UPLOAD_HASH_BYTES || !globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Uploads `file` in chunks and completes the session. Resolves with the upload ID to pass to
+ * `POST /api/upload-video` as `uploadId`, or with the server's duplicate response if `target`
+ * is given and the video was already uploaded for it.
+ */
+export async function uploadFileInChunks(file: File, options: ChunkedUploadOptions = {}): Promise<ChunkedUploadResult> {
+  const headers = options.headers ?? {};
+  const maxAttempts = options.maxAttempts ?? 5;
+  const reportProgress = (received: number, total: number) => options.onProgress?.(total === 0 ? 100 : (received / total) * 100);
+
+  let session = await findResumableSession(file, headers);
+  if (session) {
+    console.log(`Resuming upload ${session.uploadId} for ${file.name} at chunk ${session.nextChunkIndex}/${session.totalChunks}.`);
+  } else {
+    const contentHash = options.target ? await hashFile(file) : null;
+    const started = await requestJson<UploadSessionStatus | DuplicateUploadResponse>('/api/uploads', {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+        uploadSource: options.uploadSource ?? 'ui',
+        ...(contentHash ? { contentHash, ...options.target } : {}),
+      }),
+    });
+    if ('duplicate' in started) {
+      options.onProgress?.(100);
+      return { uploadId: null, duplicate: started };
+    }
+    session = started;
+    localStorage.setItem(storageKey(file), session.uploadId);
+  }
+
+  const { uploadId, chunkSize, totalChunks } = session;
+  const received = new Set(session.receivedChunks);
+  reportProgress(received.size, totalChunks);
+
+  if (session.status === 'uploading') {
+    for (let index = 0; index < totalChunks; index++) {
+      if (received.has(index)) continue;
+      const chunk = file.slice(index * chunkSize, Math.min((index + 1) * chunkSize, file.size));
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const status = await requestJson<UploadSessionStatus>(`/api/uploads/${uploadId}/chunks/${index}`, {
+            method: 'PUT',
+            headers: { ...headers, 'Content-Type': 'application/octet-stream' },
+            body: chunk,
+          });
+          status.receivedChunks.forEach(i => received.add(i));
+          break;
+        } catch (err) {
+          const status = err instanceof UploadRequestError ? err.status : undefined;
+          // Client errors other than timeouts and rate limits will not fix themselves on retry.
+          const retryable = status === undefined || status >= 500 || status === 408 || status === 429;
+          if (!retryable || attempt >= maxAttempts) throw err;
+          console.warn(`Chunk ${index} of ${file.name} failed (attempt ${attempt}/${maxAttempts}); retrying.`, err);
+          await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+        }
+      }
+      reportProgress(received.size, totalChunks);
+    }
+
+    await requestJson<UploadSessionStatus>(`/api/uploads/${uploadId}/complete`, { method: 'POST', headers });
+  }
+
+  return { uploadId, duplicate: null };
+}
+
+/**
+ * Forgets the stored upload ID for `file` once the upload has been handed to a processing job.
+ */
+export function forgetChunkedUpload(file: File): void {
+  localStorage.removeItem(storageKey(file));
+}
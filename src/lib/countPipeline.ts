@@ -0,0 +1,623 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Timestamp } from 'firebase-admin/firestore';
+import { formatISO } from 'date-fns';
+import { countVisitors, type CountVisitorsInput, type CountVisitorsOutput } from '@/ai/flows/count-visitors';
+import { PRODUCTION_PROMPT_VERSION } from '@/ai/prompts/count-visitors';
+import type { ResolvedModelSettings } from '@/ai/providers';
+import type { CrossingDirection, Direction } from '@/ai/types';
+import { describeCountingGeometry } from '@/lib/countingGeometry';
+import { evaluateAlertRules } from '@/lib/alerts';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import {
+  claimProcessingJob,
+  failStaleProcessingJob,
+  isStaleProcessingJob,
+  JobLeaseLostError,
+  listActiveProcessingJobs,
+  PROCESSING_JOBS_COLLECTION,
+  updateClaimedJob,
+  type ProcessingJob,
+  type ProcessingJobStatus,
+} from '@/lib/processingJobs';
+import { pickShadowPromptVersion, type ShadowCount } from '@/lib/promptExperiments';
+import { applyRollupChange } from '@/lib/rollups';
+import { removeStoredUpload } from '@/lib/uploadSessions';
+import { buildVideoStoragePath, deleteVideo, downloadVideo, saveVideo } from '@/lib/videoStorage';
+import { DEFAULT_SEGMENT_SECONDS, MAX_SEGMENT_BYTES, splitVideo, type VideoSegment } from '@/lib/videoSegmenter';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { CROSSING_EVENTS_SUBCOLLECTION, SEGMENTS_SUBCOLLECTION, VISITOR_LOGS_COLLECTION, type CountTimelineEntry } from '@/lib/visitorLogs';
+import { emitWebhookEvent } from '@/lib/webhooks';
+
+const SEGMENT_MAX_ATTEMPTS = Number(process.env.SEGMENT_MAX_ATTEMPTS) || 3;
+/**
+ * A batch of a count job stops taking new segments after this long, so it ends well within the
+ * request timeout (`timeoutSeconds` in apphosting.yaml) when it runs in a route's `after()`.
+ */
+const COUNT_JOB_BATCH_MS = (Number(process.env.COUNT_JOB_BATCH_SECONDS) || 240) * 1000;
+const SEGMENT_RETRY_BASE_DELAY_MS = 2000;
+/** Records whose confidence falls below this are flagged `needsReview` for a human check. */
+const REVIEW_CONFIDENCE_THRESHOLD = Number(process.env.REVIEW_CONFIDENCE_THRESHOLD) || 0.6;
+
+export interface SegmentRecord {
+  index: number;
+  startOffsetSec: number;
+  endOffsetSec: number;
+  /** Wall-clock time of the segment, derived from the recording start and the offsets. */
+  segmentStartDateTime: Timestamp;
+  segmentEndDateTime: Timestamp;
+  status: 'succeeded' | 'failed';
+  attempts: number;
+  visitorCount: number | null;
+  countedDirection: Direction | null;
+  /** Only set when counting 'both' directions. */
+  enteringCount: number | null;
+  exitingCount: number | null;
+  confidence: number | null;
+  notes: string | null;
+  error?: string;
+}
+
+export interface CrossingEventRecord {
+  /** Seconds from the start of the whole recording (not the segment). */
+  offsetSec: number;
+  occurredAt: Timestamp;
+  direction: CrossingDirection;
+  confidence: number;
+  segmentIndex: number;
+}
+
+/** Firestore batches are limited to 500 writes. */
+const MAX_BATCH_WRITES = 450;
+
+/** A segment could not be counted; `attempts` is how many calls to the flow were made. */
+class SegmentCountError extends Error {
+  constructor(message: string, public readonly attempts: number) {
+    super(message);
+    this.name = 'SegmentCountError';
+  }
+}
+
+/** What to ask the flow for each segment of one video. */
+export interface SegmentCountRequest {
+  direction: Direction;
+  detailed: boolean;
+  countingRegion: string | undefined;
+  modelSettings: ResolvedModelSettings;
+  promptVersion: string;
+}
+
+/**
+ * Counts one segment with the flow, retrying failures with exponential backoff.
+ * `logLabel` only prefixes log lines (the job ID in production).
+ */
+export async function countSegment(logLabel: string, segment: VideoSegment, request: SegmentCountRequest): Promise<{ output: CountVisitorsOutput; attempts: number }> {
+  if (segment.sizeBytes > MAX_SEGMENT_BYTES) {
+    // Never read an oversized file into memory; retrying would not help either.
+    throw new SegmentCountError(`Segment ${segment.index} is ${segment.sizeBytes} bytes, over the ${MAX_SEGMENT_BYTES}-byte limit.`, 0);
+  }
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const segmentBuffer = await readFile(segment.path);
+      const aiInput: CountVisitorsInput = {
+        videoDataUri: `data:${segment.mimeType};base64,${segmentBuffer.toString('base64')}`,
+        direction: request.direction,
+        detailed: request.detailed,
+        countingRegion: request.countingRegion,
+        promptVersion: request.promptVersion,
+        modelSettings: { ...request.modelSettings, temperature: request.modelSettings.temperature ?? undefined },
+      };
+      const aiResponse: CountVisitorsOutput = await countVisitors(aiInput);
+      if (!aiResponse || typeof aiResponse.visitorCount !== 'number') {
+        throw new Error("Invalid or incomplete response from AI processing flow.");
+      }
+      return { output: aiResponse, attempts: attempt };
+    } catch (error) {
+      if (attempt >= SEGMENT_MAX_ATTEMPTS) {
+        throw new SegmentCountError(errorMessage(error), attempt);
+      }
+      console.warn(`[Job ${logLabel}] Segment ${segment.index} failed (attempt ${attempt}/${SEGMENT_MAX_ATTEMPTS}), retrying: ${errorMessage(error)}`);
+      await new Promise(resolve => setTimeout(resolve, SEGMENT_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+/** The shadow prompt's count of one segment. */
+export type ShadowSegmentCount = Pick<ShadowCount, 'visitorCount' | 'enteringCount' | 'exitingCount'> & { confidence: number };
+
+export interface SegmentCountResult {
+  record: SegmentRecord;
+  crossingEvents: CrossingEventRecord[];
+  /** Null where the shadow count failed, and without a shadow prompt. */
+  shadow: ShadowSegmentCount | null;
+}
+
+/**
+ * Counts one segment of a recording, and with `shadowPromptVersion` also with that prompt.
+ * A segment that still fails after retries is recorded as failed instead of throwing.
+ */
+export async function countRecordingSegment(
+  logLabel: string,
+  segment: VideoSegment,
+  recordingStartDateTime: Timestamp,
+  request: SegmentCountRequest,
+  shadowPromptVersion: string | null = null,
+): Promise<SegmentCountResult> {
+  const recordingStartMs = recordingStartDateTime.toMillis();
+  const timing = {
+    index: segment.index,
+    startOffsetSec: segment.startOffsetSec,
+    endOffsetSec: segment.endOffsetSec,
+    segmentStartDateTime: Timestamp.fromMillis(recordingStartMs + segment.startOffsetSec * 1000),
+    segmentEndDateTime: Timestamp.fromMillis(recordingStartMs + segment.endOffsetSec * 1000),
+  };
+
+  let record: SegmentRecord;
+  const crossingEvents: CrossingEventRecord[] = [];
+  try {
+    console.log(`[Job ${logLabel}] Calling Genkit flow 'countVisitors' (${request.modelSettings.provider}/${request.modelSettings.model}, prompt ${request.promptVersion}) for segment ${segment.index} (${segment.startOffsetSec.toFixed(1)}s-${segment.endOffsetSec.toFixed(1)}s).`);
+    const { output, attempts } = await countSegment(logLabel, segment, request);
+    console.log(`[Job ${logLabel}] Segment ${segment.index} responded:`, JSON.stringify(output));
+    record = {
+      ...timing,
+      status: 'succeeded',
+      attempts,
+      visitorCount: output.visitorCount,
+      countedDirection: output.countedDirection,
+      enteringCount: output.enteringCount ?? null,
+      exitingCount: output.exitingCount ?? null,
+      confidence: output.confidence,
+      notes: output.notes || null,
+    };
+    for (const event of output.crossingEvents ?? []) {
+      const offsetSec = segment.startOffsetSec + Math.min(event.offsetSec, segment.endOffsetSec - segment.startOffsetSec);
+      crossingEvents.push({
+        offsetSec,
+        occurredAt: Timestamp.fromMillis(recordingStartMs + offsetSec * 1000),
+        direction: event.direction,
+        confidence: event.confidence,
+        segmentIndex: segment.index,
+      });
+    }
+  } catch (error) {
+    console.error(`[Job ${logLabel}] Segment ${segment.index} FAILED after retries:`, errorMessage(error));
+    record = {
+      ...timing,
+      status: 'failed',
+      attempts: error instanceof SegmentCountError ? error.attempts : SEGMENT_MAX_ATTEMPTS,
+      visitorCount: null,
+      countedDirection: null,
+      enteringCount: null,
+      exitingCount: null,
+      confidence: null,
+      notes: null,
+      error: errorMessage(error) || 'An unknown error occurred.',
+    };
+  }
+
+  let shadow: ShadowSegmentCount | null = null;
+  if (shadowPromptVersion) {
+    try {
+      const { output } = await countSegment(`${logLabel} shadow`, segment, { ...request, detailed: false, promptVersion: shadowPromptVersion });
+      shadow = { visitorCount: output.visitorCount, enteringCount: output.enteringCount ?? null, exitingCount: output.exitingCount ?? null, confidence: output.confidence };
+    } catch (error) {
+      // The shadow count never affects the production result.
+      console.warn(`[Job ${logLabel}] Shadow count of segment ${segment.index} failed:`, errorMessage(error));
+    }
+  }
+  return { record, crossingEvents, shadow };
+}
+
+/**
+ * Counts every segment of a recording in one go (see `countRecordingSegment`). `onSegment` is
+ * awaited before each segment, for progress reporting.
+ */
+export async function countRecordingSegments(
+  logLabel: string,
+  segments: VideoSegment[],
+  recordingStartDateTime: Timestamp,
+  request: SegmentCountRequest,
+  options: { onSegment?: (index: number, total: number) => Promise<void> } = {},
+): Promise<{ segmentRecords: SegmentRecord[]; crossingEvents: CrossingEventRecord[] }> {
+  const segmentRecords: SegmentRecord[] = [];
+  const crossingEvents: CrossingEventRecord[] = [];
+  for (const segment of segments) {
+    await options.onSegment?.(segment.index, segments.length);
+    const result = await countRecordingSegment(logLabel, segment, recordingStartDateTime, request);
+    segmentRecords.push(result.record);
+    crossingEvents.push(...result.crossingEvents);
+  }
+  return { segmentRecords, crossingEvents };
+}
+
+export interface RecordingTotals {
+  visitorCount: number;
+  enteringCount: number | null;
+  exitingCount: number | null;
+  netFlow: number | null;
+  confidence: number;
+  qualityNotes: string;
+  segmentCount: number;
+  failedSegmentCount: number;
+  countStatus: 'complete' | 'partial';
+}
+
+/**
+ * Adds up the segment counts of a recording. Throws if every segment failed.
+ */
+export function summarizeSegmentCounts(segmentRecords: SegmentRecord[], direction: Direction): RecordingTotals {
+  const succeeded = segmentRecords.filter(record => record.status === 'succeeded');
+  const failedSegmentCount = segmentRecords.length - succeeded.length;
+  if (succeeded.length === 0) {
+    throw new Error(`All ${segmentRecords.length} segment(s) failed. First error: ${segmentRecords[0]?.error}`);
+  }
+
+  const sumOf = (field: 'visitorCount' | 'enteringCount' | 'exitingCount') =>
+    succeeded.reduce((sum, record) => sum + (record[field] ?? 0), 0);
+  // Bidirectional records carry both counts and the net flow; single-direction records leave them null.
+  const isBidirectional = direction === 'both';
+  const enteringCount = isBidirectional ? sumOf('enteringCount') : null;
+  const exitingCount = isBidirectional ? sumOf('exitingCount') : null;
+  const formatOffset = (sec: number) => `${Math.floor(sec / 60)}:${String(Math.floor(sec % 60)).padStart(2, '0')}`;
+  return {
+    visitorCount: sumOf('visitorCount'),
+    enteringCount,
+    exitingCount,
+    netFlow: enteringCount !== null && exitingCount !== null ? enteringCount - exitingCount : null,
+    // The record is only as certain as its least certain window.
+    confidence: Math.min(...succeeded.map(record => record.confidence ?? 0)),
+    qualityNotes: succeeded
+      .filter(record => record.notes)
+      .map(record => segmentRecords.length > 1 ? `[${formatOffset(record.startOffsetSec)}-${formatOffset(record.endOffsetSec)}] ${record.notes}` : record.notes)
+      .join('\n'),
+    segmentCount: segmentRecords.length,
+    failedSegmentCount,
+    countStatus: failedSegmentCount > 0 ? 'partial' : 'complete',
+  };
+}
+
+/** The counted segments of a recording as stored on its record, for rollups (see `hourlyCountsOf`). */
+export function countTimelineOf(segmentRecords: SegmentRecord[]): CountTimelineEntry[] {
+  return segmentRecords
+    .filter(record => record.status === 'succeeded')
+    .map(record => ({
+      startOffsetSec: record.startOffsetSec,
+      endOffsetSec: record.endOffsetSec,
+      visitorCount: record.visitorCount ?? 0,
+      enteringCount: record.enteringCount,
+      exitingCount: record.exitingCount,
+    }));
+}
+
+/** One counted segment of a job, stored as `processing_jobs/{id}/segments/{index}` until the record is saved. */
+type JobSegmentResult = SegmentCountResult;
+
+type ActiveJob = ProcessingJob & { id: string };
+
+/**
+ * Sends `count.failed` for a job and evaluates its location's alert rules, and removes the video
+ * the job stored, which no record refers to.
+ */
+async function handleFailedJob(job: ActiveJob, error: string): Promise<void> {
+  if (job.videoStoragePath) {
+    await deleteVideo(job.videoStoragePath).catch((e: unknown) => {
+      console.warn(`[Job ${job.id}] Could not remove stored video ${job.videoStoragePath}:`, errorMessage(e));
+    });
+  }
+  // Retries to a slow receiver must not use up the job's time budget; the webhook retry runner sends them.
+  await emitWebhookEvent('count.failed', {
+    jobId: job.id,
+    error,
+    videoFileName: job.videoFileName,
+    locationName: job.locationName,
+    cameraId: job.cameraId,
+    uploadSource: job.uploadSource,
+  }, { retryInline: false });
+  // Awaited so the job's after() callback (or runner) keeps running until the rules are checked; it never throws.
+  await evaluateAlertRules({ locationName: job.locationName });
+}
+
+/**
+ * Saves the record of a job whose segments are all counted: the total in `visitor_logs` with one
+ * `segments` sub-record per window, and the outcome on the job, in one transaction that only
+ * commits while this worker holds the job. Then notifies webhook endpoints (`count.completed`).
+ */
+async function saveJobRecord(job: ActiveJob, leaseId: string, results: JobSegmentResult[]): Promise<void> {
+  const jobId = job.id;
+  const segmentRecords = results.map(result => result.record);
+  const crossingEvents = results.flatMap(result => result.crossingEvents);
+  const totals = summarizeSegmentCounts(segmentRecords, job.direction);
+  const { failedSegmentCount } = totals;
+  const isBidirectional = job.direction === 'both';
+  const needsReview = totals.confidence < REVIEW_CONFIDENCE_THRESHOLD || failedSegmentCount > 0;
+
+  const shadows = results.map(result => result.shadow);
+  const shadowSucceeded = shadows.filter((shadow): shadow is ShadowSegmentCount => shadow !== null);
+  const shadow: ShadowCount | null = job.shadowPromptVersion ? {
+    promptVersion: job.shadowPromptVersion,
+    visitorCount: shadowSucceeded.reduce((sum, output) => sum + output.visitorCount, 0),
+    enteringCount: isBidirectional ? shadowSucceeded.reduce((sum, output) => sum + (output.enteringCount ?? 0), 0) : null,
+    exitingCount: isBidirectional ? shadowSucceeded.reduce((sum, output) => sum + (output.exitingCount ?? 0), 0) : null,
+    confidence: shadowSucceeded.length > 0 ? Math.min(...shadowSucceeded.map(output => output.confidence)) : null,
+    failedSegmentCount: shadows.length - shadowSucceeded.length,
+  } : null;
+
+  const db = requireDbAdmin();
+  const logs = db.collection(VISITOR_LOGS_COLLECTION);
+  const docRef = job.recordId ? logs.doc(job.recordId) : logs.doc();
+  const dataToSave = {
+    visitorCount: totals.visitorCount,
+    countedDirection: job.direction,
+    enteringCount: totals.enteringCount,
+    exitingCount: totals.exitingCount,
+    netFlow: totals.netFlow,
+    processingTimestamp: Timestamp.now(),
+    videoFileName: job.videoFileName,
+    contentHash: job.contentHash,
+    recordingStartDateTime: job.recordingStartDateTime,
+    uploadSource: job.uploadSource,
+    locationName: job.locationName,
+    locationId: job.locationId,
+    cameraId: job.cameraId,
+    timeZone: job.timeZone,
+    countingGeometry: job.countingGeometry,
+    modelSettings: job.modelSettings,
+    promptVersion: PRODUCTION_PROMPT_VERSION,
+    shadow,
+    apiKeyId: job.apiKeyId,
+    jobId,
+    durationSec: job.durationSec,
+    segmentSeconds: DEFAULT_SEGMENT_SECONDS,
+    segmentCount: totals.segmentCount,
+    failedSegmentCount,
+    countTimeline: countTimelineOf(segmentRecords),
+    countStatus: totals.countStatus,
+    detailed: job.detailed,
+    crossingEventCount: job.detailed ? crossingEvents.length : null,
+    confidence: totals.confidence,
+    qualityNotes: totals.qualityNotes,
+    needsReview,
+    reviewStatus: needsReview ? 'pending' : null,
+    videoStoragePath: job.videoStoragePath,
+    videoMimeType: job.mimeType,
+    videoStoredAt: job.videoStoragePath ? Timestamp.now() : null,
+    videoDeletedAt: null,
+  };
+
+  console.log(`[Job ${jobId}] Saving to Firestore:`, {
+    ...dataToSave,
+    recordingStartDateTime: formatISO(job.recordingStartDateTime.toDate()),
+  });
+  await updateClaimedJob(jobId, leaseId, {
+    status: 'succeeded',
+    stage: 'done',
+    progress: 100,
+    visitorLogId: docRef.id,
+    failedSegmentCount,
+    finishedAt: Timestamp.now(),
+  }, {
+    release: true,
+    writes: transaction => {
+      transaction.set(docRef, dataToSave);
+      applyRollupChange(transaction, undefined, dataToSave);
+      for (const record of segmentRecords) {
+        transaction.set(docRef.collection(SEGMENTS_SUBCOLLECTION).doc(String(record.index).padStart(4, '0')), record);
+      }
+    },
+  });
+
+  const eventsRef = docRef.collection(CROSSING_EVENTS_SUBCOLLECTION);
+  for (let i = 0; i < crossingEvents.length; i += MAX_BATCH_WRITES) {
+    const eventBatch = db.batch();
+    for (const event of crossingEvents.slice(i, i + MAX_BATCH_WRITES)) {
+      eventBatch.set(eventsRef.doc(), event);
+    }
+    await eventBatch.commit();
+  }
+  console.log(`[Job ${jobId}] Saved to Firestore. Doc ID: ${docRef.id} (${segmentRecords.length} segment(s), ${failedSegmentCount} failed, ${crossingEvents.length} crossing event(s))`);
+
+  // The counted segments now live on the record.
+  await db.recursiveDelete(db.collection(PROCESSING_JOBS_COLLECTION).doc(jobId).collection(SEGMENTS_SUBCOLLECTION)).catch((e: unknown) => {
+    console.warn(`[Job ${jobId}] Could not remove the job's segment results:`, errorMessage(e));
+  });
+  // Retries to a slow receiver must not use up the job's time budget; the webhook retry runner sends them.
+  await emitWebhookEvent('count.completed', { jobId, visitorLog: serializeDocument(docRef.id, dataToSave) }, { retryInline: false });
+  // Awaited so the job's after() callback (or runner) keeps running until the rules are checked; it never throws.
+  await evaluateAlertRules({ locationName: job.locationName });
+}
+
+export interface CountJobBatchResult {
+  jobId: string;
+  /** `busy` when another worker holds the job. */
+  status: ProcessingJobStatus | 'busy';
+  countedSegmentCount: number;
+  segmentCount: number | null;
+}
+
+/**
+ * Works on a queued or paused processing job for up to `budgetMs`: splits the video into
+ * fixed-length segments, sends each segment to the counting flow (retrying failed segments) and
+ * stores each result on the job. Once every segment is counted, the record is saved (see
+ * `saveJobRecord`); a record is saved as `partial` if some segments still fail after retries.
+ *
+ * The first batch gets the uploaded file as `uploadedVideoPath` and copies it into video storage,
+ * so that later batches, run by `continueCountJobs` once a batch runs out of time, can count the
+ * remaining segments from there. The job is claimed with a lease that each segment renews; a worker
+ * that loses the lease stops without saving. Never throws; failures are recorded on the job instead.
+ */
+export async function runCountJobBatch(jobId: string, budgetMs: number = COUNT_JOB_BATCH_MS, uploadedVideoPath: string | null = null): Promise<CountJobBatchResult> {
+  const deadline = Date.now() + budgetMs;
+  let claim: Awaited<ReturnType<typeof claimProcessingJob>>;
+  try {
+    claim = await claimProcessingJob(jobId);
+  } catch (error) {
+    console.error(`[Job ${jobId}] Could not claim job:`, errorMessage(error));
+    return { jobId, status: 'busy', countedSegmentCount: 0, segmentCount: null };
+  }
+  const { leaseId } = claim;
+  let job = claim.job;
+  if (claim.failed) {
+    console.error(`[Job ${jobId}] Processing FAILED: ${job.error}`);
+    await handleFailedJob(job, job.error ?? 'Workers kept stopping.');
+  }
+  if (!leaseId) {
+    const status = job.status === 'queued' || job.status === 'running' ? 'busy' : job.status;
+    return { jobId, status, countedSegmentCount: 0, segmentCount: job.segmentCount };
+  }
+
+  const db = requireDbAdmin();
+  const resultsRef = db.collection(PROCESSING_JOBS_COLLECTION).doc(jobId).collection(SEGMENTS_SUBCOLLECTION);
+  const results = new Map<number, JobSegmentResult>();
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'visitor-job-'));
+  const result = (status: ProcessingJobStatus | 'busy'): CountJobBatchResult => ({ jobId, status, countedSegmentCount: results.size, segmentCount: job.segmentCount });
+  try {
+    console.log(`[Job ${jobId}] Batch started for "${job.videoFileName}" (location: ${job.locationName}).`);
+    await updateClaimedJob(jobId, leaseId, { stage: 'segmenting', progress: Math.max(job.progress, 5) });
+
+    let videoPath = uploadedVideoPath;
+    if (!job.videoStoragePath && videoPath) {
+      // Keep the original footage for review and re-processing, and so that later batches can continue.
+      // Losing it should not lose the counts: this worker then counts every segment itself.
+      const recordId = db.collection(VISITOR_LOGS_COLLECTION).doc().id;
+      const videoStoragePath = await saveVideo(
+        videoPath,
+        buildVideoStoragePath({
+          cameraId: job.cameraId,
+          locationId: job.locationId,
+          recordingStart: job.recordingStartDateTime.toDate(),
+          recordId,
+          fileName: job.videoFileName,
+        }),
+        job.mimeType,
+      ).catch((e: unknown) => {
+        console.warn(`[Job ${jobId}] Could not store the original video:`, errorMessage(e));
+        return null;
+      });
+      job = { ...job, recordId, videoStoragePath, shadowPromptVersion: pickShadowPromptVersion() };
+      await updateClaimedJob(jobId, leaseId, { recordId, videoStoragePath, shadowPromptVersion: job.shadowPromptVersion });
+      if (job.shadowPromptVersion) {
+        console.log(`[Job ${jobId}] Shadow mode: also counting with prompt ${job.shadowPromptVersion}.`);
+      }
+    } else if (!videoPath) {
+      if (!job.videoStoragePath) {
+        throw new Error('The uploaded video was not stored and is no longer available. Upload it again.');
+      }
+      videoPath = path.join(workDir, `original${path.extname(job.videoStoragePath) || '.mp4'}`);
+      await downloadVideo(job.videoStoragePath, videoPath);
+    }
+    const batchDeadline = job.videoStoragePath ? deadline : Infinity;
+
+    const { durationSec, segments } = await splitVideo(videoPath, job.mimeType, DEFAULT_SEGMENT_SECONDS);
+    if (job.segmentCount === null) {
+      console.log(`[Job ${jobId}] Video is ${durationSec.toFixed(1)}s long; counting ${segments.length} segment(s).`);
+      job = { ...job, durationSec, segmentCount: segments.length };
+      await updateClaimedJob(jobId, leaseId, { durationSec, segmentCount: segments.length });
+    } else if (job.segmentCount !== segments.length) {
+      throw new Error(`The video split into ${segments.length} segment(s) this time but ${job.segmentCount} before; cannot continue the job.`);
+    }
+    for (const doc of (await resultsRef.get()).docs) {
+      const saved = doc.data() as JobSegmentResult;
+      results.set(saved.record.index, saved);
+    }
+
+    const segmentRequest: SegmentCountRequest = {
+      direction: job.direction,
+      detailed: job.detailed,
+      countingRegion: job.countingGeometry ? describeCountingGeometry(job.countingGeometry) : undefined,
+      modelSettings: job.modelSettings,
+      promptVersion: PRODUCTION_PROMPT_VERSION,
+    };
+    for (const segment of segments) {
+      if (results.has(segment.index)) {
+        continue;
+      }
+      if (Date.now() >= batchDeadline) {
+        console.log(`[Job ${jobId}] Batch budget used up after ${results.size}/${segments.length} segment(s); pausing.`);
+        await updateClaimedJob(jobId, leaseId, { stage: `paused after segment ${results.size}/${segments.length}` }, { release: true });
+        return result('running');
+      }
+      await updateClaimedJob(jobId, leaseId, {
+        stage: `counting segment ${segment.index + 1}/${segments.length}`,
+        progress: 10 + Math.round((results.size / segments.length) * 80),
+      });
+      const counted = await countRecordingSegment(jobId, segment, job.recordingStartDateTime, segmentRequest, job.shadowPromptVersion);
+      await updateClaimedJob(jobId, leaseId, {}, {
+        writes: transaction => transaction.set(resultsRef.doc(String(segment.index).padStart(4, '0')), counted),
+      });
+      results.set(segment.index, counted);
+    }
+
+    await updateClaimedJob(jobId, leaseId, { stage: 'saving', progress: 90 });
+    await saveJobRecord(job, leaseId, [...results.values()].sort((a, b) => a.record.index - b.record.index));
+    return result('succeeded');
+  } catch (error) {
+    if (error instanceof JobLeaseLostError) {
+      // The job was taken over or failed as stale in the meantime; that outcome stands.
+      console.warn(`[Job ${jobId}] ${error.message} Stopping without saving.`);
+      return result('busy');
+    }
+    console.error(`[Job ${jobId}] Processing FAILED:`, errorMessage(error));
+    if (error instanceof Error && error.stack) {
+      console.error(`[Job ${jobId}] Error Stack:`, error.stack);
+    }
+    const message = errorMessage(error) || 'An unknown error occurred.';
+    try {
+      await updateClaimedJob(jobId, leaseId, { status: 'failed', stage: 'failed', error: message, finishedAt: Timestamp.now() }, { release: true });
+    } catch (updateError) {
+      console.error(`[Job ${jobId}] Could not record failure on job document:`, errorMessage(updateError));
+      return result('failed');
+    }
+    await handleFailedJob(job, message);
+    return result('failed');
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Runs the first batch of a job queued by `POST /api/upload-video` with the uploaded file, then
+ * removes the file from temp storage.
+ */
+export async function runCountJob(jobId: string, videoPath: string): Promise<void> {
+  try {
+    await runCountJobBatch(jobId, COUNT_JOB_BATCH_MS, videoPath);
+  } finally {
+    await removeStoredUpload(videoPath).catch((e: unknown) => {
+      console.warn(`[Job ${jobId}] Could not remove temp video ${videoPath}:`, errorMessage(e));
+    });
+  }
+}
+
+/**
+ * Continues paused jobs and takes over jobs whose worker died, oldest first, until `budgetMs` is
+ * used up. Stale jobs without a stored video cannot be continued and are failed (see
+ * `failStaleProcessingJob`). Meant to be called periodically, by `npm run jobs:run` or
+ * `POST /api/admin/jobs/run`.
+ */
+export async function continueCountJobs(budgetMs: number = COUNT_JOB_BATCH_MS): Promise<CountJobBatchResult[]> {
+  const deadline = Date.now() + budgetMs;
+  const results: CountJobBatchResult[] = [];
+  for (const job of await listActiveProcessingJobs()) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+    if (job.videoStoragePath) {
+      // Claiming skips jobs another worker holds and counts interruptions.
+      results.push(await runCountJobBatch(job.id, remaining));
+      continue;
+    }
+    if (isStaleProcessingJob(job)) {
+      const reason = job.status === 'running'
+        ? `The worker stopped during "${job.stage}" (e.g. the request timed out). Upload the video again.`
+        : 'The job was never started. Upload the video again.';
+      const failed = await failStaleProcessingJob(job.id, reason);
+      if (failed) {
+        console.warn(`[Job ${job.id}] Failed stale job: ${reason}`);
+        await handleFailedJob(failed, reason);
+        results.push({ jobId: job.id, status: 'failed', countedSegmentCount: 0, segmentCount: job.segmentCount });
+      }
+    }
+  }
+  return results;
+}
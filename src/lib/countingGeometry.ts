@@ -0,0 +1,49 @@
+import type { CountingGeometry, FramePoint } from '@/ai/types';
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function describePoint(point: FramePoint): string {
+  return `(${percent(point.x)} from the left, ${percent(point.y)} from the top)`;
+}
+
+/**
+ * The unit vector pointing to the 'entering' side of a counting line: the right-hand side when
+ * facing from `start` to `end` in screen coordinates (y grows downwards).
+ */
+export function enteringNormal(line: { start: FramePoint; end: FramePoint }): FramePoint {
+  const dx = line.end.x - line.start.x;
+  const dy = line.end.y - line.start.y;
+  const length = Math.hypot(dx, dy) || 1;
+  return { x: -dy / length, y: dx / length };
+}
+
+/** Names a screen direction, e.g. "lower left", for a unit vector. */
+function describeSide(vector: FramePoint): string {
+  const vertical = vector.y < -0.38 ? 'upper' : vector.y > 0.38 ? 'lower' : '';
+  const horizontal = vector.x < -0.38 ? 'left' : vector.x > 0.38 ? 'right' : '';
+  if (vertical && horizontal) return `${vertical} ${horizontal}`;
+  if (vertical) return vertical === 'upper' ? 'top' : 'bottom';
+  return horizontal;
+}
+
+/**
+ * Describes a camera's counting line or region in words for the counting prompt, so that
+ * 'entering' and 'exiting' refer to crossings of that geometry rather than a guess about the scene.
+ */
+export function describeCountingGeometry(geometry: CountingGeometry): string {
+  if (geometry.type === 'line') {
+    const normal = enteringNormal(geometry);
+    return [
+      `A straight counting line runs from ${describePoint(geometry.start)} to ${describePoint(geometry.end)} of the frame.`,
+      `'entering' means a person crosses this line towards the ${describeSide(normal)} side of the frame; 'exiting' means crossing it towards the ${describeSide({ x: -normal.x, y: -normal.y })} side.`,
+      'Only count people whose feet or body clearly pass over the line. People who approach the line and turn back, or who walk alongside it without crossing, are not counted.',
+    ].join(' ');
+  }
+  return [
+    `The counting region is the polygon with corners ${geometry.points.map(describePoint).join(', ')} of the frame.`,
+    "'entering' means a person moves from outside this region to inside it; 'exiting' means moving from inside it to outside.",
+    'Ignore people whose whole path stays inside the region or stays outside it.',
+  ].join(' ');
+}
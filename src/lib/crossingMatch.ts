@@ -0,0 +1,40 @@
+import type { CrossingDirection } from '@/ai/types';
+
+/** A predicted crossing matches a ground-truth one if it has the same direction and is at most this far off. */
+export const CROSSING_MATCH_TOLERANCE_SEC = 2;
+
+export interface TimedCrossing {
+  /** Seconds from the start of the video. */
+  offsetSec: number;
+  direction: CrossingDirection;
+}
+
+export interface CrossingMatch {
+  expected: number;
+  predicted: number;
+  matched: number;
+  /** For each expected crossing, the index of its matched predicted crossing, or null. */
+  pairs: (number | null)[];
+}
+
+/**
+ * Pairs predicted crossings with ground-truth ones of the same direction, nearest first,
+ * each used at most once and no further apart than CROSSING_MATCH_TOLERANCE_SEC.
+ */
+export function matchCrossings(expected: TimedCrossing[], predicted: TimedCrossing[]): CrossingMatch {
+  const used = new Set<number>();
+  const pairs = expected.map(truth => {
+    let best = -1;
+    for (const [index, candidate] of predicted.entries()) {
+      if (used.has(index) || candidate.direction !== truth.direction) continue;
+      const distance = Math.abs(candidate.offsetSec - truth.offsetSec);
+      if (distance <= CROSSING_MATCH_TOLERANCE_SEC && (best < 0 || distance < Math.abs(predicted[best].offsetSec - truth.offsetSec))) {
+        best = index;
+      }
+    }
+    if (best < 0) return null;
+    used.add(best);
+    return best;
+  });
+  return { expected: expected.length, predicted: predicted.length, matched: used.size, pairs };
+}
@@ -0,0 +1,6 @@
+/**
+ * The message of a caught value, for logs and `messageFromServer`; non-Error values are stringified.
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
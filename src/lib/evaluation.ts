@@ -0,0 +1,309 @@
+import { createHash } from 'crypto';
+import { copyFile, mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Timestamp } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { COUNT_VISITORS_PROMPTS, PRODUCTION_PROMPT_VERSION } from '@/ai/prompts/count-visitors';
+import { resolveModelSettings, type ResolvedModelSettings } from '@/ai/providers';
+import { CrossingDirectionEnum, DirectionEnum, type Direction, type ModelSettings } from '@/ai/types';
+import { describeCountingGeometry } from '@/lib/countingGeometry';
+import { matchCrossings, type TimedCrossing } from '@/lib/crossingMatch';
+import { countSegment, type SegmentCountRequest } from '@/lib/countPipeline';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { resolveUploadLocation } from '@/lib/registry';
+import { DEFAULT_SEGMENT_SECONDS, splitVideo } from '@/lib/videoSegmenter';
+
+export const EVALUATION_RUNS_COLLECTION = 'evaluation_runs';
+export const EVALUATION_RESULTS_SUBCOLLECTION = 'results';
+
+const MIME_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+};
+
+const GroundTruthItemSchema = z.object({
+  id: z.string().min(1),
+  /** Path to the video file, relative to the dataset file. */
+  video: z.string().min(1),
+  direction: DirectionEnum,
+  /** A registered camera, so its counting line and model settings apply as in production. */
+  cameraId: z.string().min(1).optional(),
+  locationName: z.string().min(1).optional(),
+  /** Manually counted people for `direction`; for 'both', entering plus exiting. */
+  count: z.number().int().min(0),
+  enteringCount: z.number().int().min(0).optional(),
+  exitingCount: z.number().int().min(0).optional(),
+  /** Optional manually noted crossings, in seconds from the start of the video. */
+  crossings: z.array(z.object({ offsetSec: z.number().min(0), direction: CrossingDirectionEnum })).optional(),
+})
+  .refine(item => item.cameraId || item.locationName, { message: 'Either "cameraId" or "locationName" is required.' })
+  .refine(item => item.enteringCount === undefined || item.exitingCount === undefined || item.enteringCount + item.exitingCount === item.count, {
+    message: '"count" must equal "enteringCount" + "exitingCount".',
+  });
+
+export const GroundTruthDatasetSchema = z.object({
+  /** Runs are compared with earlier runs of the same dataset name. */
+  name: z.string().min(1),
+  items: z.array(GroundTruthItemSchema).min(1),
+});
+export type GroundTruthItem = z.infer<typeof GroundTruthItemSchema>;
+export type GroundTruthDataset = z.infer<typeof GroundTruthDatasetSchema>;
+
+export interface CrossingTotals {
+  expected: number;
+  predicted: number;
+  matched: number;
+}
+
+export interface EvaluationItemResult {
+  itemId: string;
+  locationName: string;
+  direction: Direction;
+  modelSettings: ResolvedModelSettings;
+  expectedCount: number;
+  /** Null when counting failed; such items are left out of the error statistics. */
+  predictedCount: number | null;
+  /** `predictedCount - expectedCount`; positive means the model over-counted. */
+  error: number | null;
+  expectedEntering: number | null;
+  expectedExiting: number | null;
+  predictedEntering: number | null;
+  predictedExiting: number | null;
+  confidence: number | null;
+  /** Only for items with ground-truth crossings. */
+  crossings: CrossingTotals | null;
+  failure: string | null;
+}
+
+export interface ErrorStats {
+  itemCount: number;
+  /** Mean of |predicted - expected|. */
+  meanAbsoluteError: number | null;
+  /** Mean of predicted - expected; negative means the model under-counts. */
+  bias: number | null;
+  expectedTotal: number;
+  predictedTotal: number;
+}
+
+export interface EvaluationSummary extends ErrorStats {
+  failedCount: number;
+  /** Over all items with ground-truth crossings; null when there are none. */
+  crossingPrecision: number | null;
+  crossingRecall: number | null;
+}
+
+export interface EvaluationRunRecord {
+  datasetName: string;
+  /** SHA-256 of the dataset file, so runs on an edited dataset can be told apart. */
+  datasetHash: string;
+  /** Settings given on the command line, without unset fields; cameras may still set their own per item. */
+  modelOverrides: ModelSettings;
+  promptVersion: string;
+  startedAt: Timestamp;
+  finishedAt: Timestamp;
+  summary: EvaluationSummary;
+  byLocation: (ErrorStats & { locationName: string })[];
+}
+
+export class EvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationError';
+  }
+}
+
+/** Reads and validates a ground-truth dataset file (see the README for the format). */
+export async function loadGroundTruthDataset(datasetPath: string): Promise<{ dataset: GroundTruthDataset; datasetHash: string }> {
+  const raw = await readFile(datasetPath);
+  let json: unknown;
+  try {
+    json = JSON.parse(raw.toString('utf8'));
+  } catch (error) {
+    throw new EvaluationError(`${datasetPath} is not valid JSON: ${errorMessage(error)}`);
+  }
+  const parsed = GroundTruthDatasetSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new EvaluationError(`Invalid dataset ${datasetPath}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+  const ids = new Set<string>();
+  for (const item of parsed.data.items) {
+    if (ids.has(item.id)) {
+      throw new EvaluationError(`Invalid dataset ${datasetPath}: duplicate item id "${item.id}".`);
+    }
+    ids.add(item.id);
+  }
+  return { dataset: parsed.data, datasetHash: createHash('sha256').update(raw).digest('hex') };
+}
+
+export function errorStats(results: EvaluationItemResult[]): ErrorStats {
+  const counted = results.filter(result => result.error !== null);
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  return {
+    itemCount: counted.length,
+    meanAbsoluteError: mean(counted.map(result => Math.abs(result.error!))),
+    bias: mean(counted.map(result => result.error!)),
+    expectedTotal: counted.reduce((sum, result) => sum + result.expectedCount, 0),
+    predictedTotal: counted.reduce((sum, result) => sum + result.predictedCount!, 0),
+  };
+}
+
+export function summarize(results: EvaluationItemResult[]): { summary: EvaluationSummary; byLocation: (ErrorStats & { locationName: string })[] } {
+  const crossingTotals = results.reduce<CrossingTotals>((totals, result) => result.crossings && result.predictedCount !== null ? {
+    expected: totals.expected + result.crossings.expected,
+    predicted: totals.predicted + result.crossings.predicted,
+    matched: totals.matched + result.crossings.matched,
+  } : totals, { expected: 0, predicted: 0, matched: 0 });
+  const hasCrossings = results.some(result => result.crossings && result.predictedCount !== null);
+
+  const locations = [...new Set(results.map(result => result.locationName))].sort();
+  return {
+    summary: {
+      ...errorStats(results),
+      failedCount: results.filter(result => result.predictedCount === null).length,
+      crossingPrecision: hasCrossings && crossingTotals.predicted > 0 ? crossingTotals.matched / crossingTotals.predicted : null,
+      crossingRecall: hasCrossings && crossingTotals.expected > 0 ? crossingTotals.matched / crossingTotals.expected : null,
+    },
+    byLocation: locations.map(locationName => ({
+      locationName,
+      ...errorStats(results.filter(result => result.locationName === locationName)),
+    })),
+  };
+}
+
+/**
+ * Counts one ground-truth video the way an upload would be counted: same segmentation,
+ * same camera settings and the same flow. Counting failures are recorded on the result; an
+ * unknown `cameraId` throws, since that is a mistake in the dataset.
+ */
+async function evaluateItem(item: GroundTruthItem, baseDir: string, modelOverrides: ModelSettings, promptVersion: string): Promise<EvaluationItemResult> {
+  const location = await resolveUploadLocation({ cameraId: item.cameraId, locationName: item.locationName });
+  const modelSettings = resolveModelSettings(modelOverrides, location.modelSettings);
+  const isBidirectional = item.direction === 'both';
+  const result: EvaluationItemResult = {
+    itemId: item.id,
+    locationName: location.locationName,
+    direction: item.direction,
+    modelSettings,
+    expectedCount: item.count,
+    predictedCount: null,
+    error: null,
+    expectedEntering: item.enteringCount ?? null,
+    expectedExiting: item.exitingCount ?? null,
+    predictedEntering: null,
+    predictedExiting: null,
+    confidence: null,
+    crossings: null,
+    failure: null,
+  };
+
+  // splitVideo writes next to its input, so work on a copy in a scratch directory.
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'visitor-eval-'));
+  try {
+    const videoPath = path.join(workDir, path.basename(item.video));
+    await copyFile(path.resolve(baseDir, item.video), videoPath);
+    const mimeType = MIME_TYPES[path.extname(item.video).toLowerCase()] ?? 'video/mp4';
+    const { segments } = await splitVideo(videoPath, mimeType, DEFAULT_SEGMENT_SECONDS);
+    const request: SegmentCountRequest = {
+      direction: item.direction,
+      detailed: item.crossings !== undefined,
+      countingRegion: location.countingGeometry ? describeCountingGeometry(location.countingGeometry) : undefined,
+      modelSettings,
+      promptVersion,
+    };
+
+    let predicted = 0;
+    let entering = 0;
+    let exiting = 0;
+    let confidence = 1;
+    const predictedCrossings: TimedCrossing[] = [];
+    for (const segment of segments) {
+      const { output } = await countSegment(`eval ${item.id}`, segment, request);
+      predicted += output.visitorCount;
+      entering += output.enteringCount ?? 0;
+      exiting += output.exitingCount ?? 0;
+      confidence = Math.min(confidence, output.confidence);
+      for (const event of output.crossingEvents ?? []) {
+        predictedCrossings.push({ offsetSec: segment.startOffsetSec + event.offsetSec, direction: event.direction });
+      }
+    }
+
+    result.predictedCount = predicted;
+    result.error = predicted - item.count;
+    result.predictedEntering = isBidirectional ? entering : null;
+    result.predictedExiting = isBidirectional ? exiting : null;
+    result.confidence = confidence;
+    if (item.crossings) {
+      const { expected, predicted, matched } = matchCrossings(item.crossings, predictedCrossings);
+      result.crossings = { expected, predicted, matched };
+    }
+  } catch (error) {
+    result.failure = errorMessage(error) || 'An unknown error occurred.';
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+  return result;
+}
+
+/**
+ * Counts every item of a dataset and computes the error statistics. Items run one after another
+ * to stay within model rate limits. With `save`, the run and its per-item results are stored in
+ * `evaluation_runs` for comparison with later runs.
+ */
+export async function runEvaluation(
+  datasetPath: string,
+  options: { modelOverrides: ModelSettings; promptVersion?: string; save: boolean; onItem?: (result: EvaluationItemResult, index: number, total: number) => void },
+): Promise<{ runId: string | null; run: EvaluationRunRecord; results: EvaluationItemResult[] }> {
+  const promptVersion = options.promptVersion ?? PRODUCTION_PROMPT_VERSION;
+  if (!COUNT_VISITORS_PROMPTS[promptVersion]) {
+    throw new EvaluationError(`Unknown prompt version "${promptVersion}". Known versions: ${Object.keys(COUNT_VISITORS_PROMPTS).join(', ')}.`);
+  }
+  const { dataset, datasetHash } = await loadGroundTruthDataset(datasetPath);
+  const startedAt = Timestamp.now();
+  const baseDir = path.dirname(path.resolve(datasetPath));
+
+  const results: EvaluationItemResult[] = [];
+  for (const [index, item] of dataset.items.entries()) {
+    const result = await evaluateItem(item, baseDir, options.modelOverrides, promptVersion);
+    results.push(result);
+    options.onItem?.(result, index, dataset.items.length);
+  }
+
+  const run: EvaluationRunRecord = {
+    datasetName: dataset.name,
+    datasetHash,
+    modelOverrides: options.modelOverrides,
+    promptVersion,
+    startedAt,
+    finishedAt: Timestamp.now(),
+    ...summarize(results),
+  };
+  if (!options.save) {
+    return { runId: null, run, results };
+  }
+
+  const db = requireDbAdmin();
+  const runRef = db.collection(EVALUATION_RUNS_COLLECTION).doc();
+  const batch = db.batch();
+  batch.set(runRef, run);
+  for (const result of results) {
+    batch.set(runRef.collection(EVALUATION_RESULTS_SUBCOLLECTION).doc(result.itemId), result);
+  }
+  await batch.commit();
+  return { runId: runRef.id, run, results };
+}
+
+/** The most recent stored run of the same dataset before `startedAt`, if any. */
+export async function findPreviousRun(datasetName: string, startedAt: Timestamp): Promise<({ id: string } & EvaluationRunRecord) | null> {
+  // Runs per dataset are few, so sort in memory rather than require a composite index.
+  const snapshot = await requireDbAdmin().collection(EVALUATION_RUNS_COLLECTION).where('datasetName', '==', datasetName).get();
+  const earlier = snapshot.docs
+    .map(doc => ({ id: doc.id, ...(doc.data() as EvaluationRunRecord) }))
+    .filter(run => run.startedAt.toMillis() < startedAt.toMillis())
+    .sort((a, b) => b.startedAt.toMillis() - a.startedAt.toMillis());
+  return earlier[0] ?? null;
+}
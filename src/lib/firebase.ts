@@ -1,6 +1,5 @@
-
 import { initializeApp, getApps, getApp, type FirebaseApp } from "firebase/app";
-import { getFirestore, type Firestore } from "firebase/firestore";
+import { connectAuthEmulator, getAuth, inMemoryPersistence, setPersistence, type Auth } from "firebase/auth";
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -11,9 +10,11 @@ const firebaseConfig = {
   appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
 };
 
+/** e.g. "127.0.0.1:9099" to sign in against the Firebase Auth emulator. */
+const authEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+
 // Initialize Firebase
 let app: FirebaseApp;
-let db: Firestore;
 
 if (!getApps().length) {
   try {
@@ -32,19 +33,16 @@ if (!getApps().length) {
   console.log("Firebase app already initialized.");
 }
 
-try {
-  db = getFirestore(app);
-  console.log("Firestore instance obtained successfully.");
-  if (!firebaseConfig.projectId) {
-    console.warn("Firebase projectId is not configured in environment variables. Firestore might not work correctly.");
-  }
-} catch (e) {
-  console.error("Error obtaining Firestore instance:", e);
-  // If db initialization fails, we assign a placeholder or handle it to prevent app crash
-  // For now, re-throwing might be too disruptive if other parts of app don't use db
-  // db = {} as Firestore; // Or some other fallback
-  console.error("Firestore could not be initialized. Any operations requiring Firestore will fail.");
-  // throw e; // Optionally re-throw if Firestore is absolutely critical for app to start
+// The browser only uses Firebase Auth to sign in; the server keeps the session in an httpOnly
+// cookie (see /api/auth/session), so the client SDK does not persist the user itself.
+// Data is read through the API routes, which check the user's role; Firestore is not accessed directly.
+const auth: Auth = getAuth(app);
+if (authEmulatorHost && !auth.emulatorConfig) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+  console.log(`Using the Firebase Auth emulator at ${authEmulatorHost}.`);
 }
+setPersistence(auth, inMemoryPersistence).catch(e => {
+  console.error("Could not set Firebase Auth persistence:", e);
+});
 
-export { app, db };
+export { app, auth };
@@ -64,3 +64,24 @@ if (!detectedProjectId) {
 }
 
 export const dbAdmin = dbAdminInstance;
+
+/**
+ * Returns the Admin Firestore instance, or throws if the Admin SDK failed to initialize.
+ * Use this in server code that cannot do anything useful without Firestore.
+ */
+export function requireDbAdmin(): Firestore {
+    if (!dbAdminInstance) {
+        throw new Error("Firebase Admin Firestore instance is not available. Check the Admin SDK initialization logs (firebaseAdmin.ts).");
+    }
+    return dbAdminInstance;
+}
+
+/**
+ * Returns the initialized Admin app, for services other than Firestore (e.g. Storage).
+ */
+export function requireAdminApp(): App {
+    if (!adminApp) {
+        throw new Error("Firebase Admin app is not available. Check the Admin SDK initialization logs (firebaseAdmin.ts).");
+    }
+    return adminApp;
+}
@@ -0,0 +1,94 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { CrossingDirectionEnum, type Direction } from '@/ai/types';
+import type { TimedCrossing } from '@/lib/crossingMatch';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+/** Manual tallies of recorded videos, one document per tally session. */
+export const GROUND_TRUTH_COLLECTION = 'ground_truth';
+
+/** Longest video a tally can refer to; guards against nonsense offsets. */
+const MAX_OFFSET_SEC = 24 * 60 * 60;
+
+export interface GroundTruthRecord {
+  visitorLogId: string;
+  /** The record's direction when the tally was saved; decides what `visitorCount` covers. */
+  countedDirection: Direction;
+  /** Every tap, in video order. Staff tally both directions whatever the record counted. */
+  taps: TimedCrossing[];
+  enteringCount: number;
+  exitingCount: number;
+  /** Comparable with the record's `visitorCount`: the taps in `countedDirection` (both for 'both'). */
+  visitorCount: number;
+  countedBy: string;
+  note: string | null;
+  videoDurationSec: number | null;
+  createdAt: Timestamp;
+}
+
+export interface TallyInput {
+  taps: TimedCrossing[];
+  countedBy: string;
+  note: string | null;
+  videoDurationSec: number | null;
+}
+
+export class GroundTruthError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'GroundTruthError';
+  }
+}
+
+/** Reads a tally session from a JSON request body; `countedBy` is the signed-in user. */
+export function parseTallyInput(body: any, countedBy: string): TallyInput {
+  if (!Array.isArray(body?.taps)) {
+    throw new GroundTruthError('"taps" must be an array of { offsetSec, direction }.', 400);
+  }
+  const taps = body.taps.map((tap: any, index: number): TimedCrossing => {
+    const direction = CrossingDirectionEnum.safeParse(tap?.direction);
+    if (typeof tap?.offsetSec !== 'number' || !(tap.offsetSec >= 0 && tap.offsetSec <= MAX_OFFSET_SEC) || !direction.success) {
+      throw new GroundTruthError(`taps[${index}] must have a non-negative "offsetSec" and a "direction" of entering or exiting.`, 400);
+    }
+    return { offsetSec: tap.offsetSec, direction: direction.data };
+  });
+  const videoDurationSec = typeof body?.videoDurationSec === 'number' && body.videoDurationSec > 0 ? body.videoDurationSec : null;
+  const note = typeof body?.note === 'string' && body.note.trim() ? body.note.trim() : null;
+  return { taps, countedBy, note, videoDurationSec };
+}
+
+/**
+ * Saves a tally session for a record. Counts are derived from the taps, so they always agree.
+ */
+export async function saveGroundTruth(visitorLogId: string, input: TallyInput): Promise<{ id: string; record: GroundTruthRecord }> {
+  const db = requireDbAdmin();
+  const log = await db.collection(VISITOR_LOGS_COLLECTION).doc(visitorLogId).get();
+  if (!log.exists || log.get('deleted') === true) {
+    throw new GroundTruthError(`Visitor log "${visitorLogId}" not found.`, 404);
+  }
+
+  const countedDirection = log.get('countedDirection') as Direction;
+  const taps = [...input.taps].sort((a, b) => a.offsetSec - b.offsetSec);
+  const enteringCount = taps.filter(tap => tap.direction === 'entering').length;
+  const exitingCount = taps.length - enteringCount;
+  const record: GroundTruthRecord = {
+    visitorLogId,
+    countedDirection,
+    taps,
+    enteringCount,
+    exitingCount,
+    visitorCount: countedDirection === 'entering' ? enteringCount : countedDirection === 'exiting' ? exitingCount : taps.length,
+    countedBy: input.countedBy,
+    note: input.note,
+    videoDurationSec: input.videoDurationSec,
+    createdAt: Timestamp.now(),
+  };
+  const docRef = await db.collection(GROUND_TRUTH_COLLECTION).add(record);
+  return { id: docRef.id, record };
+}
+
+/** Tally sessions of a record, newest first. */
+export async function listGroundTruth(visitorLogId: string) {
+  const snapshot = await requireDbAdmin().collection(GROUND_TRUTH_COLLECTION).where('visitorLogId', '==', visitorLogId).get();
+  return snapshot.docs.sort((a, b) => (b.get('createdAt') as Timestamp).toMillis() - (a.get('createdAt') as Timestamp).toMillis());
+}
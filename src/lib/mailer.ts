@@ -0,0 +1,34 @@
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Sends mail over SMTP, configured by `SMTP_HOST`, `SMTP_PORT` (default 587), `SMTP_SECURE`,
+ * `SMTP_USER`/`SMTP_PASSWORD` (optional) and `REPORT_MAIL_FROM`. Point it at a local SMTP sink
+ * such as Mailpit (`SMTP_HOST=localhost SMTP_PORT=1025`) to check messages without sending mail.
+ * Returns the message ID.
+ */
+export async function sendMail(message: MailMessage, recipients: string[]): Promise<string> {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('SMTP_HOST is not configured; email cannot be sent.');
+  }
+  const transport = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+  });
+  const info = await transport.sendMail({
+    from: process.env.REPORT_MAIL_FROM || 'CountCam <countcam@localhost>',
+    to: recipients,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+  });
+  return info.messageId;
+}
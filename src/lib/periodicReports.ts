@@ -0,0 +1,248 @@
+import { addDays, endOfMonth, format, parseISO, startOfMonth, startOfWeek, subDays, subMonths } from 'date-fns';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { ROLLUPS_COLLECTION, type RollupCounts, type RollupRecord } from '@/lib/rollups';
+
+export const REPORT_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+export type ReportFrequency = (typeof REPORT_FREQUENCIES)[number];
+
+const FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  daily: '日次',
+  weekly: '週次',
+  monthly: '月次',
+};
+
+/** A reporting period as local calendar dates, both inclusive (`yyyy-MM-dd`). */
+export interface ReportPeriod {
+  from: string;
+  to: string;
+}
+
+export interface LocationReportRow {
+  locationName: string;
+  current: RollupCounts;
+  previous: RollupCounts;
+}
+
+export interface PeriodicReportSummary {
+  title: string;
+  frequency: ReportFrequency;
+  timeZone: string;
+  period: ReportPeriod;
+  previousPeriod: ReportPeriod;
+  /** Null when the report covers every location. */
+  locations: string[] | null;
+  totals: RollupCounts;
+  previousTotals: RollupCounts;
+  byLocation: LocationReportRow[];
+  /** The local hour with the most visitors across the reported locations; null without recordings. */
+  peakHour: { start: Date; total: number } | null;
+}
+
+export interface RenderedReport {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const localDateFormats = new Map<string, Intl.DateTimeFormat>();
+
+function localDate(date: Date, timeZone: string): string {
+  let dateFormat = localDateFormats.get(timeZone);
+  if (!dateFormat) {
+    dateFormat = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    localDateFormats.set(timeZone, dateFormat);
+  }
+  return dateFormat.format(date);
+}
+
+// Calendar arithmetic below works on `yyyy-MM-dd` strings parsed as server-local midnights; only
+// the dates are kept, so the server's own time zone does not matter.
+function toPeriod(from: Date, to: Date): ReportPeriod {
+  return { from: format(from, 'yyyy-MM-dd'), to: format(to, 'yyyy-MM-dd') };
+}
+
+/**
+ * The most recent period that has fully ended at `now` in the given time zone: yesterday, last
+ * week (Monday to Sunday) or last calendar month.
+ */
+export function lastCompletedPeriod(frequency: ReportFrequency, now: Date, timeZone: string): ReportPeriod {
+  const today = parseISO(localDate(now, timeZone));
+  switch (frequency) {
+    case 'daily':
+      return toPeriod(subDays(today, 1), subDays(today, 1));
+    case 'weekly': {
+      const start = subDays(startOfWeek(today, { weekStartsOn: 1 }), 7);
+      return toPeriod(start, addDays(start, 6));
+    }
+    case 'monthly': {
+      const start = startOfMonth(subMonths(today, 1));
+      return toPeriod(start, endOfMonth(start));
+    }
+  }
+}
+
+/** The period of the same length directly before `period`. */
+export function previousPeriod(frequency: ReportFrequency, period: ReportPeriod): ReportPeriod {
+  const from = parseISO(period.from);
+  switch (frequency) {
+    case 'daily':
+      return toPeriod(subDays(from, 1), subDays(from, 1));
+    case 'weekly':
+      return toPeriod(subDays(from, 7), subDays(from, 1));
+    case 'monthly': {
+      const start = startOfMonth(subMonths(from, 1));
+      return toPeriod(start, endOfMonth(start));
+    }
+  }
+}
+
+function emptyCounts(): RollupCounts {
+  return { total: 0, entering: 0, exiting: 0, recordingCount: 0 };
+}
+
+function addCounts(target: RollupCounts, counts: RollupCounts) {
+  target.total += counts.total ?? 0;
+  target.entering += counts.entering ?? 0;
+  target.exiting += counts.exiting ?? 0;
+  target.recordingCount += counts.recordingCount ?? 0;
+}
+
+/**
+ * Summarizes the rollups of a period and the one before it. Days are the rollup dates, i.e. local
+ * to each recording's camera or location; `locations` limits the report to those location names.
+ */
+export async function buildPeriodicReport(options: {
+  title: string;
+  frequency: ReportFrequency;
+  timeZone: string;
+  period: ReportPeriod;
+  locations: string[];
+}): Promise<PeriodicReportSummary> {
+  const previous = previousPeriod(options.frequency, options.period);
+  const snapshot = await requireDbAdmin()
+    .collection(ROLLUPS_COLLECTION)
+    .where('date', '>=', previous.from)
+    .where('date', '<=', options.period.to)
+    .get();
+
+  const totals = emptyCounts();
+  const previousTotals = emptyCounts();
+  const rows = new Map<string, LocationReportRow>();
+  const hourTotals = new Map<number, number>();
+  for (const doc of snapshot.docs) {
+    const rollup = doc.data() as RollupRecord;
+    if (options.locations.length > 0 && !options.locations.includes(rollup.locationName)) continue;
+    const isCurrent = rollup.date >= options.period.from;
+    const row = rows.get(rollup.locationName) ?? { locationName: rollup.locationName, current: emptyCounts(), previous: emptyCounts() };
+    addCounts(isCurrent ? row.current : row.previous, rollup);
+    addCounts(isCurrent ? totals : previousTotals, rollup);
+    rows.set(rollup.locationName, row);
+    if (!isCurrent) continue;
+    for (const [hour, counts] of Object.entries(rollup.hours ?? {})) {
+      const start = rollup.dayStart.toMillis() + Number(hour) * 3600 * 1000;
+      hourTotals.set(start, (hourTotals.get(start) ?? 0) + (counts.total ?? 0));
+    }
+  }
+
+  let peakHour: PeriodicReportSummary['peakHour'] = null;
+  for (const [start, total] of hourTotals) {
+    if (total > 0 && (!peakHour || total > peakHour.total)) {
+      peakHour = { start: new Date(start), total };
+    }
+  }
+
+  return {
+    title: options.title,
+    frequency: options.frequency,
+    timeZone: options.timeZone,
+    period: options.period,
+    previousPeriod: previous,
+    locations: options.locations.length > 0 ? options.locations : null,
+    totals,
+    previousTotals,
+    byLocation: [...rows.values()].sort((a, b) => b.current.total - a.current.total || a.locationName.localeCompare(b.locationName)),
+    peakHour,
+  };
+}
+
+function formatChange(current: number, previous: number): string {
+  if (previous === 0) return current === 0 ? '±0%' : '—';
+  const percent = ((current - previous) / previous) * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+function formatPeakHour(summary: PeriodicReportSummary): string {
+  if (!summary.peakHour) return 'なし';
+  const start = new Intl.DateTimeFormat('sv-SE', {
+    timeZone: summary.timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).format(summary.peakHour.start);
+  return `${start} 台 (${summary.peakHour.total.toLocaleString('ja-JP')}人)`;
+}
+
+function formatPeriod(period: ReportPeriod): string {
+  return period.from === period.to ? period.from : `${period.from} 〜 ${period.to}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Renders the summary as a plain-text and an HTML document (Japanese, like the UI). */
+export function renderPeriodicReport(summary: PeriodicReportSummary): RenderedReport {
+  const subject = `[CountCam] ${summary.title} ${FREQUENCY_LABELS[summary.frequency]}レポート (${formatPeriod(summary.period)})`;
+  const locations = summary.locations ? summary.locations.join(', ') : 'すべて';
+  const overview: [string, string][] = [
+    ['期間', formatPeriod(summary.period)],
+    ['比較期間', formatPeriod(summary.previousPeriod)],
+    ['対象カメラ', locations],
+    ['訪問者数', `${summary.totals.total.toLocaleString('ja-JP')}人 (前期間 ${summary.previousTotals.total.toLocaleString('ja-JP')}人, ${formatChange(summary.totals.total, summary.previousTotals.total)})`],
+    ['右→左 / 左→右', `${summary.totals.entering.toLocaleString('ja-JP')} / ${summary.totals.exiting.toLocaleString('ja-JP')}`],
+    ['録画数', `${summary.totals.recordingCount.toLocaleString('ja-JP')}`],
+    ['ピーク時間帯', formatPeakHour(summary)],
+  ];
+  const header = ['カメラ名称', '訪問者数', '右→左', '左→右', '録画数', '前期間', '増減'];
+  const rows = summary.byLocation.map(row => [
+    row.locationName,
+    row.current.total.toLocaleString('ja-JP'),
+    row.current.entering.toLocaleString('ja-JP'),
+    row.current.exiting.toLocaleString('ja-JP'),
+    row.current.recordingCount.toLocaleString('ja-JP'),
+    row.previous.total.toLocaleString('ja-JP'),
+    formatChange(row.current.total, row.previous.total),
+  ]);
+
+  const text = [
+    subject,
+    '',
+    ...overview.map(([label, value]) => `${label}: ${value}`),
+    '',
+    'カメラ別:',
+    header.join('\t'),
+    ...rows.map(row => row.join('\t')),
+    ...(rows.length === 0 ? ['(記録なし)'] : []),
+    '',
+    `時刻は ${summary.timeZone} で表示しています。`,
+  ].join('\n');
+
+  const cell = (tag: 'th' | 'td', value: string, alignRight: boolean) =>
+    `<${tag} style="border:1px solid #ccc;padding:4px 8px;text-align:${alignRight ? 'right' : 'left'}">${escapeHtml(value)}</${tag}>`;
+  const html = [
+    '<!DOCTYPE html>',
+    '<html lang="ja"><head><meta charset="utf-8"><title>' + escapeHtml(subject) + '</title></head>',
+    '<body style="font-family:sans-serif">',
+    `<h1 style="font-size:1.2em">${escapeHtml(subject)}</h1>`,
+    '<table style="border-collapse:collapse">',
+    ...overview.map(([label, value]) => `<tr>${cell('th', label, false)}${cell('td', value, false)}</tr>`),
+    '</table>',
+    '<h2 style="font-size:1.1em">カメラ別</h2>',
+    '<table style="border-collapse:collapse">',
+    `<tr>${header.map((label, index) => cell('th', label, index > 0)).join('')}</tr>`,
+    ...rows.map(row => `<tr>${row.map((value, index) => cell('td', value, index > 0)).join('')}</tr>`),
+    ...(rows.length === 0 ? [`<tr><td colspan="${header.length}" style="padding:4px 8px">記録なし</td></tr>`] : []),
+    '</table>',
+    `<p style="color:#666">時刻は ${escapeHtml(summary.timeZone)} で表示しています。</p>`,
+    '</body></html>',
+  ].join('\n');
+
+  return { subject, text, html };
+}
@@ -0,0 +1,250 @@
+import { randomUUID } from 'crypto';
+import { Timestamp, type DocumentReference, type Transaction } from 'firebase-admin/firestore';
+import type { ResolvedModelSettings } from '@/ai/providers';
+import type { CountingGeometry, Direction } from '@/ai/types';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+
+export const PROCESSING_JOBS_COLLECTION = 'processing_jobs';
+
+/**
+ * A worker renews its claim on a job at each stage and segment; a claim not renewed for this long
+ * belongs to a worker that stopped (e.g. on the request timeout). A job nobody has worked on for
+ * this long (still queued, or paused between batches) has lost its worker too.
+ */
+export const PROCESSING_JOB_LEASE_MS = 10 * 60 * 1000;
+/** A job is failed once workers have died this many times in a row on it. */
+const MAX_INTERRUPTIONS = 2;
+
+export type ProcessingJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface ProcessingJob {
+  status: ProcessingJobStatus;
+  /** 0-100, coarse progress through the processing stages. */
+  progress: number;
+  /** Human readable description of the current stage (e.g. "counting"). */
+  stage: string;
+  videoFileName: string;
+  mimeType: string;
+  /** Display name of the location; the registered name when the upload resolved to one. */
+  locationName: string;
+  /** Registry IDs; null for free-text locations that match no registered location. */
+  locationId: string | null;
+  cameraId: string | null;
+  /** Time zone of the camera or location, used for rollups; null falls back to ROLLUP_TIME_ZONE. */
+  timeZone: string | null;
+  /** The camera's counting line or region; without one the model judges direction from the scene. */
+  countingGeometry: CountingGeometry | null;
+  /** Which provider and model count the segments; stored on the record. */
+  modelSettings: ResolvedModelSettings;
+  recordingStartDateTime: Timestamp;
+  /** SHA-256 of the uploaded video, used to spot the same clip being uploaded again. */
+  contentHash: string | null;
+  direction: Direction;
+  /** Also ask the model for per-crossing events, stored under `crossing_events`. */
+  detailed: boolean;
+  uploadSource: 'ui' | 'api';
+  /** API key that submitted the upload; null for web UI uploads. */
+  apiKeyId: string | null;
+  /** The video in video storage, which later batches count from; null until the first batch stored it. */
+  videoStoragePath: string | null;
+  /** ID of the `visitor_logs` record to create, chosen up front because the stored video's path includes it. */
+  recordId: string | null;
+  /** Candidate prompt also counted with (shadow mode); chosen once so every batch uses the same one. */
+  shadowPromptVersion: string | null;
+  durationSec: number | null;
+  segmentCount: number | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  /** Claim of the worker processing the job; null while queued and once finished. */
+  leaseId: string | null;
+  leaseExpiresAt: Timestamp | null;
+  /** Workers that died in a row while holding the job. */
+  interruptions: number;
+  startedAt?: Timestamp;
+  finishedAt?: Timestamp;
+  /** Set once the job succeeded and the result was written to `visitor_logs`. */
+  visitorLogId?: string;
+  /** Segments that still failed after retries; their time windows are missing from the total. */
+  failedSegmentCount?: number;
+  error?: string;
+}
+
+type NewProcessingJob = Pick<ProcessingJob,
+  | 'videoFileName' | 'mimeType' | 'locationName' | 'locationId' | 'cameraId' | 'timeZone' | 'countingGeometry'
+  | 'modelSettings' | 'recordingStartDateTime' | 'contentHash' | 'direction' | 'detailed' | 'uploadSource' | 'apiKeyId'>;
+
+export async function createProcessingJob(job: NewProcessingJob): Promise<string> {
+  const now = Timestamp.now();
+  const data: ProcessingJob = {
+    ...job,
+    status: 'queued',
+    progress: 0,
+    stage: 'queued',
+    videoStoragePath: null,
+    recordId: null,
+    shadowPromptVersion: null,
+    durationSec: null,
+    segmentCount: null,
+    leaseId: null,
+    leaseExpiresAt: null,
+    interruptions: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const docRef = await requireDbAdmin().collection(PROCESSING_JOBS_COLLECTION).add(data);
+  return docRef.id;
+}
+
+/** The worker's claim on a job was given up or taken over; it must stop without writing. */
+export class JobLeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Processing job ${jobId} is no longer held by this worker.`);
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+export type ProcessingJobUpdate = Partial<Omit<ProcessingJob, 'createdAt' | 'leaseId' | 'leaseExpiresAt'>>;
+
+function hasLiveLease(job: Pick<ProcessingJob, 'leaseExpiresAt'>, now: Timestamp): boolean {
+  return !!job.leaseExpiresAt && job.leaseExpiresAt.toMillis() > now.toMillis();
+}
+
+export interface ProcessingJobClaim {
+  job: ProcessingJob & { id: string };
+  /** Null if the job is finished or another worker holds it. */
+  leaseId: string | null;
+  /** Set when this claim failed the job because its workers kept dying. */
+  failed: boolean;
+}
+
+/**
+ * Claims a queued or paused job for this worker and marks it running. A job whose previous worker
+ * died without releasing it is taken over, and failed once workers have died `MAX_INTERRUPTIONS`
+ * times in a row on it.
+ */
+export async function claimProcessingJob(jobId: string): Promise<ProcessingJobClaim> {
+  const db = requireDbAdmin();
+  const jobRef = db.collection(PROCESSING_JOBS_COLLECTION).doc(jobId);
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(jobRef);
+    if (!snapshot.exists) {
+      throw new Error(`Processing job "${jobId}" not found.`);
+    }
+    const job = { id: snapshot.id, ...(snapshot.data() as ProcessingJob) };
+    const now = Timestamp.now();
+    if ((job.status !== 'queued' && job.status !== 'running') || hasLiveLease(job, now)) {
+      return { job, leaseId: null, failed: false };
+    }
+
+    // An expired lease (rather than a released one) means the last worker stopped mid-batch.
+    const interruptions = job.leaseExpiresAt ? (job.interruptions ?? 0) + 1 : (job.interruptions ?? 0);
+    if (interruptions >= MAX_INTERRUPTIONS) {
+      const update = {
+        status: 'failed' as const,
+        stage: 'failed',
+        error: `Workers stopped ${interruptions} times in a row during "${job.stage}". Upload the video again.`,
+        interruptions,
+        leaseId: null,
+        leaseExpiresAt: null,
+        finishedAt: now,
+        updatedAt: now,
+      };
+      transaction.update(jobRef, update);
+      return { job: { ...job, ...update }, leaseId: null, failed: true };
+    }
+
+    const update = {
+      status: 'running' as const,
+      startedAt: job.startedAt ?? now,
+      interruptions,
+      ...jobLease(randomUUID()),
+      updatedAt: now,
+    };
+    transaction.update(jobRef, update);
+    return { job: { ...job, ...update }, leaseId: update.leaseId, failed: false };
+  });
+}
+
+/**
+ * Updates a job this worker holds and renews the lease; with `release`, gives the job up (paused
+ * between batches, or with its final status). `writes` adds other writes to the same transaction.
+ * Throws `JobLeaseLostError` if the job is no longer held under `leaseId`.
+ */
+export async function updateClaimedJob(
+  jobId: string,
+  leaseId: string,
+  update: ProcessingJobUpdate,
+  options: { release?: boolean; writes?: (transaction: Transaction, jobRef: DocumentReference) => void } = {},
+): Promise<void> {
+  const db = requireDbAdmin();
+  const jobRef = db.collection(PROCESSING_JOBS_COLLECTION).doc(jobId);
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(jobRef);
+    if (snapshot.get('leaseId') !== leaseId) {
+      throw new JobLeaseLostError(jobId);
+    }
+    options.writes?.(transaction, jobRef);
+    transaction.update(jobRef, { ...update, ...jobLease(leaseId, options), updatedAt: Timestamp.now() });
+  });
+}
+
+function jobLease(leaseId: string, options: { release?: boolean } = {}) {
+  return options.release
+    ? { leaseId: null, leaseExpiresAt: null }
+    : { leaseId, leaseExpiresAt: Timestamp.fromMillis(Date.now() + PROCESSING_JOB_LEASE_MS) };
+}
+
+/**
+ * Whether a queued or running job has lost its worker: nobody holds it, and nobody has worked on
+ * it for `PROCESSING_JOB_LEASE_MS`. Finished jobs are never stale.
+ */
+export function isStaleProcessingJob(job: Pick<ProcessingJob, 'status' | 'leaseExpiresAt' | 'updatedAt'>, now: Timestamp = Timestamp.now()): boolean {
+  if (job.status !== 'queued' && job.status !== 'running') {
+    return false;
+  }
+  return !hasLiveLease(job, now) && job.updatedAt.toMillis() + PROCESSING_JOB_LEASE_MS <= now.toMillis();
+}
+
+/** Queued and running jobs, oldest first. */
+export async function listActiveProcessingJobs(): Promise<(ProcessingJob & { id: string })[]> {
+  const snapshot = await requireDbAdmin().collection(PROCESSING_JOBS_COLLECTION).where('status', 'in', ['queued', 'running']).get();
+  return snapshot.docs
+    .map(doc => ({ id: doc.id, ...(doc.data() as ProcessingJob) }))
+    .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+}
+
+/**
+ * Marks a stale job (see `isStaleProcessingJob`) as failed, so clients polling it and later uploads
+ * of the same clip are not kept waiting. Returns the failed job, or null if it was not stale anymore.
+ */
+export async function failStaleProcessingJob(jobId: string, reason: string): Promise<(ProcessingJob & { id: string }) | null> {
+  const db = requireDbAdmin();
+  const jobRef = db.collection(PROCESSING_JOBS_COLLECTION).doc(jobId);
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(jobRef);
+    const job = snapshot.data() as ProcessingJob | undefined;
+    if (!job || !isStaleProcessingJob(job)) {
+      return null;
+    }
+    return { id: jobId, ...job, ...failStaleJobInTransaction(transaction, jobRef, reason) };
+  });
+}
+
+/**
+ * Writes the failure of a job the caller has read in `transaction` and found stale, for callers
+ * that take over something the job held (e.g. an upload claim) in the same transaction.
+ */
+export function failStaleJobInTransaction(transaction: Transaction, jobRef: DocumentReference, reason: string): Partial<ProcessingJob> {
+  const now = Timestamp.now();
+  const update = { status: 'failed' as const, stage: 'failed', error: reason, leaseId: null, leaseExpiresAt: null, finishedAt: now, updatedAt: now };
+  transaction.update(jobRef, update);
+  return update;
+}
+
+export async function getProcessingJob(jobId: string): Promise<(ProcessingJob & { id: string }) | null> {
+  const snapshot = await requireDbAdmin().collection(PROCESSING_JOBS_COLLECTION).doc(jobId).get();
+  if (!snapshot.exists) {
+    return null;
+  }
+  return { id: snapshot.id, ...(snapshot.data() as ProcessingJob) };
+}
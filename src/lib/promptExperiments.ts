@@ -0,0 +1,96 @@
+import { COUNT_VISITORS_PROMPTS, PRODUCTION_PROMPT_VERSION } from '@/ai/prompts/count-visitors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+/** Candidate prompt version counted alongside the production one; unset turns shadow mode off. */
+export const SHADOW_PROMPT_VERSION = process.env.SHADOW_PROMPT_VERSION || null;
+/** Fraction of uploads (0-1) that are also counted with the candidate prompt. */
+export const SHADOW_SAMPLE_RATE = Math.min(1, Math.max(0, Number(process.env.SHADOW_SAMPLE_RATE) || 0));
+
+/** The candidate prompt's count of the same video, stored on the record as `shadow`. Never used in totals. */
+export interface ShadowCount {
+  promptVersion: string;
+  visitorCount: number;
+  /** Only set when counting 'both' directions. */
+  enteringCount: number | null;
+  exitingCount: number | null;
+  confidence: number | null;
+  /** Segments the candidate failed on; their counts are missing from `visitorCount`. */
+  failedSegmentCount: number;
+}
+
+/**
+ * Decides whether this upload is also counted with the shadow prompt, sampling uploads at
+ * SHADOW_SAMPLE_RATE. Returns the candidate version, or null.
+ */
+export function pickShadowPromptVersion(): string | null {
+  if (!SHADOW_PROMPT_VERSION || SHADOW_PROMPT_VERSION === PRODUCTION_PROMPT_VERSION) {
+    return null;
+  }
+  if (!COUNT_VISITORS_PROMPTS[SHADOW_PROMPT_VERSION]) {
+    console.warn(`[Shadow] SHADOW_PROMPT_VERSION "${SHADOW_PROMPT_VERSION}" is not a known prompt version; shadow mode is off.`);
+    return null;
+  }
+  return Math.random() < SHADOW_SAMPLE_RATE ? SHADOW_PROMPT_VERSION : null;
+}
+
+export interface PromptComparison {
+  candidateVersion: string;
+  /** Records counted completely by both prompts. */
+  recordCount: number;
+  /** Mean of candidate minus production count. */
+  meanDifference: number | null;
+  meanAbsoluteDifference: number | null;
+  /** Records whose count a reviewer confirmed or corrected, so the true count is known. */
+  reviewedCount: number;
+  productionMeanAbsoluteError: number | null;
+  candidateMeanAbsoluteError: number | null;
+  /** Production prompt versions the candidate was compared against, with record counts. */
+  productionVersions: Record<string, number>;
+}
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Compares shadow counts of `candidateVersion` with the production counts of the same records.
+ * Reviewed records also give each prompt's error against the reviewer's count.
+ */
+export async function comparePromptVersions(candidateVersion: string): Promise<PromptComparison> {
+  const snapshot = await requireDbAdmin().collection(VISITOR_LOGS_COLLECTION)
+    .where('shadow.promptVersion', '==', candidateVersion)
+    .get();
+
+  const differences: number[] = [];
+  const productionErrors: number[] = [];
+  const candidateErrors: number[] = [];
+  const productionVersions: Record<string, number> = {};
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    const shadow = data.shadow as ShadowCount;
+    if (data.deleted || shadow.failedSegmentCount > 0 || data.failedSegmentCount > 0) continue;
+
+    // After an override the model's own number is kept in aiCount.
+    const productionCount: number = data.aiCount?.visitorCount ?? data.visitorCount;
+    differences.push(shadow.visitorCount - productionCount);
+    productionVersions[data.promptVersion] = (productionVersions[data.promptVersion] ?? 0) + 1;
+
+    const trueCount: number | null = data.reviewStatus === 'overridden' ? data.humanCount.visitorCount
+      : data.reviewStatus === 'accepted' ? data.visitorCount
+      : null;
+    if (trueCount !== null) {
+      productionErrors.push(Math.abs(productionCount - trueCount));
+      candidateErrors.push(Math.abs(shadow.visitorCount - trueCount));
+    }
+  }
+
+  return {
+    candidateVersion,
+    recordCount: differences.length,
+    meanDifference: mean(differences),
+    meanAbsoluteDifference: mean(differences.map(Math.abs)),
+    reviewedCount: productionErrors.length,
+    productionMeanAbsoluteError: mean(productionErrors),
+    candidateMeanAbsoluteError: mean(candidateErrors),
+    productionVersions,
+  };
+}
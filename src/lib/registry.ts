@@ -0,0 +1,368 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { z } from 'zod';
+import { CountingGeometrySchema, DirectionEnum, ModelSettingsSchema, type CountingGeometry, type Direction, type ModelSettings } from '@/ai/types';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+
+export const LOCATIONS_COLLECTION = 'locations';
+export const CAMERAS_COLLECTION = 'cameras';
+
+/**
+ * Maps legacy free-text location names to registered locations. Document IDs are the normalized
+ * alias (see `normalizeLocationName`), so differently spaced spellings share one entry.
+ */
+export const LOCATION_ALIASES_COLLECTION = 'location_aliases';
+
+/** Registry IDs are chosen by operators and used in API calls, so keep them URL- and script-friendly. */
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+export interface LocationRecord {
+  displayName: string;
+  /** IANA time zone, e.g. `Asia/Tokyo`; decides which day and hour a recording counts towards. */
+  timeZone: string;
+  defaultDirection: Direction;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface CameraRecord {
+  displayName: string;
+  locationId: string;
+  timeZone: string;
+  defaultDirection: Direction;
+  /** Counting line or region drawn over a still frame; null when not configured. */
+  countingGeometry: CountingGeometry | null;
+  /** Provider, model and temperature for this camera's footage; null uses the server defaults. */
+  modelSettings: ModelSettings | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface LocationAliasRecord {
+  /** The alias as it was entered, before normalization. */
+  alias: string;
+  locationId: string;
+  createdAt: Timestamp;
+}
+
+export interface LocationInput {
+  displayName: string;
+  timeZone: string;
+  defaultDirection: Direction;
+  /** Legacy free-text names that should count as this location. Replaces the existing aliases. */
+  aliases?: string[];
+}
+
+export interface CameraInput {
+  displayName: string;
+  locationId: string;
+  timeZone: string;
+  defaultDirection: Direction;
+  countingGeometry: CountingGeometry | null;
+  modelSettings: ModelSettings | null;
+}
+
+/** The location an upload is recorded under, after resolving its camera or alias. */
+export interface ResolvedLocation {
+  /** Null for free-text names that match no registered location. */
+  locationId: string | null;
+  locationName: string;
+  cameraId: string | null;
+  timeZone: string | null;
+  defaultDirection: Direction | null;
+  countingGeometry: CountingGeometry | null;
+  modelSettings: ModelSettings | null;
+}
+
+export class RegistryError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'RegistryError';
+  }
+}
+
+/**
+ * Folds the variations that make typed names differ: full-width/half-width forms, whitespace
+ * and letter case. "北口ゲート" and "北口 ゲート" normalize to the same key.
+ */
+export function normalizeLocationName(name: string): string {
+  return name.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+}
+
+function aliasDocId(name: string): string {
+  return encodeURIComponent(normalizeLocationName(name));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateId(kind: string, id: string) {
+  if (!ID_PATTERN.test(id)) {
+    throw new RegistryError(`${kind} ID "${id}" must be 1-63 lowercase letters, digits, "-" or "_", starting with a letter or digit.`, 400);
+  }
+}
+
+function validateCommonFields(input: { displayName: string; timeZone: string; defaultDirection: string }) {
+  if (!input.displayName?.trim()) {
+    throw new RegistryError('"displayName" is required.', 400);
+  }
+  if (!isValidTimeZone(input.timeZone)) {
+    throw new RegistryError(`"${input.timeZone}" is not a valid IANA time zone.`, 400);
+  }
+  if (!DirectionEnum.safeParse(input.defaultDirection).success) {
+    throw new RegistryError(`"defaultDirection" must be one of: ${DirectionEnum.options.join(', ')}.`, 400);
+  }
+}
+
+export async function listLocations() {
+  const db = requireDbAdmin();
+  const [locations, aliases] = await Promise.all([
+    db.collection(LOCATIONS_COLLECTION).orderBy('displayName').get(),
+    db.collection(LOCATION_ALIASES_COLLECTION).get(),
+  ]);
+  const aliasesByLocation = new Map<string, string[]>();
+  for (const doc of aliases.docs) {
+    const alias = doc.data() as LocationAliasRecord;
+    aliasesByLocation.set(alias.locationId, [...(aliasesByLocation.get(alias.locationId) ?? []), alias.alias]);
+  }
+  return locations.docs.map(doc => ({ id: doc.id, ...(doc.data() as LocationRecord), aliases: aliasesByLocation.get(doc.id) ?? [] }));
+}
+
+export async function listCameras() {
+  const snapshot = await requireDbAdmin().collection(CAMERAS_COLLECTION).orderBy('displayName').get();
+  return snapshot.docs.map(doc => ({ id: doc.id, ...(doc.data() as CameraRecord) }));
+}
+
+/**
+ * Creates (`mode: 'create'`) or updates a location and replaces its aliases. The display name is
+ * always registered as an alias too, so uploads that type it resolve to the location.
+ */
+export async function saveLocation(id: string, input: LocationInput, mode: 'create' | 'update'): Promise<void> {
+  validateId('Location', id);
+  validateCommonFields(input);
+  const db = requireDbAdmin();
+  const docRef = db.collection(LOCATIONS_COLLECTION).doc(id);
+  const displayName = input.displayName.trim();
+  const wantedAliases = new Map<string, string>();
+  for (const alias of [displayName, ...(input.aliases ?? [])].map(a => a.trim()).filter(Boolean)) {
+    if (!wantedAliases.has(aliasDocId(alias))) wantedAliases.set(aliasDocId(alias), alias);
+  }
+
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(docRef);
+    if (mode === 'create' && snapshot.exists) {
+      throw new RegistryError(`Location "${id}" already exists.`, 409);
+    }
+    if (mode === 'update' && !snapshot.exists) {
+      throw new RegistryError(`Location "${id}" not found.`, 404);
+    }
+    const aliasRefs = [...wantedAliases.keys()].map(aliasId => db.collection(LOCATION_ALIASES_COLLECTION).doc(aliasId));
+    const aliasSnapshots = aliasRefs.length > 0 ? await transaction.getAll(...aliasRefs) : [];
+    const currentAliases = await transaction.get(db.collection(LOCATION_ALIASES_COLLECTION).where('locationId', '==', id));
+
+    for (const aliasSnapshot of aliasSnapshots) {
+      const owner = aliasSnapshot.get('locationId');
+      if (aliasSnapshot.exists && owner !== id) {
+        throw new RegistryError(`Alias "${aliasSnapshot.get('alias')}" already belongs to location "${owner}".`, 409);
+      }
+    }
+
+    const now = Timestamp.now();
+    transaction.set(docRef, {
+      displayName,
+      timeZone: input.timeZone,
+      defaultDirection: input.defaultDirection,
+      updatedAt: now,
+      ...(snapshot.exists ? {} : { createdAt: now }),
+    }, { merge: true });
+    for (const aliasDoc of currentAliases.docs) {
+      if (!wantedAliases.has(aliasDoc.id)) transaction.delete(aliasDoc.ref);
+    }
+    aliasSnapshots.forEach((aliasSnapshot, index) => {
+      if (!aliasSnapshot.exists) {
+        const record: LocationAliasRecord = { alias: wantedAliases.get(aliasRefs[index].id)!, locationId: id, createdAt: now };
+        transaction.create(aliasRefs[index], record);
+      }
+    });
+  });
+}
+
+/**
+ * Deletes a location and its aliases. Locations that still have cameras cannot be deleted.
+ * Existing visitor_logs records keep their `locationId` and `locationName`.
+ */
+export async function deleteLocation(id: string): Promise<void> {
+  const db = requireDbAdmin();
+  const docRef = db.collection(LOCATIONS_COLLECTION).doc(id);
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists) {
+      throw new RegistryError(`Location "${id}" not found.`, 404);
+    }
+    const cameras = await transaction.get(db.collection(CAMERAS_COLLECTION).where('locationId', '==', id).limit(1));
+    if (!cameras.empty) {
+      throw new RegistryError(`Location "${id}" still has cameras; move or delete them first.`, 409);
+    }
+    const aliases = await transaction.get(db.collection(LOCATION_ALIASES_COLLECTION).where('locationId', '==', id));
+    aliases.docs.forEach(aliasDoc => transaction.delete(aliasDoc.ref));
+    transaction.delete(docRef);
+  });
+}
+
+export async function saveCamera(id: string, input: CameraInput, mode: 'create' | 'update'): Promise<void> {
+  validateId('Camera', id);
+  validateCommonFields(input);
+  if (!input.locationId) {
+    throw new RegistryError('"locationId" is required.', 400);
+  }
+  const db = requireDbAdmin();
+  const docRef = db.collection(CAMERAS_COLLECTION).doc(id);
+  await db.runTransaction(async transaction => {
+    const [snapshot, location] = await transaction.getAll(docRef, db.collection(LOCATIONS_COLLECTION).doc(input.locationId));
+    if (mode === 'create' && snapshot.exists) {
+      throw new RegistryError(`Camera "${id}" already exists.`, 409);
+    }
+    if (mode === 'update' && !snapshot.exists) {
+      throw new RegistryError(`Camera "${id}" not found.`, 404);
+    }
+    if (!location.exists) {
+      throw new RegistryError(`Location "${input.locationId}" not found.`, 400);
+    }
+    const now = Timestamp.now();
+    transaction.set(docRef, {
+      displayName: input.displayName.trim(),
+      locationId: input.locationId,
+      timeZone: input.timeZone,
+      defaultDirection: input.defaultDirection,
+      countingGeometry: input.countingGeometry,
+      modelSettings: input.modelSettings,
+      updatedAt: now,
+      ...(snapshot.exists ? {} : { createdAt: now }),
+    }, { merge: true });
+  });
+}
+
+export async function deleteCamera(id: string): Promise<void> {
+  const docRef = requireDbAdmin().collection(CAMERAS_COLLECTION).doc(id);
+  const snapshot = await docRef.get();
+  if (!snapshot.exists) {
+    throw new RegistryError(`Camera "${id}" not found.`, 404);
+  }
+  await docRef.delete();
+}
+
+/**
+ * Works out which location an upload belongs to. A `cameraId` decides the location, time zone
+ * and default direction. Otherwise a free-text `locationName` is looked up in the alias table;
+ * names that match nothing are kept as typed, unregistered.
+ */
+export async function resolveUploadLocation(request: { cameraId?: string | null; locationName?: string | null }): Promise<ResolvedLocation> {
+  const db = requireDbAdmin();
+  const typedName = request.locationName?.trim() || null;
+
+  let aliasLocationId: string | null = null;
+  if (typedName) {
+    const alias = await db.collection(LOCATION_ALIASES_COLLECTION).doc(aliasDocId(typedName)).get();
+    aliasLocationId = alias.exists ? (alias.get('locationId') as string) : null;
+  }
+
+  if (request.cameraId) {
+    const camera = await db.collection(CAMERAS_COLLECTION).doc(request.cameraId).get();
+    if (!camera.exists) {
+      throw new RegistryError(`Unknown cameraId "${request.cameraId}".`, 400);
+    }
+    const cameraData = camera.data() as CameraRecord;
+    if (typedName && aliasLocationId !== cameraData.locationId) {
+      throw new RegistryError(`Camera "${request.cameraId}" belongs to location "${cameraData.locationId}", which does not match locationName "${typedName}". Send only cameraId.`, 400);
+    }
+    const location = await db.collection(LOCATIONS_COLLECTION).doc(cameraData.locationId).get();
+    return {
+      locationId: cameraData.locationId,
+      locationName: location.exists ? (location.get('displayName') as string) : cameraData.locationId,
+      cameraId: camera.id,
+      timeZone: cameraData.timeZone,
+      defaultDirection: cameraData.defaultDirection,
+      countingGeometry: cameraData.countingGeometry ?? null,
+      modelSettings: cameraData.modelSettings ?? null,
+    };
+  }
+
+  if (!typedName) {
+    throw new RegistryError('Either "cameraId" or "locationName" is required.', 400);
+  }
+  if (aliasLocationId) {
+    const location = await db.collection(LOCATIONS_COLLECTION).doc(aliasLocationId).get();
+    if (location.exists) {
+      const locationData = location.data() as LocationRecord;
+      return {
+        locationId: location.id,
+        locationName: locationData.displayName,
+        cameraId: null,
+        timeZone: locationData.timeZone,
+        defaultDirection: locationData.defaultDirection,
+        countingGeometry: null,
+        modelSettings: null,
+      };
+    }
+  }
+  return { locationId: null, locationName: typedName, cameraId: null, timeZone: null, defaultDirection: null, countingGeometry: null, modelSettings: null };
+}
+
+function stringField(body: any, field: string): string {
+  return typeof body?.[field] === 'string' ? body[field].trim() : '';
+}
+
+/** Reads a location from a JSON request body; validation happens in `saveLocation`. */
+export function parseLocationInput(body: any): LocationInput {
+  return {
+    displayName: stringField(body, 'displayName'),
+    timeZone: stringField(body, 'timeZone'),
+    defaultDirection: stringField(body, 'defaultDirection') as Direction,
+    aliases: Array.isArray(body?.aliases) ? body.aliases.filter((alias: unknown): alias is string => typeof alias === 'string') : undefined,
+  };
+}
+
+/** Parses an optional nested JSON field, reporting schema problems as a 400. */
+function nestedField<T>(body: any, field: string, schema: z.ZodType<T>): T | null {
+  if (body?.[field] == null) return null;
+  const parsed = schema.safeParse(body[field]);
+  if (!parsed.success) {
+    throw new RegistryError(`Invalid "${field}": ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`, 400);
+  }
+  return parsed.data;
+}
+
+/**
+ * Reads a camera from a JSON request body. The other fields are validated in `saveCamera`;
+ * `countingGeometry` and `modelSettings` are checked here because they arrive as nested JSON.
+ */
+export function parseCameraInput(body: any): CameraInput {
+  return {
+    displayName: stringField(body, 'displayName'),
+    locationId: stringField(body, 'locationId'),
+    timeZone: stringField(body, 'timeZone'),
+    defaultDirection: stringField(body, 'defaultDirection') as Direction,
+    countingGeometry: nestedField(body, 'countingGeometry', CountingGeometrySchema),
+    modelSettings: nestedField(body, 'modelSettings', ModelSettingsSchema),
+  };
+}
+
+export function registryErrorResponse(error: unknown, action: string): { status: number; body: Record<string, unknown> } {
+  if (error instanceof RegistryError) {
+    return { status: error.status, body: { error: error.message } };
+  }
+  console.error(`[API] Error while trying to ${action}:`, errorMessage(error));
+  return {
+    status: 500,
+    body: {
+      error: `Failed to ${action} due to an internal server error.`,
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Columns that `GET /api/reports/export` can write, in their default order. Shared by the export
+ * route and the export dialog, so it must stay free of server-only imports.
+ */
+export const REPORT_COLUMNS = [
+  { id: 'recordingDate', label: '録画日' },
+  { id: 'recordingTime', label: '録画開始時刻' },
+  { id: 'locationName', label: 'カメラ名称' },
+  { id: 'direction', label: '方向' },
+  { id: 'visitorCount', label: '訪問者数' },
+  { id: 'enteringCount', label: '右→左' },
+  { id: 'exitingCount', label: '左→右' },
+  { id: 'netFlow', label: '純流入 (右→左 − 左→右)' },
+  { id: 'recordingStartDateTime', label: '録画開始 (ISO 8601)' },
+  { id: 'processingTimestamp', label: '処理日時' },
+  { id: 'videoFileName', label: 'ファイル名' },
+  { id: 'uploadSource', label: 'アップロード元' },
+  { id: 'cameraId', label: 'カメラID' },
+  { id: 'confidence', label: '確信度' },
+  { id: 'reviewStatus', label: 'レビュー状態' },
+  { id: 'id', label: 'レコードID' },
+] as const;
+
+export type ReportColumnId = (typeof REPORT_COLUMNS)[number]['id'];
+
+/** The columns of the original browser-built CSV report. */
+export const DEFAULT_REPORT_COLUMNS: ReportColumnId[] = [
+  'recordingDate', 'recordingTime', 'locationName', 'direction', 'visitorCount', 'enteringCount', 'exitingCount', 'netFlow',
+];
+
+export const REPORT_FORMATS = ['csv', 'xlsx', 'ndjson'] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
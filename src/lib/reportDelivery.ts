@@ -0,0 +1,24 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { sendMail } from '@/lib/mailer';
+import type { RenderedReport } from '@/lib/periodicReports';
+
+/** Directory that `folder` schedules write their reports to. */
+const REPORT_OUTPUT_DIR = path.resolve(process.env.REPORT_OUTPUT_DIR || path.join(process.cwd(), '.reports'));
+
+/** Sends a report over SMTP (see `sendMail`). Returns the message ID. */
+export async function emailReport(report: RenderedReport, recipients: string[]): Promise<string> {
+  return sendMail(report, recipients);
+}
+
+/**
+ * Writes the report as `<name>.html` and `<name>.txt` under REPORT_OUTPUT_DIR (default `.reports`
+ * in the working directory). Returns the path of the HTML file.
+ */
+export async function writeReportToFolder(report: RenderedReport, fileName: string): Promise<string> {
+  await mkdir(REPORT_OUTPUT_DIR, { recursive: true });
+  const basePath = path.join(REPORT_OUTPUT_DIR, fileName);
+  await writeFile(`${basePath}.txt`, report.text, 'utf8');
+  await writeFile(`${basePath}.html`, report.html, 'utf8');
+  return `${basePath}.html`;
+}
@@ -0,0 +1,214 @@
+import { PassThrough, Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import { format } from 'date-fns';
+import { Timestamp, type DocumentData, type Query, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { DEFAULT_REPORT_COLUMNS, REPORT_COLUMNS, REPORT_FORMATS, type ReportColumnId, type ReportFormat } from '@/lib/reportColumns';
+import { ROLLUP_TIME_ZONE } from '@/lib/rollups';
+import { buildVisitorLogQuery, parseVisitorLogFilters, VisitorLogQueryError, type VisitorLogFilters } from '@/lib/visitorLogQueries';
+import { DIRECTION_LABELS, directionalCounts } from '@/lib/visitorLogs';
+
+/** Records read from Firestore per query while streaming, so memory stays flat for any range. */
+const EXPORT_PAGE_SIZE = 500;
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+export interface ReportExportRequest {
+  format: ReportFormat;
+  columns: ReportColumnId[];
+  /** CSV only: start with a UTF-8 byte order mark so Excel detects the encoding. */
+  bom: boolean;
+  filters: VisitorLogFilters;
+}
+
+export class ReportExportError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ReportExportError';
+  }
+}
+
+/**
+ * Reads `format` (csv | xlsx | ndjson), `columns` (comma-separated IDs), `bom` and the usual record
+ * filters from URL search params.
+ */
+export function parseReportExportRequest(params: URLSearchParams): ReportExportRequest {
+  const format = (params.get('format') || 'csv') as ReportFormat;
+  if (!REPORT_FORMATS.includes(format)) {
+    throw new ReportExportError(`"format" must be one of: ${REPORT_FORMATS.join(', ')}.`, 400);
+  }
+  const knownColumns = REPORT_COLUMNS.map(column => column.id as string);
+  const columns = params.get('columns')?.split(',').map(column => column.trim()).filter(Boolean) ?? DEFAULT_REPORT_COLUMNS;
+  const unknown = columns.filter(column => !knownColumns.includes(column));
+  if (columns.length === 0 || unknown.length > 0) {
+    throw new ReportExportError(`"columns" must list known columns (${knownColumns.join(', ')}); unknown: ${unknown.join(', ') || 'none given'}.`, 400);
+  }
+  const bom = params.get('bom');
+  if (bom !== null && bom !== 'true' && bom !== 'false') {
+    throw new ReportExportError('"bom" must be "true" or "false".', 400);
+  }
+
+  let filters: VisitorLogFilters;
+  try {
+    filters = parseVisitorLogFilters(params);
+  } catch (error) {
+    if (error instanceof VisitorLogQueryError) throw new ReportExportError(error.message, 400);
+    throw error;
+  }
+  return { format, columns: columns as ReportColumnId[], bom: bom !== 'false', filters };
+}
+
+const localDateTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+/** `yyyy-MM-dd HH:mm:ss` in the given time zone. */
+function formatLocal(timestamp: unknown, timeZone: string): string | null {
+  if (!(timestamp instanceof Timestamp)) return null;
+  let dateTimeFormat = localDateTimeFormats.get(timeZone);
+  if (!dateTimeFormat) {
+    // The Swedish locale formats as ISO-like `yyyy-MM-dd HH:mm:ss`.
+    dateTimeFormat = new Intl.DateTimeFormat('sv-SE', { timeZone, dateStyle: 'short', timeStyle: 'medium' });
+    localDateTimeFormats.set(timeZone, dateTimeFormat);
+  }
+  return dateTimeFormat.format(timestamp.toDate());
+}
+
+/**
+ * One cell of the report. Local dates and times use the record's time zone (default ROLLUP_TIME_ZONE).
+ */
+function cellValue(column: ReportColumnId, id: string, record: DocumentData): string | number | null {
+  const timeZone = record.timeZone || ROLLUP_TIME_ZONE;
+  const counts = () => directionalCounts({
+    countedDirection: record.countedDirection,
+    visitorCount: record.visitorCount ?? 0,
+    enteringCount: record.enteringCount,
+    exitingCount: record.exitingCount,
+  });
+  switch (column) {
+    case 'recordingDate': return formatLocal(record.recordingStartDateTime, timeZone)?.slice(0, 10) ?? null;
+    case 'recordingTime': return formatLocal(record.recordingStartDateTime, timeZone)?.slice(11) ?? null;
+    case 'locationName': return record.locationName ?? null;
+    case 'direction': return DIRECTION_LABELS[record.countedDirection] ?? record.countedDirection ?? null;
+    case 'visitorCount': return record.visitorCount ?? null;
+    case 'enteringCount': return counts().entering;
+    case 'exitingCount': return counts().exiting;
+    case 'netFlow': return counts().net;
+    case 'recordingStartDateTime': return record.recordingStartDateTime instanceof Timestamp ? record.recordingStartDateTime.toDate().toISOString() : null;
+    case 'processingTimestamp': return formatLocal(record.processingTimestamp, timeZone);
+    case 'videoFileName': return record.videoFileName ?? null;
+    case 'uploadSource': return record.uploadSource ?? null;
+    case 'cameraId': return record.cameraId ?? null;
+    case 'confidence': return typeof record.confidence === 'number' ? record.confidence : null;
+    case 'reviewStatus': return record.reviewStatus ?? null;
+    case 'id': return id;
+  }
+}
+
+type ExportPage = { docs: QueryDocumentSnapshot[]; query: Query };
+
+/** Reads the first page of matching records, so query errors (e.g. a missing index) surface before streaming. */
+async function firstExportPage(request: ReportExportRequest): Promise<ExportPage> {
+  const query = buildVisitorLogQuery(request.filters).orderBy('recordingStartDateTime');
+  const snapshot = await query.limit(EXPORT_PAGE_SIZE).get();
+  return { docs: snapshot.docs, query };
+}
+
+/**
+ * Yields matching records page by page, in recording order, skipping soft-deleted ones.
+ */
+async function* exportRows(request: ReportExportRequest, firstPage: ExportPage): AsyncGenerator<(string | number | null)[]> {
+  const { query } = firstPage;
+  let docs = firstPage.docs;
+  while (true) {
+    for (const doc of docs) {
+      if (doc.get('deleted') === true) continue;
+      yield request.columns.map(column => cellValue(column, doc.id, doc.data()));
+    }
+    if (docs.length < EXPORT_PAGE_SIZE) return;
+    docs = (await query.startAfter(docs[docs.length - 1]).limit(EXPORT_PAGE_SIZE).get()).docs;
+  }
+}
+
+/**
+ * Quotes a CSV cell. Text starting with `=`, `+`, `-`, `@` (or a tab or carriage return) gets a
+ * leading `'`, so spreadsheet apps show it instead of running it as a formula; numbers are left as is.
+ */
+function escapeCSV(value: string | number | null): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value ?? '');
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+async function* csvLines(request: ReportExportRequest, firstPage: ExportPage): AsyncGenerator<string> {
+  const header = request.columns.map(id => REPORT_COLUMNS.find(column => column.id === id)!.label);
+  yield (request.bom ? '\uFEFF' : '') + header.map(escapeCSV).join(',') + '\r\n';
+  for await (const row of exportRows(request, firstPage)) {
+    yield row.map(escapeCSV).join(',') + '\r\n';
+  }
+}
+
+async function* ndjsonLines(request: ReportExportRequest, firstPage: ExportPage): AsyncGenerator<string> {
+  for await (const row of exportRows(request, firstPage)) {
+    yield JSON.stringify(Object.fromEntries(request.columns.map((column, index) => [column, row[index]]))) + '\n';
+  }
+}
+
+/** Streams the workbook one committed row at a time; rows are not kept once written. */
+function xlsxStream(request: ReportExportRequest, firstPage: ExportPage): Readable {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+  const sheet = workbook.addWorksheet('visitor_logs');
+  (async () => {
+    sheet.addRow(request.columns.map(id => REPORT_COLUMNS.find(column => column.id === id)!.label)).commit();
+    for await (const row of exportRows(request, firstPage)) {
+      sheet.addRow(row).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+  })().catch(error => output.destroy(error));
+  return output;
+}
+
+/**
+ * Wraps the export in a web stream that errors, instead of closing, when reading or writing fails
+ * midway, so the client sees a failed download rather than a truncated file that looks complete.
+ */
+function toExportStream(source: AsyncIterable<string | Buffer>): ReadableStream<Uint8Array> {
+  const iterator = source[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(typeof value === 'string' ? encoder.encode(value) : new Uint8Array(value));
+        }
+      } catch (error) {
+        console.error('[Export] Export failed midway:', error instanceof Error ? error.message : error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Starts a streaming export. The first page of records is read before returning, so an invalid
+ * query rejects here and the caller can still answer with an error status; the rest is read from
+ * Firestore in pages as the client consumes the stream, so exports of any size use constant memory.
+ */
+export async function exportReport(request: ReportExportRequest): Promise<{ stream: ReadableStream<Uint8Array>; contentType: string; fileName: string }> {
+  const firstPage = await firstExportPage(request);
+  const source = request.format === 'xlsx' ? xlsxStream(request, firstPage)
+    : request.format === 'csv' ? csvLines(request, firstPage) : ndjsonLines(request, firstPage);
+  return {
+    stream: toExportStream(source),
+    contentType: CONTENT_TYPES[request.format],
+    fileName: `CountCam_report_${format(new Date(), 'yyyyMMdd')}.${request.format}`,
+  };
+}
@@ -0,0 +1,264 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import {
+  buildPeriodicReport,
+  lastCompletedPeriod,
+  REPORT_FREQUENCIES,
+  renderPeriodicReport,
+  type RenderedReport,
+  type ReportFrequency,
+  type ReportPeriod,
+} from '@/lib/periodicReports';
+import { emailReport, writeReportToFolder } from '@/lib/reportDelivery';
+import { isValidTimeZone } from '@/lib/registry';
+import { ROLLUP_TIME_ZONE } from '@/lib/rollups';
+
+export const REPORT_SCHEDULES_COLLECTION = 'report_schedules';
+
+export const REPORT_DELIVERIES = ['email', 'folder'] as const;
+export type ReportDelivery = (typeof REPORT_DELIVERIES)[number];
+
+const MAX_RECIPIENTS = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface ReportScheduleInput {
+  name: string;
+  frequency: ReportFrequency;
+  /** Location names to include; empty includes every location. */
+  locations: string[];
+  delivery: ReportDelivery;
+  /** Email addresses; required for email delivery. */
+  recipients: string[];
+  /** IANA time zone that decides when a day, week or month has ended. */
+  timeZone: string;
+  enabled: boolean;
+}
+
+export interface ReportScheduleRecord extends ReportScheduleInput {
+  /**
+   * Last date of the most recent period that was delivered. A schedule is due once a later period
+   * has ended; periods missed while the runner was not running are not sent retroactively.
+   */
+  lastPeriodTo: string;
+  lastRunAt: Timestamp | null;
+  lastStatus: 'succeeded' | 'failed' | null;
+  lastError: string | null;
+  /** Message ID for email delivery, file path for folder delivery. */
+  lastDeliveredTo: string | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface ReportRunResult {
+  scheduleId: string;
+  name: string;
+  period: ReportPeriod;
+  status: 'succeeded' | 'failed' | 'dryRun';
+  deliveredTo: string | null;
+  error: string | null;
+  /** Only for dry runs. */
+  report?: RenderedReport;
+}
+
+export class ReportScheduleError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ReportScheduleError';
+  }
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new ReportScheduleError(`"${field}" must be an array of strings.`, 400);
+  }
+  return [...new Set(value.map((item: string) => item.trim()).filter(Boolean))];
+}
+
+/**
+ * Validates a request body for creating or replacing a schedule:
+ * `{ "name", "frequency", "locations"?, "delivery", "recipients"?, "timeZone"?, "enabled"? }`.
+ */
+export function parseReportScheduleInput(body: any): ReportScheduleInput {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    throw new ReportScheduleError('"name" is required.', 400);
+  }
+  if (!REPORT_FREQUENCIES.includes(body?.frequency)) {
+    throw new ReportScheduleError(`"frequency" must be one of: ${REPORT_FREQUENCIES.join(', ')}.`, 400);
+  }
+  if (!REPORT_DELIVERIES.includes(body?.delivery)) {
+    throw new ReportScheduleError(`"delivery" must be one of: ${REPORT_DELIVERIES.join(', ')}.`, 400);
+  }
+  const recipients = stringList(body.recipients, 'recipients');
+  const invalid = recipients.filter(recipient => !EMAIL_PATTERN.test(recipient));
+  if (invalid.length > 0) {
+    throw new ReportScheduleError(`Invalid email address(es) in "recipients": ${invalid.join(', ')}.`, 400);
+  }
+  if (body.delivery === 'email' && (recipients.length === 0 || recipients.length > MAX_RECIPIENTS)) {
+    throw new ReportScheduleError(`Email delivery needs 1-${MAX_RECIPIENTS} "recipients".`, 400);
+  }
+  const timeZone = body.timeZone === undefined ? ROLLUP_TIME_ZONE : body.timeZone;
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+    throw new ReportScheduleError(`"${timeZone}" is not a valid IANA time zone.`, 400);
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    throw new ReportScheduleError('"enabled" must be a boolean.', 400);
+  }
+  return {
+    name,
+    frequency: body.frequency,
+    locations: stringList(body.locations, 'locations'),
+    delivery: body.delivery,
+    recipients,
+    timeZone,
+    enabled: body.enabled ?? true,
+  };
+}
+
+export async function listReportSchedules() {
+  const snapshot = await requireDbAdmin().collection(REPORT_SCHEDULES_COLLECTION).orderBy('name').get();
+  return snapshot.docs.map(doc => ({ id: doc.id, ...(doc.data() as ReportScheduleRecord) }));
+}
+
+/**
+ * Creates a schedule. The first report covers the first period that ends after creation; use
+ * `runReportSchedule` to send the most recent one straight away.
+ */
+export async function createReportSchedule(input: ReportScheduleInput): Promise<string> {
+  const now = Timestamp.now();
+  const record: ReportScheduleRecord = {
+    ...input,
+    lastPeriodTo: lastCompletedPeriod(input.frequency, now.toDate(), input.timeZone).to,
+    lastRunAt: null,
+    lastStatus: null,
+    lastError: null,
+    lastDeliveredTo: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const docRef = await requireDbAdmin().collection(REPORT_SCHEDULES_COLLECTION).add(record);
+  return docRef.id;
+}
+
+/** Replaces a schedule's settings. Changing the frequency or time zone restarts its period count. */
+export async function updateReportSchedule(id: string, input: ReportScheduleInput): Promise<void> {
+  const docRef = requireDbAdmin().collection(REPORT_SCHEDULES_COLLECTION).doc(id);
+  await requireDbAdmin().runTransaction(async transaction => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists) {
+      throw new ReportScheduleError(`Report schedule "${id}" not found.`, 404);
+    }
+    const existing = snapshot.data() as ReportScheduleRecord;
+    const periodChanged = existing.frequency !== input.frequency || existing.timeZone !== input.timeZone;
+    transaction.update(docRef, {
+      ...input,
+      ...(periodChanged ? { lastPeriodTo: lastCompletedPeriod(input.frequency, new Date(), input.timeZone).to } : {}),
+      updatedAt: Timestamp.now(),
+    });
+  });
+}
+
+export async function deleteReportSchedule(id: string): Promise<void> {
+  const docRef = requireDbAdmin().collection(REPORT_SCHEDULES_COLLECTION).doc(id);
+  const snapshot = await docRef.get();
+  if (!snapshot.exists) {
+    throw new ReportScheduleError(`Report schedule "${id}" not found.`, 404);
+  }
+  await docRef.delete();
+}
+
+async function deliverReport(id: string, schedule: ReportScheduleRecord, period: ReportPeriod, dryRun: boolean): Promise<ReportRunResult> {
+  const summary = await buildPeriodicReport({
+    title: schedule.name,
+    frequency: schedule.frequency,
+    timeZone: schedule.timeZone,
+    period,
+    locations: schedule.locations,
+  });
+  const report = renderPeriodicReport(summary);
+  const result = { scheduleId: id, name: schedule.name, period, error: null };
+  if (dryRun) {
+    return { ...result, status: 'dryRun', deliveredTo: null, report };
+  }
+  const deliveredTo = schedule.delivery === 'email'
+    ? await emailReport(report, schedule.recipients)
+    : await writeReportToFolder(report, `${id}_${period.from}_${period.to}`);
+  return { ...result, status: 'succeeded', deliveredTo };
+}
+
+/**
+ * Builds and delivers one schedule's report for its most recent completed period, whether or not
+ * it is due. With `dryRun`, the rendered report is returned instead of delivered and the schedule
+ * is left unchanged. Delivery errors are recorded on the schedule and returned, not thrown.
+ */
+export async function runReportSchedule(id: string, options: { now?: Date; dryRun?: boolean } = {}): Promise<ReportRunResult> {
+  const docRef = requireDbAdmin().collection(REPORT_SCHEDULES_COLLECTION).doc(id);
+  const snapshot = await docRef.get();
+  if (!snapshot.exists) {
+    throw new ReportScheduleError(`Report schedule "${id}" not found.`, 404);
+  }
+  const schedule = snapshot.data() as ReportScheduleRecord;
+  const period = lastCompletedPeriod(schedule.frequency, options.now ?? new Date(), schedule.timeZone);
+  try {
+    const result = await deliverReport(id, schedule, period, options.dryRun ?? false);
+    if (!options.dryRun) {
+      await docRef.update({
+        lastPeriodTo: period.to > schedule.lastPeriodTo ? period.to : schedule.lastPeriodTo,
+        lastRunAt: Timestamp.now(),
+        lastStatus: 'succeeded',
+        lastError: null,
+        lastDeliveredTo: result.deliveredTo,
+      });
+    }
+    return result;
+  } catch (error) {
+    console.error(`[Reports] Schedule ${id} failed for ${period.from}..${period.to}:`, errorMessage(error));
+    if (!options.dryRun) {
+      await docRef.update({ lastRunAt: Timestamp.now(), lastStatus: 'failed', lastError: errorMessage(error) || String(error) });
+    }
+    return { scheduleId: id, name: schedule.name, period, status: 'failed', deliveredTo: null, error: errorMessage(error) || String(error) };
+  }
+}
+
+/**
+ * Delivers every enabled schedule whose next period has ended. Each schedule is claimed in a
+ * transaction before its report is sent, so overlapping runners do not send it twice; a failed
+ * delivery releases the claim and is retried by the next run.
+ */
+export async function runDueReportSchedules(now: Date = new Date()): Promise<ReportRunResult[]> {
+  const db = requireDbAdmin();
+  const snapshot = await db.collection(REPORT_SCHEDULES_COLLECTION).where('enabled', '==', true).get();
+  const results: ReportRunResult[] = [];
+  for (const doc of snapshot.docs) {
+    const claimed = await db.runTransaction(async transaction => {
+      const current = await transaction.get(doc.ref);
+      const schedule = current.data() as ReportScheduleRecord | undefined;
+      if (!schedule?.enabled) return null;
+      const period = lastCompletedPeriod(schedule.frequency, now, schedule.timeZone);
+      if (period.to <= schedule.lastPeriodTo) return null;
+      transaction.update(doc.ref, { lastPeriodTo: period.to });
+      return { schedule, period };
+    });
+    if (!claimed) continue;
+
+    const { schedule, period } = claimed;
+    try {
+      const result = await deliverReport(doc.id, schedule, period, false);
+      await doc.ref.update({ lastRunAt: Timestamp.now(), lastStatus: 'succeeded', lastError: null, lastDeliveredTo: result.deliveredTo });
+      console.log(`[Reports] Delivered "${schedule.name}" (${doc.id}) for ${period.from}..${period.to} to ${result.deliveredTo}.`);
+      results.push(result);
+    } catch (error) {
+      console.error(`[Reports] Schedule ${doc.id} failed for ${period.from}..${period.to}:`, errorMessage(error));
+      await doc.ref.update({
+        lastPeriodTo: schedule.lastPeriodTo,
+        lastRunAt: Timestamp.now(),
+        lastStatus: 'failed',
+        lastError: errorMessage(error) || String(error),
+      });
+      results.push({ scheduleId: doc.id, name: schedule.name, period, status: 'failed', deliveredTo: null, error: errorMessage(error) || String(error) });
+    }
+  }
+  return results;
+}
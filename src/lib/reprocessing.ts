@@ -0,0 +1,680 @@
+import { randomUUID } from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FieldPath, Timestamp, type DocumentData, type DocumentReference, type DocumentSnapshot } from 'firebase-admin/firestore';
+import { parseISO, isValid as isValidDateFn } from 'date-fns';
+import { COUNT_VISITORS_PROMPTS, PRODUCTION_PROMPT_VERSION } from '@/ai/prompts/count-visitors';
+import { resolveModelSettings, type ResolvedModelSettings } from '@/ai/providers';
+import { ModelSettingsSchema, type Direction, type ModelSettings } from '@/ai/types';
+import { describeCountingGeometry } from '@/lib/countingGeometry';
+import {
+  countRecordingSegments,
+  countTimelineOf,
+  summarizeSegmentCounts,
+  type CrossingEventRecord,
+  type RecordingTotals,
+  type SegmentRecord,
+} from '@/lib/countPipeline';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { applyRollupChange } from '@/lib/rollups';
+import { appendRevision } from '@/lib/visitorLogEdits';
+import { buildVisitorLogQuery } from '@/lib/visitorLogQueries';
+import { DEFAULT_SEGMENT_SECONDS, splitVideo } from '@/lib/videoSegmenter';
+import { downloadVideo } from '@/lib/videoStorage';
+import {
+  COUNT_REVISIONS_SUBCOLLECTION,
+  CROSSING_EVENTS_SUBCOLLECTION,
+  SEGMENTS_SUBCOLLECTION,
+  VISITOR_LOGS_COLLECTION,
+} from '@/lib/visitorLogs';
+import { notifyCountCorrected } from '@/lib/webhooks';
+
+export const REPROCESS_RUNS_COLLECTION = 'reprocess_runs';
+
+/** Firestore batches are limited to 500 writes. */
+const MAX_BATCH_WRITES = 450;
+/** Only the first failures of a run are kept on the run document. */
+const MAX_RECORDED_FAILURES = 50;
+const MAX_RECORD_IDS = 500;
+/**
+ * A batch stops taking new records after this long, so it ends well within the request timeout
+ * (`timeoutSeconds` in apphosting.yaml) when it runs in a route's `after()`.
+ */
+const REPROCESS_BATCH_MS = (Number(process.env.REPROCESS_BATCH_SECONDS) || 240) * 1000;
+/** A worker renews its claim on a run before each record and segment; a claim not renewed for this long belongs to a dead worker. */
+const REPROCESS_LEASE_MS = 10 * 60 * 1000;
+/** A run is failed once workers have died this many times in a row on the same record. */
+const MAX_INTERRUPTIONS = 2;
+const TARGET_PAGE_SIZE = 20;
+
+export type ReprocessRunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** Which records a run re-processes: explicit IDs, or a location and/or recording date range. */
+export interface ReprocessFilter {
+  recordIds: string[] | null;
+  locationName: string | null;
+  /** Inclusive lower bound on recordingStartDateTime. */
+  from: Timestamp | null;
+  /** Exclusive upper bound on recordingStartDateTime. */
+  to: Timestamp | null;
+}
+
+export interface ReprocessRunRecord {
+  status: ReprocessRunStatus;
+  filter: ReprocessFilter;
+  /** Applied over each record's own model settings. */
+  modelOverrides: ModelSettings;
+  promptVersion: string;
+  /** Make each new count the record's primary value, unless a person corrected the record. */
+  promote: boolean;
+  requestedBy: string;
+  cancelRequested: boolean;
+  /** Records matching the filter; null until the run has looked them up. */
+  totalCount: number | null;
+  processedCount: number;
+  succeededCount: number;
+  failedCount: number;
+  /** Deleted records and records without a stored video. */
+  skippedCount: number;
+  promotedCount: number;
+  /** 0-100. */
+  progress: number;
+  currentVisitorLogId: string | null;
+  failures: { visitorLogId: string; error: string }[];
+  error: string | null;
+  /** Last record handled, in run order; the next batch continues after it. */
+  cursor: { visitorLogId: string; recordingStartDateTime: Timestamp | null } | null;
+  /** Claim of the worker processing the run now; null between batches. */
+  leaseId: string | null;
+  leaseExpiresAt: Timestamp | null;
+  /** Workers that died in a row while on `currentVisitorLogId`. */
+  interruptions: number;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  startedAt: Timestamp | null;
+  finishedAt: Timestamp | null;
+}
+
+/**
+ * One re-processing result, stored under the record as `count_revisions/{runId}`.
+ * The record's own counts only change if the revision was promoted.
+ */
+export interface CountRevisionRecord extends RecordingTotals {
+  reprocessRunId: string;
+  promptVersion: string;
+  modelSettings: ResolvedModelSettings;
+  crossingEventCount: number | null;
+  segments: SegmentRecord[];
+  promoted: boolean;
+  /** Why a requested promotion did not happen. */
+  promotionSkippedReason: string | null;
+  createdAt: Timestamp;
+}
+
+export type NewReprocessRun = Pick<ReprocessRunRecord, 'filter' | 'modelOverrides' | 'promptVersion' | 'promote' | 'requestedBy'>;
+
+export class ReprocessError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ReprocessError';
+  }
+}
+
+function parseDateField(name: string, value: unknown): Timestamp | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = typeof value === 'string' ? parseISO(value) : null;
+  if (!parsed || !isValidDateFn(parsed)) {
+    throw new ReprocessError(`"${name}" must be an ISO 8601 date/time.`, 400);
+  }
+  return Timestamp.fromDate(parsed);
+}
+
+/**
+ * Reads a run request from a JSON body:
+ * `{ recordIds? | location?, from?, to?, provider?, model?, temperature?, promptVersion?, promote? }`.
+ * `requestedBy` is the authenticated admin (see `authorizeAdmin`).
+ */
+export function parseReprocessRequest(body: any, requestedBy: string): NewReprocessRun {
+
+  let recordIds: string[] | null = null;
+  if (body.recordIds !== undefined) {
+    if (!Array.isArray(body.recordIds) || body.recordIds.length === 0 || body.recordIds.length > MAX_RECORD_IDS
+      || !body.recordIds.every((id: unknown) => typeof id === 'string' && id.trim() !== '')) {
+      throw new ReprocessError(`"recordIds" must be a non-empty array of up to ${MAX_RECORD_IDS} record IDs.`, 400);
+    }
+    recordIds = [...new Set<string>(body.recordIds.map((id: string) => id.trim()))];
+  }
+  const locationName = typeof body.location === 'string' && body.location.trim() ? body.location.trim() : null;
+  const from = parseDateField('from', body.from);
+  const to = parseDateField('to', body.to);
+  if (recordIds && (locationName || from || to)) {
+    throw new ReprocessError('Give either "recordIds" or "location"/"from"/"to", not both.', 400);
+  }
+  if (!recordIds && !locationName && !from && !to) {
+    throw new ReprocessError('A filter is required: "recordIds", "location", or a "from"/"to" date range.', 400);
+  }
+
+  const overrides = ModelSettingsSchema.safeParse({
+    ...(body.provider ? { provider: body.provider } : {}),
+    ...(body.model ? { model: body.model } : {}),
+    ...(body.temperature !== undefined && body.temperature !== null ? { temperature: body.temperature } : {}),
+  });
+  if (!overrides.success) {
+    throw new ReprocessError(`Invalid model settings: ${overrides.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`, 400);
+  }
+  const promptVersion = typeof body.promptVersion === 'string' && body.promptVersion ? body.promptVersion : PRODUCTION_PROMPT_VERSION;
+  if (!COUNT_VISITORS_PROMPTS[promptVersion]) {
+    throw new ReprocessError(`Unknown prompt version "${promptVersion}". Known: ${Object.keys(COUNT_VISITORS_PROMPTS).join(', ')}.`, 400);
+  }
+
+  return {
+    filter: { recordIds, locationName, from, to },
+    modelOverrides: overrides.data,
+    promptVersion,
+    promote: body.promote === true,
+    requestedBy,
+  };
+}
+
+export async function createReprocessRun(run: NewReprocessRun): Promise<string> {
+  const now = Timestamp.now();
+  const data: ReprocessRunRecord = {
+    ...run,
+    status: 'queued',
+    cancelRequested: false,
+    totalCount: null,
+    processedCount: 0,
+    succeededCount: 0,
+    failedCount: 0,
+    skippedCount: 0,
+    promotedCount: 0,
+    progress: 0,
+    currentVisitorLogId: null,
+    failures: [],
+    error: null,
+    cursor: null,
+    leaseId: null,
+    leaseExpiresAt: null,
+    interruptions: 0,
+    createdAt: now,
+    updatedAt: now,
+    startedAt: null,
+    finishedAt: null,
+  };
+  const docRef = await requireDbAdmin().collection(REPROCESS_RUNS_COLLECTION).add(data);
+  return docRef.id;
+}
+
+export async function getReprocessRun(runId: string): Promise<(ReprocessRunRecord & { id: string }) | null> {
+  const snapshot = await requireDbAdmin().collection(REPROCESS_RUNS_COLLECTION).doc(runId).get();
+  return snapshot.exists ? { id: snapshot.id, ...(snapshot.data() as ReprocessRunRecord) } : null;
+}
+
+/** Most recent runs first. */
+export async function listReprocessRuns(limit = 20) {
+  const snapshot = await requireDbAdmin().collection(REPROCESS_RUNS_COLLECTION).orderBy('createdAt', 'desc').limit(limit).get();
+  return snapshot.docs;
+}
+
+function hasLiveLease(run: Pick<ReprocessRunRecord, 'leaseExpiresAt'>, now: Timestamp): boolean {
+  return !!run.leaseExpiresAt && run.leaseExpiresAt.toMillis() > now.toMillis();
+}
+
+/**
+ * Asks a queued or running run to stop. A run no worker is processing right now is cancelled at
+ * once; otherwise the worker finishes the record it is on, then ends the run as `cancelled`.
+ * Results saved so far are kept.
+ */
+export async function requestReprocessCancel(runId: string): Promise<void> {
+  const db = requireDbAdmin();
+  const runRef = db.collection(REPROCESS_RUNS_COLLECTION).doc(runId);
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(runRef);
+    if (!snapshot.exists) {
+      throw new ReprocessError(`Re-processing run "${runId}" not found.`, 404);
+    }
+    const run = snapshot.data() as ReprocessRunRecord;
+    if (run.status !== 'queued' && run.status !== 'running') {
+      throw new ReprocessError(`Re-processing run "${runId}" has already finished (status: ${run.status}).`, 409);
+    }
+    const now = Timestamp.now();
+    if (hasLiveLease(run, now)) {
+      transaction.update(runRef, { cancelRequested: true, updatedAt: now });
+    } else {
+      transaction.update(runRef, {
+        cancelRequested: true,
+        status: 'cancelled',
+        currentVisitorLogId: null,
+        leaseId: null,
+        leaseExpiresAt: null,
+        finishedAt: now,
+        updatedAt: now,
+      });
+    }
+  });
+}
+
+async function countTargets(filter: ReprocessFilter): Promise<number> {
+  if (filter.recordIds) {
+    return filter.recordIds.length;
+  }
+  const snapshot = await buildVisitorLogQuery({
+    locationName: filter.locationName ?? undefined,
+    from: filter.from?.toDate(),
+    to: filter.to?.toDate(),
+  }).count().get();
+  return snapshot.data().count;
+}
+
+/**
+ * Fetches the next records of a run after `cursor`: explicit IDs in the order given, otherwise by
+ * recording start (then ID, so records with the same start are neither skipped nor repeated).
+ */
+async function nextTargets(filter: ReprocessFilter, cursor: ReprocessRunRecord['cursor'], limit: number): Promise<DocumentSnapshot[]> {
+  const db = requireDbAdmin();
+  if (filter.recordIds) {
+    const start = cursor ? filter.recordIds.indexOf(cursor.visitorLogId) + 1 : 0;
+    const ids = filter.recordIds.slice(start, start + limit);
+    return ids.length > 0 ? db.getAll(...ids.map(id => db.collection(VISITOR_LOGS_COLLECTION).doc(id))) : [];
+  }
+  let query = buildVisitorLogQuery({
+    locationName: filter.locationName ?? undefined,
+    from: filter.from?.toDate(),
+    to: filter.to?.toDate(),
+  }).orderBy('recordingStartDateTime').orderBy(FieldPath.documentId());
+  if (cursor) {
+    query = query.startAfter(cursor.recordingStartDateTime, cursor.visitorLogId);
+  }
+  return (await query.limit(limit).get()).docs;
+}
+
+function skipReason(doc: DocumentSnapshot): string | null {
+  if (!doc.exists) return 'not found';
+  if (doc.get('deleted') === true) return 'deleted';
+  if (typeof doc.get('videoStoragePath') !== 'string') return 'no stored video';
+  return null;
+}
+
+/** Counts set by a person are never replaced by a re-run. */
+function manualCorrectionReason(data: DocumentData): string | null {
+  if (data.reviewStatus === 'overridden') return 'count was overridden in review';
+  if (data.lastEditedAt) return 'record was corrected manually';
+  return null;
+}
+
+async function replaceSubcollection(docRef: DocumentReference, name: string, docs: { id?: string; data: object }[]): Promise<void> {
+  const db = requireDbAdmin();
+  const collectionRef = docRef.collection(name);
+  const existing = await collectionRef.listDocuments();
+  const keep = new Set(docs.map(doc => doc.id).filter(Boolean));
+  const deletes = existing.filter(ref => !keep.has(ref.id));
+  for (let i = 0; i < deletes.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    deletes.slice(i, i + MAX_BATCH_WRITES).forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+  for (let i = 0; i < docs.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    for (const doc of docs.slice(i, i + MAX_BATCH_WRITES)) {
+      batch.set(doc.id ? collectionRef.doc(doc.id) : collectionRef.doc(), doc.data);
+    }
+    await batch.commit();
+  }
+}
+
+/**
+ * Makes a count revision the record's primary count, with a `reprocess` revision for the audit
+ * trail. Returns why it was skipped, or null once promoted.
+ */
+async function promoteCountRevision(
+  visitorLogId: string,
+  runId: string,
+  run: ReprocessRunRecord,
+  revision: CountRevisionRecord,
+  crossingEvents: CrossingEventRecord[],
+): Promise<string | null> {
+  const db = requireDbAdmin();
+  const docRef = db.collection(VISITOR_LOGS_COLLECTION).doc(visitorLogId);
+  const revisionRef = docRef.collection(COUNT_REVISIONS_SUBCOLLECTION).doc(runId);
+
+  const skipped = await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists || snapshot.get('deleted') === true) {
+      return 'record was deleted';
+    }
+    const data = snapshot.data()!;
+    const manualReason = manualCorrectionReason(data);
+    if (manualReason) {
+      return manualReason;
+    }
+
+    const update = {
+      visitorCount: revision.visitorCount,
+      enteringCount: revision.enteringCount,
+      exitingCount: revision.exitingCount,
+      netFlow: revision.netFlow,
+      confidence: revision.confidence,
+      qualityNotes: revision.qualityNotes,
+      segmentCount: revision.segmentCount,
+      failedSegmentCount: revision.failedSegmentCount,
+      countTimeline: countTimelineOf(revision.segments),
+      countStatus: revision.countStatus,
+      crossingEventCount: revision.crossingEventCount,
+      promptVersion: revision.promptVersion,
+      modelSettings: revision.modelSettings,
+    };
+    appendRevision(transaction, docRef, data, update, {
+      action: 'reprocess',
+      changedBy: run.requestedBy,
+      reason: `Re-processing run ${runId}`,
+    });
+    transaction.update(docRef, { ...update, reprocessRunId: runId, reprocessedAt: Timestamp.now() });
+    transaction.update(revisionRef, { promoted: true });
+    applyRollupChange(transaction, data, { ...data, ...update });
+    return null;
+  });
+  if (skipped) {
+    return skipped;
+  }
+
+  // The counts are already consistent; segments and events follow outside the transaction.
+  await replaceSubcollection(docRef, SEGMENTS_SUBCOLLECTION, revision.segments.map(segment => ({
+    id: String(segment.index).padStart(4, '0'),
+    data: segment,
+  })));
+  if (revision.crossingEventCount !== null) {
+    await replaceSubcollection(docRef, CROSSING_EVENTS_SUBCOLLECTION, crossingEvents.map(event => ({ data: event })));
+  }
+  // A slow or failing receiver must not hold up the rest of the run; the webhook retry runner sends retries.
+  await notifyCountCorrected(visitorLogId, { action: 'reprocess', changedBy: run.requestedBy, reason: `Re-processing run ${runId}` }, { retryInline: false });
+  return null;
+}
+
+/**
+ * Counts a record's stored video again and saves the result as a count revision,
+ * promoting it if the run asks for that. Throws if the record could not be counted.
+ */
+async function reprocessRecord(runId: string, run: ReprocessRunRecord, doc: DocumentSnapshot, heartbeat: () => Promise<void>): Promise<{ promoted: boolean }> {
+  const data = doc.data()!;
+  const storagePath = data.videoStoragePath as string;
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'visitor-reprocess-'));
+  try {
+    const videoPath = path.join(workDir, `original${path.extname(storagePath) || '.mp4'}`);
+    await downloadVideo(storagePath, videoPath);
+    const { segments } = await splitVideo(videoPath, data.videoMimeType || 'video/mp4', DEFAULT_SEGMENT_SECONDS);
+
+    const stored = data.modelSettings as ResolvedModelSettings | undefined;
+    const direction = data.countedDirection as Direction;
+    const detailed = data.detailed === true;
+    const modelSettings = resolveModelSettings(
+      run.modelOverrides,
+      stored ? { provider: stored.provider, model: stored.model, temperature: stored.temperature ?? undefined } : null,
+    );
+    const { segmentRecords, crossingEvents } = await countRecordingSegments(
+      `reprocess ${runId}/${doc.id}`,
+      segments,
+      data.recordingStartDateTime as Timestamp,
+      {
+        direction,
+        detailed,
+        countingRegion: data.countingGeometry ? describeCountingGeometry(data.countingGeometry) : undefined,
+        modelSettings,
+        promptVersion: run.promptVersion,
+      },
+      { onSegment: heartbeat },
+    );
+
+    const revision: CountRevisionRecord = {
+      ...summarizeSegmentCounts(segmentRecords, direction),
+      reprocessRunId: runId,
+      promptVersion: run.promptVersion,
+      modelSettings,
+      crossingEventCount: detailed ? crossingEvents.length : null,
+      segments: segmentRecords,
+      promoted: false,
+      promotionSkippedReason: null,
+      createdAt: Timestamp.now(),
+    };
+    const revisionRef = doc.ref.collection(COUNT_REVISIONS_SUBCOLLECTION).doc(runId);
+    await revisionRef.set(revision);
+    if (!run.promote) {
+      return { promoted: false };
+    }
+
+    const skipped = await promoteCountRevision(doc.id, runId, run, revision, crossingEvents);
+    if (skipped) {
+      console.log(`[Reprocess ${runId}] Not promoting ${doc.id}: ${skipped}.`);
+      await revisionRef.update({ promotionSkippedReason: skipped });
+    }
+    return { promoted: skipped === null };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/** The worker's claim on a run was taken over by another worker; it must stop without writing. */
+class LeaseLostError extends Error {
+  constructor(runId: string) {
+    super(`Another worker took over re-processing run ${runId}.`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+export interface ReprocessBatchResult {
+  runId: string;
+  /** `busy` when another worker holds the run. */
+  status: ReprocessRunStatus | 'busy';
+  processedCount: number;
+  totalCount: number | null;
+}
+
+/**
+ * Claims a queued or paused run for this worker. A run whose previous worker died without
+ * releasing it is taken over, and failed once workers have died `MAX_INTERRUPTIONS` times in a
+ * row on the same record. Returns the lease ID, or null with the run left as it is.
+ */
+async function claimReprocessRun(runId: string): Promise<{ run: ReprocessRunRecord; leaseId: string | null }> {
+  const db = requireDbAdmin();
+  const runRef = db.collection(REPROCESS_RUNS_COLLECTION).doc(runId);
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(runRef);
+    if (!snapshot.exists) {
+      throw new ReprocessError(`Re-processing run "${runId}" not found.`, 404);
+    }
+    const run = snapshot.data() as ReprocessRunRecord;
+    const now = Timestamp.now();
+    if ((run.status !== 'queued' && run.status !== 'running') || hasLiveLease(run, now)) {
+      return { run, leaseId: null };
+    }
+    if (run.cancelRequested) {
+      const update = { status: 'cancelled' as const, currentVisitorLogId: null, leaseId: null, leaseExpiresAt: null, finishedAt: now, updatedAt: now };
+      transaction.update(runRef, update);
+      return { run: { ...run, ...update }, leaseId: null };
+    }
+
+    // An expired lease (rather than a released one) means the last worker stopped mid-batch, e.g. on the request timeout.
+    const interrupted = !!run.leaseExpiresAt;
+    const interruptions = interrupted ? (run.interruptions ?? 0) + 1 : (run.interruptions ?? 0);
+    if (interrupted) {
+      console.warn(`[Reprocess ${runId}] Previous worker stopped while on ${run.currentVisitorLogId ?? 'no record'} (${interruptions}/${MAX_INTERRUPTIONS}).`);
+    }
+    if (interruptions >= MAX_INTERRUPTIONS) {
+      const update = {
+        status: 'failed' as const,
+        error: `Workers stopped ${interruptions} times in a row while re-processing record ${run.currentVisitorLogId ?? '(unknown)'}. Re-process that record with "npm run reprocess:run", which has no time limit, or exclude it.`,
+        interruptions,
+        leaseId: null,
+        leaseExpiresAt: null,
+        finishedAt: now,
+        updatedAt: now,
+      };
+      transaction.update(runRef, update);
+      return { run: { ...run, ...update }, leaseId: null };
+    }
+
+    const update = {
+      status: 'running' as const,
+      startedAt: run.startedAt ?? now,
+      leaseId: randomUUID(),
+      leaseExpiresAt: Timestamp.fromMillis(now.toMillis() + REPROCESS_LEASE_MS),
+      interruptions,
+      updatedAt: now,
+    };
+    transaction.update(runRef, update);
+    return { run: { ...run, ...update }, leaseId: update.leaseId };
+  });
+}
+
+/**
+ * Updates a run this worker holds and renews the lease; with `release`, gives the run up.
+ * Returns the run as stored, or throws `LeaseLostError` if another worker has taken it over.
+ */
+async function updateClaimedRun(
+  runId: string,
+  leaseId: string,
+  update: Partial<Omit<ReprocessRunRecord, 'createdAt' | 'leaseId' | 'leaseExpiresAt'>>,
+  options: { release?: boolean } = {},
+): Promise<ReprocessRunRecord> {
+  const db = requireDbAdmin();
+  const runRef = db.collection(REPROCESS_RUNS_COLLECTION).doc(runId);
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(runRef);
+    if (snapshot.get('leaseId') !== leaseId) {
+      throw new LeaseLostError(runId);
+    }
+    const now = Timestamp.now();
+    const lease = options.release
+      ? { leaseId: null, leaseExpiresAt: null }
+      : { leaseId, leaseExpiresAt: Timestamp.fromMillis(now.toMillis() + REPROCESS_LEASE_MS) };
+    transaction.update(runRef, { ...update, ...lease, updatedAt: now });
+    return { ...(snapshot.data() as ReprocessRunRecord), ...update, ...lease };
+  });
+}
+
+/**
+ * Processes a run for up to `budgetMs`, one record at a time, saving progress and a cursor after
+ * each record. A run that is not finished when the budget is used up is released in `running`
+ * state; the next batch (`continueReprocessRuns`) continues after the cursor. Checks for
+ * cancellation between records. Never throws; failures are recorded on the run.
+ */
+export async function runReprocessBatch(runId: string, budgetMs: number = REPROCESS_BATCH_MS): Promise<ReprocessBatchResult> {
+  const deadline = Date.now() + budgetMs;
+  let claim: Awaited<ReturnType<typeof claimReprocessRun>>;
+  try {
+    claim = await claimReprocessRun(runId);
+  } catch (error) {
+    console.error(`[Reprocess ${runId}] Could not claim run:`, errorMessage(error));
+    return { runId, status: 'busy', processedCount: 0, totalCount: null };
+  }
+  const { leaseId } = claim;
+  let run = claim.run;
+  if (!leaseId) {
+    const status = run.status === 'queued' || run.status === 'running' ? 'busy' : run.status;
+    return { runId, status, processedCount: run.processedCount, totalCount: run.totalCount };
+  }
+
+  const progress = {
+    processedCount: run.processedCount,
+    succeededCount: run.succeededCount,
+    failedCount: run.failedCount,
+    skippedCount: run.skippedCount,
+    promotedCount: run.promotedCount,
+  };
+  const result = (status: ReprocessRunStatus | 'busy'): ReprocessBatchResult => ({ runId, status, processedCount: progress.processedCount, totalCount: run.totalCount });
+  try {
+    if (run.totalCount === null) {
+      run = await updateClaimedRun(runId, leaseId, { totalCount: await countTargets(run.filter) });
+    }
+    console.log(`[Reprocess ${runId}] Batch started at ${progress.processedCount}/${run.totalCount}; prompt ${run.promptVersion}, promote: ${run.promote}.`);
+    const failures = [...run.failures];
+    let cursor = run.cursor ?? null;
+    const heartbeat = async () => { await updateClaimedRun(runId, leaseId, {}); };
+
+    for (;;) {
+      const targets = await nextTargets(run.filter, cursor, TARGET_PAGE_SIZE);
+      if (targets.length === 0) {
+        break;
+      }
+      for (const doc of targets) {
+        if (Date.now() >= deadline) {
+          console.log(`[Reprocess ${runId}] Batch budget used up at ${progress.processedCount}/${run.totalCount}; pausing.`);
+          await updateClaimedRun(runId, leaseId, { currentVisitorLogId: null }, { release: true });
+          return result('running');
+        }
+        const current = await updateClaimedRun(runId, leaseId, { currentVisitorLogId: doc.id });
+        if (current.cancelRequested) {
+          console.log(`[Reprocess ${runId}] Cancelled after ${progress.processedCount}/${run.totalCount} record(s).`);
+          await updateClaimedRun(runId, leaseId, { status: 'cancelled', currentVisitorLogId: null, finishedAt: Timestamp.now() }, { release: true });
+          return result('cancelled');
+        }
+
+        const reason = skipReason(doc);
+        if (reason) {
+          console.log(`[Reprocess ${runId}] Skipping ${doc.id}: ${reason}.`);
+          progress.skippedCount++;
+        } else {
+          try {
+            const { promoted } = await reprocessRecord(runId, run, doc, heartbeat);
+            progress.succeededCount++;
+            if (promoted) progress.promotedCount++;
+          } catch (error) {
+            if (error instanceof LeaseLostError) throw error;
+            console.error(`[Reprocess ${runId}] Record ${doc.id} FAILED:`, errorMessage(error));
+            progress.failedCount++;
+            if (failures.length < MAX_RECORDED_FAILURES) {
+              failures.push({ visitorLogId: doc.id, error: errorMessage(error) || 'An unknown error occurred.' });
+            }
+          }
+        }
+        progress.processedCount++;
+        cursor = { visitorLogId: doc.id, recordingStartDateTime: (doc.get('recordingStartDateTime') as Timestamp | undefined) ?? null };
+        await updateClaimedRun(runId, leaseId, {
+          ...progress,
+          failures,
+          cursor,
+          interruptions: 0,
+          progress: run.totalCount ? Math.min(100, Math.round((progress.processedCount / run.totalCount) * 100)) : 100,
+        });
+      }
+    }
+
+    console.log(`[Reprocess ${runId}] Done:`, progress);
+    await updateClaimedRun(runId, leaseId, { status: 'succeeded', progress: 100, currentVisitorLogId: null, finishedAt: Timestamp.now() }, { release: true });
+    return result('succeeded');
+  } catch (error) {
+    if (error instanceof LeaseLostError) {
+      console.warn(`[Reprocess ${runId}] ${error.message} Stopping this worker.`);
+      return result('busy');
+    }
+    console.error(`[Reprocess ${runId}] Run FAILED:`, errorMessage(error));
+    await updateClaimedRun(runId, leaseId, {
+      status: 'failed',
+      error: errorMessage(error) || 'An unknown error occurred.',
+      currentVisitorLogId: null,
+      finishedAt: Timestamp.now(),
+    }, { release: true }).catch((updateError: unknown) => {
+      console.error(`[Reprocess ${runId}] Could not record failure on run document:`, errorMessage(updateError));
+    });
+    return result('failed');
+  }
+}
+
+/**
+ * Continues every queued or paused run, oldest first, until `budgetMs` is used up. Runs whose
+ * worker died are taken over (see `claimReprocessRun`); runs another worker holds are skipped.
+ * Meant to be called periodically, by `npm run reprocess:run` or `POST /api/admin/reprocess/run`.
+ */
+export async function continueReprocessRuns(budgetMs: number = REPROCESS_BATCH_MS): Promise<ReprocessBatchResult[]> {
+  const deadline = Date.now() + budgetMs;
+  const snapshot = await requireDbAdmin().collection(REPROCESS_RUNS_COLLECTION).where('status', 'in', ['queued', 'running']).get();
+  const runs = [...snapshot.docs].sort((a, b) => (a.get('createdAt') as Timestamp).toMillis() - (b.get('createdAt') as Timestamp).toMillis());
+  const results: ReprocessBatchResult[] = [];
+  for (const doc of runs) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+    results.push(await runReprocessBatch(doc.id, remaining));
+  }
+  return results;
+}
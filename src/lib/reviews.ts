@@ -0,0 +1,104 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { applyRollupChange } from '@/lib/rollups';
+import { appendRevision } from '@/lib/visitorLogEdits';
+import { VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+export type ReviewStatus = 'pending' | 'accepted' | 'overridden';
+
+export interface CountValues {
+  visitorCount: number;
+  enteringCount: number | null;
+  exitingCount: number | null;
+}
+
+export type ReviewDecision =
+  | { action: 'accept'; reviewerName: string; note?: string }
+  | { action: 'override'; reviewerName: string; note?: string; counts: CountValues };
+
+export class ReviewError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+/**
+ * Lists records still waiting for a human check, oldest first.
+ */
+export async function listPendingReviews() {
+  const snapshot = await requireDbAdmin()
+    .collection(VISITOR_LOGS_COLLECTION)
+    .where('reviewStatus', '==', 'pending')
+    .get();
+  return snapshot.docs.filter(doc => doc.get('deleted') !== true).sort((a, b) => {
+    const aTime = a.get('processingTimestamp') as Timestamp | undefined;
+    const bTime = b.get('processingTimestamp') as Timestamp | undefined;
+    return (aTime?.toMillis() ?? 0) - (bTime?.toMillis() ?? 0);
+  });
+}
+
+/**
+ * Accepts or overrides the AI count of a flagged record. An override keeps the model's numbers
+ * in `aiCount` and the reviewer's in `humanCount`; the record's counts become the human values.
+ */
+export async function submitReview(id: string, decision: ReviewDecision): Promise<void> {
+  const db = requireDbAdmin();
+  const docRef = db.collection(VISITOR_LOGS_COLLECTION).doc(id);
+
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists) {
+      throw new ReviewError(`Visitor log "${id}" not found.`, 404);
+    }
+    const data = snapshot.data()!;
+    if (data.reviewStatus !== 'pending') {
+      throw new ReviewError(`Visitor log "${id}" is not waiting for review (status: ${data.reviewStatus ?? 'none'}).`, 409);
+    }
+
+    const reviewFields = {
+      needsReview: false,
+      reviewedBy: decision.reviewerName,
+      reviewedAt: Timestamp.now(),
+      reviewNote: decision.note ?? null,
+    };
+
+    const revisionMeta = { action: 'review' as const, changedBy: decision.reviewerName, reason: decision.note };
+
+    if (decision.action === 'accept') {
+      const update = { needsReview: false, reviewStatus: 'accepted' };
+      appendRevision(transaction, docRef, data, update, revisionMeta);
+      transaction.update(docRef, { ...reviewFields, ...update });
+      return;
+    }
+
+    const isBidirectional = data.countedDirection === 'both';
+    if (isBidirectional && (decision.counts.enteringCount === null || decision.counts.exitingCount === null)) {
+      throw new ReviewError('Overriding a bidirectional record requires enteringCount and exitingCount.', 400);
+    }
+    const humanCount: CountValues = isBidirectional
+      ? {
+          visitorCount: decision.counts.enteringCount! + decision.counts.exitingCount!,
+          enteringCount: decision.counts.enteringCount,
+          exitingCount: decision.counts.exitingCount,
+        }
+      : { visitorCount: decision.counts.visitorCount, enteringCount: null, exitingCount: null };
+    const aiCount: CountValues = {
+      visitorCount: data.visitorCount,
+      enteringCount: data.enteringCount ?? null,
+      exitingCount: data.exitingCount ?? null,
+    };
+
+    const update = {
+      needsReview: false,
+      reviewStatus: 'overridden',
+      visitorCount: humanCount.visitorCount,
+      enteringCount: humanCount.enteringCount,
+      exitingCount: humanCount.exitingCount,
+      netFlow: isBidirectional ? humanCount.enteringCount! - humanCount.exitingCount! : null,
+    };
+    appendRevision(transaction, docRef, data, update, revisionMeta);
+    transaction.update(docRef, { ...reviewFields, ...update, aiCount, humanCount });
+    applyRollupChange(transaction, data, { ...data, ...update });
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Web app roles, from least to most privileged. Each role includes everything the ones before it can do:
+ * - `viewer`: dashboards, history, alerts and exports.
+ * - `operator`: also uploads, corrections, reviews, tallies and acknowledging alerts.
+ * - `admin`: also cameras, locations, API keys, users and the other admin settings.
+ *
+ * Kept free of server imports so client components can use it.
+ */
+export const USER_ROLES = ['viewer', 'operator', 'admin'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: '閲覧者',
+  operator: 'オペレーター',
+  admin: '管理者',
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/** Whether `role` grants at least `required`. A missing role grants nothing. */
+export function hasRole(role: UserRole | null | undefined, required: UserRole): boolean {
+  return !!role && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
@@ -0,0 +1,353 @@
+import { FieldValue, Timestamp, type DocumentData, type DocumentReference, type SetOptions } from 'firebase-admin/firestore';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { directionalCounts, VISITOR_LOGS_COLLECTION, type CountTimelineEntry } from '@/lib/visitorLogs';
+
+/**
+ * One document per location and local calendar day, with the day's counts split by hour and
+ * direction. Document IDs are `{encoded location}__{yyyy-MM-dd}`.
+ */
+export const ROLLUPS_COLLECTION = 'rollups';
+
+/**
+ * Time zone that decides which day and hour a recording belongs to, unless the record carries the
+ * `timeZone` of its registered camera or location. Hour starts are derived from the day start, so
+ * a zone with a DST change mid-day would shift that day's hours by the change.
+ */
+export const ROLLUP_TIME_ZONE = process.env.ROLLUP_TIME_ZONE || 'Asia/Tokyo';
+
+/** Firestore batches are limited to 500 writes. */
+const MAX_BATCH_WRITES = 450;
+const HOUR_MS = 3600 * 1000;
+
+export interface RollupCounts {
+  total: number;
+  entering: number;
+  exiting: number;
+  recordingCount: number;
+}
+
+export interface RollupRecord extends RollupCounts {
+  locationName: string;
+  /** Local date in the record's time zone (default ROLLUP_TIME_ZONE), `yyyy-MM-dd`. */
+  date: string;
+  dayStart: Timestamp;
+  /**
+   * Keyed by local hour, `00`-`23`; hours without recordings are absent. A recording's counts are
+   * split over the hours it spans, and its `recordingCount` is 1 in each of them (and in each day).
+   */
+  hours: Record<string, RollupCounts>;
+  updatedAt: Timestamp;
+}
+
+/** What a single visitor_logs record adds to one rollup document. */
+interface RollupContribution {
+  docId: string;
+  locationName: string;
+  date: string;
+  dayStart: Timestamp;
+  day: RollupCounts;
+  hours: Record<string, RollupCounts>;
+}
+
+/** A record's counts within one local hour; see `hourlyCountsOf`. */
+export interface HourlyCounts {
+  start: Date;
+  counts: RollupCounts;
+}
+
+/** The `set` method shared by Transaction and WriteBatch. */
+interface RollupWriter {
+  set(documentRef: DocumentReference, data: Record<string, unknown>, options: SetOptions): unknown;
+}
+
+const dateTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+function localParts(date: Date, timeZone: string) {
+  let dateTimeFormat = dateTimeFormats.get(timeZone);
+  if (!dateTimeFormat) {
+    dateTimeFormat = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    dateTimeFormats.set(timeZone, dateTimeFormat);
+  }
+  const parts = Object.fromEntries(dateTimeFormat.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: parts.hour,
+    secondsIntoDay: Number(parts.hour) * 3600 + Number(parts.minute) * 60 + Number(parts.second),
+  };
+}
+
+/**
+ * Start of the local hour or day that `date` falls in. Uses the same day-start arithmetic as the
+ * rollup documents, so buckets line up with `dayStart` and its hours.
+ */
+export function localBucketStart(date: Date, timeZone: string, unit: 'hour' | 'day'): Date {
+  const local = localParts(date, timeZone);
+  const dayStartMs = Math.floor(date.getTime() / 1000 - local.secondsIntoDay) * 1000;
+  return new Date(unit === 'day' ? dayStartMs : dayStartMs + Number(local.hour) * 3600 * 1000);
+}
+
+export function rollupDocId(locationName: string, date: string): string {
+  return `${encodeURIComponent(locationName)}__${date}`;
+}
+
+/**
+ * Splits `total` into whole numbers in proportion to `weights` (largest remainder), so the parts
+ * add up to `total` exactly. Weights that are all zero share it equally.
+ */
+function apportion(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = weights.map(weight => weightSum > 0 ? (total * weight) / weightSum : total / weights.length);
+  const parts = shares.map(Math.floor);
+  let remainder = total - parts.reduce((sum, part) => sum + part, 0);
+  const byFraction = shares.map((share, index) => ({ index, fraction: share - Math.floor(share) })).sort((a, b) => b.fraction - a.fraction);
+  for (let i = 0; remainder > 0 && byFraction.length > 0; i = (i + 1) % byFraction.length, remainder--) {
+    parts[byFraction[i].index]++;
+  }
+  return parts;
+}
+
+/**
+ * Splits a visitor_logs record's counts over the local hours its recording spans. Each entry of
+ * `countTimeline` weighs on the hours it overlaps with its own counts, in proportion to the
+ * overlap; the record's totals, which manual corrections may have changed since counting, are
+ * then apportioned by those weights, so the hours always add up to the record. Records without a
+ * timeline are spread evenly over `durationSec`, or put into the hour they start in.
+ * Returns [] for deleted records and records without a recording start time.
+ */
+export function hourlyCountsOf(record: DocumentData | undefined): HourlyCounts[] {
+  if (!record || record.deleted === true || !(record.recordingStartDateTime instanceof Timestamp)) {
+    return [];
+  }
+  const recordingStartMs = record.recordingStartDateTime.toMillis();
+  const timeZone = record.timeZone || ROLLUP_TIME_ZONE;
+  const timeline: Partial<CountTimelineEntry>[] = Array.isArray(record.countTimeline) && record.countTimeline.length > 0
+    ? record.countTimeline
+    : [{ startOffsetSec: 0, endOffsetSec: Number(record.durationSec) || 0 }];
+
+  const weights = new Map<number, { duration: number; total: number; entering: number; exiting: number }>();
+  const addWeight = (hourStartMs: number, share: number, durationMs: number, entry: Partial<CountTimelineEntry>) => {
+    const weight = weights.get(hourStartMs) ?? { duration: 0, total: 0, entering: 0, exiting: 0 };
+    weight.duration += durationMs;
+    weight.total += (entry.visitorCount ?? 0) * share;
+    weight.entering += (entry.enteringCount ?? 0) * share;
+    weight.exiting += (entry.exitingCount ?? 0) * share;
+    weights.set(hourStartMs, weight);
+  };
+  for (const entry of timeline) {
+    const spanStartMs = recordingStartMs + (entry.startOffsetSec ?? 0) * 1000;
+    const spanEndMs = recordingStartMs + (entry.endOffsetSec ?? 0) * 1000;
+    if (spanEndMs <= spanStartMs) {
+      addWeight(localBucketStart(new Date(spanStartMs), timeZone, 'hour').getTime(), 1, 0, entry);
+      continue;
+    }
+    for (let t = spanStartMs; t < spanEndMs;) {
+      const hourStartMs = localBucketStart(new Date(t), timeZone, 'hour').getTime();
+      const hourEndMs = Math.min(hourStartMs + HOUR_MS > t ? hourStartMs + HOUR_MS : t + HOUR_MS, spanEndMs);
+      addWeight(hourStartMs, (hourEndMs - t) / (spanEndMs - spanStartMs), hourEndMs - t, entry);
+      t = hourEndMs;
+    }
+  }
+
+  const hours = [...weights.entries()].sort(([a], [b]) => a - b);
+  const counts = directionalCounts({
+    countedDirection: record.countedDirection,
+    visitorCount: record.visitorCount ?? 0,
+    enteringCount: record.enteringCount,
+    exitingCount: record.exitingCount,
+  });
+  // Fall back to coarser weights where the finer ones are all zero (e.g. single-direction timelines).
+  const weightsFor = (key: 'total' | 'entering' | 'exiting') => {
+    for (const candidate of [key, 'total', 'duration'] as const) {
+      const values = hours.map(([, weight]) => weight[candidate]);
+      if (values.some(value => value > 0)) return values;
+    }
+    return hours.map(() => 1);
+  };
+  const totals = apportion(record.visitorCount ?? 0, weightsFor('total'));
+  const entering = apportion(counts.entering ?? 0, weightsFor('entering'));
+  const exiting = apportion(counts.exiting ?? 0, weightsFor('exiting'));
+  return hours.map(([hourStartMs], index) => ({
+    start: new Date(hourStartMs),
+    counts: { total: totals[index], entering: entering[index], exiting: exiting[index], recordingCount: 1 },
+  }));
+}
+
+/**
+ * Works out what a visitor_logs record adds to each rollup document (one per local day its
+ * recording spans). Returns [] for records `hourlyCountsOf` skips.
+ */
+function contributionsOf(record: DocumentData | undefined): RollupContribution[] {
+  const hourly = hourlyCountsOf(record);
+  if (!record || hourly.length === 0) {
+    return [];
+  }
+  const timeZone = record.timeZone || ROLLUP_TIME_ZONE;
+  const locationName = record.locationName || 'N/A';
+  const contributions = new Map<string, RollupContribution>();
+  for (const { start, counts } of hourly) {
+    const local = localParts(start, timeZone);
+    const docId = rollupDocId(locationName, local.date);
+    const contribution: RollupContribution = contributions.get(docId) ?? {
+      docId,
+      locationName,
+      date: local.date,
+      dayStart: Timestamp.fromDate(localBucketStart(start, timeZone, 'day')),
+      day: { ...emptyCounts(), recordingCount: 1 },
+      hours: {},
+    };
+    contribution.day.total += counts.total;
+    contribution.day.entering += counts.entering;
+    contribution.day.exiting += counts.exiting;
+    const hour = contribution.hours[local.hour] ?? emptyCounts();
+    addCounts(hour, counts, 1);
+    // Hours repeated by a DST change still hold one recording.
+    hour.recordingCount = 1;
+    contribution.hours[local.hour] = hour;
+    contributions.set(docId, contribution);
+  }
+  return [...contributions.values()];
+}
+
+function emptyCounts(): RollupCounts {
+  return { total: 0, entering: 0, exiting: 0, recordingCount: 0 };
+}
+
+function addCounts(target: RollupCounts, counts: RollupCounts, sign: 1 | -1): void {
+  for (const key of Object.keys(counts) as (keyof RollupCounts)[]) {
+    target[key] += sign * counts[key];
+  }
+}
+
+function sameContributions(a: RollupContribution[], b: RollupContribution[]): boolean {
+  const key = (contributions: RollupContribution[]) => JSON.stringify(contributions.map(({ docId, day, hours }) => [docId, day, hours]));
+  return key(a) === key(b);
+}
+
+function incrementsOf(delta: RollupCounts) {
+  return {
+    total: FieldValue.increment(delta.total),
+    entering: FieldValue.increment(delta.entering),
+    exiting: FieldValue.increment(delta.exiting),
+    recordingCount: FieldValue.increment(delta.recordingCount),
+  };
+}
+
+/**
+ * Moves a record's contribution from its old rollup buckets to its new ones, inside the caller's
+ * transaction or batch. Pass `before` undefined for a new record and `after` undefined for a
+ * removed one; deleted records contribute nothing, so soft deletes can pass both versions.
+ * Nothing is written when the contribution does not change.
+ */
+export function applyRollupChange(writer: RollupWriter, before: DocumentData | undefined, after: DocumentData | undefined): void {
+  const removed = contributionsOf(before);
+  const added = contributionsOf(after);
+  if (sameContributions(removed, added)) {
+    return;
+  }
+
+  // Both sides may hit the same documents, so merge them into one write per document.
+  const deltas = new Map<string, RollupContribution>();
+  const addDelta = (contribution: RollupContribution, sign: 1 | -1) => {
+    const delta = deltas.get(contribution.docId) ?? { ...contribution, day: emptyCounts(), hours: {} };
+    addCounts(delta.day, contribution.day, sign);
+    for (const [hourKey, counts] of Object.entries(contribution.hours)) {
+      const hour = delta.hours[hourKey] ?? emptyCounts();
+      addCounts(hour, counts, sign);
+      delta.hours[hourKey] = hour;
+    }
+    deltas.set(contribution.docId, delta);
+  };
+  removed.forEach(contribution => addDelta(contribution, -1));
+  added.forEach(contribution => addDelta(contribution, 1));
+
+  const collection = requireDbAdmin().collection(ROLLUPS_COLLECTION);
+  for (const { docId, locationName, date, dayStart, day, hours } of deltas.values()) {
+    writer.set(collection.doc(docId), {
+      locationName,
+      date,
+      dayStart,
+      updatedAt: Timestamp.now(),
+      ...incrementsOf(day),
+      hours: Object.fromEntries(Object.entries(hours).map(([hour, delta]) => [hour, incrementsOf(delta)])),
+    }, { merge: true });
+  }
+}
+
+/**
+ * Recomputes every rollup document from the visitor_logs collection: existing rollups are
+ * deleted and rewritten. Run after a schema change or when rollups have drifted from the records.
+ * Uploads or edits made while this runs may be lost from the rollups; run it when the app is idle.
+ */
+export async function rebuildRollups(): Promise<{ recordCount: number; rollupCount: number }> {
+  const db = requireDbAdmin();
+  const rollups = new Map<string, Omit<RollupRecord, 'updatedAt'>>();
+  const records = await db.collection(VISITOR_LOGS_COLLECTION).get();
+
+  for (const doc of records.docs) {
+    for (const contribution of contributionsOf(doc.data())) {
+      const rollup: Omit<RollupRecord, 'updatedAt'> = rollups.get(contribution.docId) ?? {
+        locationName: contribution.locationName,
+        date: contribution.date,
+        dayStart: contribution.dayStart,
+        ...emptyCounts(),
+        hours: {},
+      };
+      addCounts(rollup, contribution.day, 1);
+      for (const [hourKey, counts] of Object.entries(contribution.hours)) {
+        const hour = rollup.hours[hourKey] ?? emptyCounts();
+        addCounts(hour, counts, 1);
+        rollup.hours[hourKey] = hour;
+      }
+      rollups.set(contribution.docId, rollup);
+    }
+  }
+
+  const existing = await db.collection(ROLLUPS_COLLECTION).listDocuments();
+  for (let i = 0; i < existing.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    existing.slice(i, i + MAX_BATCH_WRITES).forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+
+  const entries = [...rollups.entries()];
+  const updatedAt = Timestamp.now();
+  for (let i = 0; i < entries.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    for (const [docId, rollup] of entries.slice(i, i + MAX_BATCH_WRITES)) {
+      batch.set(db.collection(ROLLUPS_COLLECTION).doc(docId), { ...rollup, updatedAt });
+    }
+    await batch.commit();
+  }
+  return { recordCount: records.size, rollupCount: rollups.size };
+}
+
+/**
+ * Reads the rollups for days whose local date is within [fromDate, toDate] (both `yyyy-MM-dd`)
+ * and flattens them into hourly counts.
+ */
+export async function listHourlyRollups(fromDate: string, toDate: string) {
+  const snapshot = await requireDbAdmin()
+    .collection(ROLLUPS_COLLECTION)
+    .where('date', '>=', fromDate)
+    .where('date', '<=', toDate)
+    .get();
+  return snapshot.docs.flatMap(doc => {
+    const rollup = doc.data() as RollupRecord;
+    return Object.entries(rollup.hours ?? {})
+      .filter(([, counts]) => counts.recordingCount > 0)
+      .map(([hour, counts]) => ({
+        start: new Date(rollup.dayStart.toMillis() + Number(hour) * 3600 * 1000),
+        locationName: rollup.locationName,
+        ...counts,
+      }));
+  });
+}
@@ -0,0 +1,22 @@
+import { Timestamp, type DocumentData } from 'firebase-admin/firestore';
+
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeValue);
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, serializeValue(nested)]));
+  }
+  return value;
+}
+
+/**
+ * Converts a Firestore document into a JSON-safe payload for API responses.
+ * Timestamps (including nested ones) are returned as ISO 8601 strings.
+ */
+export function serializeDocument(id: string, data: DocumentData): Record<string, unknown> {
+  return { id, ...(serializeValue(data) as Record<string, unknown>) };
+}
@@ -0,0 +1,53 @@
+import type { NextRequest } from 'next/server';
+import { authenticateApiKey, authorizeApiKeyForLocation, type AuthenticatedApiKey } from '@/lib/apiKeys';
+import type { ResolvedLocation } from '@/lib/registry';
+import { authorizeUser, type SessionUser } from '@/lib/userAuth';
+
+export type UploadCaller =
+  | { uploadSource: 'api'; apiKey: AuthenticatedApiKey; user: null }
+  | { uploadSource: 'ui'; apiKey: null; user: SessionUser };
+
+export type UploadCallerResult =
+  | { ok: true; caller: UploadCaller }
+  | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Decides who is uploading. Requests carrying an `Authorization` header are API uploads
+ * and must present a valid key with the upload scope; the upload source is then always 'api', whatever the client claims.
+ * Requests without the header are only accepted as web UI uploads by a signed-in operator.
+ */
+export async function resolveUploadCaller(request: NextRequest, requestedSource: string | null): Promise<UploadCallerResult> {
+  const authorizationHeader = request.headers.get('authorization');
+  if (authorizationHeader) {
+    const auth = await authenticateApiKey(authorizationHeader, 'upload');
+    if (!auth.ok) {
+      return auth;
+    }
+    return { ok: true, caller: { uploadSource: 'api', apiKey: auth.apiKey, user: null } };
+  }
+
+  if (requestedSource !== 'ui') {
+    return { ok: false, status: 401, error: 'API uploads require an "Authorization: Bearer <api key>" header.' };
+  }
+  const auth = await authorizeUser(request, 'operator');
+  if (!auth.ok) {
+    return auth;
+  }
+  return { ok: true, caller: { uploadSource: 'ui', apiKey: null, user: auth.user } };
+}
+
+/**
+ * Checks the caller may upload for the location. UI uploads are not location-scoped.
+ * A key is accepted if it lists the location's registry ID, its display name or the name the
+ * client sent, so keys created before the registry keep working.
+ */
+export function authorizeUploadLocation(caller: UploadCaller, location: ResolvedLocation, requestedName: string | null): UploadCallerResult {
+  if (caller.uploadSource === 'api') {
+    const identifiers = [location.locationId, location.locationName, requestedName].filter((value): value is string => !!value);
+    const auth = authorizeApiKeyForLocation(caller.apiKey, location.locationName, identifiers);
+    if (!auth.ok) {
+      return auth;
+    }
+  }
+  return { ok: true, caller };
+}
@@ -0,0 +1,232 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { Timestamp, type DocumentData, type DocumentReference, type Transaction } from 'firebase-admin/firestore';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import {
+  failStaleJobInTransaction,
+  isStaleProcessingJob,
+  PROCESSING_JOBS_COLLECTION,
+  type ProcessingJob,
+  type ProcessingJobStatus,
+} from '@/lib/processingJobs';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+/**
+ * `Idempotency-Key` values seen by the upload route, keyed by a hash of the caller and the key,
+ * each pointing at the job it created.
+ */
+export const IDEMPOTENCY_KEYS_COLLECTION = 'upload_idempotency_keys';
+
+/**
+ * Videos being uploaded or counted, keyed by a hash of the camera (or location) and the content
+ * hash, each pointing at the job counting it.
+ */
+export const UPLOAD_CONTENT_CLAIMS_COLLECTION = 'upload_content_claims';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+/** A claim whose request never linked a job (it crashed or timed out) can be taken over after this long. */
+const PENDING_CLAIM_TTL_MS = 60 * 60 * 1000;
+
+/** An earlier upload that a new one repeats; the new upload is not counted again. */
+export interface DuplicateUpload {
+  matchedBy: 'idempotencyKey' | 'contentHash';
+  /** Poll this job for the result; null for records saved before processing jobs existed. */
+  jobId: string | null;
+  status: ProcessingJobStatus;
+  /** Set once the earlier upload has been counted. */
+  visitorLogId: string | null;
+}
+
+/** Where an upload is counted; duplicates only match uploads for the same camera (or location without one). */
+export interface UploadScope {
+  cameraId: string | null;
+  locationName: string;
+}
+
+/**
+ * A request's hold on an idempotency key or a video. While held, repeats of the request are
+ * answered with 409; once linked to a job, with that job.
+ */
+export interface UploadClaim {
+  ref: DocumentReference;
+  claimId: string;
+}
+
+export type UploadClaimResult =
+  | { claimed: true; claim: UploadClaim }
+  /** `duplicate` is null while the earlier request is still uploading and has no job yet. */
+  | { claimed: false; duplicate: DuplicateUpload | null };
+
+export class IdempotencyKeyError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'IdempotencyKeyError';
+  }
+}
+
+/** Hex SHA-256 of a file, read as a stream so large videos are not loaded into memory. */
+export async function hashVideoFile(videoPath: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(createReadStream(videoPath), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Reads the optional `Idempotency-Key` header. Returns null if absent; throws
+ * IdempotencyKeyError if it is not a printable string of at most 255 characters.
+ */
+export function parseIdempotencyKey(header: string | null): string | null {
+  const key = header?.trim();
+  if (!key) return null;
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(key)) {
+    throw new IdempotencyKeyError(`"Idempotency-Key" must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} printable ASCII characters without spaces.`, 400);
+  }
+  return key;
+}
+
+/** Keys are per caller: each API key has its own key space, and the web UI shares one. */
+function idempotencyDocId(apiKeyId: string | null, key: string): string {
+  return createHash('sha256').update(`${apiKeyId ?? 'ui'}:${key}`).digest('hex');
+}
+
+function inScope(data: DocumentData, scope: UploadScope): boolean {
+  if (scope.cameraId) {
+    return data.cameraId === scope.cameraId;
+  }
+  return !data.cameraId && data.locationName === scope.locationName;
+}
+
+/**
+ * The upload a claim's job stands for, or null if a new request may take the claim over: the job
+ * failed or is gone, its worker stopped (see `isStaleProcessingJob`), or (for content matches) its
+ * record was deleted. A stale job is failed in the same transaction, so a job runner cannot still
+ * finish it and count the video a second time.
+ */
+async function earlierUpload(transaction: Transaction, jobId: string, matchedBy: DuplicateUpload['matchedBy']): Promise<DuplicateUpload | null> {
+  const db = requireDbAdmin();
+  const jobRef = db.collection(PROCESSING_JOBS_COLLECTION).doc(jobId);
+  const job = (await transaction.get(jobRef)).data() as ProcessingJob | undefined;
+  if (!job || job.status === 'failed') {
+    return null;
+  }
+  if (isStaleProcessingJob(job)) {
+    failStaleJobInTransaction(transaction, jobRef, 'The worker processing this job stopped, and the video was uploaded again.');
+    return null;
+  }
+  const visitorLogId = job.visitorLogId ?? null;
+  if (matchedBy === 'contentHash' && visitorLogId) {
+    const record = await transaction.get(db.collection(VISITOR_LOGS_COLLECTION).doc(visitorLogId));
+    if (!record.exists || record.get('deleted') === true) {
+      return null;
+    }
+  }
+  return { matchedBy, jobId, status: job.status, visitorLogId };
+}
+
+/**
+ * Atomically claims `ref` for this request, unless an earlier request holds it: then returns that
+ * request's upload, or null as `duplicate` if it has not created its job yet.
+ */
+async function claimUpload(ref: DocumentReference, matchedBy: DuplicateUpload['matchedBy'], data: DocumentData): Promise<UploadClaimResult> {
+  const claimId = randomUUID();
+  return requireDbAdmin().runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (snapshot.exists) {
+      const jobId = snapshot.get('jobId') as string | null;
+      const claimedAt = snapshot.get('claimedAt') as Timestamp | undefined;
+      if (jobId) {
+        const duplicate = await earlierUpload(transaction, jobId, matchedBy);
+        if (duplicate) {
+          return { claimed: false, duplicate };
+        }
+      } else if (claimedAt && Date.now() - claimedAt.toMillis() < PENDING_CLAIM_TTL_MS) {
+        return { claimed: false, duplicate: null };
+      }
+    }
+    transaction.set(ref, { ...data, jobId: null, claimId, claimedAt: Timestamp.now() });
+    return { claimed: true, claim: { ref, claimId } };
+  });
+}
+
+/**
+ * Claims an idempotency key before the request's video is read. A key whose job failed can be
+ * claimed again, so a client may retry with the same key after a failure.
+ */
+export async function claimIdempotencyKey(apiKeyId: string | null, key: string): Promise<UploadClaimResult> {
+  const ref = requireDbAdmin().collection(IDEMPOTENCY_KEYS_COLLECTION).doc(idempotencyDocId(apiKeyId, key));
+  return claimUpload(ref, 'idempotencyKey', { apiKeyId });
+}
+
+/**
+ * Claims a video for a camera (or a location without one) by its content hash, so two concurrent
+ * uploads of the same clip cannot both be counted.
+ */
+export async function claimUploadContent(contentHash: string, scope: UploadScope): Promise<UploadClaimResult> {
+  const scopeKey = scope.cameraId ? `camera:${scope.cameraId}` : `location:${scope.locationName}`;
+  const docId = createHash('sha256').update(`${scopeKey}:${contentHash}`).digest('hex');
+  const ref = requireDbAdmin().collection(UPLOAD_CONTENT_CLAIMS_COLLECTION).doc(docId);
+  return claimUpload(ref, 'contentHash', { contentHash, cameraId: scope.cameraId, locationName: scope.locationName });
+}
+
+/** Points a claim at the job that handles the upload. */
+export async function linkUploadClaim(claim: UploadClaim, jobId: string): Promise<void> {
+  const db = requireDbAdmin();
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(claim.ref);
+    if (snapshot.get('claimId') === claim.claimId) {
+      transaction.update(claim.ref, { jobId });
+    }
+  });
+}
+
+/** Gives up a claim that never got a job (the request failed), so the client can retry at once. */
+export async function releaseUploadClaim(claim: UploadClaim): Promise<void> {
+  const db = requireDbAdmin();
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(claim.ref);
+    if (snapshot.get('claimId') === claim.claimId && !snapshot.get('jobId')) {
+      transaction.delete(claim.ref);
+    }
+  });
+}
+
+/**
+ * Looks for an earlier upload of the same video for the same camera: a saved record that has not
+ * been deleted, or a queued or running job that is not stale. Covers uploads made before content
+ * claims existed; `claimUploadContent` is what prevents concurrent duplicates.
+ */
+export async function findDuplicateUpload(contentHash: string, scope: UploadScope): Promise<DuplicateUpload | null> {
+  const db = requireDbAdmin();
+  const records = await db.collection(VISITOR_LOGS_COLLECTION).where('contentHash', '==', contentHash).get();
+  const record = records.docs.find(doc => doc.get('deleted') !== true && inScope(doc.data(), scope));
+  if (record) {
+    return { matchedBy: 'contentHash', jobId: record.get('jobId') ?? null, status: 'succeeded', visitorLogId: record.id };
+  }
+
+  const jobs = await db.collection(PROCESSING_JOBS_COLLECTION).where('contentHash', '==', contentHash).get();
+  const job = jobs.docs.find(doc => ['queued', 'running'].includes(doc.get('status')) && !isStaleProcessingJob(doc.data() as ProcessingJob) && inScope(doc.data(), scope));
+  if (job) {
+    return { matchedBy: 'contentHash', jobId: job.id, status: job.get('status'), visitorLogId: null };
+  }
+  return null;
+}
+
+/**
+ * Response body for an upload that repeats `duplicate`: the earlier job and, once counted, its record.
+ */
+export async function duplicateUploadResponseBody(duplicate: DuplicateUpload): Promise<Record<string, unknown>> {
+  const snapshot = duplicate.visitorLogId
+    ? await requireDbAdmin().collection(VISITOR_LOGS_COLLECTION).doc(duplicate.visitorLogId).get()
+    : null;
+  return {
+    duplicate: true,
+    matchedBy: duplicate.matchedBy,
+    jobId: duplicate.jobId,
+    status: duplicate.status,
+    statusUrl: duplicate.jobId ? `/api/jobs/${duplicate.jobId}` : null,
+    visitorLogId: duplicate.visitorLogId,
+    record: snapshot?.exists ? serializeDocument(snapshot.id, snapshot.data()!) : null,
+  };
+}
@@ -0,0 +1,350 @@
+import { createWriteStream } from 'fs';
+import { mkdir, open, readFile, readdir, rename, rm, stat } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { pipeline } from 'stream/promises';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import type { UploadCaller } from '@/lib/uploadAuth';
+
+export const UPLOAD_SESSIONS_COLLECTION = 'upload_sessions';
+
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB
+export const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_BYTES) || 2 * 1024 * 1024 * 1024; // 2GB
+/** Temp directories of sessions older than this are removed when new sessions start. */
+const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const UPLOAD_TMP_DIR = process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'countcam-uploads');
+const ASSEMBLED_FILE_NAME = 'video';
+
+export type UploadSessionStatus = 'uploading' | 'completed' | 'consumed';
+
+export interface UploadSession {
+  status: UploadSessionStatus;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  chunkSize: number;
+  totalChunks: number;
+  /** Indexes (0-based) of the chunks the server has stored and acknowledged. */
+  receivedChunks: number[];
+  uploadSource: 'ui' | 'api';
+  apiKeyId: string | null;
+  /** Firebase Auth UID of the operator who started a web UI upload. */
+  userId?: string | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  completedAt?: Timestamp;
+  /** Processing job the assembled file was handed to. */
+  jobId?: string;
+}
+
+export class UploadSessionError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'UploadSessionError';
+  }
+}
+
+function sessionDir(uploadId: string): string {
+  // Firestore auto IDs are alphanumeric; reject anything that could escape the temp directory.
+  if (!/^[A-Za-z0-9_-]+$/.test(uploadId)) {
+    throw new UploadSessionError(`Invalid upload ID "${uploadId}".`, 400);
+  }
+  return path.join(UPLOAD_TMP_DIR, uploadId);
+}
+
+function chunkPath(uploadId: string, index: number): string {
+  return path.join(sessionDir(uploadId), `chunk-${String(index).padStart(6, '0')}`);
+}
+
+export function assembledVideoPath(uploadId: string): string {
+  return path.join(sessionDir(uploadId), ASSEMBLED_FILE_NAME);
+}
+
+/**
+ * Returns the lowest chunk index the server has not acknowledged yet, or `totalChunks` when all are in.
+ */
+export function nextMissingChunk(session: Pick<UploadSession, 'receivedChunks' | 'totalChunks'>): number {
+  const received = new Set(session.receivedChunks);
+  for (let i = 0; i < session.totalChunks; i++) {
+    if (!received.has(i)) return i;
+  }
+  return session.totalChunks;
+}
+
+async function purgeStaleSessionDirs(): Promise<void> {
+  const cutoff = Date.now() - UPLOAD_SESSION_TTL_MS;
+  const entries = await readdir(UPLOAD_TMP_DIR, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const dir = path.join(UPLOAD_TMP_DIR, entry.name);
+    const info = await stat(dir).catch(() => null);
+    if (info && info.mtimeMs < cutoff) {
+      console.log(`[Uploads] Removing stale upload directory ${dir}`);
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+export async function createUploadSession(
+  file: { fileName: string; fileSize: number; mimeType: string },
+  caller: UploadCaller,
+): Promise<{ id: string; session: UploadSession }> {
+  if (!Number.isInteger(file.fileSize) || file.fileSize <= 0) {
+    throw new UploadSessionError('"fileSize" must be a positive integer.', 400);
+  }
+  if (file.fileSize > MAX_UPLOAD_BYTES) {
+    throw new UploadSessionError(`File is too large (${file.fileSize} bytes). Maximum is ${MAX_UPLOAD_BYTES} bytes.`, 413);
+  }
+  if (!file.mimeType.startsWith('video/')) {
+    throw new UploadSessionError(`"${file.mimeType}" is not a video MIME type.`, 400);
+  }
+
+  await purgeStaleSessionDirs().catch((e: unknown) => console.warn('[Uploads] Could not purge stale upload directories:', errorMessage(e)));
+
+  const now = Timestamp.now();
+  const session: UploadSession = {
+    status: 'uploading',
+    fileName: file.fileName,
+    fileSize: file.fileSize,
+    mimeType: file.mimeType,
+    chunkSize: DEFAULT_CHUNK_SIZE,
+    totalChunks: Math.ceil(file.fileSize / DEFAULT_CHUNK_SIZE),
+    receivedChunks: [],
+    uploadSource: caller.uploadSource,
+    apiKeyId: caller.apiKey ? caller.apiKey.id : null,
+    userId: caller.user ? caller.user.uid : null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const docRef = await requireDbAdmin().collection(UPLOAD_SESSIONS_COLLECTION).add(session);
+  await mkdir(sessionDir(docRef.id), { recursive: true });
+  return { id: docRef.id, session };
+}
+
+/**
+ * Loads a session and checks it belongs to the caller (same API key, or the same signed-in user).
+ */
+export async function getUploadSession(uploadId: string, caller: UploadCaller): Promise<UploadSession> {
+  const snapshot = await requireDbAdmin().collection(UPLOAD_SESSIONS_COLLECTION).doc(uploadId).get();
+  if (!snapshot.exists) {
+    throw new UploadSessionError(`Upload session "${uploadId}" not found.`, 404);
+  }
+  const session = snapshot.data() as UploadSession;
+  const callerKeyId = caller.apiKey ? caller.apiKey.id : null;
+  const callerUserId = caller.user ? caller.user.uid : null;
+  if (session.apiKeyId !== callerKeyId || (session.userId ?? null) !== callerUserId) {
+    throw new UploadSessionError(`Upload session "${uploadId}" belongs to a different caller.`, 403);
+  }
+  return session;
+}
+
+/**
+ * Stores one chunk. Re-sending an already acknowledged chunk overwrites it, so clients can
+ * safely retry a chunk whose acknowledgement was lost.
+ */
+export async function storeUploadChunk(
+  uploadId: string,
+  caller: UploadCaller,
+  index: number,
+  body: ReadableStream<Uint8Array> | null,
+  contentLength: number | null,
+): Promise<UploadSession> {
+  const session = await getUploadSession(uploadId, caller);
+  if (session.status !== 'uploading') {
+    throw new UploadSessionError(`Upload session "${uploadId}" is already ${session.status}.`, 409);
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    throw new UploadSessionError(`Chunk index ${index} is out of range (0-${session.totalChunks - 1}).`, 400);
+  }
+  const isLastChunk = index === session.totalChunks - 1;
+  const expectedSize = isLastChunk ? session.fileSize - session.chunkSize * (session.totalChunks - 1) : session.chunkSize;
+  // Reject by the declared size before reading anything; the byte cap below covers clients that lie or omit it.
+  if (contentLength !== null && contentLength !== expectedSize) {
+    throw new UploadSessionError(`Chunk ${index} has ${contentLength} bytes; expected ${expectedSize}.`, contentLength > expectedSize ? 413 : 400);
+  }
+  if (!body) {
+    throw new UploadSessionError(`Chunk ${index} has no body; expected ${expectedSize} bytes.`, 400);
+  }
+
+  // Write to a temp name first so a dropped connection never leaves a truncated chunk behind.
+  const target = chunkPath(uploadId, index);
+  await mkdir(path.dirname(target), { recursive: true });
+  try {
+    const written = await writeStreamToFile(body, `${target}.part`, expectedSize);
+    if (written !== expectedSize) {
+      throw new UploadSessionError(`Chunk ${index} has ${written} bytes; expected ${expectedSize}.`, 400);
+    }
+  } catch (error) {
+    await rm(`${target}.part`, { force: true });
+    throw error;
+  }
+  await rename(`${target}.part`, target);
+
+  const docRef = requireDbAdmin().collection(UPLOAD_SESSIONS_COLLECTION).doc(uploadId);
+  await docRef.update({ receivedChunks: FieldValue.arrayUnion(index), updatedAt: Timestamp.now() });
+  return (await docRef.get()).data() as UploadSession;
+}
+
+/**
+ * Concatenates all chunks into the session's video file and marks the session completed.
+ * Completing an already completed session is a no-op.
+ */
+export async function completeUploadSession(uploadId: string, caller: UploadCaller): Promise<UploadSession> {
+  const session = await getUploadSession(uploadId, caller);
+  if (session.status === 'completed') {
+    return session;
+  }
+  if (session.status !== 'uploading') {
+    throw new UploadSessionError(`Upload session "${uploadId}" is already ${session.status}.`, 409);
+  }
+  const missing = nextMissingChunk(session);
+  if (missing < session.totalChunks) {
+    throw new UploadSessionError(`Upload session "${uploadId}" is missing chunk ${missing}.`, 409);
+  }
+
+  const target = assembledVideoPath(uploadId);
+  const output = await open(target, 'w');
+  try {
+    for (let i = 0; i < session.totalChunks; i++) {
+      await output.write(await readFile(chunkPath(uploadId, i)));
+    }
+  } finally {
+    await output.close();
+  }
+
+  const assembled = await stat(target);
+  if (assembled.size !== session.fileSize) {
+    throw new UploadSessionError(`Assembled file has ${assembled.size} bytes; expected ${session.fileSize}.`, 500);
+  }
+  for (let i = 0; i < session.totalChunks; i++) {
+    await rm(chunkPath(uploadId, i), { force: true });
+  }
+
+  const update = { status: 'completed' as const, completedAt: Timestamp.now(), updatedAt: Timestamp.now() };
+  await requireDbAdmin().collection(UPLOAD_SESSIONS_COLLECTION).doc(uploadId).update(update);
+  return { ...session, ...update };
+}
+
+/**
+ * Hands a completed upload over to a processing job. Each upload can only be consumed once.
+ * Returns the session and the path of the assembled video.
+ */
+export async function consumeUploadSession(uploadId: string, caller: UploadCaller): Promise<{ session: UploadSession; videoPath: string }> {
+  const db = requireDbAdmin();
+  const docRef = db.collection(UPLOAD_SESSIONS_COLLECTION).doc(uploadId);
+  // Ownership is checked outside the transaction so error messages stay specific.
+  await getUploadSession(uploadId, caller);
+
+  const session = await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(docRef);
+    const current = snapshot.data() as UploadSession;
+    if (current.status !== 'completed') {
+      throw new UploadSessionError(
+        current.status === 'consumed'
+          ? `Upload session "${uploadId}" has already been submitted for processing.`
+          : `Upload session "${uploadId}" is not complete yet.`,
+        409,
+      );
+    }
+    transaction.update(docRef, { status: 'consumed', updatedAt: Timestamp.now() });
+    return current;
+  });
+  return { session, videoPath: assembledVideoPath(uploadId) };
+}
+
+export async function linkUploadSessionToJob(uploadId: string, jobId: string): Promise<void> {
+  await requireDbAdmin().collection(UPLOAD_SESSIONS_COLLECTION).doc(uploadId).update({ jobId, updatedAt: Timestamp.now() });
+}
+
+/**
+ * Streams a request body to `target` and returns the number of bytes written. Fails with 413, and
+ * stops reading, as soon as the body exceeds `maxBytes`.
+ */
+async function writeStreamToFile(body: ReadableStream<Uint8Array>, target: string, maxBytes: number): Promise<number> {
+  let written = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      written += chunk.length;
+      if (written > maxBytes) {
+        callback(new UploadSessionError(`Upload is larger than ${maxBytes} bytes.`, 413));
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+  // The DOM and Node typings describe the same WHATWG stream differently.
+  await pipeline(Readable.fromWeb(body as NodeReadableStream<Uint8Array>), limit, createWriteStream(target));
+  return written;
+}
+
+/**
+ * Streams a single-request multipart upload into temp storage so it goes through the same
+ * file-based pipeline as chunked uploads. Returns the path of the stored file.
+ */
+export async function storeDirectUpload(file: File): Promise<string> {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadSessionError(`File is too large (${file.size} bytes). Maximum is ${MAX_UPLOAD_BYTES} bytes.`, 413);
+  }
+  const dir = path.join(UPLOAD_TMP_DIR, `direct-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`);
+  await mkdir(dir, { recursive: true });
+  const target = path.join(dir, ASSEMBLED_FILE_NAME);
+  try {
+    await writeStreamToFile(file.stream(), target, MAX_UPLOAD_BYTES);
+  } catch (error) {
+    await rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+  return target;
+}
+
+/**
+ * Removes the temp directory holding a stored video once processing is done.
+ */
+export async function removeStoredUpload(videoPath: string): Promise<void> {
+  const dir = path.dirname(videoPath);
+  if (path.resolve(path.dirname(dir)) !== path.resolve(UPLOAD_TMP_DIR)) {
+    console.warn(`[Uploads] Refusing to remove ${dir}: not inside ${UPLOAD_TMP_DIR}.`);
+    return;
+  }
+  await rm(dir, { recursive: true, force: true });
+}
+
+/**
+ * JSON payload describing a session's progress, as returned by the upload routes.
+ */
+export function toUploadSessionStatus(uploadId: string, session: UploadSession) {
+  return {
+    uploadId,
+    status: session.status,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    mimeType: session.mimeType,
+    chunkSize: session.chunkSize,
+    totalChunks: session.totalChunks,
+    receivedChunks: [...session.receivedChunks].sort((a, b) => a - b),
+    nextChunkIndex: nextMissingChunk(session),
+    jobId: session.jobId ?? null,
+  };
+}
+
+/**
+ * Maps errors thrown by the upload session helpers to an HTTP status and message.
+ */
+export function uploadErrorResponse(error: unknown, action: string): { status: number; body: Record<string, unknown> } {
+  if (error instanceof UploadSessionError) {
+    return { status: error.status, body: { error: error.message } };
+  }
+  console.error(`[API] Error while trying to ${action}:`, errorMessage(error));
+  return {
+    status: 500,
+    body: {
+      error: `Failed to ${action} due to an internal server error.`,
+      messageFromServer: errorMessage(error) || 'An unknown error occurred.',
+    },
+  };
+}
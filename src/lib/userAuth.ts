@@ -0,0 +1,130 @@
+import { getAuth, type DecodedIdToken } from 'firebase-admin/auth';
+import { NextResponse, type NextRequest } from 'next/server';
+import { authenticateApiKey, type ApiKeyScope } from '@/lib/apiKeys';
+import { errorMessage } from '@/lib/errors';
+import { requireAdminApp } from '@/lib/firebaseAdmin';
+import { hasRole, isUserRole, type UserRole } from '@/lib/roles';
+
+/**
+ * Name of the cookie holding the Firebase session cookie. Firebase Hosting and App Hosting only
+ * forward a cookie with this name to the backend.
+ */
+export const SESSION_COOKIE_NAME = '__session';
+
+/** How long a sign-in lasts. Firebase allows between 5 minutes and 2 weeks. */
+export const SESSION_DURATION_MS = 5 * 24 * 60 * 60 * 1000;
+
+/** Sessions can only be created from a recent sign-in, so a leaked old ID token cannot mint one. */
+const MAX_SIGN_IN_AGE_SECONDS = 5 * 60;
+
+export interface SessionUser {
+  uid: string;
+  email: string | null;
+  role: UserRole;
+}
+
+export type SessionUserResult =
+  | { ok: true; user: SessionUser }
+  | { ok: false; status: 401 | 403; error: string };
+
+/** Name recorded as the author of revisions, reviews and other audited changes a user makes. */
+export function sessionActor(user: SessionUser): string {
+  return user.email ?? user.uid;
+}
+
+/** Reads the role from a user's custom claims; see `setUserRole`. */
+function toSessionUser(token: DecodedIdToken): SessionUser | null {
+  return isUserRole(token.role) ? { uid: token.uid, email: token.email ?? null, role: token.role } : null;
+}
+
+/**
+ * Exchanges the ID token of a fresh sign-in for a session cookie. Fails with 403 for users
+ * without a role, so they are not signed in at all.
+ */
+export async function createUserSession(idToken: string): Promise<{ ok: true; user: SessionUser; sessionCookie: string } | { ok: false; status: 401 | 403; error: string }> {
+  const auth = getAuth(requireAdminApp());
+  let token: DecodedIdToken;
+  try {
+    token = await auth.verifyIdToken(idToken, true);
+  } catch (error) {
+    return { ok: false, status: 401, error: `Invalid ID token: ${errorMessage(error)}` };
+  }
+  if (Date.now() / 1000 - token.auth_time > MAX_SIGN_IN_AGE_SECONDS) {
+    return { ok: false, status: 401, error: 'Sign in again to start a session.' };
+  }
+  const user = toSessionUser(token);
+  if (!user) {
+    return { ok: false, status: 403, error: 'This account has no role yet. Ask an admin to assign one.' };
+  }
+  const sessionCookie = await auth.createSessionCookie(idToken, { expiresIn: SESSION_DURATION_MS });
+  return { ok: true, user, sessionCookie };
+}
+
+/**
+ * Identifies the signed-in user from the session cookie. Sessions of disabled users, and of users
+ * whose role changed since they signed in (see `setUserRole`), are rejected.
+ */
+export async function authenticateSession(request: NextRequest): Promise<SessionUserResult> {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    return { ok: false, status: 401, error: 'Sign in to use this endpoint.' };
+  }
+  try {
+    const token = await getAuth(requireAdminApp()).verifySessionCookie(sessionCookie, true);
+    const user = toSessionUser(token);
+    if (!user) {
+      return { ok: false, status: 403, error: 'This account has no role.' };
+    }
+    return { ok: true, user };
+  } catch (error) {
+    return { ok: false, status: 401, error: 'Your session has expired or was revoked. Sign in again.' };
+  }
+}
+
+/**
+ * Ends the session in the request's cookie by revoking the user's refresh tokens, so a copy of the
+ * cookie stops working too. This signs the user out on every device. Requests without a valid
+ * session are ignored.
+ */
+export async function endUserSession(request: NextRequest): Promise<void> {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) return;
+  const auth = getAuth(requireAdminApp());
+  let token: DecodedIdToken;
+  try {
+    token = await auth.verifySessionCookie(sessionCookie);
+  } catch {
+    return;
+  }
+  await auth.revokeRefreshTokens(token.uid);
+}
+
+/**
+ * Checks the signed-in user has at least `required`.
+ */
+export async function authorizeUser(request: NextRequest, required: UserRole): Promise<SessionUserResult> {
+  const auth = await authenticateSession(request);
+  if (!auth.ok) {
+    return auth;
+  }
+  if (!hasRole(auth.user.role, required)) {
+    return { ok: false, status: 403, error: `This action needs the ${required} role (you are ${auth.user.role}).` };
+  }
+  return auth;
+}
+
+/**
+ * Guards a route for signed-in users with at least `required`, in the style of `checkAdminAuthorization`.
+ * Returns an error response to send back, or null if the caller is authorized. With `apiKeyScope`,
+ * an API key with that scope in the `Authorization` header is accepted instead, for endpoints that
+ * scripts read (e.g. job status for upload keys, records and rollups for read keys).
+ */
+export async function checkUserAuthorization(request: NextRequest, required: UserRole, options: { apiKeyScope?: ApiKeyScope } = {}): Promise<NextResponse | null> {
+  const authorizationHeader = request.headers.get('authorization');
+  if (options.apiKeyScope && authorizationHeader) {
+    const auth = await authenticateApiKey(authorizationHeader, options.apiKeyScope);
+    return auth.ok ? null : NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const auth = await authorizeUser(request, required);
+  return auth.ok ? null : NextResponse.json({ error: auth.error }, { status: auth.status });
+}
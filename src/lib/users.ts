@@ -0,0 +1,160 @@
+import { FirebaseAuthError, getAuth, type UserRecord } from 'firebase-admin/auth';
+import { requireAdminApp } from '@/lib/firebaseAdmin';
+import { isUserRole, USER_ROLES, type UserRole } from '@/lib/roles';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+/** Firebase Auth's own minimum. */
+const MIN_PASSWORD_LENGTH = 6;
+
+export interface UserSummary {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  /** null for accounts that exist in Firebase Auth but were never given a role; they cannot sign in. */
+  role: UserRole | null;
+  disabled: boolean;
+  createdAt: string | null;
+  lastSignInAt: string | null;
+}
+
+export interface NewUserInput {
+  email: string;
+  password: string;
+  displayName: string | null;
+  role: UserRole;
+}
+
+export interface UserUpdate {
+  role?: UserRole;
+  disabled?: boolean;
+}
+
+export class UserError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'UserError';
+  }
+}
+
+function toUserSummary(user: UserRecord): UserSummary {
+  const role = user.customClaims?.role;
+  return {
+    uid: user.uid,
+    email: user.email ?? null,
+    displayName: user.displayName ?? null,
+    role: isUserRole(role) ? role : null,
+    disabled: user.disabled,
+    createdAt: user.metadata.creationTime ? new Date(user.metadata.creationTime).toISOString() : null,
+    lastSignInAt: user.metadata.lastSignInTime ? new Date(user.metadata.lastSignInTime).toISOString() : null,
+  };
+}
+
+function parseRole(value: unknown): UserRole {
+  if (!isUserRole(value)) {
+    throw new UserError(`"role" must be one of: ${USER_ROLES.join(', ')}.`, 400);
+  }
+  return value;
+}
+
+/**
+ * Validates a request body for creating a user: `{ "email", "password", "role", "displayName"? }`.
+ */
+export function parseNewUserInput(body: any): NewUserInput {
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new UserError('"email" must be an email address.', 400);
+  }
+  if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserError(`"password" must be at least ${MIN_PASSWORD_LENGTH} characters.`, 400);
+  }
+  const displayName = typeof body.displayName === 'string' && body.displayName.trim() ? body.displayName.trim() : null;
+  return { email, password: body.password, displayName, role: parseRole(body.role) };
+}
+
+/**
+ * Validates a request body for changing a user: `{ "role"?, "disabled"? }`.
+ */
+export function parseUserUpdate(body: any): UserUpdate {
+  const update: UserUpdate = {};
+  if (body?.role !== undefined) {
+    update.role = parseRole(body.role);
+  }
+  if (body?.disabled !== undefined) {
+    if (typeof body.disabled !== 'boolean') {
+      throw new UserError('"disabled" must be a boolean.', 400);
+    }
+    update.disabled = body.disabled;
+  }
+  if (update.role === undefined && update.disabled === undefined) {
+    throw new UserError('Nothing to change: set "role" and/or "disabled".', 400);
+  }
+  return update;
+}
+
+/** Lists every Firebase Auth user, sorted by email. */
+export async function listUsers(): Promise<UserSummary[]> {
+  const auth = getAuth(requireAdminApp());
+  const users: UserSummary[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await auth.listUsers(1000, pageToken);
+    users.push(...page.users.map(toUserSummary));
+    pageToken = page.pageToken;
+  } while (pageToken);
+  return users.sort((a, b) => (a.email ?? a.uid).localeCompare(b.email ?? b.uid));
+}
+
+export async function createUser(input: NewUserInput): Promise<UserSummary> {
+  const auth = getAuth(requireAdminApp());
+  let user: UserRecord;
+  try {
+    user = await auth.createUser({ email: input.email, password: input.password, displayName: input.displayName ?? undefined });
+  } catch (error) {
+    if (error instanceof FirebaseAuthError && error.code === 'auth/email-already-exists') {
+      throw new UserError(`A user with email "${input.email}" already exists.`, 409);
+    }
+    throw error;
+  }
+  await auth.setCustomUserClaims(user.uid, { ...user.customClaims, role: input.role });
+  return toUserSummary(await auth.getUser(user.uid));
+}
+
+async function getUserRecord(uid: string): Promise<UserRecord> {
+  try {
+    return await getAuth(requireAdminApp()).getUser(uid);
+  } catch (error) {
+    if (error instanceof FirebaseAuthError && error.code === 'auth/user-not-found') {
+      throw new UserError(`User "${uid}" not found.`, 404);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Changes a user's role and/or disables the account. The user's sessions are revoked, so the
+ * change applies on their next request and they sign in again to pick up a new role.
+ */
+export async function updateUser(uid: string, update: UserUpdate): Promise<UserSummary> {
+  const auth = getAuth(requireAdminApp());
+  const user = await getUserRecord(uid);
+  if (update.role !== undefined) {
+    await auth.setCustomUserClaims(uid, { ...user.customClaims, role: update.role });
+  }
+  if (update.disabled !== undefined) {
+    await auth.updateUser(uid, { disabled: update.disabled });
+  }
+  await auth.revokeRefreshTokens(uid);
+  return toUserSummary(await auth.getUser(uid));
+}
+
+/** Looks up a user by email, for the command line where UIDs are not at hand. */
+export async function getUserByEmail(email: string): Promise<UserSummary> {
+  try {
+    return toUserSummary(await getAuth(requireAdminApp()).getUserByEmail(email));
+  } catch (error) {
+    if (error instanceof FirebaseAuthError && error.code === 'auth/user-not-found') {
+      throw new UserError(`No user with email "${email}".`, 404);
+    }
+    throw error;
+  }
+}
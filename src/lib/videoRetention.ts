@@ -0,0 +1,66 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { subDays } from 'date-fns';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { deleteVideo } from '@/lib/videoStorage';
+import { VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+/** Stored videos older than this many days are deleted by the retention job. */
+export const VIDEO_RETENTION_DAYS = Number(process.env.VIDEO_RETENTION_DAYS) || 30;
+
+/** Firestore batches are limited to 500 writes. */
+const MAX_BATCH_WRITES = 450;
+
+export interface VideoPurgeResult {
+  cutoff: Date;
+  /** Records past the cutoff that still had a stored video. */
+  expiredCount: number;
+  deletedCount: number;
+  failedCount: number;
+  dryRun: boolean;
+}
+
+/**
+ * Deletes the stored videos of records whose video was stored before the retention cutoff. The
+ * records themselves, their counts and segments are kept; `videoStoragePath` is cleared and
+ * `videoDeletedAt` set so the UI knows the footage is gone. Only records that still have a video
+ * (`videoDeletedAt` null and `videoStoredAt` set) are read, so purged records are not read again.
+ */
+export async function purgeExpiredVideos(options: { retentionDays?: number; dryRun?: boolean } = {}): Promise<VideoPurgeResult> {
+  const retentionDays = options.retentionDays ?? VIDEO_RETENTION_DAYS;
+  const dryRun = options.dryRun ?? false;
+  const cutoff = subDays(new Date(), retentionDays);
+
+  const db = requireDbAdmin();
+  const snapshot = await db.collection(VISITOR_LOGS_COLLECTION)
+    .where('videoDeletedAt', '==', null)
+    .where('videoStoredAt', '<', Timestamp.fromDate(cutoff))
+    .get();
+  const expired = snapshot.docs.filter(doc => typeof doc.get('videoStoragePath') === 'string');
+
+  let deletedCount = 0;
+  let failedCount = 0;
+  if (!dryRun) {
+    const deleted: typeof expired = [];
+    for (const doc of expired) {
+      try {
+        await deleteVideo(doc.get('videoStoragePath'));
+        deleted.push(doc);
+      } catch (error) {
+        failedCount++;
+        console.warn(`[Retention] Could not delete video of record ${doc.id}:`, errorMessage(error));
+      }
+    }
+    for (let i = 0; i < deleted.length; i += MAX_BATCH_WRITES) {
+      const batch = db.batch();
+      for (const doc of deleted.slice(i, i + MAX_BATCH_WRITES)) {
+        batch.update(doc.ref, { videoStoragePath: null, videoDeletedAt: Timestamp.now() });
+      }
+      await batch.commit();
+    }
+    deletedCount = deleted.length;
+  }
+
+  console.log(`[Retention] ${expired.length} video(s) older than ${retentionDays} day(s); ${dryRun ? 'dry run, nothing deleted' : `${deletedCount} deleted, ${failedCount} failed`}.`);
+  return { cutoff, expiredCount: expired.length, deletedCount, failedCount, dryRun };
+}
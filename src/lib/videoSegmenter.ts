@@ -0,0 +1,147 @@
+import { spawn } from 'child_process';
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import { errorMessage } from '@/lib/errors';
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+
+/** Length of each counting window. Long recordings are split into windows of this size. */
+export const DEFAULT_SEGMENT_SECONDS = Number(process.env.SEGMENT_SECONDS) || 300;
+
+/**
+ * Largest file a single segment may be. Each segment is sent inline, base64-encoded, in one model
+ * request; base64 adds a third, so the default keeps requests under Gemini's 20MB inline limit.
+ */
+export const MAX_SEGMENT_BYTES = Number(process.env.SEGMENT_MAX_BYTES) || 14 * 1024 * 1024; // 14MB
+
+/** Windows are never made shorter than this to fit the byte limit; the bitrate is capped instead. */
+const MIN_SEGMENT_SECONDS = 10;
+/** Cuts land on keyframes, so size-based windows aim below the limit. */
+const SEGMENT_SIZE_HEADROOM = 0.8;
+
+export interface VideoSegment {
+  index: number;
+  path: string;
+  mimeType: string;
+  /** Offset of the segment's first frame from the start of the recording, in seconds. */
+  startOffsetSec: number;
+  endOffsetSec: number;
+  sizeBytes: number;
+}
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', data => { stdout += data; });
+    child.stderr.on('data', data => { stderr += data; });
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${path.basename(command)} exited with code ${code}: ${stderr.trim().slice(-500)}`));
+      }
+    });
+  });
+}
+
+export async function probeDurationSeconds(videoPath: string): Promise<number> {
+  const output = await run(FFPROBE_PATH, [
+    '-v', 'error',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    videoPath,
+  ]);
+  const duration = parseFloat(output.trim());
+  if (!Number.isFinite(duration)) {
+    throw new Error(`Could not read video duration from ffprobe output: "${output.trim()}"`);
+  }
+  return duration;
+}
+
+/**
+ * Length of the windows to cut: `segmentSeconds`, shortened for high-bitrate videos so that a
+ * window of average bitrate stays under `MAX_SEGMENT_BYTES`.
+ */
+function windowSeconds(durationSec: number, sizeBytes: number, segmentSeconds: number): number {
+  if (sizeBytes <= MAX_SEGMENT_BYTES || durationSec <= 0) {
+    return segmentSeconds;
+  }
+  const bytesPerSecond = sizeBytes / durationSec;
+  const fitting = Math.floor((MAX_SEGMENT_BYTES * SEGMENT_SIZE_HEADROOM) / bytesPerSecond);
+  return Math.max(MIN_SEGMENT_SECONDS, Math.min(segmentSeconds, fitting));
+}
+
+async function readSegments(outDir: string): Promise<VideoSegment[]> {
+  const files = (await readdir(outDir)).filter(name => name.startsWith('segment-')).sort();
+  const segments: VideoSegment[] = [];
+  let offset = 0;
+  for (const [index, name] of files.entries()) {
+    const segmentPath = path.join(outDir, name);
+    const length = await probeDurationSeconds(segmentPath);
+    const { size } = await stat(segmentPath);
+    segments.push({ index, path: segmentPath, mimeType: 'video/mp4', startOffsetSec: offset, endOffsetSec: offset + length, sizeBytes: size });
+    offset += length;
+  }
+  return segments;
+}
+
+/**
+ * Splits a video into consecutive windows of about `segmentSeconds` each.
+ *
+ * Segments are cut with stream copy where the codec allows it, which splits on keyframes, so the
+ * actual offsets are measured from the produced files rather than assumed. Videos no longer than
+ * one window and no larger than `MAX_SEGMENT_BYTES` are returned as a single segment pointing at
+ * the original file. Larger videos get shorter windows, and if a window still exceeds the limit
+ * the video is re-encoded at a bitrate that fits.
+ */
+export async function splitVideo(
+  videoPath: string,
+  mimeType: string,
+  segmentSeconds: number = DEFAULT_SEGMENT_SECONDS,
+): Promise<{ durationSec: number; segments: VideoSegment[] }> {
+  const durationSec = await probeDurationSeconds(videoPath);
+  const { size } = await stat(videoPath);
+  if (durationSec <= segmentSeconds && size <= MAX_SEGMENT_BYTES) {
+    return { durationSec, segments: [{ index: 0, path: videoPath, mimeType, startOffsetSec: 0, endOffsetSec: durationSec, sizeBytes: size }] };
+  }
+
+  const seconds = windowSeconds(durationSec, size, segmentSeconds);
+  const outDir = path.join(path.dirname(videoPath), 'segments');
+  await mkdir(outDir, { recursive: true });
+  const outPattern = path.join(outDir, 'segment-%04d.mp4');
+  const segmentArgs = ['-f', 'segment', '-segment_time', String(seconds), '-reset_timestamps', '1', outPattern];
+  const reencodeArgs = ['-c:v', 'libx264', '-preset', 'veryfast', '-force_key_frames', `expr:gte(t,n_forced*${seconds})`];
+
+  try {
+    await run(FFMPEG_PATH, ['-v', 'error', '-y', '-i', videoPath, '-map', '0:v:0', '-c', 'copy', ...segmentArgs]);
+  } catch (copyError) {
+    // Some codecs cannot be stream-copied into MP4; re-encode instead.
+    console.warn(`[Segmenter] Stream copy failed for ${videoPath}, re-encoding: ${errorMessage(copyError)}`);
+    await rm(outDir, { recursive: true, force: true });
+    await mkdir(outDir, { recursive: true });
+    await run(FFMPEG_PATH, ['-v', 'error', '-y', '-i', videoPath, '-map', '0:v:0', ...reencodeArgs, ...segmentArgs]);
+  }
+
+  let segments = await readSegments(outDir);
+  if (segments.some(segment => segment.sizeBytes > MAX_SEGMENT_BYTES)) {
+    // Sparse keyframes or a very high bitrate: re-encode with a bitrate that keeps every window under the limit.
+    const kbps = Math.max(100, Math.floor((MAX_SEGMENT_BYTES * SEGMENT_SIZE_HEADROOM * 8) / seconds / 1000));
+    console.warn(`[Segmenter] Segments of ${videoPath} exceed ${MAX_SEGMENT_BYTES} bytes, re-encoding at ${kbps}kbit/s.`);
+    await rm(outDir, { recursive: true, force: true });
+    await mkdir(outDir, { recursive: true });
+    await run(FFMPEG_PATH, [
+      '-v', 'error', '-y', '-i', videoPath, '-map', '0:v:0', ...reencodeArgs,
+      '-b:v', `${kbps}k`, '-maxrate', `${kbps}k`, '-bufsize', `${kbps * 2}k`,
+      ...segmentArgs,
+    ]);
+    segments = await readSegments(outDir);
+  }
+  if (segments.length === 0) {
+    throw new Error(`ffmpeg produced no segments for ${videoPath}.`);
+  }
+  return { durationSec, segments };
+}
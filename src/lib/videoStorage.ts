@@ -0,0 +1,164 @@
+import { createReadStream } from 'fs';
+import { copyFile, mkdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { getStorage } from 'firebase-admin/storage';
+import { requireAdminApp } from '@/lib/firebaseAdmin';
+
+/**
+ * Original videos kept after processing, for re-processing, review and audits. Two backends:
+ * - `local` (default outside production): files under `VIDEO_STORAGE_DIR`.
+ * - `gcs`: Cloud Storage bucket `VIDEO_STORAGE_BUCKET`. Set `FIREBASE_STORAGE_EMULATOR_HOST`
+ *   to use the Firebase Storage emulator instead.
+ * Paths stored in Firestore (`videoStoragePath`) are relative to the directory or bucket.
+ */
+interface VideoStorageBackend {
+  save(sourcePath: string, storagePath: string, contentType: string): Promise<void>;
+  /** Size in bytes, or null if the video does not exist. */
+  size(storagePath: string): Promise<number | null>;
+  /** Returns null if the video does not exist. */
+  open(storagePath: string, range?: { start: number; end?: number }): Promise<{ size: number; stream: ReadableStream<Uint8Array> } | null>;
+  /** Copies a stored video to a local file, e.g. for re-processing. */
+  download(storagePath: string, destinationPath: string): Promise<void>;
+  /** Deleting a video that does not exist is not an error. */
+  remove(storagePath: string): Promise<void>;
+}
+
+/**
+ * Production has no default: App Hosting instances lose their local files when they are replaced,
+ * so `local` there must be chosen explicitly (with `VIDEO_STORAGE_DIR` on persistent storage).
+ */
+const VIDEO_STORAGE_BACKEND = process.env.VIDEO_STORAGE_BACKEND || (process.env.NODE_ENV === 'production' ? null : 'local');
+const VIDEO_STORAGE_DIR = path.resolve(process.env.VIDEO_STORAGE_DIR || path.join(process.cwd(), '.video-storage'));
+
+function resolveLocalPath(storagePath: string): string {
+  const fullPath = path.resolve(VIDEO_STORAGE_DIR, storagePath);
+  if (!fullPath.startsWith(VIDEO_STORAGE_DIR + path.sep)) {
+    throw new Error(`Storage path "${storagePath}" is outside the video storage directory.`);
+  }
+  return fullPath;
+}
+
+const localBackend: VideoStorageBackend = {
+  async save(sourcePath, storagePath) {
+    const target = resolveLocalPath(storagePath);
+    await mkdir(path.dirname(target), { recursive: true });
+    await copyFile(sourcePath, target);
+  },
+  async size(storagePath) {
+    const info = await stat(resolveLocalPath(storagePath)).catch(() => null);
+    return info ? info.size : null;
+  },
+  async open(storagePath, range) {
+    const fullPath = resolveLocalPath(storagePath);
+    const info = await stat(fullPath).catch(() => null);
+    if (!info) {
+      return null;
+    }
+    const nodeStream = createReadStream(fullPath, range ? { start: range.start, end: range.end } : undefined);
+    return { size: info.size, stream: Readable.toWeb(nodeStream) as ReadableStream<Uint8Array> };
+  },
+  async download(storagePath, destinationPath) {
+    await copyFile(resolveLocalPath(storagePath), destinationPath);
+  },
+  async remove(storagePath) {
+    await rm(resolveLocalPath(storagePath), { force: true });
+  },
+};
+
+function bucket() {
+  const bucketName = process.env.VIDEO_STORAGE_BUCKET;
+  if (!bucketName) {
+    throw new Error('VIDEO_STORAGE_BUCKET must be set when VIDEO_STORAGE_BACKEND is "gcs".');
+  }
+  return getStorage(requireAdminApp()).bucket(bucketName);
+}
+
+const cloudStorageBackend: VideoStorageBackend = {
+  async save(sourcePath, storagePath, contentType) {
+    await bucket().upload(sourcePath, { destination: storagePath, contentType });
+  },
+  async size(storagePath) {
+    const file = bucket().file(storagePath);
+    const [exists] = await file.exists();
+    if (!exists) {
+      return null;
+    }
+    const [metadata] = await file.getMetadata();
+    return Number(metadata.size);
+  },
+  async open(storagePath, range) {
+    const file = bucket().file(storagePath);
+    const [exists] = await file.exists();
+    if (!exists) {
+      return null;
+    }
+    const [metadata] = await file.getMetadata();
+    const nodeStream = file.createReadStream(range ? { start: range.start, end: range.end } : {});
+    return { size: Number(metadata.size), stream: Readable.toWeb(nodeStream) as ReadableStream<Uint8Array> };
+  },
+  async download(storagePath, destinationPath) {
+    await bucket().file(storagePath).download({ destination: destinationPath });
+  },
+  async remove(storagePath) {
+    await bucket().file(storagePath).delete({ ignoreNotFound: true });
+  },
+};
+
+function backend(): VideoStorageBackend {
+  if (!VIDEO_STORAGE_BACKEND) {
+    throw new Error('VIDEO_STORAGE_BACKEND must be set in production: "gcs", or "local" with VIDEO_STORAGE_DIR on persistent storage.');
+  }
+  switch (VIDEO_STORAGE_BACKEND) {
+    case 'local': return localBackend;
+    case 'gcs': return cloudStorageBackend;
+    default: throw new Error(`Unknown VIDEO_STORAGE_BACKEND "${VIDEO_STORAGE_BACKEND}". Use "local" or "gcs".`);
+  }
+}
+
+/**
+ * Where a recording's video is kept: grouped by camera (or location for uploads without one),
+ * then by UTC recording date, e.g. `videos/cameras/north-gate-1/2025/06/01/20250601T093000Z_<recordId>.mp4`.
+ */
+export function buildVideoStoragePath(video: { cameraId: string | null; locationId: string | null; recordingStart: Date; recordId: string; fileName: string }): string {
+  const owner = video.cameraId ? `cameras/${video.cameraId}`
+    : video.locationId ? `locations/${video.locationId}`
+    : 'unregistered';
+  const iso = video.recordingStart.toISOString();
+  const [year, month, day] = iso.slice(0, 10).split('-');
+  const stamp = `${iso.slice(0, 19).replace(/[-:]/g, '')}Z`;
+  const extension = path.extname(video.fileName).toLowerCase().match(/^\.[a-z0-9]{1,5}$/)?.[0] ?? '.mp4';
+  return `videos/${owner}/${year}/${month}/${day}/${stamp}_${video.recordId}${extension}`;
+}
+
+/**
+ * Copies a processed video into storage and returns its storage path.
+ */
+export async function saveVideo(sourcePath: string, storagePath: string, contentType: string): Promise<string> {
+  await backend().save(sourcePath, storagePath, contentType);
+  return storagePath;
+}
+
+/** Size of a stored video in bytes, or null if it does not exist. */
+export async function videoSize(storagePath: string): Promise<number | null> {
+  return backend().size(storagePath);
+}
+
+/**
+ * Opens a stored video for streaming, optionally limited to a byte range (inclusive).
+ * Returns null if the video does not exist.
+ */
+export async function openVideo(
+  storagePath: string,
+  range?: { start: number; end?: number },
+): Promise<{ size: number; stream: ReadableStream<Uint8Array> } | null> {
+  return backend().open(storagePath, range);
+}
+
+export async function downloadVideo(storagePath: string, destinationPath: string): Promise<void> {
+  await backend().download(storagePath, destinationPath);
+}
+
+export async function deleteVideo(storagePath: string): Promise<void> {
+  await backend().remove(storagePath);
+}
@@ -0,0 +1,158 @@
+import { Timestamp, type DocumentReference, type Transaction } from 'firebase-admin/firestore';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { RegistryError, resolveUploadLocation, type ResolvedLocation } from '@/lib/registry';
+import { applyRollupChange } from '@/lib/rollups';
+import { REVISIONS_SUBCOLLECTION, VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+export type RevisionAction = 'update' | 'delete' | 'review' | 'reprocess';
+
+/**
+ * One entry in the append-only `revisions` subcollection of a `visitor_logs` document.
+ * `changes` maps each changed field to its value before and after the change.
+ */
+export interface RevisionRecord {
+  action: RevisionAction;
+  changedBy: string;
+  changedAt: Timestamp;
+  reason: string | null;
+  changes: Record<string, { previous: unknown; current: unknown }>;
+}
+
+export interface VisitorLogChanges {
+  locationName?: string;
+  recordingStartDateTime?: Date;
+  visitorCount?: number;
+  enteringCount?: number;
+  exitingCount?: number;
+}
+
+export class VisitorLogEditError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'VisitorLogEditError';
+  }
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Timestamp && b instanceof Timestamp) {
+    return a.isEqual(b);
+  }
+  return a === b;
+}
+
+/**
+ * Records a revision inside the caller's transaction. Only fields whose value actually changes
+ * are recorded; returns false (and writes nothing) if nothing changed.
+ */
+export function appendRevision(
+  transaction: Transaction,
+  docRef: DocumentReference,
+  previous: Record<string, unknown>,
+  update: Record<string, unknown>,
+  meta: { action: RevisionAction; changedBy: string; reason?: string | null },
+): boolean {
+  const changes: RevisionRecord['changes'] = {};
+  for (const [field, current] of Object.entries(update)) {
+    const before = previous[field] ?? null;
+    if (!isSameValue(before, current)) {
+      changes[field] = { previous: before, current };
+    }
+  }
+  if (Object.keys(changes).length === 0) {
+    return false;
+  }
+  const revision: RevisionRecord = {
+    action: meta.action,
+    changedBy: meta.changedBy,
+    changedAt: Timestamp.now(),
+    reason: meta.reason ?? null,
+    changes,
+  };
+  transaction.create(docRef.collection(REVISIONS_SUBCOLLECTION).doc(), revision);
+  return true;
+}
+
+/**
+ * Applies a manual correction and records it as a revision.
+ * For bidirectional records the counts are edited per direction and the total and net flow follow.
+ */
+export async function updateVisitorLog(id: string, changes: VisitorLogChanges, changedBy: string, reason: string | null): Promise<boolean> {
+  const db = requireDbAdmin();
+  const docRef = db.collection(VISITOR_LOGS_COLLECTION).doc(id);
+
+  // A corrected location name goes through the same alias mapping as uploads.
+  let location: ResolvedLocation | null = null;
+  if (changes.locationName !== undefined) {
+    try {
+      location = await resolveUploadLocation({ locationName: changes.locationName });
+    } catch (error) {
+      if (error instanceof RegistryError) throw new VisitorLogEditError(error.message, error.status);
+      throw error;
+    }
+  }
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists || snapshot.get('deleted') === true) {
+      throw new VisitorLogEditError(`Visitor log "${id}" not found.`, 404);
+    }
+    const data = snapshot.data()!;
+
+    const update: Record<string, unknown> = {};
+    if (location && (location.locationName !== data.locationName || location.locationId !== (data.locationId ?? null))) {
+      // The camera belonged to the old location, and the old time zone must not carry over;
+      // a null time zone falls back to ROLLUP_TIME_ZONE, as for uploads.
+      update.locationName = location.locationName;
+      update.locationId = location.locationId;
+      update.cameraId = null;
+      update.timeZone = location.timeZone;
+    }
+    if (changes.recordingStartDateTime !== undefined) {
+      update.recordingStartDateTime = Timestamp.fromDate(changes.recordingStartDateTime);
+    }
+    if (data.countedDirection === 'both') {
+      if (changes.visitorCount !== undefined) {
+        throw new VisitorLogEditError('Bidirectional records are corrected through "enteringCount" and "exitingCount".', 400);
+      }
+      if (changes.enteringCount !== undefined || changes.exitingCount !== undefined) {
+        const enteringCount = changes.enteringCount ?? data.enteringCount ?? 0;
+        const exitingCount = changes.exitingCount ?? data.exitingCount ?? 0;
+        Object.assign(update, { enteringCount, exitingCount, visitorCount: enteringCount + exitingCount, netFlow: enteringCount - exitingCount });
+      }
+    } else {
+      if (changes.enteringCount !== undefined || changes.exitingCount !== undefined) {
+        throw new VisitorLogEditError('Single-direction records are corrected through "visitorCount".', 400);
+      }
+      if (changes.visitorCount !== undefined) {
+        update.visitorCount = changes.visitorCount;
+      }
+    }
+
+    if (!appendRevision(transaction, docRef, data, update, { action: 'update', changedBy, reason })) {
+      return false;
+    }
+    transaction.update(docRef, { ...update, lastEditedAt: Timestamp.now(), lastEditedBy: changedBy });
+    applyRollupChange(transaction, data, { ...data, ...update });
+    return true;
+  });
+}
+
+/**
+ * Soft-deletes a record: it is hidden from history and reports but kept, with its revisions, for audits.
+ */
+export async function deleteVisitorLog(id: string, changedBy: string, reason: string | null): Promise<void> {
+  const db = requireDbAdmin();
+  const docRef = db.collection(VISITOR_LOGS_COLLECTION).doc(id);
+
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists || snapshot.get('deleted') === true) {
+      throw new VisitorLogEditError(`Visitor log "${id}" not found.`, 404);
+    }
+    const data = snapshot.data()!;
+    const update = { deleted: true };
+    appendRevision(transaction, docRef, data, update, { action: 'delete', changedBy, reason });
+    transaction.update(docRef, { ...update, deletedAt: Timestamp.now(), deletedBy: changedBy });
+    applyRollupChange(transaction, data, undefined);
+  });
+}
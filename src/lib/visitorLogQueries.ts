@@ -0,0 +1,193 @@
+import { Timestamp, type Query, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { differenceInDays, parseISO, isValid as isValidDateFn } from 'date-fns';
+import { DirectionEnum } from '@/ai/types';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { hourlyCountsOf, localBucketStart, ROLLUP_TIME_ZONE } from '@/lib/rollups';
+import { VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+export const SORTABLE_FIELDS = ['recordingStartDateTime', 'processingTimestamp', 'visitorCount', 'locationName'] as const;
+export type SortField = (typeof SORTABLE_FIELDS)[number];
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export type GroupBy = 'hour' | 'day';
+/** Grouped queries read every matching record, so their time range is capped. */
+export const MAX_GROUPED_RANGE_DAYS = 92;
+
+export interface VisitorLogFilters {
+  locationName?: string;
+  cameraId?: string;
+  direction?: string;
+  uploadSource?: 'ui' | 'api';
+  /** Inclusive lower bound on recordingStartDateTime. */
+  from?: Date;
+  /** Exclusive upper bound on recordingStartDateTime. */
+  to?: Date;
+}
+
+export interface VisitorLogPageRequest extends VisitorLogFilters {
+  sort: SortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  /** ID of the last document of the previous page. */
+  cursor?: string;
+  /** Return counts per hour or day instead of records; paging options are then ignored. */
+  groupBy?: GroupBy;
+}
+
+export interface VisitorLogBucket {
+  /** Start of the local hour or day, in the record's time zone (default ROLLUP_TIME_ZONE). */
+  start: Date;
+  locationName: string;
+  total: number;
+  entering: number;
+  exiting: number;
+  recordingCount: number;
+}
+
+export class VisitorLogQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VisitorLogQueryError';
+  }
+}
+
+function parseDateParam(name: string, value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const parsed = parseISO(value);
+  if (!isValidDateFn(parsed)) {
+    throw new VisitorLogQueryError(`"${name}" must be an ISO 8601 date/time.`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads the record filters (`location`, `camera`, `direction`, `uploadSource`, `from`, `to`) from
+ * URL search params. Throws VisitorLogQueryError for invalid values.
+ */
+export function parseVisitorLogFilters(params: URLSearchParams): VisitorLogFilters {
+  const direction = params.get('direction') || undefined;
+  if (direction && !DirectionEnum.safeParse(direction).success) {
+    throw new VisitorLogQueryError(`"direction" must be one of: ${DirectionEnum.options.join(', ')}.`);
+  }
+  const uploadSource = params.get('uploadSource') || undefined;
+  if (uploadSource && uploadSource !== 'ui' && uploadSource !== 'api') {
+    throw new VisitorLogQueryError('"uploadSource" must be "ui" or "api".');
+  }
+  return {
+    locationName: params.get('location') || undefined,
+    cameraId: params.get('camera') || undefined,
+    direction,
+    uploadSource: uploadSource as 'ui' | 'api' | undefined,
+    from: parseDateParam('from', params.get('from')),
+    to: parseDateParam('to', params.get('to')),
+  };
+}
+
+/**
+ * Reads filter, sort and paging options from URL search params.
+ * Throws VisitorLogQueryError for invalid values.
+ */
+export function parseVisitorLogPageRequest(params: URLSearchParams): VisitorLogPageRequest {
+  const filters = parseVisitorLogFilters(params);
+  const sort = (params.get('sort') || 'recordingStartDateTime') as SortField;
+  if (!SORTABLE_FIELDS.includes(sort)) {
+    throw new VisitorLogQueryError(`"sort" must be one of: ${SORTABLE_FIELDS.join(', ')}.`);
+  }
+  const order = params.get('order') || 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    throw new VisitorLogQueryError('"order" must be "asc" or "desc".');
+  }
+  const limit = params.get('limit') ? Number(params.get('limit')) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new VisitorLogQueryError(`"limit" must be an integer from 1 to ${MAX_PAGE_SIZE}.`);
+  }
+  const groupBy = params.get('groupBy') || undefined;
+  if (groupBy) {
+    if (groupBy !== 'hour' && groupBy !== 'day') {
+      throw new VisitorLogQueryError('"groupBy" must be "hour" or "day".');
+    }
+    if (!filters.from || !filters.to || differenceInDays(filters.to, filters.from) > MAX_GROUPED_RANGE_DAYS) {
+      throw new VisitorLogQueryError(`"groupBy" requires "from" and "to" at most ${MAX_GROUPED_RANGE_DAYS} days apart.`);
+    }
+  }
+
+  return {
+    ...filters,
+    sort,
+    order,
+    limit,
+    cursor: params.get('cursor') || undefined,
+    groupBy: groupBy as GroupBy | undefined,
+  };
+}
+
+/**
+ * Builds the Firestore query for the given filters. Equality filters go first so composite
+ * indexes can be shared between sort orders.
+ */
+export function buildVisitorLogQuery(filters: VisitorLogFilters): Query {
+  let query: Query = requireDbAdmin().collection(VISITOR_LOGS_COLLECTION);
+  if (filters.locationName) query = query.where('locationName', '==', filters.locationName);
+  if (filters.cameraId) query = query.where('cameraId', '==', filters.cameraId);
+  if (filters.direction) query = query.where('countedDirection', '==', filters.direction);
+  if (filters.uploadSource) query = query.where('uploadSource', '==', filters.uploadSource);
+  if (filters.from) query = query.where('recordingStartDateTime', '>=', Timestamp.fromDate(filters.from));
+  if (filters.to) query = query.where('recordingStartDateTime', '<', Timestamp.fromDate(filters.to));
+  return query;
+}
+
+/**
+ * Fetches one page of records using a Firestore cursor. Soft-deleted records are skipped, so a
+ * page can hold fewer than `limit` rows even when more pages follow; use `nextCursor` to continue.
+ */
+export async function queryVisitorLogPage(request: VisitorLogPageRequest): Promise<{ docs: QueryDocumentSnapshot[]; nextCursor: string | null }> {
+  let query = buildVisitorLogQuery(request).orderBy(request.sort, request.order);
+  if (request.cursor) {
+    const cursorSnapshot = await requireDbAdmin().collection(VISITOR_LOGS_COLLECTION).doc(request.cursor).get();
+    if (!cursorSnapshot.exists) {
+      throw new VisitorLogQueryError(`Cursor "${request.cursor}" does not match a record.`);
+    }
+    query = query.startAfter(cursorSnapshot);
+  }
+
+  const snapshot = await query.limit(request.limit + 1).get();
+  const pageDocs = snapshot.docs.slice(0, request.limit);
+  const hasMore = snapshot.docs.length > request.limit;
+  return {
+    docs: pageDocs.filter(doc => doc.get('deleted') !== true),
+    nextCursor: hasMore && pageDocs.length > 0 ? pageDocs[pageDocs.length - 1].id : null,
+  };
+}
+
+/**
+ * Sums matching records into hourly or daily buckets per location, in each record's time zone.
+ * A recording's counts are split over the hours it spans as in the `rollups` collection (see
+ * `hourlyCountsOf`), and it counts as one recording in every bucket it covers. Unlike the rollups
+ * this honours every filter (camera, direction, upload source), at the cost of reading the records.
+ */
+export async function aggregateVisitorLogs(filters: VisitorLogFilters, groupBy: GroupBy): Promise<VisitorLogBucket[]> {
+  const snapshot = await buildVisitorLogQuery(filters).get();
+  const buckets = new Map<string, VisitorLogBucket>();
+  for (const doc of snapshot.docs) {
+    const record = doc.data();
+    const timeZone = record.timeZone || ROLLUP_TIME_ZONE;
+    const locationName = record.locationName || 'N/A';
+    const covered = new Set<string>();
+    for (const hour of hourlyCountsOf(record)) {
+      const start = groupBy === 'hour' ? hour.start : localBucketStart(hour.start, timeZone, 'day');
+      const key = `${start.getTime()}|${locationName}`;
+      const bucket = buckets.get(key) ?? { start, locationName, total: 0, entering: 0, exiting: 0, recordingCount: 0 };
+      bucket.total += hour.counts.total;
+      bucket.entering += hour.counts.entering;
+      bucket.exiting += hour.counts.exiting;
+      if (!covered.has(key)) {
+        bucket.recordingCount++;
+        covered.add(key);
+      }
+      buckets.set(key, bucket);
+    }
+  }
+  return [...buckets.values()].sort((a, b) => a.start.getTime() - b.start.getTime() || a.locationName.localeCompare(b.locationName));
+}
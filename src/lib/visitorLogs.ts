@@ -0,0 +1,64 @@
+export const VISITOR_LOGS_COLLECTION = 'visitor_logs';
+
+/** Per-segment counts of a recording, stored under each `visitor_logs` document. */
+export const SEGMENTS_SUBCOLLECTION = 'segments';
+
+/** Individual crossings returned in detailed mode, stored under each `visitor_logs` document. */
+export const CROSSING_EVENTS_SUBCOLLECTION = 'crossing_events';
+
+/** Append-only history of manual changes, stored under each `visitor_logs` document. */
+export const REVISIONS_SUBCOLLECTION = 'revisions';
+
+/** Results of re-processing a record's stored video, stored under each `visitor_logs` document. */
+export const COUNT_REVISIONS_SUBCOLLECTION = 'count_revisions';
+
+export interface DirectionalCounts {
+  /** People counted moving in the 'entering' direction, or null if that direction was not counted. */
+  entering: number | null;
+  exiting: number | null;
+  /** entering - exiting; only known when both directions were counted. */
+  net: number | null;
+}
+
+/**
+ * Splits a count into its per-direction parts. Handles both bidirectional records, which store
+ * `enteringCount`/`exitingCount`, and single-direction records, which only have `visitorCount`.
+ */
+export function directionalCounts(record: {
+  countedDirection: string;
+  visitorCount: number;
+  enteringCount?: number | null;
+  exitingCount?: number | null;
+}): DirectionalCounts {
+  if (record.countedDirection === 'both') {
+    const entering = record.enteringCount ?? 0;
+    const exiting = record.exitingCount ?? 0;
+    return { entering, exiting, net: entering - exiting };
+  }
+  if (record.countedDirection === 'entering') {
+    return { entering: record.visitorCount, exiting: null, net: null };
+  }
+  if (record.countedDirection === 'exiting') {
+    return { entering: null, exiting: record.visitorCount, net: null };
+  }
+  return { entering: null, exiting: null, net: null };
+}
+
+/**
+ * What was counted in one stretch of a recording (one per counted segment), stored on the record
+ * as `countTimeline` so rollups can put the counts into the hours they happened in.
+ */
+export interface CountTimelineEntry {
+  startOffsetSec: number;
+  endOffsetSec: number;
+  visitorCount: number;
+  enteringCount: number | null;
+  exitingCount: number | null;
+}
+
+/** Short Japanese labels for `countedDirection`, as shown in tables and reports. */
+export const DIRECTION_LABELS: Record<string, string> = {
+  entering: 'R→L',
+  exiting: 'L→R',
+  both: '双方向',
+};
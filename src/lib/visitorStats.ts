@@ -0,0 +1,111 @@
+import { addDays, addHours, addMonths, addWeeks, getHours, isSameDay, startOfDay, startOfHour, startOfMonth, startOfWeek, subWeeks } from 'date-fns';
+
+export type Granularity = 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * Visitors counted at one location within one hour, as returned by `GET /api/rollups`.
+ * Counts from single-direction records are already assigned to the direction that was counted.
+ */
+export interface CountSample {
+  start: Date;
+  locationName: string;
+  total: number;
+  entering: number;
+  exiting: number;
+  recordingCount: number;
+}
+
+export interface TimeBucket {
+  start: Date;
+  total: number;
+  entering: number;
+  exiting: number;
+  byLocation: Record<string, number>;
+}
+
+/** Weeks start on Monday, matching the museum's opening week. */
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export function bucketStart(date: Date, granularity: Granularity): Date {
+  switch (granularity) {
+    case 'hour': return startOfHour(date);
+    case 'day': return startOfDay(date);
+    case 'week': return startOfWeek(date, WEEK_OPTIONS);
+    case 'month': return startOfMonth(date);
+  }
+}
+
+function nextBucket(date: Date, granularity: Granularity): Date {
+  switch (granularity) {
+    case 'hour': return addHours(date, 1);
+    case 'day': return addDays(date, 1);
+    case 'week': return addWeeks(date, 1);
+    case 'month': return addMonths(date, 1);
+  }
+}
+
+/**
+ * Groups samples into consecutive buckets from `from` up to (but excluding) `to`.
+ * Empty buckets are included so charts show gaps as zero.
+ */
+export function buildTimeSeries(samples: CountSample[], granularity: Granularity, range: { from: Date; to: Date }): TimeBucket[] {
+  const buckets = new Map<number, TimeBucket>();
+  for (let start = bucketStart(range.from, granularity); start < range.to; start = nextBucket(start, granularity)) {
+    buckets.set(start.getTime(), { start, total: 0, entering: 0, exiting: 0, byLocation: {} });
+  }
+
+  for (const sample of samples) {
+    if (sample.start < range.from || sample.start >= range.to) continue;
+    const bucket = buckets.get(bucketStart(sample.start, granularity).getTime());
+    if (!bucket) continue;
+    bucket.total += sample.total;
+    bucket.entering += sample.entering;
+    bucket.exiting += sample.exiting;
+    bucket.byLocation[sample.locationName] = (bucket.byLocation[sample.locationName] ?? 0) + sample.total;
+  }
+  return [...buckets.values()];
+}
+
+/** Total visitors per location, largest first. */
+export function totalsByLocation(samples: CountSample[]): { locationName: string; total: number }[] {
+  const totals = new Map<string, number>();
+  for (const sample of samples) {
+    totals.set(sample.locationName, (totals.get(sample.locationName) ?? 0) + sample.total);
+  }
+  return [...totals.entries()]
+    .map(([locationName, total]) => ({ locationName, total }))
+    .sort((a, b) => b.total - a.total);
+}
+
+/** Total visitors on the same calendar day as `day`. */
+export function totalForDay(samples: CountSample[], day: Date): number {
+  return samples
+    .filter(sample => isSameDay(sample.start, day))
+    .reduce((sum, sample) => sum + sample.total, 0);
+}
+
+/**
+ * Today's total compared with the same weekday one week earlier.
+ * `changeRatio` is null when last week had no visitors.
+ */
+export function compareWithLastWeek(samples: CountSample[], today: Date): { today: number; lastWeek: number; changeRatio: number | null } {
+  const todayTotal = totalForDay(samples, today);
+  const lastWeekTotal = totalForDay(samples, subWeeks(today, 1));
+  return {
+    today: todayTotal,
+    lastWeek: lastWeekTotal,
+    changeRatio: lastWeekTotal > 0 ? (todayTotal - lastWeekTotal) / lastWeekTotal : null,
+  };
+}
+
+/**
+ * The hour of day (0-23) with the most visitors across all samples, or null if there are none.
+ */
+export function busiestHour(samples: CountSample[]): { hour: number; total: number } | null {
+  const totals = new Array<number>(24).fill(0);
+  for (const sample of samples) {
+    totals[getHours(sample.start)] += sample.total;
+  }
+  const max = Math.max(...totals);
+  return max > 0 ? { hour: totals.indexOf(max), total: max } : null;
+}
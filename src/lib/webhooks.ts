@@ -0,0 +1,408 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { Timestamp, type DocumentReference } from 'firebase-admin/firestore';
+import { errorMessage } from '@/lib/errors';
+import { requireDbAdmin } from '@/lib/firebaseAdmin';
+import { serializeDocument } from '@/lib/serializeDocument';
+import { VISITOR_LOGS_COLLECTION } from '@/lib/visitorLogs';
+
+/** Outbound webhook endpoints; each keeps a log of its deliveries under `deliveries`. */
+export const WEBHOOK_ENDPOINTS_COLLECTION = 'webhook_endpoints';
+export const WEBHOOK_DELIVERIES_SUBCOLLECTION = 'deliveries';
+
+export const WEBHOOK_EVENTS = ['count.completed', 'count.failed', 'count.corrected', 'alert.triggered'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+/** `webhook.test` is only sent by the test button, whatever the endpoint subscribes to. */
+export type WebhookEventType = WebhookEvent | 'webhook.test';
+
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5;
+const WEBHOOK_RETRY_BASE_DELAY_MS = 2000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+/** How long a worker holds a delivery it is sending before `retryPendingWebhookDeliveries` may take it over. */
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+/** Only the start of a receiver's response body is kept in the delivery log. */
+const MAX_LOGGED_RESPONSE_CHARS = 500;
+const DEFAULT_DELIVERY_LIMIT = 50;
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookEndpointInput {
+  name: string;
+  /** http(s) URL that receives a JSON POST per event. */
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+}
+
+export interface WebhookEndpointRecord extends WebhookEndpointInput {
+  /** HMAC-SHA256 key for the `X-CountCam-Signature` header; only returned when the endpoint is created. */
+  secret: string;
+  lastDeliveryAt: Timestamp | null;
+  lastDeliveryStatus: WebhookDeliveryStatus | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface WebhookAttempt {
+  attemptedAt: Timestamp;
+  /** HTTP status of the response; null when the request failed without one (timeout, DNS, ...). */
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/** One event sent to one endpoint, stored as `webhook_endpoints/{id}/deliveries/{deliveryId}`. */
+export interface WebhookDeliveryRecord {
+  eventId: string;
+  event: WebhookEventType;
+  /** The exact request body, so receivers' signature problems can be reproduced. */
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  maxAttempts: number;
+  /**
+   * While pending: when the next attempt is due, or when the worker sending it is presumed dead.
+   * `retryPendingWebhookDeliveries` sends pending deliveries once this has passed.
+   */
+  nextAttemptAt: Timestamp | null;
+  /** Start of the last response body. */
+  responseBody: string | null;
+  createdAt: Timestamp;
+  finishedAt: Timestamp | null;
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/**
+ * Validates a request body for creating or replacing an endpoint:
+ * `{ "name", "url", "events": string[], "enabled"? }`.
+ */
+export function parseWebhookEndpointInput(body: any): WebhookEndpointInput {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    throw new WebhookError('"name" is required.', 400);
+  }
+  let url: URL | null = null;
+  try {
+    url = typeof body.url === 'string' ? new URL(body.url.trim()) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+    throw new WebhookError('"url" must be an http or https URL.', 400);
+  }
+  const events = Array.isArray(body.events) ? [...new Set(body.events)] : [];
+  if (events.length === 0 || events.some(event => !WEBHOOK_EVENTS.includes(event as WebhookEvent))) {
+    throw new WebhookError(`"events" must be a non-empty array of: ${WEBHOOK_EVENTS.join(', ')}.`, 400);
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    throw new WebhookError('"enabled" must be a boolean.', 400);
+  }
+  return { name, url: url.toString(), events: events as WebhookEvent[], enabled: body.enabled ?? true };
+}
+
+/** The endpoint without its secret, for listing. */
+export function toWebhookEndpointSummary(endpoint: WebhookEndpointRecord & { id: string }) {
+  const { secret: _secret, ...summary } = endpoint;
+  return summary;
+}
+
+export async function listWebhookEndpoints() {
+  const snapshot = await requireDbAdmin().collection(WEBHOOK_ENDPOINTS_COLLECTION).orderBy('name').get();
+  return snapshot.docs.map(doc => ({ id: doc.id, ...(doc.data() as WebhookEndpointRecord) }));
+}
+
+/** Creates an endpoint with a new signing secret. The secret is only returned here. */
+export async function createWebhookEndpoint(input: WebhookEndpointInput): Promise<{ id: string; secret: string }> {
+  const secret = `whsec_${randomBytes(24).toString('hex')}`;
+  const now = Timestamp.now();
+  const record: WebhookEndpointRecord = {
+    ...input,
+    secret,
+    lastDeliveryAt: null,
+    lastDeliveryStatus: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const docRef = await requireDbAdmin().collection(WEBHOOK_ENDPOINTS_COLLECTION).add(record);
+  return { id: docRef.id, secret };
+}
+
+/** Replaces an endpoint's settings; the secret is kept. */
+export async function updateWebhookEndpoint(id: string, input: WebhookEndpointInput): Promise<void> {
+  const docRef = requireDbAdmin().collection(WEBHOOK_ENDPOINTS_COLLECTION).doc(id);
+  const snapshot = await docRef.get();
+  if (!snapshot.exists) {
+    throw new WebhookError(`Webhook endpoint "${id}" not found.`, 404);
+  }
+  await docRef.update({ ...input, updatedAt: Timestamp.now() });
+}
+
+/** Deletes an endpoint together with its delivery log. */
+export async function deleteWebhookEndpoint(id: string): Promise<void> {
+  const db = requireDbAdmin();
+  const docRef = db.collection(WEBHOOK_ENDPOINTS_COLLECTION).doc(id);
+  const snapshot = await docRef.get();
+  if (!snapshot.exists) {
+    throw new WebhookError(`Webhook endpoint "${id}" not found.`, 404);
+  }
+  await db.recursiveDelete(docRef);
+}
+
+/** The most recent deliveries to an endpoint, newest first. */
+export async function listWebhookDeliveries(id: string, limit = DEFAULT_DELIVERY_LIMIT) {
+  const docRef = requireDbAdmin().collection(WEBHOOK_ENDPOINTS_COLLECTION).doc(id);
+  const [endpoint, deliveries] = await Promise.all([
+    docRef.get(),
+    docRef.collection(WEBHOOK_DELIVERIES_SUBCOLLECTION).orderBy('createdAt', 'desc').limit(limit).get(),
+  ]);
+  if (!endpoint.exists) {
+    throw new WebhookError(`Webhook endpoint "${id}" not found.`, 404);
+  }
+  return deliveries.docs;
+}
+
+/**
+ * Hex HMAC-SHA256 over `{timestamp}.{body}`. Receivers recompute it with their secret and compare
+ * it with the `X-CountCam-Signature` header (`sha256=<hex>`), and should reject old timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/** 5xx, 408 and 429 responses and network errors are retried; other failures are final. */
+function isRetryable(statusCode: number | null): boolean {
+  return statusCode === null || statusCode >= 500 || statusCode === 408 || statusCode === 429;
+}
+
+/**
+ * Logs a new delivery as pending before anything is sent, so a delivery whose worker dies is still
+ * found and sent by `retryPendingWebhookDeliveries`. The creator holds it for `DELIVERY_LEASE_MS`.
+ */
+async function createDelivery(
+  endpointId: string,
+  event: WebhookEventType,
+  eventId: string,
+  payload: string,
+  maxAttempts: number,
+): Promise<{ ref: DocumentReference; delivery: WebhookDeliveryRecord }> {
+  const now = Timestamp.now();
+  const ref = requireDbAdmin().collection(WEBHOOK_ENDPOINTS_COLLECTION).doc(endpointId).collection(WEBHOOK_DELIVERIES_SUBCOLLECTION).doc();
+  const delivery: WebhookDeliveryRecord = {
+    eventId,
+    event,
+    payload,
+    status: 'pending',
+    attempts: [],
+    maxAttempts,
+    nextAttemptAt: Timestamp.fromMillis(now.toMillis() + DELIVERY_LEASE_MS),
+    responseBody: null,
+    createdAt: now,
+    finishedAt: null,
+  };
+  await ref.set(delivery);
+  return { ref, delivery };
+}
+
+/**
+ * Sends a pending delivery until it succeeds, fails for good or runs out of attempts, and logs
+ * every attempt on the delivery document. Retries back off exponentially (2s, 4s, 8s, ...); with
+ * `retryInline` false only one attempt is made here and the retry is left to
+ * `retryPendingWebhookDeliveries`. Never throws.
+ */
+async function attemptDelivery(
+  endpointId: string,
+  endpoint: WebhookEndpointRecord,
+  deliveryRef: DocumentReference,
+  delivery: WebhookDeliveryRecord,
+  retryInline: boolean,
+): Promise<WebhookDeliveryRecord & { id: string }> {
+  const endpointRef = requireDbAdmin().collection(WEBHOOK_ENDPOINTS_COLLECTION).doc(endpointId);
+  const { event, eventId, payload, maxAttempts } = delivery;
+  try {
+    for (;;) {
+      const attempt = delivery.attempts.length + 1;
+      const startedAt = Date.now();
+      const timestamp = Math.floor(startedAt / 1000);
+      let statusCode: number | null = null;
+      let error: string | null = null;
+      try {
+        const response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'CountCam-Webhooks/1.0',
+            'X-CountCam-Event': event,
+            'X-CountCam-Event-Id': eventId,
+            'X-CountCam-Delivery': deliveryRef.id,
+            'X-CountCam-Timestamp': String(timestamp),
+            'X-CountCam-Signature': `sha256=${signWebhookPayload(endpoint.secret, timestamp, payload)}`,
+          },
+          body: payload,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        statusCode = response.status;
+        delivery.responseBody = (await response.text().catch(() => '')).slice(0, MAX_LOGGED_RESPONSE_CHARS) || null;
+        if (!response.ok) {
+          error = `HTTP ${response.status}`;
+        }
+      } catch (fetchError) {
+        error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+      }
+
+      delivery.attempts.push({ attemptedAt: Timestamp.now(), statusCode, error, durationMs: Date.now() - startedAt });
+      const done = error === null || attempt >= maxAttempts || !isRetryable(statusCode);
+      const retryDelayMs = WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      if (done) {
+        delivery.status = error === null ? 'succeeded' : 'failed';
+        delivery.finishedAt = Timestamp.now();
+        delivery.nextAttemptAt = null;
+      } else {
+        // While retrying here, keep holding the delivery so the retry runner leaves it alone.
+        delivery.nextAttemptAt = Timestamp.fromMillis(Date.now() + retryDelayMs + (retryInline ? DELIVERY_LEASE_MS : 0));
+      }
+      await deliveryRef.update({
+        attempts: delivery.attempts,
+        responseBody: delivery.responseBody,
+        status: delivery.status,
+        nextAttemptAt: delivery.nextAttemptAt,
+        finishedAt: delivery.finishedAt,
+      });
+      if (done || !retryInline) break;
+
+      console.warn(`[Webhook] ${event} to ${endpointId} failed (attempt ${attempt}/${maxAttempts}), retrying: ${error}`);
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+    }
+    if (delivery.status !== 'pending') {
+      await endpointRef.update({ lastDeliveryAt: delivery.finishedAt, lastDeliveryStatus: delivery.status });
+    }
+    if (delivery.status === 'failed') {
+      console.error(`[Webhook] ${event} to ${endpointId} failed after ${delivery.attempts.length} attempt(s): ${delivery.attempts.at(-1)?.error}`);
+    }
+  } catch (error) {
+    console.error(`[Webhook] Could not deliver ${event} to ${endpointId}:`, error instanceof Error ? error.message : error);
+  }
+  return { id: deliveryRef.id, ...delivery };
+}
+
+function buildPayload(event: WebhookEventType, eventId: string, data: Record<string, unknown>): string {
+  return JSON.stringify({ id: eventId, type: event, createdAt: new Date().toISOString(), data });
+}
+
+/**
+ * Sends an event to every enabled endpoint subscribed to it, in parallel. The deliveries are logged
+ * as pending first, so they survive the process; by default this waits for them to finish,
+ * including retries. With `retryInline: false` it waits for the first attempt only and leaves
+ * retries to `retryPendingWebhookDeliveries`, for callers that emit many events in a row. Never
+ * throws, so callers can emit after their own work is done.
+ */
+export async function emitWebhookEvent(event: WebhookEvent, data: Record<string, unknown>, options: { retryInline?: boolean } = {}): Promise<void> {
+  try {
+    const snapshot = await requireDbAdmin()
+      .collection(WEBHOOK_ENDPOINTS_COLLECTION)
+      .where('events', 'array-contains', event)
+      .get();
+    const endpoints = snapshot.docs.filter(doc => doc.get('enabled') === true);
+    if (endpoints.length === 0) return;
+
+    const eventId = randomUUID();
+    const payload = buildPayload(event, eventId, data);
+    await Promise.all(endpoints.map(async doc => {
+      const { ref, delivery } = await createDelivery(doc.id, event, eventId, payload, WEBHOOK_MAX_ATTEMPTS);
+      await attemptDelivery(doc.id, doc.data() as WebhookEndpointRecord, ref, delivery, options.retryInline ?? true);
+    }));
+  } catch (error) {
+    console.error(`[Webhook] Could not emit ${event}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+export interface WebhookRetryResult {
+  endpointId: string;
+  deliveryId: string;
+  event: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+}
+
+/**
+ * Sends the pending deliveries that are due: retries whose backoff has passed, and deliveries whose
+ * worker stopped (its hold expired). Each is claimed in a transaction first, so concurrent runners
+ * do not send it twice. Deliveries to endpoints that were disabled meanwhile are marked failed.
+ * Meant to be called periodically, by `npm run webhooks:retry` or `POST /api/admin/webhooks/retry`.
+ */
+export async function retryPendingWebhookDeliveries(): Promise<WebhookRetryResult[]> {
+  const db = requireDbAdmin();
+  const due = await db.collectionGroup(WEBHOOK_DELIVERIES_SUBCOLLECTION)
+    .where('status', '==', 'pending')
+    .where('nextAttemptAt', '<=', Timestamp.now())
+    .get();
+
+  const results = await Promise.all(due.docs.map(async (doc): Promise<WebhookRetryResult | null> => {
+    const endpointRef = doc.ref.parent.parent;
+    if (!endpointRef) return null;
+    const claimed = await db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(doc.ref);
+      const delivery = snapshot.data() as WebhookDeliveryRecord | undefined;
+      const now = Timestamp.now();
+      if (!delivery || delivery.status !== 'pending' || !delivery.nextAttemptAt || delivery.nextAttemptAt.toMillis() > now.toMillis()) {
+        return null;
+      }
+      const nextAttemptAt = Timestamp.fromMillis(now.toMillis() + DELIVERY_LEASE_MS);
+      transaction.update(doc.ref, { nextAttemptAt });
+      return { ...delivery, nextAttemptAt };
+    });
+    if (!claimed) return null;
+
+    const endpoint = await endpointRef.get();
+    let delivery: WebhookDeliveryRecord;
+    if (!endpoint.exists || endpoint.get('enabled') !== true) {
+      delivery = { ...claimed, status: 'failed', nextAttemptAt: null, finishedAt: Timestamp.now() };
+      await doc.ref.update({ status: delivery.status, nextAttemptAt: null, finishedAt: delivery.finishedAt });
+    } else {
+      delivery = await attemptDelivery(endpointRef.id, endpoint.data() as WebhookEndpointRecord, doc.ref, claimed, true);
+    }
+    return { endpointId: endpointRef.id, deliveryId: doc.id, event: delivery.event, status: delivery.status, attemptCount: delivery.attempts.length };
+  }));
+  return results.filter((result): result is WebhookRetryResult => result !== null);
+}
+
+/**
+ * Sends a `webhook.test` event to one endpoint with a single attempt, even if it is disabled,
+ * and returns the logged delivery.
+ */
+export async function sendTestWebhook(id: string): Promise<WebhookDeliveryRecord & { id: string }> {
+  const snapshot = await requireDbAdmin().collection(WEBHOOK_ENDPOINTS_COLLECTION).doc(id).get();
+  if (!snapshot.exists) {
+    throw new WebhookError(`Webhook endpoint "${id}" not found.`, 404);
+  }
+  const eventId = randomUUID();
+  const payload = buildPayload('webhook.test', eventId, { endpointId: id, message: 'Test event from CountCam.' });
+  const { ref, delivery } = await createDelivery(id, 'webhook.test', eventId, payload, 1);
+  return attemptDelivery(id, snapshot.data() as WebhookEndpointRecord, ref, delivery, true);
+}
+
+/**
+ * Emits `count.corrected` with the record as it is now. `action` says what changed it: a manual
+ * edit, a review override, a deletion or a promoted re-count.
+ */
+export async function notifyCountCorrected(
+  visitorLogId: string,
+  correction: { action: 'update' | 'review' | 'delete' | 'reprocess'; changedBy: string; reason?: string | null },
+  options: { retryInline?: boolean } = {},
+): Promise<void> {
+  try {
+    const snapshot = await requireDbAdmin().collection(VISITOR_LOGS_COLLECTION).doc(visitorLogId).get();
+    if (!snapshot.exists) return;
+    await emitWebhookEvent('count.corrected', {
+      correction: { ...correction, reason: correction.reason ?? null },
+      visitorLog: serializeDocument(snapshot.id, snapshot.data()!),
+    }, options);
+  } catch (error) {
+    console.error(`[Webhook] Could not emit count.corrected for ${visitorLogId}:`, errorMessage(error));
+  }
+}
@@ -0,0 +1,35 @@
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { evaluateAlertRules } from '@/lib/alerts';
+
+/**
+ * Evaluates the enabled alert rules; run it from cron, e.g. every 15 minutes, so time-based rules
+ * such as "no upload for N hours" fire without new uploads.
+ * Usage: npm run alerts:check -- [--location <name>]
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      location: { type: 'string' },
+    },
+  });
+
+  const results = await evaluateAlertRules({ locationName: values.location });
+  if (results.length === 0) {
+    console.log('No enabled alert rules.');
+  }
+  for (const result of results) {
+    const outcome = result.error
+      ? `error (${result.error})`
+      : `${result.triggered ? 'triggered' : 'ok'} (observed ${result.observedValue})${result.openedAlertId ? `, opened ${result.openedAlertId}` : ''}${result.resolvedAlertId ? `, resolved ${result.resolvedAlertId}` : ''}`;
+    console.log(`${result.ruleId}: ${outcome}`);
+  }
+  if (results.some(result => result.error)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Checking alerts failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,28 @@
+import 'dotenv/config';
+import { SHADOW_PROMPT_VERSION, comparePromptVersions } from '@/lib/promptExperiments';
+
+/**
+ * Compares a candidate prompt's shadow counts with the production counts of the same uploads.
+ * Usage: npm run prompts:compare -- [candidate version, default SHADOW_PROMPT_VERSION]
+ */
+async function main() {
+  const candidateVersion = process.argv[2] || SHADOW_PROMPT_VERSION;
+  if (!candidateVersion) {
+    throw new Error('Usage: npm run prompts:compare -- <candidate version> (or set SHADOW_PROMPT_VERSION)');
+  }
+  const comparison = await comparePromptVersions(candidateVersion);
+  const format = (value: number | null) => value === null ? '-' : value.toFixed(2);
+
+  console.log(`Prompt ${candidateVersion} vs production (${Object.entries(comparison.productionVersions).map(([version, count]) => `${version}: ${count}`).join(', ') || 'none'}):`);
+  console.log(`  Records counted by both:     ${comparison.recordCount}`);
+  console.log(`  Mean difference (cand-prod): ${format(comparison.meanDifference)}`);
+  console.log(`  Mean absolute difference:    ${format(comparison.meanAbsoluteDifference)}`);
+  console.log(`  Reviewed records:            ${comparison.reviewedCount}`);
+  console.log(`  MAE vs reviewer, production: ${format(comparison.productionMeanAbsoluteError)}`);
+  console.log(`  MAE vs reviewer, candidate:  ${format(comparison.candidateMeanAbsoluteError)}`);
+}
+
+main().catch(error => {
+  console.error('Comparing prompts failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,103 @@
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { ModelSettingsSchema, type ModelSettings } from '@/ai/types';
+import { findPreviousRun, runEvaluation, type ErrorStats, type EvaluationSummary } from '@/lib/evaluation';
+
+/**
+ * Counts every video of a ground-truth dataset and reports how far the counts are off.
+ * Usage: npm run eval -- <dataset.json> [--provider googleai|stub] [--model NAME] [--temperature T] [--prompt VERSION] [--no-save]
+ */
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      temperature: { type: 'string' },
+      prompt: { type: 'string' },
+      'no-save': { type: 'boolean', default: false },
+    },
+  });
+  const datasetPath = positionals[0];
+  if (!datasetPath) {
+    throw new Error('Usage: npm run eval -- <dataset.json> [--provider googleai|stub] [--model NAME] [--temperature T] [--prompt VERSION] [--no-save]');
+  }
+  const modelOverrides: ModelSettings = ModelSettingsSchema.parse({
+    ...(values.provider ? { provider: values.provider } : {}),
+    ...(values.model ? { model: values.model } : {}),
+    ...(values.temperature ? { temperature: Number(values.temperature) } : {}),
+  });
+
+  console.log(`Evaluating ${datasetPath} (overrides: ${JSON.stringify(modelOverrides)}, prompt: ${values.prompt ?? 'production'})...`);
+  const { runId, run, results } = await runEvaluation(datasetPath, {
+    modelOverrides,
+    promptVersion: values.prompt,
+    save: !values['no-save'],
+    onItem: (result, index, total) => {
+      const outcome = result.predictedCount === null
+        ? `FAILED: ${result.failure}`
+        : `expected ${result.expectedCount}, counted ${result.predictedCount} (${formatSigned(result.error)})`;
+      console.log(`  [${index + 1}/${total}] ${result.itemId} (${result.modelSettings.provider}/${result.modelSettings.model}): ${outcome}`);
+    },
+  });
+
+  console.log(`\nDataset "${run.datasetName}", prompt ${run.promptVersion}: ${results.length} item(s), ${run.summary.failedCount} failed.`);
+  console.table([statsRow('All', run.summary), ...run.byLocation.map(stats => statsRow(stats.locationName, stats))]);
+  if (run.summary.crossingRecall !== null || run.summary.crossingPrecision !== null) {
+    console.log(`Crossing timestamps (±2s): precision ${formatRatio(run.summary.crossingPrecision)}, recall ${formatRatio(run.summary.crossingRecall)}`);
+  }
+
+  if (!runId) {
+    console.log('Not saved (--no-save).');
+    return;
+  }
+  console.log(`Saved as evaluation_runs/${runId}.`);
+  const previous = await findPreviousRun(run.datasetName, run.startedAt);
+  if (!previous) {
+    console.log('No earlier run of this dataset to compare with.');
+    return;
+  }
+  if (previous.datasetHash !== run.datasetHash) {
+    console.log('Note: the dataset file has changed since the previous run.');
+  }
+  console.log(`Compared with ${previous.id} (${previous.startedAt.toDate().toISOString()}, prompt ${previous.promptVersion ?? 'v1'}, overrides: ${JSON.stringify(previous.modelOverrides)}):`);
+  console.log(`  MAE  ${formatNumber(previous.summary.meanAbsoluteError)} -> ${formatNumber(run.summary.meanAbsoluteError)} (${formatChange(previous.summary.meanAbsoluteError, run.summary.meanAbsoluteError)})`);
+  console.log(`  Bias ${formatNumber(previous.summary.bias)} -> ${formatNumber(run.summary.bias)} (${formatChange(previous.summary.bias, run.summary.bias)})`);
+  if (previous.summary.meanAbsoluteError !== null && run.summary.meanAbsoluteError !== null && run.summary.meanAbsoluteError > previous.summary.meanAbsoluteError) {
+    console.log('  Accuracy got WORSE than the previous run.');
+  }
+}
+
+function statsRow(label: string, stats: ErrorStats | EvaluationSummary) {
+  return {
+    location: label,
+    items: stats.itemCount,
+    expected: stats.expectedTotal,
+    counted: stats.predictedTotal,
+    MAE: formatNumber(stats.meanAbsoluteError),
+    bias: formatNumber(stats.bias),
+  };
+}
+
+function formatNumber(value: number | null): string {
+  return value === null ? '-' : value.toFixed(2);
+}
+
+function formatSigned(value: number | null): string {
+  return value === null ? '-' : `${value > 0 ? '+' : ''}${value}`;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatChange(before: number | null, after: number | null): string {
+  if (before === null || after === null) return 'n/a';
+  const change = after - before;
+  return `${change > 0 ? '+' : ''}${change.toFixed(2)}`;
+}
+
+main().catch(error => {
+  console.error('Evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { purgeExpiredVideos, VIDEO_RETENTION_DAYS } from '@/lib/videoRetention';
+
+/**
+ * Deletes stored videos past the retention period. Counts and records are kept.
+ * Usage: npm run videos:purge -- [--days 30] [--dry-run]
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      days: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  const retentionDays = values.days !== undefined ? Number(values.days) : VIDEO_RETENTION_DAYS;
+  if (!Number.isInteger(retentionDays) || retentionDays < 0) {
+    throw new Error('--days must be a non-negative integer.');
+  }
+
+  const result = await purgeExpiredVideos({ retentionDays, dryRun: values['dry-run'] });
+  console.log(`Videos from before ${result.cutoff.toISOString()}: ${result.expiredCount}`);
+  if (result.dryRun) {
+    console.log('Dry run: nothing was deleted.');
+  } else {
+    console.log(`Deleted: ${result.deletedCount}, failed: ${result.failedCount}`);
+  }
+}
+
+main().catch(error => {
+  console.error('Purging videos failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+import 'dotenv/config';
+import { rebuildRollups, ROLLUP_TIME_ZONE } from '@/lib/rollups';
+
+/**
+ * Recomputes the `rollups` collection from every visitor_logs record.
+ * Usage: npm run rollups:rebuild
+ */
+async function main() {
+  console.log(`Rebuilding rollups (time zone: ${ROLLUP_TIME_ZONE})...`);
+  const { recordCount, rollupCount } = await rebuildRollups();
+  console.log(`Done: ${recordCount} records read, ${rollupCount} rollup documents written.`);
+}
+
+main().catch(error => {
+  console.error('Rebuilding rollups failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,25 @@
+import 'dotenv/config';
+import { retryPendingWebhookDeliveries } from '@/lib/webhooks';
+
+/**
+ * Sends webhook deliveries that are still pending: retries that are due, and deliveries whose
+ * worker stopped before finishing; run it from cron, e.g. every 5 minutes.
+ * Usage: npm run webhooks:retry
+ */
+async function main() {
+  const results = await retryPendingWebhookDeliveries();
+  if (results.length === 0) {
+    console.log('No webhook deliveries are due.');
+  }
+  for (const result of results) {
+    console.log(`${result.endpointId}/${result.deliveryId} (${result.event}): ${result.status} after ${result.attemptCount} attempt(s)`);
+  }
+  if (results.some(result => result.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Retrying webhook deliveries failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { continueCountJobs, runCountJobBatch } from '@/lib/countPipeline';
+
+/**
+ * Works through paused processing jobs without the request time limit, and takes over or fails
+ * jobs whose worker stopped; run it from cron, e.g. every 5 minutes.
+ * Usage: npm run jobs:run -- [--job <id>]
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      job: { type: 'string' },
+    },
+  });
+
+  const results = values.job
+    ? [await runCountJobBatch(values.job, Infinity)]
+    : await continueCountJobs(Infinity);
+  if (results.length === 0) {
+    console.log('No processing jobs are waiting.');
+  }
+  for (const result of results) {
+    console.log(`${result.jobId}: ${result.status} (${result.countedSegmentCount}/${result.segmentCount ?? '?'} segment(s))`);
+  }
+  if (results.some(result => result.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Continuing processing jobs failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { runDueReportSchedules, runReportSchedule } from '@/lib/reportSchedules';
+
+/**
+ * Delivers the report schedules that are due; run it from cron, e.g. hourly.
+ * Usage: npm run reports:run -- [--schedule <id> [--dry-run]]
+ * `--schedule` sends that schedule's latest completed period now, due or not; with `--dry-run` the
+ * report is printed instead of delivered.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      schedule: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  if (values['dry-run'] && !values.schedule) {
+    throw new Error('--dry-run needs --schedule.');
+  }
+
+  const results = values.schedule
+    ? [await runReportSchedule(values.schedule, { dryRun: values['dry-run'] })]
+    : await runDueReportSchedules();
+  if (results.length === 0) {
+    console.log('No report schedules are due.');
+  }
+  for (const result of results) {
+    console.log(`${result.name} (${result.scheduleId}) ${result.period.from}..${result.period.to}: ${result.status}${result.deliveredTo ? ` -> ${result.deliveredTo}` : ''}${result.error ? ` (${result.error})` : ''}`);
+    if (result.report) {
+      console.log(`\n${result.report.text}\n`);
+    }
+  }
+  if (results.some(result => result.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Running report schedules failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { continueReprocessRuns, runReprocessBatch } from '@/lib/reprocessing';
+
+/**
+ * Works through queued and paused re-processing runs without the request time limit; run it from
+ * cron, e.g. every 5 minutes, or once by hand for a large run.
+ * Usage: npm run reprocess:run -- [--run <id>]
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      run: { type: 'string' },
+    },
+  });
+
+  const results = values.run
+    ? [await runReprocessBatch(values.run, Infinity)]
+    : await continueReprocessRuns(Infinity);
+  if (results.length === 0) {
+    console.log('No re-processing runs are waiting.');
+  }
+  for (const result of results) {
+    console.log(`${result.runId}: ${result.status} (${result.processedCount}/${result.totalCount ?? '?'} record(s))`);
+  }
+  if (results.some(result => result.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Re-processing failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { isUserRole, USER_ROLES } from '@/lib/roles';
+import { createUser, getUserByEmail, updateUser, UserError } from '@/lib/users';
+
+/**
+ * Gives a Firebase Auth user a web app role, e.g. to create the first admin.
+ * Usage: npm run users:set-role -- --email <email> --role <viewer|operator|admin> [--password <password>]
+ * With `--password`, a user that does not exist yet is created. Set FIREBASE_AUTH_EMULATOR_HOST to
+ * work against the Auth emulator.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      email: { type: 'string' },
+      role: { type: 'string' },
+      password: { type: 'string' },
+    },
+  });
+  if (!values.email || !isUserRole(values.role)) {
+    throw new Error(`--email and --role (${USER_ROLES.join(' | ')}) are required.`);
+  }
+
+  let user;
+  try {
+    const existing = await getUserByEmail(values.email);
+    user = await updateUser(existing.uid, { role: values.role });
+  } catch (error) {
+    if (!(error instanceof UserError && error.status === 404) || !values.password) {
+      throw error;
+    }
+    user = await createUser({ email: values.email, password: values.password, displayName: null, role: values.role });
+    console.log(`Created user ${user.email}.`);
+  }
+  console.log(`${user.email} (${user.uid}) now has the ${user.role} role.`);
+}
+
+main().catch(error => {
+  console.error('Setting the user role failed:', error);
+  process.exit(1);
+});